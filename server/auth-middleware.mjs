@@ -0,0 +1,90 @@
+import { parseUrl, sendJson } from './http.mjs';
+import { verifyJwt } from './jwt.mjs';
+import { touchSession } from './sessions.mjs';
+import { isDeleted } from './user-trash.mjs';
+
+/**
+ * Requests that are allowed without a bearer token.
+ * The /auth routes are handled before this middleware runs.
+ */
+function isPublicRequest(req) {
+  const { pathname } = parseUrl(req);
+  return req.method === 'OPTIONS' || pathname === '/';
+}
+
+/**
+ * Resources only the auth routes may touch directly.
+ * New users get their credentials through POST /users/:id/credentials
+ * (password-routes.mjs), which hashes the password on the server.
+ */
+function isForbiddenResource(req) {
+  const [, resource] = parseUrl(req).pathname.split('/');
+
+  if (['credentials', 'refreshTokens', 'passwordResets', 'outbox'].includes(resource)) {
+    return true;
+  }
+
+  // Failed attempts are recorded by /auth/login; admins may only read and clear them
+  if (resource === 'loginAttempts') {
+    return !['GET', 'DELETE'].includes(req.method);
+  }
+
+  return false;
+}
+
+/**
+ * Verifies a token and returns its claims and user, or the reason it was rejected
+ *
+ * @param {string} token
+ * @param {import('lowdb').Low} db
+ */
+export async function verifyToken(token, db) {
+  const { claims, error } = await verifyJwt(token);
+  if (error) {
+    return { error };
+  }
+
+  // A signed token still goes stale when its user is removed or changes role
+  const user = db.data.users?.find(u => String(u.id) === String(claims.sub));
+  if (!user || isDeleted(user) || user.username !== claims.username || user.role !== claims.role) {
+    return { error: 'Token claims do not match any user' };
+  }
+
+  // Revoked sessions are signed out on their next request
+  if (!claims.sid || !(await touchSession(db, claims.sid))) {
+    return { error: 'This session has ended' };
+  }
+
+  return { claims, user };
+}
+
+/**
+ * Rejects API requests that do not carry a valid bearer token with a 401.
+ * Verified requests get `req.auth = { claims, user }` for later middlewares.
+ *
+ * @param {import('lowdb').Low} db
+ */
+export function createAuthMiddleware(db) {
+  return async (req, res, next) => {
+    if (isPublicRequest(req)) {
+      return next();
+    }
+
+    const [scheme, token] = (req.headers.authorization ?? '').split(' ');
+    if (scheme !== 'Bearer' || !token) {
+      return sendJson(res, 401, { message: 'Missing bearer token' });
+    }
+
+    const { claims, user, error } = await verifyToken(token, db);
+    if (error) {
+      return sendJson(res, 401, { message: error });
+    }
+
+    if (isForbiddenResource(req)) {
+      return sendJson(res, 403, { message: 'Access forbidden' });
+    }
+
+    req.auth = { claims, user };
+    next();
+  };
+}
@@ -0,0 +1,228 @@
+import { randomBytes } from 'node:crypto';
+import { parseUrl, readJsonBody, sendJson } from './http.mjs';
+import { signJwt } from './jwt.mjs';
+import { verifyPassword } from './passwords.mjs';
+import { checkLoginAllowed, clearLoginFailures, recordLoginFailure } from './login-throttle.mjs';
+import {
+  CHALLENGE_LIFETIME,
+  endChallenge,
+  findChallenge,
+  isTwoFactorEnabled,
+  startChallenge,
+  verifySecondFactor
+} from './two-factor.mjs';
+import { endSessions, extendSession, openSession, recordLoginAttempt } from './sessions.mjs';
+import { isDeleted } from './user-trash.mjs';
+
+/**
+ * Local stand-in for an authentication server.
+ *
+ * POST /auth/login    { username, password }  -> AuthResponse, or a 2FA challenge
+ * POST /auth/2fa      { challengeToken, code } -> AuthResponse
+ * POST /auth/refresh  { refreshToken }        -> AuthResponse (rotates the refresh token)
+ * POST /auth/logout   { refreshToken }        -> 204
+ *
+ * Access tokens are HS256 JWTs; refresh tokens are opaque, single use and
+ * stored in the refreshTokens resource of db.json. Users with two-factor
+ * authentication get `{ twoFactorRequired, challengeToken, expiresIn }` from
+ * /auth/login and receive their session once /auth/2fa accepts their code.
+ * Wrong codes count as failed logins. Every attempt is written to the login
+ * history and every sign-in opens a session (see sessions.mjs).
+ */
+
+// Access token lifetime in seconds (1 hour)
+const ACCESS_TOKEN_LIFETIME = 3600;
+
+// Refresh token lifetime in seconds (7 days)
+const REFRESH_TOKEN_LIFETIME = 7 * 24 * 3600;
+
+// Deleted users cannot sign in
+function findUser(db, id) {
+  return db.data.users?.find(u => String(u.id) === String(id) && !isDeleted(u));
+}
+
+/**
+ * Signs an access token and stores a new refresh token for a session
+ *
+ * @param {import('lowdb').Low} db
+ * @param {object} user
+ * @param {string} sessionId
+ */
+async function issueSession(db, user, sessionId) {
+  const now = Math.floor(Date.now() / 1000);
+  const token = await signJwt({
+    sub: String(user.id),
+    username: user.username,
+    role: user.role,
+    sid: sessionId,
+    iat: now,
+    exp: now + ACCESS_TOKEN_LIFETIME
+  });
+
+  const refreshToken = {
+    id: randomBytes(32).toString('hex'),
+    userId: user.id,
+    sessionId,
+    expiresAt: Date.now() + REFRESH_TOKEN_LIFETIME * 1000
+  };
+  db.data.refreshTokens ??= [];
+  db.data.refreshTokens.push(refreshToken);
+  await db.write();
+
+  return {
+    user,
+    token,
+    expiresIn: ACCESS_TOKEN_LIFETIME,
+    refreshToken: refreshToken.id,
+    refreshExpiresIn: REFRESH_TOKEN_LIFETIME
+  };
+}
+
+/**
+ * Records a successful sign-in and opens a session for it
+ * Also used by the SSO login (oidc-routes.mjs).
+ *
+ * @param {import('lowdb').Low} db
+ * @param {import('node:http').IncomingMessage} req
+ * @param {object} user
+ * @param {'password' | 'two-factor' | 'sso'} method
+ */
+export async function signIn(db, req, user, method) {
+  await recordLoginAttempt(db, req, { username: user.username, userId: user.id, method, success: true });
+  const session = openSession(db, req, user, method, REFRESH_TOKEN_LIFETIME);
+  return issueSession(db, user, session.id);
+}
+
+/**
+ * Removes a refresh token and returns it, if it existed
+ */
+async function takeRefreshToken(db, id) {
+  const tokens = db.data.refreshTokens ?? [];
+  const index = tokens.findIndex(t => t.id === id);
+  if (index === -1) {
+    return null;
+  }
+
+  const [record] = tokens.splice(index, 1);
+  await db.write();
+  return record;
+}
+
+async function login(db, req, res) {
+  const { username, password } = await readJsonBody(req);
+  if (typeof username !== 'string' || typeof password !== 'string') {
+    return sendJson(res, 400, { message: 'Username and password are required' });
+  }
+
+  // Throttled and locked usernames are rejected before the password is checked
+  const credential = db.data.credentials?.find(c => c.username === username);
+  const user = credential && findUser(db, credential.userId);
+  const attempt = { username, userId: user?.id, method: 'password', success: false };
+
+  const blocked = checkLoginAllowed(db, username);
+  if (blocked) {
+    await recordLoginAttempt(db, req, { ...attempt, failureReason: blocked.body.code });
+    return sendJson(res, blocked.status, blocked.body);
+  }
+
+  if (!user || !(await verifyPassword(credential, password))) {
+    await recordLoginAttempt(db, req, { ...attempt, failureReason: 'invalid-credentials' });
+    const failure = await recordLoginFailure(db, username);
+    return sendJson(res, failure.status, failure.body);
+  }
+
+  // Failures are only cleared once the second factor is answered as well
+  if (isTwoFactorEnabled(db, user.id)) {
+    return sendJson(res, 200, {
+      twoFactorRequired: true,
+      challengeToken: startChallenge(user),
+      expiresIn: CHALLENGE_LIFETIME
+    });
+  }
+
+  await clearLoginFailures(db, username);
+
+  sendJson(res, 200, await signIn(db, req, user, 'password'));
+}
+
+async function verifyTwoFactor(db, req, res) {
+  const { challengeToken, code } = await readJsonBody(req);
+  const challenge = findChallenge(challengeToken);
+  const user = challenge && findUser(db, challenge.userId);
+
+  if (!challenge || !user) {
+    return sendJson(res, 401, { message: 'This sign-in attempt has expired, please sign in again', code: 'challenge-expired' });
+  }
+
+  const attempt = { username: challenge.username, userId: user.id, method: 'two-factor', success: false };
+
+  const blocked = checkLoginAllowed(db, challenge.username);
+  if (blocked) {
+    await recordLoginAttempt(db, req, { ...attempt, failureReason: blocked.body.code });
+    if (blocked.status === 423) {
+      endChallenge(challengeToken);
+    }
+    return sendJson(res, blocked.status, blocked.body);
+  }
+
+  if (!(await verifySecondFactor(db, user.id, code))) {
+    await recordLoginAttempt(db, req, { ...attempt, failureReason: 'invalid-code' });
+    const failure = await recordLoginFailure(db, challenge.username);
+    if (failure.status !== 401) {
+      endChallenge(challengeToken);
+      return sendJson(res, failure.status, failure.body);
+    }
+    return sendJson(res, 401, { ...failure.body, message: `Invalid verification code (${failure.body.remainingAttempts} attempts left)` });
+  }
+
+  endChallenge(challengeToken);
+  await clearLoginFailures(db, challenge.username);
+
+  sendJson(res, 200, await signIn(db, req, user, 'two-factor'));
+}
+
+async function refresh(db, req, res) {
+  const { refreshToken } = await readJsonBody(req);
+  const record = typeof refreshToken === 'string' ? await takeRefreshToken(db, refreshToken) : null;
+  const user = record && findUser(db, record.userId);
+
+  if (!record || record.expiresAt < Date.now() || !user || !extendSession(db, record.sessionId, REFRESH_TOKEN_LIFETIME)) {
+    return sendJson(res, 401, { message: 'Invalid or expired refresh token' });
+  }
+
+  sendJson(res, 200, await issueSession(db, user, record.sessionId));
+}
+
+async function logout(db, req, res) {
+  const { refreshToken } = await readJsonBody(req);
+  const record = typeof refreshToken === 'string' ? await takeRefreshToken(db, refreshToken) : null;
+  if (record) {
+    await endSessions(db, session => session.id === record.sessionId, 'logout', record.userId);
+  }
+
+  res.writeHead(204, { 'Access-Control-Allow-Origin': '*' });
+  res.end();
+}
+
+/**
+ * Handles the /auth routes and passes every other request on
+ *
+ * @param {import('lowdb').Low} db
+ */
+export function createAuthRoutes(db) {
+  const routes = {
+    '/auth/login': login,
+    '/auth/2fa': verifyTwoFactor,
+    '/auth/refresh': refresh,
+    '/auth/logout': logout
+  };
+
+  return (req, res, next) => {
+    const route = routes[parseUrl(req).pathname];
+    if (!route || req.method !== 'POST') {
+      return next();
+    }
+
+    return route(db, req, res);
+  };
+}
@@ -0,0 +1,69 @@
+/**
+ * Small helpers shared by the local API middlewares.
+ *
+ * The middlewares run in front of json-server on the raw Node request and
+ * response objects, so they cannot rely on tinyhttp's `res.json()` and must
+ * add the CORS header themselves for the browser to read the response.
+ */
+
+/**
+ * Writes a JSON response with CORS enabled
+ *
+ * @param {import('node:http').ServerResponse} res
+ * @param {number} status
+ * @param {unknown} body
+ * @param {Record<string, string>} [headers] - Extra response headers
+ */
+export function sendJson(res, status, body, headers = {}) {
+  res.writeHead(status, {
+    'Content-Type': 'application/json; charset=utf-8',
+    'Access-Control-Allow-Origin': '*',
+    ...headers
+  });
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * Parses the request URL into its path and query string
+ *
+ * @param {import('node:http').IncomingMessage} req
+ */
+export function parseUrl(req) {
+  return new URL(req.url ?? '/', 'http://localhost');
+}
+
+/**
+ * Reads and parses a JSON request body
+ * Resolves to an empty object when the body is missing or not JSON
+ *
+ * @param {import('node:http').IncomingMessage} req
+ * @returns {Promise<Record<string, unknown>>}
+ */
+export async function readJsonBody(req) {
+  const chunks = [];
+  for await (const chunk of req) {
+    chunks.push(chunk);
+  }
+
+  try {
+    const body = JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}');
+    return typeof body === 'object' && body !== null ? body : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Reads an application/x-www-form-urlencoded request body
+ *
+ * @param {import('node:http').IncomingMessage} req
+ * @returns {Promise<Record<string, string>>}
+ */
+export async function readFormBody(req) {
+  const chunks = [];
+  for await (const chunk of req) {
+    chunks.push(chunk);
+  }
+
+  return Object.fromEntries(new URLSearchParams(Buffer.concat(chunks).toString('utf8')));
+}
@@ -0,0 +1,112 @@
+import { randomUUID } from 'node:crypto';
+import { parseUrl, readJsonBody, sendJson } from './http.mjs';
+import { mayManageUser } from './permissions.mjs';
+import { isDeleted } from './user-trash.mjs';
+
+/**
+ * Audited impersonation sessions.
+ *
+ * POST /impersonations           { userId, reason, readOnly, durationMinutes } -> session
+ * POST /impersonations/:id/stop  { endReason }                                  -> session
+ *
+ * Every session is kept in the impersonations resource of db.json and
+ * records who impersonated whom, when, why, and when and how it ended.
+ * Runs after the permission middleware, which requires users.impersonate.
+ */
+
+// Longest impersonation session the server accepts, in minutes
+const MAX_DURATION_MINUTES = 8 * 60;
+
+const END_REASONS = ['stopped', 'expired', 'logout'];
+
+function findUser(db, id) {
+  return db.data.users?.find(u => String(u.id) === String(id) && !isDeleted(u));
+}
+
+async function startSession(db, req, res) {
+  const { userId, reason, readOnly, durationMinutes } = await readJsonBody(req);
+  const actor = req.auth.user;
+  const target = findUser(db, userId);
+  const trimmedReason = typeof reason === 'string' ? reason.trim() : '';
+  const duration = Number(durationMinutes);
+
+  if (!target) {
+    return sendJson(res, 400, { message: 'Unknown user to impersonate' });
+  }
+  if (String(target.id) === String(actor.id)) {
+    return sendJson(res, 400, { message: 'You cannot impersonate yourself' });
+  }
+  if (!mayManageUser(db, actor, target)) {
+    return sendJson(res, 403, { message: 'Missing permission: roles.manage' });
+  }
+  if (trimmedReason.length < 5) {
+    return sendJson(res, 400, { message: 'A reason of at least 5 characters is required' });
+  }
+  if (!Number.isFinite(duration) || duration <= 0 || duration > MAX_DURATION_MINUTES) {
+    return sendJson(res, 400, { message: `Duration must be between 1 and ${MAX_DURATION_MINUTES} minutes` });
+  }
+
+  const now = Date.now();
+  const session = {
+    id: randomUUID(),
+    actorId: actor.id,
+    actorUsername: actor.username,
+    targetId: target.id,
+    targetUsername: target.username,
+    reason: trimmedReason,
+    readOnly: readOnly === true,
+    startedAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + duration * 60 * 1000).toISOString(),
+    endedAt: null,
+    endReason: null
+  };
+
+  db.data.impersonations ??= [];
+  db.data.impersonations.push(session);
+  await db.write();
+
+  sendJson(res, 201, session);
+}
+
+async function stopSession(db, req, res, id) {
+  const { endReason } = await readJsonBody(req);
+  const session = db.data.impersonations?.find(s => s.id === id);
+
+  if (!session) {
+    return sendJson(res, 404, { message: 'Impersonation session not found' });
+  }
+  if (String(session.actorId) !== String(req.auth.user.id)) {
+    return sendJson(res, 403, { message: 'Only the impersonating user can stop this session' });
+  }
+
+  // Several tabs may stop the same session; the first stop wins
+  if (!session.endedAt) {
+    session.endedAt = new Date().toISOString();
+    session.endReason = END_REASONS.includes(endReason) ? endReason : 'stopped';
+    await db.write();
+  }
+
+  sendJson(res, 200, session);
+}
+
+/**
+ * @param {import('lowdb').Low} db
+ */
+export function createImpersonationRoutes(db) {
+  return (req, res, next) => {
+    const [, resource, id, action, ...rest] = parseUrl(req).pathname.split('/');
+    if (resource !== 'impersonations' || req.method === 'GET') {
+      return next();
+    }
+
+    if (req.method === 'POST' && !id) {
+      return startSession(db, req, res);
+    }
+    if (req.method === 'POST' && action === 'stop' && rest.length === 0) {
+      return stopSession(db, req, res, decodeURIComponent(id));
+    }
+
+    // The audit trail is append-only
+    sendJson(res, 403, { message: 'Access forbidden' });
+  };
+}
@@ -0,0 +1,111 @@
+/**
+ * Local API server
+ *
+ * Runs json-server's REST routes for `db.json` behind a small middleware
+ * pipeline, so the mock backend can enforce authentication like a real API.
+ *
+ * Usage: node server/index.mjs [port]
+ */
+import { createServer } from 'node:http';
+import { readFile } from 'node:fs/promises';
+import { watch } from 'chokidar';
+import { Low } from 'lowdb';
+import { JSONFile } from 'lowdb/node';
+// json-server's internal modules; package.json pins its exact version, as
+// they can move between betas
+import { createApp } from 'json-server/lib/app.js';
+import { Observer } from 'json-server/lib/observer.js';
+import { createAuthMiddleware } from './auth-middleware.mjs';
+import { createAuthRoutes } from './auth-routes.mjs';
+import { createPermissionMiddleware } from './permissions.mjs';
+import { createImpersonationRoutes } from './impersonation-routes.mjs';
+import { createCredentialRoutes, createPasswordChangeRoutes, createPasswordResetRoutes } from './password-routes.mjs';
+import { createTwoFactorAccountRoutes, createTwoFactorAdminRoutes } from './two-factor.mjs';
+import { createOidcRoutes } from './oidc-routes.mjs';
+import { createMockIdp } from './mock-idp.mjs';
+import { createAccountSessionRoutes, createSessionAdminRoutes } from './sessions.mjs';
+import { createInvitationAcceptRoutes, createInvitationAdminRoutes } from './invitation-routes.mjs';
+import { createUserQueryRoutes } from './user-query.mjs';
+import { createUserVersionRoutes } from './user-versions.mjs';
+import { createUserTrashRoutes } from './user-trash.mjs';
+import { createSavedFilterRoutes } from './saved-filters.mjs';
+
+const DB_FILE = 'db.json';
+const port = parseInt(process.argv[2] ?? process.env['PORT'] ?? '3000', 10);
+
+// SSO provider; without OIDC_ISSUER the built-in mock provider under /idp is used
+const mockIssuer = `http://localhost:${port}/idp`;
+const oidcIssuer = process.env['OIDC_ISSUER'] ?? mockIssuer;
+
+const observer = new Observer(new JSONFile(DB_FILE));
+const db = new Low(observer, {});
+await db.read();
+
+const app = createApp(db, { logger: false });
+
+// Middlewares run in order; the last one hands over to json-server
+const middlewares = [
+  ...(oidcIssuer === mockIssuer ? [createMockIdp({ issuer: mockIssuer })] : []),
+  createAuthRoutes(db),
+  createOidcRoutes(db, { issuer: oidcIssuer }),
+  createPasswordResetRoutes(db),
+  createInvitationAcceptRoutes(db),
+  createAuthMiddleware(db),
+  createPasswordChangeRoutes(db),
+  createTwoFactorAccountRoutes(db),
+  createAccountSessionRoutes(db),
+  createPermissionMiddleware(db),
+  createCredentialRoutes(db),
+  createImpersonationRoutes(db),
+  createTwoFactorAdminRoutes(db),
+  createSessionAdminRoutes(db),
+  createInvitationAdminRoutes(db),
+  // Before the trash routes, which answer 404 for /users/summary as an unknown user
+  createUserQueryRoutes(db),
+  createUserTrashRoutes(db),
+  createSavedFilterRoutes(db),
+  createUserVersionRoutes(db)
+];
+
+function handle(req, res, index = 0) {
+  const middleware = middlewares[index];
+  if (!middleware) {
+    return app.attach(req, res);
+  }
+
+  Promise.resolve(middleware(req, res, () => handle(req, res, index + 1))).catch(error => {
+    console.error('Middleware error:', error);
+    res.writeHead(500, { 'Access-Control-Allow-Origin': '*' });
+    res.end();
+  });
+}
+
+createServer(handle).listen(port, () => {
+  console.log(`API server started on http://localhost:${port}`);
+  console.log(`Endpoints: ${Object.keys(db.data).map(name => `/${name}`).join(', ')}`);
+});
+
+// Pick up manual edits to db.json while the server is running
+let writing = false;
+observer.onWriteStart = () => {
+  writing = true;
+};
+observer.onWriteEnd = () => {
+  writing = false;
+};
+
+watch(DB_FILE).on('change', async () => {
+  if (writing) {
+    return;
+  }
+
+  // Events of our own writes can arrive after a later write; reloading then
+  // would bring back the older content
+  try {
+    if (await readFile(DB_FILE, 'utf8') !== JSON.stringify(db.data, null, 2)) {
+      await db.read();
+    }
+  } catch (error) {
+    console.error(`Error reading ${DB_FILE}:`, error.message);
+  }
+});
@@ -0,0 +1,254 @@
+import { createHash, randomBytes } from 'node:crypto';
+import { parseUrl, readJsonBody, sendJson } from './http.mjs';
+import { MIN_PASSWORD_LENGTH, createPasswordHash } from './passwords.mjs';
+import { APP_URL, sendMail } from './mailer.mjs';
+import { signIn } from './auth-routes.mjs';
+import { mayManageUser } from './permissions.mjs';
+import { bumpVersion } from './user-versions.mjs';
+import { isDeleted } from './user-trash.mjs';
+
+/**
+ * Invitation-based onboarding.
+ *
+ * GET    /invitations?userId=         -> invitations, without their token hash (users.read)
+ * POST   /invitations { userId }      -> 201, invites a pending user or resends (users.write)
+ * DELETE /invitations/:id             -> 204, revokes an open invitation (users.write)
+ * GET    /auth/invitations/:token     -> the invited profile, for the accept page
+ * POST   /auth/accept-invite { token, password, profile } -> AuthResponse
+ *
+ * Users created with an invitation have the 'pending' status and no
+ * credentials until they accept it. Tokens are single use and expire after
+ * INVITATION_LIFETIME_HOURS (default 72); only their SHA-256 hash is stored
+ * and the link goes out through the local outbox. Sending again replaces the
+ * open invitation, so only the newest link works.
+ */
+
+const LIFETIME_HOURS = parseInt(process.env['INVITATION_LIFETIME_HOURS'] ?? '72', 10);
+
+// Profile fields the invitee may fill in
+const PROFILE_FIELDS = ['firstName', 'lastName', 'phone', 'address', 'dateOfBirth'];
+
+function hashToken(token) {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+function findUser(db, id) {
+  return db.data.users?.find(u => String(u.id) === String(id) && !isDeleted(u));
+}
+
+function statusOf(invitation) {
+  if (invitation.acceptedAt) {
+    return 'accepted';
+  }
+  if (invitation.revokedAt) {
+    return 'revoked';
+  }
+  return Date.parse(invitation.expiresAt) < Date.now() ? 'expired' : 'open';
+}
+
+/**
+ * Admin view of an invitation
+ */
+function toView(invitation) {
+  const { tokenHash, ...view } = invitation;
+  return { ...view, status: statusOf(invitation) };
+}
+
+/**
+ * Finds the open invitation of a token
+ */
+function findOpenInvitation(db, token) {
+  if (typeof token !== 'string' || !token) {
+    return null;
+  }
+
+  const invitation = db.data.invitations?.find(i => i.tokenHash === hashToken(token));
+  return invitation && statusOf(invitation) === 'open' ? invitation : null;
+}
+
+async function invite(db, req, res) {
+  const { userId } = await readJsonBody(req);
+  const user = findUser(db, userId);
+
+  if (!user) {
+    return sendJson(res, 400, { message: 'Unknown user to invite' });
+  }
+  if (!mayManageUser(db, req.auth.user, user)) {
+    return sendJson(res, 403, { message: 'Missing permission: roles.manage' });
+  }
+  if (user.status !== 'pending' || db.data.credentials?.some(c => String(c.userId) === String(user.id))) {
+    return sendJson(res, 409, { message: `${user.firstName} ${user.lastName} has already joined` });
+  }
+
+  // Resending replaces the link of the open invitation
+  const now = new Date();
+  for (const open of (db.data.invitations ?? []).filter(i => String(i.userId) === String(user.id) && statusOf(i) === 'open')) {
+    open.revokedAt = now.toISOString();
+  }
+
+  const token = randomBytes(32).toString('hex');
+  const invitation = {
+    id: randomBytes(8).toString('hex'),
+    tokenHash: hashToken(token),
+    userId: user.id,
+    email: user.email,
+    invitedBy: req.auth.user.id,
+    createdAt: now.toISOString(),
+    expiresAt: new Date(now.getTime() + LIFETIME_HOURS * 3600 * 1000).toISOString(),
+    acceptedAt: null,
+    revokedAt: null
+  };
+  db.data.invitations ??= [];
+  db.data.invitations.push(invitation);
+
+  await sendMail(db, {
+    to: user.email,
+    subject: 'You have been invited',
+    text: `Hi ${user.firstName},\n\n${req.auth.user.firstName} ${req.auth.user.lastName} invited you to join. ` +
+      `Open this link within ${LIFETIME_HOURS} hours to set your password and complete your profile:\n` +
+      `${APP_URL}/accept-invite/${token}\n\nYour username is ${user.username}.`
+  });
+
+  sendJson(res, 201, toView(invitation));
+}
+
+async function revoke(db, req, res, id) {
+  const invitation = db.data.invitations?.find(i => i.id === id);
+  if (!invitation) {
+    return sendJson(res, 404, { message: 'Invitation not found' });
+  }
+  const user = findUser(db, invitation.userId);
+  if (user && !mayManageUser(db, req.auth.user, user)) {
+    return sendJson(res, 403, { message: 'Missing permission: roles.manage' });
+  }
+  if (statusOf(invitation) !== 'open') {
+    return sendJson(res, 409, { message: 'Only open invitations can be revoked' });
+  }
+
+  invitation.revokedAt = new Date().toISOString();
+  await db.write();
+
+  res.writeHead(204, { 'Access-Control-Allow-Origin': '*' });
+  res.end();
+}
+
+function showInvitation(db, res, token) {
+  const invitation = findOpenInvitation(db, token);
+  const user = invitation && findUser(db, invitation.userId);
+  if (!user) {
+    return sendJson(res, 404, { message: 'This invitation is invalid, has expired or was already used' });
+  }
+
+  const { username, email, firstName, lastName, phone, address, dateOfBirth } = user;
+  sendJson(res, 200, { username, email, firstName, lastName, phone, address, dateOfBirth, expiresAt: invitation.expiresAt });
+}
+
+async function acceptInvitation(db, req, res) {
+  const { token, password, profile } = await readJsonBody(req);
+  const invitation = findOpenInvitation(db, token);
+  const user = invitation && findUser(db, invitation.userId);
+
+  if (!user) {
+    return sendJson(res, 400, { message: 'This invitation is invalid, has expired or was already used' });
+  }
+  if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+    return sendJson(res, 400, { message: `The password must be at least ${MIN_PASSWORD_LENGTH} characters long` });
+  }
+
+  const changes = Object.fromEntries(
+    PROFILE_FIELDS
+      .filter(field => typeof profile?.[field] === 'string')
+      .map(field => [field, profile[field].trim()])
+  );
+  if (changes.firstName === '') {
+    return sendJson(res, 400, { message: 'The first name is required' });
+  }
+
+  Object.assign(user, changes, {
+    status: 'active',
+    joinDate: new Date().toISOString().split('T')[0],
+    lastActive: new Date().toISOString()
+  });
+  bumpVersion(user);
+  db.data.credentials ??= [];
+  db.data.credentials.push({
+    id: randomBytes(8).toString('hex'),
+    userId: user.id,
+    username: user.username,
+    ...(await createPasswordHash(password))
+  });
+  invitation.acceptedAt = new Date().toISOString();
+  await db.write();
+
+  sendJson(res, 200, await signIn(db, req, user, 'password'));
+}
+
+/**
+ * Activates a pending user who signed in another way (single sign-on) and
+ * marks their open invitation accepted, so its link no longer works.
+ * The caller bumps the version and saves.
+ *
+ * @param {import('lowdb').Low} db
+ * @param {object} user
+ */
+export function acceptOpenInvitations(db, user) {
+  const now = new Date().toISOString();
+  for (const invitation of (db.data.invitations ?? []).filter(i => String(i.userId) === String(user.id) && statusOf(i) === 'open')) {
+    invitation.acceptedAt = now;
+  }
+  Object.assign(user, { status: 'active', joinDate: now.split('T')[0] });
+}
+
+/**
+ * Anonymous invitation routes, mounted before the auth middleware
+ *
+ * @param {import('lowdb').Low} db
+ */
+export function createInvitationAcceptRoutes(db) {
+  return (req, res, next) => {
+    const [, resource, section, token, ...rest] = parseUrl(req).pathname.split('/');
+    if (resource !== 'auth' || rest.length > 0) {
+      return next();
+    }
+
+    if (section === 'invitations' && token && req.method === 'GET') {
+      return showInvitation(db, res, decodeURIComponent(token));
+    }
+    if (section === 'accept-invite' && !token && req.method === 'POST') {
+      return acceptInvitation(db, req, res);
+    }
+
+    next();
+  };
+}
+
+/**
+ * Invitation management, mounted after the permission middleware
+ * Other methods answer 403.
+ *
+ * @param {import('lowdb').Low} db
+ */
+export function createInvitationAdminRoutes(db) {
+  return (req, res, next) => {
+    const url = parseUrl(req);
+    const [, resource, id, ...rest] = url.pathname.split('/');
+    if (resource !== 'invitations') {
+      return next();
+    }
+
+    if (req.method === 'GET' && !id) {
+      const userId = url.searchParams.get('userId');
+      return sendJson(res, 200, (db.data.invitations ?? [])
+        .filter(i => userId === null || String(i.userId) === String(userId))
+        .map(toView));
+    }
+    if (req.method === 'POST' && !id) {
+      return invite(db, req, res);
+    }
+    if (req.method === 'DELETE' && id && rest.length === 0) {
+      return revoke(db, req, res, decodeURIComponent(id));
+    }
+
+    sendJson(res, 403, { message: 'Access forbidden' });
+  };
+}
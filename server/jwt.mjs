@@ -0,0 +1,78 @@
+/**
+ * HS256 JSON Web Tokens signed and verified with WebCrypto HMAC-SHA256.
+ *
+ * The secret never leaves the server: the app can decode a token's claims
+ * but only this process can produce or check its signature.
+ */
+const { subtle } = globalThis.crypto;
+const encoder = new TextEncoder();
+
+const SECRET = process.env['JWT_SECRET'] ?? 'widebot-local-development-secret';
+
+const keyPromise = subtle.importKey(
+  'raw',
+  encoder.encode(SECRET),
+  { name: 'HMAC', hash: 'SHA-256' },
+  false,
+  ['sign', 'verify']
+);
+
+function encodeSegment(value) {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+function decodeSegment(segment) {
+  return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+}
+
+/**
+ * Signs a set of claims
+ *
+ * @param {Record<string, unknown>} claims
+ * @returns {Promise<string>} the compact JWT
+ */
+export async function signJwt(claims) {
+  const signingInput = `${encodeSegment({ alg: 'HS256', typ: 'JWT' })}.${encodeSegment(claims)}`;
+  const signature = await subtle.sign('HMAC', await keyPromise, encoder.encode(signingInput));
+
+  return `${signingInput}.${Buffer.from(signature).toString('base64url')}`;
+}
+
+/**
+ * Verifies a token's signature and expiry
+ *
+ * @param {string} token
+ * @returns {Promise<{ claims?: Record<string, any>, error?: string }>}
+ */
+export async function verifyJwt(token) {
+  const [header, payload, signature] = token.split('.');
+  if (!header || !payload || !signature) {
+    return { error: 'Malformed token' };
+  }
+
+  let claims;
+  try {
+    if (decodeSegment(header).alg !== 'HS256') {
+      return { error: 'Unsupported token algorithm' };
+    }
+    claims = decodeSegment(payload);
+  } catch {
+    return { error: 'Malformed token' };
+  }
+
+  const valid = await subtle.verify(
+    'HMAC',
+    await keyPromise,
+    Buffer.from(signature, 'base64url'),
+    encoder.encode(`${header}.${payload}`)
+  );
+  if (!valid) {
+    return { error: 'Invalid token signature' };
+  }
+
+  if (typeof claims.exp !== 'number' || Date.now() / 1000 >= claims.exp) {
+    return { error: 'Token expired' };
+  }
+
+  return { claims };
+}
@@ -0,0 +1,37 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { signJwt, verifyJwt } from './jwt.mjs';
+
+const now = () => Math.floor(Date.now() / 1000);
+
+describe('jwt', () => {
+  it('verifies the tokens it signs', async () => {
+    const claims = { sub: '2', username: 'john.doe', role: 'user', iat: now(), exp: now() + 900 };
+    assert.deepEqual(await verifyJwt(await signJwt(claims)), { claims });
+  });
+
+  it('refuses expired tokens and tokens without an expiry', async () => {
+    assert.deepEqual(await verifyJwt(await signJwt({ sub: '2', iat: now() - 60, exp: now() })), { error: 'Token expired' });
+    assert.deepEqual(await verifyJwt(await signJwt({ sub: '2', iat: now() })), { error: 'Token expired' });
+  });
+
+  it('refuses tokens whose claims were changed', async () => {
+    const token = await signJwt({ sub: '2', role: 'user', exp: now() + 900 });
+    const [header, , signature] = token.split('.');
+    const payload = Buffer.from(JSON.stringify({ sub: '2', role: 'admin', exp: now() + 900 })).toString('base64url');
+
+    assert.deepEqual(await verifyJwt(`${header}.${payload}.${signature}`), { error: 'Invalid token signature' });
+  });
+
+  it('refuses other algorithms', async () => {
+    const token = await signJwt({ sub: '2', exp: now() + 900 });
+    const header = Buffer.from(JSON.stringify({ alg: 'none', typ: 'JWT' })).toString('base64url');
+
+    assert.deepEqual(await verifyJwt(`${header}.${token.split('.').slice(1).join('.')}`), { error: 'Unsupported token algorithm' });
+  });
+
+  it('refuses malformed tokens', async () => {
+    assert.deepEqual(await verifyJwt('header.payload'), { error: 'Malformed token' });
+    assert.deepEqual(await verifyJwt('not.json.signature'), { error: 'Malformed token' });
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * Failed-login throttling and account lockout.
+ *
+ * Failed attempts are tracked per username in the loginAttempts resource
+ * of db.json (the record id is the username). After each failure the next
+ * attempt must wait exponentially longer; once the threshold is reached the
+ * account is locked for a while. Admins unlock an account by deleting its
+ * record (DELETE /loginAttempts/:username).
+ *
+ * Configure with LOGIN_MAX_ATTEMPTS (default 5) and LOGIN_LOCKOUT_MINUTES (default 15).
+ */
+
+const MAX_ATTEMPTS = parseInt(process.env['LOGIN_MAX_ATTEMPTS'] ?? '5', 10);
+const LOCKOUT_MINUTES = parseInt(process.env['LOGIN_LOCKOUT_MINUTES'] ?? '15', 10);
+
+// Delay after the first failure, doubled after each further failure (in seconds)
+const BASE_DELAY = 1;
+const MAX_DELAY = 30;
+
+function findRecord(db, username) {
+  return db.data.loginAttempts?.find(record => record.id === username);
+}
+
+function secondsUntil(time) {
+  return Math.max(Math.ceil((time - Date.now()) / 1000), 1);
+}
+
+function lockedResponse(record) {
+  return {
+    status: 423,
+    body: {
+      message: 'This account is locked after too many failed login attempts',
+      code: 'locked',
+      lockedUntil: record.lockedUntil,
+      retryAfter: secondsUntil(Date.parse(record.lockedUntil))
+    }
+  };
+}
+
+/**
+ * Checks whether a username may attempt to log in right now
+ *
+ * @param {import('lowdb').Low} db
+ * @param {string} username
+ * @returns {{ status: number, body: object } | null} The error response, or null when allowed
+ */
+export function checkLoginAllowed(db, username) {
+  const record = findRecord(db, username);
+  if (!record) {
+    return null;
+  }
+
+  if (record.lockedUntil) {
+    return Date.parse(record.lockedUntil) > Date.now() ? lockedResponse(record) : null;
+  }
+
+  const delay = Math.min(BASE_DELAY * 2 ** (record.failures - 1), MAX_DELAY);
+  const nextAttemptAt = Date.parse(record.lastFailureAt) + delay * 1000;
+  if (nextAttemptAt > Date.now()) {
+    return {
+      status: 429,
+      body: {
+        message: 'Too many failed login attempts, please wait before trying again',
+        code: 'throttled',
+        retryAfter: secondsUntil(nextAttemptAt)
+      }
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Records a failed attempt and returns the response to send
+ *
+ * @param {import('lowdb').Low} db
+ * @param {string} username
+ * @returns {Promise<{ status: number, body: object }>}
+ */
+export async function recordLoginFailure(db, username) {
+  db.data.loginAttempts ??= [];
+  let record = findRecord(db, username);
+
+  // A lockout that ran out starts a fresh count
+  if (record?.lockedUntil) {
+    db.data.loginAttempts = db.data.loginAttempts.filter(r => r !== record);
+    record = undefined;
+  }
+
+  if (!record) {
+    record = { id: username, failures: 0, lastFailureAt: null, lockedUntil: null };
+    db.data.loginAttempts.push(record);
+  }
+
+  record.failures += 1;
+  record.lastFailureAt = new Date().toISOString();
+  if (record.failures >= MAX_ATTEMPTS) {
+    record.lockedUntil = new Date(Date.now() + LOCKOUT_MINUTES * 60 * 1000).toISOString();
+  }
+  await db.write();
+
+  if (record.lockedUntil) {
+    return lockedResponse(record);
+  }
+
+  const remainingAttempts = MAX_ATTEMPTS - record.failures;
+  return {
+    status: 401,
+    body: {
+      message: `Invalid username or password (${remainingAttempts} attempt${remainingAttempts === 1 ? '' : 's'} left)`,
+      remainingAttempts
+    }
+  };
+}
+
+/**
+ * Forgets the failed attempts of a username after a successful login
+ *
+ * @param {import('lowdb').Low} db
+ * @param {string} username
+ */
+export async function clearLoginFailures(db, username) {
+  if (findRecord(db, username)) {
+    db.data.loginAttempts = db.data.loginAttempts.filter(record => record.id !== username);
+    await db.write();
+  }
+}
@@ -0,0 +1,90 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { checkLoginAllowed, clearLoginFailures, recordLoginFailure } from './login-throttle.mjs';
+
+// Defaults of LOGIN_MAX_ATTEMPTS and LOGIN_LOCKOUT_MINUTES
+const MAX_ATTEMPTS = 5;
+const LOCKOUT_MINUTES = 15;
+
+function createDb() {
+  return { data: {}, write: async () => {} };
+}
+
+// Moves the last failure back, as if the throttling delay had passed
+function waitOut(db, username, seconds) {
+  const record = db.data.loginAttempts.find(r => r.id === username);
+  record.lastFailureAt = new Date(Date.parse(record.lastFailureAt) - seconds * 1000).toISOString();
+}
+
+describe('login throttle', () => {
+  it('allows users without failed attempts', () => {
+    assert.equal(checkLoginAllowed(createDb(), 'john.doe'), null);
+  });
+
+  it('counts down the attempts left', async () => {
+    const db = createDb();
+
+    const first = await recordLoginFailure(db, 'john.doe');
+    assert.equal(first.status, 401);
+    assert.equal(first.body.remainingAttempts, MAX_ATTEMPTS - 1);
+    assert.match(first.body.message, /4 attempts left/);
+
+    for (let i = 2; i < MAX_ATTEMPTS; i++) {
+      await recordLoginFailure(db, 'john.doe');
+    }
+    assert.equal(checkLoginAllowed(db, 'jane.smith'), null);
+    const last = await recordLoginFailure(db, 'john.doe');
+    assert.equal(last.status, 423);
+    assert.equal(last.body.code, 'locked');
+  });
+
+  it('throttles attempts for a delay that doubles after each failure', async () => {
+    const db = createDb();
+
+    await recordLoginFailure(db, 'john.doe');
+    const throttled = checkLoginAllowed(db, 'john.doe');
+    assert.equal(throttled.status, 429);
+    assert.equal(throttled.body.retryAfter, 1);
+    waitOut(db, 'john.doe', 1);
+    assert.equal(checkLoginAllowed(db, 'john.doe'), null);
+
+    await recordLoginFailure(db, 'john.doe');
+    await recordLoginFailure(db, 'john.doe');
+    assert.equal(checkLoginAllowed(db, 'john.doe').body.retryAfter, 4);
+    waitOut(db, 'john.doe', 3);
+    assert.equal(checkLoginAllowed(db, 'john.doe').status, 429);
+    waitOut(db, 'john.doe', 1);
+    assert.equal(checkLoginAllowed(db, 'john.doe'), null);
+  });
+
+  it('locks the account at the threshold until the lockout ends', async () => {
+    const db = createDb();
+    for (let i = 0; i < MAX_ATTEMPTS; i++) {
+      await recordLoginFailure(db, 'john.doe');
+    }
+
+    const locked = checkLoginAllowed(db, 'john.doe');
+    assert.equal(locked.status, 423);
+    assert.ok(Math.abs(locked.body.retryAfter - LOCKOUT_MINUTES * 60) <= 1);
+
+    const record = db.data.loginAttempts[0];
+    record.lockedUntil = new Date(Date.now() - 1000).toISOString();
+    assert.equal(checkLoginAllowed(db, 'john.doe'), null);
+
+    // A failure after the lockout starts a fresh count
+    const next = await recordLoginFailure(db, 'john.doe');
+    assert.equal(next.status, 401);
+    assert.equal(next.body.remainingAttempts, MAX_ATTEMPTS - 1);
+    assert.equal(db.data.loginAttempts.length, 1);
+  });
+
+  it('forgets the failures after a successful login', async () => {
+    const db = createDb();
+    await recordLoginFailure(db, 'john.doe');
+    await recordLoginFailure(db, 'jane.smith');
+
+    await clearLoginFailures(db, 'john.doe');
+    assert.deepEqual(db.data.loginAttempts.map(r => r.id), ['jane.smith']);
+    assert.equal(checkLoginAllowed(db, 'john.doe'), null);
+  });
+});
@@ -0,0 +1,29 @@
+import { randomUUID } from 'node:crypto';
+
+/**
+ * Local stand-in for an email provider.
+ *
+ * Messages are appended to the outbox resource of db.json and printed to
+ * the server console, where the links they contain can be opened. The
+ * outbox is never exposed through the API.
+ */
+
+// Base URL of the Angular app, used for links in messages
+export const APP_URL = process.env['APP_URL'] ?? 'http://localhost:4200';
+
+/**
+ * "Sends" a message by storing it in the outbox
+ *
+ * @param {import('lowdb').Low} db
+ * @param {{ to: string, subject: string, text: string }} message
+ */
+export async function sendMail(db, { to, subject, text }) {
+  const mail = { id: randomUUID(), to, subject, text, sentAt: new Date().toISOString() };
+
+  db.data.outbox ??= [];
+  db.data.outbox.push(mail);
+  await db.write();
+
+  console.log(`\n✉  Mail to ${to}: ${subject}\n${text}\n`);
+  return mail;
+}
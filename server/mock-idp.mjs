@@ -0,0 +1,251 @@
+import { createHash, generateKeyPairSync, randomBytes, sign } from 'node:crypto';
+import { parseUrl, readFormBody, sendJson } from './http.mjs';
+import { APP_URL } from './mailer.mjs';
+
+/**
+ * Mock OpenID Connect provider for offline SSO testing.
+ *
+ * GET  /idp/.well-known/openid-configuration  -> discovery document
+ * GET  /idp/jwks                               -> public signing key
+ * GET  /idp/authorize                          -> account picker (authorization code flow)
+ * POST /idp/authorize                          -> redirects back with ?code&state
+ * POST /idp/token                              -> { id_token, access_token, ... }
+ *
+ * Only the authorization code flow with PKCE (S256) is supported. ID tokens
+ * are RS256-signed with a key generated at startup. The directory below
+ * stands in for the company directory; `groups` drives the role mapping in
+ * oidc-routes.mjs.
+ */
+
+// Public client registered with the mock provider
+const CLIENTS = {
+  'widebot-spa': { redirectUris: [`${APP_URL}/auth/callback`] }
+};
+
+const DIRECTORY = [
+  {
+    sub: 'idp-1001',
+    preferred_username: 'admin',
+    email: 'admin@widebot.com',
+    given_name: 'Admin',
+    family_name: 'User',
+    department: 'Management',
+    groups: ['widebot-admins']
+  },
+  {
+    sub: 'idp-1002',
+    preferred_username: 'john.doe',
+    email: 'john.doe@widebot.com',
+    given_name: 'John',
+    family_name: 'Doe',
+    department: 'Engineering',
+    groups: ['widebot-staff']
+  },
+  {
+    sub: 'idp-1003',
+    preferred_username: 'mona.hassan',
+    email: 'mona.hassan@widebot.com',
+    given_name: 'Mona',
+    family_name: 'Hassan',
+    department: 'HR',
+    groups: ['widebot-staff', 'widebot-hr']
+  }
+];
+
+// Authorization codes live for a minute and work once
+const CODE_LIFETIME = 60;
+// ID token lifetime in seconds
+const ID_TOKEN_LIFETIME = 300;
+
+const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+const KEY_ID = randomBytes(8).toString('hex');
+const codes = new Map();
+
+function base64url(value) {
+  return Buffer.from(value).toString('base64url');
+}
+
+function escapeHtml(value) {
+  return String(value).replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+}
+
+function sendHtml(res, status, body) {
+  res.writeHead(status, { 'Content-Type': 'text/html; charset=utf-8' });
+  res.end(`<!doctype html><html><head><meta charset="utf-8"><title>Mock SSO</title>
+<style>body{font-family:sans-serif;max-width:420px;margin:4rem auto;color:#1e293b}
+button{display:block;width:100%;margin:.5rem 0;padding:.75rem;border:1px solid #cbd5e1;border-radius:8px;background:#fff;text-align:left;cursor:pointer}
+button:hover{background:#f1f5f9}small{color:#64748b}</style></head><body>${body}</body></html>`);
+}
+
+function redirect(res, uri, params) {
+  const url = new URL(uri);
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined) {
+      url.searchParams.set(key, value);
+    }
+  }
+  res.writeHead(302, { Location: url.toString() });
+  res.end();
+}
+
+/**
+ * Checks the client and redirect URI of an authorization request
+ * Errors are shown on the provider page, never sent to an unverified URI.
+ */
+function validateAuthorizeRequest(params) {
+  const client = CLIENTS[params.client_id];
+  if (!client) {
+    return 'Unknown client_id';
+  }
+  if (!client.redirectUris.includes(params.redirect_uri)) {
+    return 'redirect_uri is not registered for this client';
+  }
+  return null;
+}
+
+function signIdToken(claims) {
+  const header = base64url(JSON.stringify({ alg: 'RS256', typ: 'JWT', kid: KEY_ID }));
+  const payload = base64url(JSON.stringify(claims));
+  const signature = sign('RSA-SHA256', Buffer.from(`${header}.${payload}`), privateKey).toString('base64url');
+  return `${header}.${payload}.${signature}`;
+}
+
+function showAccountPicker(res, params) {
+  const error = validateAuthorizeRequest(params);
+  if (error) {
+    return sendHtml(res, 400, `<h2>Sign-in error</h2><p>${escapeHtml(error)}</p>`);
+  }
+  if (params.response_type !== 'code' || !params.code_challenge || params.code_challenge_method !== 'S256') {
+    return redirect(res, params.redirect_uri, {
+      error: 'invalid_request',
+      error_description: 'Only the code flow with PKCE (S256) is supported',
+      state: params.state
+    });
+  }
+
+  const hidden = Object.entries(params)
+    .map(([key, value]) => `<input type="hidden" name="${escapeHtml(key)}" value="${escapeHtml(value)}">`)
+    .join('');
+  const accounts = DIRECTORY
+    .map(person => `<button name="sub" value="${escapeHtml(person.sub)}">
+<strong>${escapeHtml(person.given_name)} ${escapeHtml(person.family_name)}</strong><br>
+<small>${escapeHtml(person.email)} · ${escapeHtml(person.groups.join(', '))}</small></button>`)
+    .join('');
+
+  sendHtml(res, 200, `<h2>Mock SSO</h2><p>Choose a directory account to sign in as:</p>
+<form method="post">${hidden}${accounts}<button name="sub" value="">Cancel</button></form>`);
+}
+
+async function authorize(res, req) {
+  const params = await readFormBody(req);
+  const error = validateAuthorizeRequest(params);
+  if (error) {
+    return sendHtml(res, 400, `<h2>Sign-in error</h2><p>${escapeHtml(error)}</p>`);
+  }
+
+  const person = DIRECTORY.find(p => p.sub === params.sub);
+  if (!person) {
+    return redirect(res, params.redirect_uri, { error: 'access_denied', error_description: 'Sign-in was cancelled', state: params.state });
+  }
+
+  const code = randomBytes(24).toString('hex');
+  codes.set(code, {
+    clientId: params.client_id,
+    redirectUri: params.redirect_uri,
+    codeChallenge: params.code_challenge,
+    nonce: params.nonce,
+    person,
+    expiresAt: Date.now() + CODE_LIFETIME * 1000
+  });
+
+  redirect(res, params.redirect_uri, { code, state: params.state });
+}
+
+async function token(res, req, issuer) {
+  const params = await readFormBody(req);
+  const grant = codes.get(params.code);
+  codes.delete(params.code);
+
+  const invalidGrant = description => sendJson(res, 400, { error: 'invalid_grant', error_description: description });
+
+  if (params.grant_type !== 'authorization_code') {
+    return sendJson(res, 400, { error: 'unsupported_grant_type' });
+  }
+  if (!grant || grant.expiresAt < Date.now()) {
+    return invalidGrant('The authorization code is invalid or has expired');
+  }
+  if (grant.clientId !== params.client_id || grant.redirectUri !== params.redirect_uri) {
+    return invalidGrant('The code was issued to another client or redirect_uri');
+  }
+
+  const challenge = createHash('sha256').update(params.code_verifier ?? '').digest('base64url');
+  if (challenge !== grant.codeChallenge) {
+    return invalidGrant('The code_verifier does not match the code_challenge');
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const { person } = grant;
+  const idToken = signIdToken({
+    iss: issuer,
+    sub: person.sub,
+    aud: grant.clientId,
+    iat: now,
+    exp: now + ID_TOKEN_LIFETIME,
+    nonce: grant.nonce,
+    email: person.email,
+    email_verified: true,
+    name: `${person.given_name} ${person.family_name}`,
+    given_name: person.given_name,
+    family_name: person.family_name,
+    preferred_username: person.preferred_username,
+    department: person.department,
+    groups: person.groups
+  });
+
+  sendJson(res, 200, {
+    access_token: randomBytes(24).toString('hex'),
+    token_type: 'Bearer',
+    expires_in: ID_TOKEN_LIFETIME,
+    id_token: idToken
+  });
+}
+
+/**
+ * Serves the mock provider under /idp, mounted before the auth middleware
+ *
+ * @param {{ issuer: string }} options - Public URL of /idp
+ */
+export function createMockIdp({ issuer }) {
+  return (req, res, next) => {
+    const url = parseUrl(req);
+    if (!url.pathname.startsWith('/idp/')) {
+      return next();
+    }
+
+    const route = `${req.method} ${url.pathname}`;
+    switch (route) {
+      case 'GET /idp/.well-known/openid-configuration':
+        return sendJson(res, 200, {
+          issuer,
+          authorization_endpoint: `${issuer}/authorize`,
+          token_endpoint: `${issuer}/token`,
+          jwks_uri: `${issuer}/jwks`,
+          response_types_supported: ['code'],
+          grant_types_supported: ['authorization_code'],
+          code_challenge_methods_supported: ['S256'],
+          id_token_signing_alg_values_supported: ['RS256'],
+          scopes_supported: ['openid', 'profile', 'email', 'groups']
+        });
+      case 'GET /idp/jwks':
+        return sendJson(res, 200, { keys: [{ ...publicKey.export({ format: 'jwk' }), kid: KEY_ID, alg: 'RS256', use: 'sig' }] });
+      case 'GET /idp/authorize':
+        return showAccountPicker(res, Object.fromEntries(url.searchParams));
+      case 'POST /idp/authorize':
+        return authorize(res, req);
+      case 'POST /idp/token':
+        return token(res, req, issuer);
+      default:
+        return sendJson(res, 404, { error: 'not_found' });
+    }
+  };
+}
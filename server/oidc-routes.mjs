@@ -0,0 +1,198 @@
+import { createPublicKey, randomBytes, verify } from 'node:crypto';
+import { parseUrl, readJsonBody, sendJson } from './http.mjs';
+import { signIn } from './auth-routes.mjs';
+import { acceptOpenInvitations } from './invitation-routes.mjs';
+import { bumpVersion } from './user-versions.mjs';
+import { isDeleted } from './user-trash.mjs';
+
+/**
+ * Single sign-on with an OpenID Connect provider.
+ *
+ * POST /auth/oidc  { idToken, nonce }  -> AuthResponse
+ *
+ * The app runs the authorization code flow with PKCE in the browser and
+ * posts the resulting ID token here. The token is verified against the
+ * provider's published keys (RS256), its issuer, audience, expiry and
+ * nonce; the directory user is then matched to a local user by email (or
+ * created on first sign-in) and gets the role mapped from its claims.
+ * Invited users who sign in this way join as if they accepted the
+ * invitation; deactivated users are refused.
+ *
+ * Configure with OIDC_ISSUER, OIDC_CLIENT_ID, OIDC_ROLE_CLAIM,
+ * OIDC_ROLE_MAP (JSON object of claim value -> role id) and
+ * OIDC_DEFAULT_ROLE. The defaults match the mock provider in mock-idp.mjs.
+ */
+
+const CLIENT_ID = process.env['OIDC_CLIENT_ID'] ?? 'widebot-spa';
+const ROLE_CLAIM = process.env['OIDC_ROLE_CLAIM'] ?? 'groups';
+const ROLE_MAP = JSON.parse(process.env['OIDC_ROLE_MAP'] ?? '{"widebot-admins":"admin","widebot-hr":"hr-viewer"}');
+const DEFAULT_ROLE = process.env['OIDC_DEFAULT_ROLE'] ?? 'user';
+
+// Allowed clock difference with the provider, in seconds
+const CLOCK_SKEW = 60;
+
+/**
+ * Fetches and caches the provider's discovery document and signing keys
+ */
+function createKeyStore(issuer) {
+  let keys = new Map();
+
+  async function refresh() {
+    const discovery = await fetch(`${issuer}/.well-known/openid-configuration`).then(r => r.json());
+    const jwks = await fetch(discovery.jwks_uri).then(r => r.json());
+    keys = new Map(jwks.keys.map(jwk => [jwk.kid, createPublicKey({ key: jwk, format: 'jwk' })]));
+  }
+
+  return {
+    async getKey(kid) {
+      // Unknown key ids trigger one refetch, so key rotation is picked up
+      if (!keys.has(kid)) {
+        await refresh();
+      }
+      return keys.get(kid) ?? null;
+    }
+  };
+}
+
+function decodePart(part) {
+  return JSON.parse(Buffer.from(part, 'base64url').toString('utf8'));
+}
+
+/**
+ * Verifies an ID token and returns its claims, or the reason it was rejected
+ */
+async function verifyIdToken(idToken, nonce, issuer, keyStore) {
+  const parts = typeof idToken === 'string' ? idToken.split('.') : [];
+  if (parts.length !== 3) {
+    return { error: 'Malformed ID token' };
+  }
+
+  let header;
+  let claims;
+  try {
+    header = decodePart(parts[0]);
+    claims = decodePart(parts[1]);
+  } catch {
+    return { error: 'Malformed ID token' };
+  }
+
+  if (header.alg !== 'RS256') {
+    return { error: 'Unsupported ID token algorithm' };
+  }
+
+  const key = await keyStore.getKey(header.kid);
+  const signature = Buffer.from(parts[2], 'base64url');
+  if (!key || !verify('RSA-SHA256', Buffer.from(`${parts[0]}.${parts[1]}`), key, signature)) {
+    return { error: 'Invalid ID token signature' };
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+  if (claims.iss !== issuer) {
+    return { error: 'ID token from an unexpected issuer' };
+  }
+  if (!audiences.includes(CLIENT_ID)) {
+    return { error: 'ID token issued to another client' };
+  }
+  if (typeof claims.exp !== 'number' || claims.exp + CLOCK_SKEW < now) {
+    return { error: 'ID token has expired' };
+  }
+  if (!nonce || claims.nonce !== nonce) {
+    return { error: 'ID token nonce does not match' };
+  }
+  if (typeof claims.email !== 'string' || claims.email_verified === false) {
+    return { error: 'The identity provider did not share a verified email address' };
+  }
+
+  return { claims };
+}
+
+/**
+ * Role for the claims of an ID token
+ * The first ROLE_MAP entry whose value appears in the role claim wins.
+ */
+function mapRole(db, claims) {
+  const values = [].concat(claims[ROLE_CLAIM] ?? []);
+  const mapped = Object.entries(ROLE_MAP).find(([value]) => values.includes(value))?.[1];
+  const roleExists = role => db.data.roles?.some(r => r.id === role);
+  return mapped && roleExists(mapped) ? mapped : DEFAULT_ROLE;
+}
+
+/**
+ * Finds the local user of a directory identity, creating it on first sign-in
+ * The directory is the source of truth for the role. A pending user is
+ * activated, as the provider vouched for the invited address.
+ */
+async function findOrCreateUser(db, claims) {
+  const role = mapRole(db, claims);
+  const email = claims.email.toLowerCase();
+  let user = db.data.users?.find(u => u.email?.toLowerCase() === email);
+
+  if (!user) {
+    const [localPart] = email.split('@');
+    const username = claims.preferred_username ?? localPart;
+    user = {
+      id: randomBytes(8).toString('hex'),
+      // Fall back to the email address when the username is already taken
+      username: db.data.users?.some(u => u.username === username) ? email : username,
+      email: claims.email,
+      firstName: claims.given_name ?? claims.name ?? localPart,
+      lastName: claims.family_name ?? '',
+      role,
+      status: 'active',
+      department: claims.department ?? 'Unassigned',
+      joinDate: new Date().toISOString().split('T')[0],
+      version: 1
+    };
+    db.data.users ??= [];
+    db.data.users.push(user);
+    await db.write();
+  } else if (!isDeleted(user) && (user.role !== role || user.status === 'pending')) {
+    if (user.status === 'pending') {
+      acceptOpenInvitations(db, user);
+    }
+    user.role = role;
+    bumpVersion(user);
+    await db.write();
+  }
+
+  return user;
+}
+
+/**
+ * Handles POST /auth/oidc, mounted before the auth middleware
+ *
+ * @param {import('lowdb').Low} db
+ * @param {{ issuer: string }} options - Issuer URL of the identity provider
+ */
+export function createOidcRoutes(db, { issuer }) {
+  const keyStore = createKeyStore(issuer);
+
+  return async (req, res, next) => {
+    if (parseUrl(req).pathname !== '/auth/oidc' || req.method !== 'POST') {
+      return next();
+    }
+
+    const { idToken, nonce } = await readJsonBody(req);
+    let result;
+    try {
+      result = await verifyIdToken(idToken, nonce, issuer, keyStore);
+    } catch (error) {
+      console.error('OIDC provider error:', error.message);
+      return sendJson(res, 502, { message: 'The identity provider could not be reached' });
+    }
+
+    if (result.error) {
+      return sendJson(res, 401, { message: result.error });
+    }
+
+    const user = await findOrCreateUser(db, result.claims);
+    if (isDeleted(user)) {
+      return sendJson(res, 403, { message: 'This account was deleted' });
+    }
+    if (user.status !== 'active') {
+      return sendJson(res, 403, { message: 'This account is deactivated' });
+    }
+    sendJson(res, 200, await signIn(db, req, user, 'sso'));
+  };
+}
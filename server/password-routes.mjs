@@ -0,0 +1,251 @@
+import { createHash, randomBytes } from 'node:crypto';
+import { parseUrl, readJsonBody, sendJson } from './http.mjs';
+import { MIN_PASSWORD_LENGTH, createPasswordHash, verifyPassword } from './passwords.mjs';
+import { checkLoginAllowed, clearLoginFailures, recordLoginFailure } from './login-throttle.mjs';
+import { APP_URL, sendMail } from './mailer.mjs';
+import { mayManageUser } from './permissions.mjs';
+import { endSessions } from './sessions.mjs';
+import { isDeleted } from './user-trash.mjs';
+
+/**
+ * Password change, reset and provisioning.
+ *
+ * POST /auth/forgot-password  { identifier }              -> 202 (username or email)
+ * POST /auth/reset-password   { token, newPassword }      -> 204
+ * POST /account/password      { currentPassword, newPassword } -> 204 (signed in)
+ * POST /users/:id/credentials { username, password }      -> 201 (users.write)
+ *
+ * Reset tokens are single use and expire after an hour. Only their SHA-256
+ * hash is stored (passwordResets resource); the token itself is only in the
+ * mail sent through the local outbox. Setting a new password ends the
+ * other sessions of the user; a password change keeps the session that made it.
+ * Provisioning sets the first password of a user who has none yet; the
+ * password is hashed here, so clients never write credential records.
+ * Wrong current passwords count as failed logins (see `confirmPassword()`).
+ */
+
+// Reset token lifetime in minutes
+const RESET_TOKEN_LIFETIME = 60;
+
+function hashToken(token) {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+function passwordError(newPassword) {
+  if (typeof newPassword !== 'string' || newPassword.length < MIN_PASSWORD_LENGTH) {
+    return `The new password must be at least ${MIN_PASSWORD_LENGTH} characters long`;
+  }
+  return null;
+}
+
+/**
+ * Stores a new hash for a user's password and signs out their other sessions
+ */
+async function setPassword(db, credential, newPassword, keepSessionId = null) {
+  Object.assign(credential, await createPasswordHash(newPassword));
+  await db.write();
+  await endSessions(db, s => String(s.userId) === String(credential.userId) && s.id !== keepSessionId, 'password-change', credential.userId);
+  await clearLoginFailures(db, credential.username);
+}
+
+/**
+ * Checks the password a signed-in user confirms a change with
+ * Wrong passwords count as failed logins, so the throttle and lockout stop
+ * guessing through these routes as well. The caller stays signed in.
+ *
+ * @param {import('lowdb').Low} db
+ * @param {{ id: string, username: string }} user
+ * @param {unknown} password
+ * @param {string} message - Message for a wrong password
+ * @returns {Promise<{ status: number, body: object } | null>} The error response, or null when the password is right
+ */
+export async function confirmPassword(db, user, password, message) {
+  const blocked = checkLoginAllowed(db, user.username);
+  if (blocked) {
+    return blocked;
+  }
+
+  const credential = db.data.credentials?.find(c => String(c.userId) === String(user.id));
+  if (credential && typeof password === 'string' && await verifyPassword(credential, password)) {
+    await clearLoginFailures(db, user.username);
+    return null;
+  }
+
+  const failure = await recordLoginFailure(db, user.username);
+  if (failure.status !== 401) {
+    return failure;
+  }
+
+  // A 401 would sign the caller out
+  const { remainingAttempts } = failure.body;
+  return {
+    status: 400,
+    body: { ...failure.body, message: `${message} (${remainingAttempts} attempt${remainingAttempts === 1 ? '' : 's'} left)` }
+  };
+}
+
+async function forgotPassword(db, req, res) {
+  const { identifier } = await readJsonBody(req);
+  const value = typeof identifier === 'string' ? identifier.trim().toLowerCase() : '';
+  const user = value
+    ? db.data.users?.find(u => !isDeleted(u) && (u.username.toLowerCase() === value || u.email?.toLowerCase() === value))
+    : undefined;
+  const credential = user && db.data.credentials?.find(c => String(c.userId) === String(user.id));
+
+  // The answer is the same whether or not the account exists
+  if (credential) {
+    const token = randomBytes(32).toString('hex');
+
+    // A new token replaces any unused one
+    db.data.passwordResets = (db.data.passwordResets ?? []).filter(r => String(r.userId) !== String(user.id) || r.usedAt);
+    db.data.passwordResets.push({
+      id: hashToken(token),
+      userId: user.id,
+      expiresAt: new Date(Date.now() + RESET_TOKEN_LIFETIME * 60 * 1000).toISOString(),
+      usedAt: null
+    });
+
+    await sendMail(db, {
+      to: user.email,
+      subject: 'Reset your password',
+      text: `Hi ${user.firstName},\n\nOpen this link within ${RESET_TOKEN_LIFETIME} minutes to choose a new password:\n` +
+        `${APP_URL}/reset-password/${token}\n\nIf you did not ask for this, you can ignore this message.`
+    });
+  }
+
+  sendJson(res, 202, { message: 'If the account exists, a reset link has been sent' });
+}
+
+async function resetPassword(db, req, res) {
+  const { token, newPassword } = await readJsonBody(req);
+  const reset = typeof token === 'string'
+    ? db.data.passwordResets?.find(r => r.id === hashToken(token))
+    : undefined;
+
+  if (!reset || reset.usedAt || Date.parse(reset.expiresAt) < Date.now()) {
+    return sendJson(res, 400, { message: 'This reset link is invalid or has expired' });
+  }
+
+  const invalidPassword = passwordError(newPassword);
+  if (invalidPassword) {
+    return sendJson(res, 400, { message: invalidPassword });
+  }
+
+  const credential = db.data.credentials?.find(c => String(c.userId) === String(reset.userId));
+  if (!credential) {
+    return sendJson(res, 400, { message: 'This reset link is invalid or has expired' });
+  }
+
+  reset.usedAt = new Date().toISOString();
+  await setPassword(db, credential, newPassword);
+
+  res.writeHead(204, { 'Access-Control-Allow-Origin': '*' });
+  res.end();
+}
+
+async function changePassword(db, req, res) {
+  const { currentPassword, newPassword } = await readJsonBody(req);
+  const wrongPassword = await confirmPassword(db, req.auth.user, currentPassword, 'The current password is incorrect');
+  if (wrongPassword) {
+    return sendJson(res, wrongPassword.status, wrongPassword.body);
+  }
+
+  const invalidPassword = passwordError(newPassword);
+  if (invalidPassword) {
+    return sendJson(res, 400, { message: invalidPassword });
+  }
+
+  const credential = db.data.credentials.find(c => String(c.userId) === String(req.auth.user.id));
+  await setPassword(db, credential, newPassword, req.auth.claims.sid);
+
+  res.writeHead(204, { 'Access-Control-Allow-Origin': '*' });
+  res.end();
+}
+
+async function provisionCredentials(db, req, res, userId) {
+  const { username, password } = await readJsonBody(req);
+  const user = db.data.users?.find(u => String(u.id) === userId && !isDeleted(u));
+
+  if (!user) {
+    return sendJson(res, 404, { message: 'User not found' });
+  }
+  if (username !== user.username) {
+    return sendJson(res, 400, { message: 'The username does not match the user' });
+  }
+  if (!mayManageUser(db, req.auth.user, user)) {
+    return sendJson(res, 403, { message: 'Missing permission: roles.manage' });
+  }
+  if (db.data.credentials?.some(c => String(c.userId) === userId)) {
+    return sendJson(res, 409, { message: `${user.firstName} ${user.lastName} already has a password` });
+  }
+  if (db.data.credentials?.some(c => c.username === username)) {
+    return sendJson(res, 409, { message: 'Another account already signs in with this username' });
+  }
+  if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+    return sendJson(res, 400, { message: `The password must be at least ${MIN_PASSWORD_LENGTH} characters long` });
+  }
+
+  const credential = {
+    id: randomBytes(8).toString('hex'),
+    userId: user.id,
+    username: user.username,
+    ...(await createPasswordHash(password))
+  };
+  db.data.credentials ??= [];
+  db.data.credentials.push(credential);
+  await db.write();
+
+  sendJson(res, 201, { id: credential.id, userId: credential.userId, username: credential.username });
+}
+
+/**
+ * Anonymous reset routes, mounted before the auth middleware
+ *
+ * @param {import('lowdb').Low} db
+ */
+export function createPasswordResetRoutes(db) {
+  const routes = {
+    '/auth/forgot-password': forgotPassword,
+    '/auth/reset-password': resetPassword
+  };
+
+  return (req, res, next) => {
+    const route = routes[parseUrl(req).pathname];
+    if (!route || req.method !== 'POST') {
+      return next();
+    }
+
+    return route(db, req, res);
+  };
+}
+
+/**
+ * Password change for the signed-in user, mounted after the auth middleware
+ *
+ * @param {import('lowdb').Low} db
+ */
+export function createPasswordChangeRoutes(db) {
+  return (req, res, next) => {
+    if (parseUrl(req).pathname !== '/account/password' || req.method !== 'POST') {
+      return next();
+    }
+
+    return changePassword(db, req, res);
+  };
+}
+
+/**
+ * Credential provisioning for new users, mounted after the permission middleware
+ *
+ * @param {import('lowdb').Low} db
+ */
+export function createCredentialRoutes(db) {
+  return (req, res, next) => {
+    const [, resource, id, action, ...rest] = parseUrl(req).pathname.split('/');
+    if (resource !== 'users' || !id || action !== 'credentials' || rest.length > 0 || req.method !== 'POST') {
+      return next();
+    }
+
+    return provisionCredentials(db, req, res, decodeURIComponent(id));
+  };
+}
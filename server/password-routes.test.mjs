@@ -0,0 +1,131 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createCredentialRoutes, createPasswordChangeRoutes } from './password-routes.mjs';
+import { createPasswordHash, verifyPassword } from './passwords.mjs';
+
+function createDb() {
+  return {
+    data: {
+      roles: [
+        { id: 'admin', name: 'Administrator', permissions: ['users.read', 'users.write', 'users.delete', 'roles.manage'] },
+        { id: 'user', name: 'User', permissions: [] },
+        { id: 'support', name: 'Support', permissions: ['users.read', 'users.write'] }
+      ],
+      users: [
+        { id: '1', username: 'admin', firstName: 'Admin', lastName: 'User', role: 'admin' },
+        { id: '2', username: 'john.doe', firstName: 'John', lastName: 'Doe', role: 'user' },
+        { id: '3', username: 'sam', firstName: 'Sam', lastName: 'Support', role: 'support' },
+        { id: '4', username: 'new.admin', firstName: 'New', lastName: 'Admin', role: 'admin' },
+        { id: '5', username: 'gone', firstName: 'Gone', lastName: 'User', role: 'user', deletedAt: '2024-01-01T00:00:00.000Z' }
+      ],
+      credentials: [
+        { id: 'c1', userId: '1', username: 'admin', salt: 'x', passwordHash: 'x', iterations: 1 }
+      ]
+    },
+    write: async () => {}
+  };
+}
+
+/**
+ * Sends a request with a JSON body through the routes as a caller and
+ * resolves to the response, or null when the request was passed on
+ */
+function send(db, method, url, user, body, routes = createCredentialRoutes) {
+  const req = {
+    method,
+    url,
+    auth: { user, claims: { sid: 's1' } },
+    async *[Symbol.asyncIterator]() {
+      yield Buffer.from(JSON.stringify(body));
+    }
+  };
+
+  return new Promise(resolve => {
+    let status;
+    const res = {
+      writeHead: code => { status = code; },
+      end: text => resolve({ status, body: JSON.parse(text) })
+    };
+    routes(db)(req, res, () => resolve(null));
+  });
+}
+
+describe('credential provisioning', () => {
+  it('hashes the password of a user without credentials', async () => {
+    const db = createDb();
+    const [, john, sam] = db.data.users;
+
+    const { status, body } = await send(db, 'POST', '/users/2/credentials', sam, { username: 'john.doe', password: 'secret1' });
+    assert.equal(status, 201);
+    assert.deepEqual(body, { id: body.id, userId: '2', username: 'john.doe' });
+
+    const credential = db.data.credentials.find(c => c.userId === john.id);
+    assert.equal(credential.password, undefined);
+    assert.equal(await verifyPassword(credential, 'secret1'), true);
+  });
+
+  it('refuses users who already have credentials or do not exist', async () => {
+    const db = createDb();
+    const admin = db.data.users[0];
+
+    assert.equal((await send(db, 'POST', '/users/1/credentials', admin, { username: 'admin', password: 'secret1' })).status, 409);
+    assert.equal((await send(db, 'POST', '/users/99/credentials', admin, { username: 'nobody', password: 'secret1' })).status, 404);
+    assert.equal((await send(db, 'POST', '/users/5/credentials', admin, { username: 'gone', password: 'secret1' })).status, 404);
+    assert.equal(db.data.credentials.length, 1);
+  });
+
+  it('refuses usernames other than the user\'s and short passwords', async () => {
+    const db = createDb();
+    const admin = db.data.users[0];
+
+    assert.equal((await send(db, 'POST', '/users/2/credentials', admin, { username: 'admin', password: 'secret1' })).status, 400);
+    assert.equal((await send(db, 'POST', '/users/2/credentials', admin, { username: 'john.doe', password: '123' })).status, 400);
+    assert.equal(db.data.credentials.length, 1);
+  });
+
+  it('lets only callers who out-rank the user provision them', async () => {
+    const db = createDb();
+    const [admin, , sam] = db.data.users;
+
+    assert.equal((await send(db, 'POST', '/users/4/credentials', sam, { username: 'new.admin', password: 'secret1' })).status, 403);
+    assert.equal((await send(db, 'POST', '/users/4/credentials', admin, { username: 'new.admin', password: 'secret1' })).status, 201);
+  });
+
+  it('passes other requests on', async () => {
+    const db = createDb();
+    const admin = db.data.users[0];
+
+    assert.equal(await send(db, 'GET', '/users/2/credentials', admin), null);
+    assert.equal(await send(db, 'POST', '/users/2', admin, {}), null);
+  });
+});
+
+describe('password change', () => {
+  async function createAccount() {
+    const db = createDb();
+    db.data.credentials[0] = { id: 'c1', userId: '1', username: 'admin', ...(await createPasswordHash('admin123')) };
+    return db;
+  }
+
+  function changePassword(db, currentPassword) {
+    return send(db, 'POST', '/account/password', db.data.users[0], { currentPassword, newPassword: 'secret1' }, createPasswordChangeRoutes);
+  }
+
+  it('counts wrong current passwords as failed logins without signing the caller out', async () => {
+    const db = await createAccount();
+
+    const { status, body } = await changePassword(db, 'wrong');
+    assert.equal(status, 400);
+    assert.equal(body.message, 'The current password is incorrect (4 attempts left)');
+    assert.equal(db.data.loginAttempts[0].failures, 1);
+  });
+
+  it('locks the account after too many wrong passwords', async () => {
+    const db = await createAccount();
+    db.data.loginAttempts = [{ id: 'admin', failures: 4, lastFailureAt: '2024-01-01T00:00:00.000Z', lockedUntil: null }];
+
+    assert.equal((await changePassword(db, 'wrong')).status, 423);
+    assert.equal((await changePassword(db, 'admin123')).status, 423);
+    assert.equal(await verifyPassword(db.data.credentials[0], 'admin123'), true);
+  });
+});
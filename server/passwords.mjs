@@ -0,0 +1,54 @@
+/**
+ * PBKDF2-SHA256 password hashing, compatible with the app's CredentialService
+ */
+import { randomBytes } from 'node:crypto';
+
+const { subtle } = globalThis.crypto;
+const encoder = new TextEncoder();
+
+// PBKDF2 work factor for newly set passwords
+const ITERATIONS = 100000;
+
+// Shortest password accepted when a password is set or changed
+export const MIN_PASSWORD_LENGTH = 6;
+
+/**
+ * Derives the hex encoded hash of a password
+ *
+ * @param {string} password
+ * @param {string} salt
+ * @param {number} iterations
+ * @returns {Promise<string>}
+ */
+export async function hashPassword(password, salt, iterations) {
+  const key = await subtle.importKey('raw', encoder.encode(password), 'PBKDF2', false, ['deriveBits']);
+  const bits = await subtle.deriveBits(
+    { name: 'PBKDF2', salt: encoder.encode(salt), iterations, hash: 'SHA-256' },
+    key,
+    256
+  );
+
+  return Buffer.from(bits).toString('hex');
+}
+
+/**
+ * Checks a password against a stored credential record
+ *
+ * @param {{ salt: string, passwordHash: string, iterations: number }} credential
+ * @param {string} password
+ * @returns {Promise<boolean>}
+ */
+export async function verifyPassword(credential, password) {
+  return await hashPassword(password, credential.salt, credential.iterations) === credential.passwordHash;
+}
+
+/**
+ * Hashes a new password with a fresh random salt
+ *
+ * @param {string} password
+ * @returns {Promise<{ salt: string, passwordHash: string, iterations: number }>}
+ */
+export async function createPasswordHash(password) {
+  const salt = randomBytes(16).toString('hex');
+  return { salt, passwordHash: await hashPassword(password, salt, ITERATIONS), iterations: ITERATIONS };
+}
@@ -0,0 +1,157 @@
+import { parseUrl, sendJson } from './http.mjs';
+
+/**
+ * Permission checks for the json-server resources.
+ *
+ * Runs after the auth middleware and reads the caller from `req.auth`.
+ * Roles and the permissions they grant live in the roles resource of
+ * db.json, so new roles (e.g. an "HR viewer") need no code changes.
+ */
+
+/**
+ * Permissions granted by a role
+ *
+ * @param {import('lowdb').Low} db
+ * @param {string} roleId
+ * @returns {string[]}
+ */
+export function permissionsOf(db, roleId) {
+  return db.data.roles?.find(role => role.id === roleId)?.permissions ?? [];
+}
+
+/**
+ * Whether a caller may move a user from one role to another
+ * Needs roles.manage, unless neither role grants anything the caller lacks,
+ * so user managers can neither promote anyone (themselves included) past
+ * their own permissions nor demote those above them.
+ *
+ * @param {import('lowdb').Low} db
+ * @param {{ role: string }} caller
+ * @param {string | undefined} fromRole
+ * @param {string} toRole
+ */
+export function mayChangeRole(db, caller, fromRole, toRole) {
+  const granted = permissionsOf(db, caller.role);
+  if (granted.includes('roles.manage')) {
+    return true;
+  }
+  return [fromRole, toRole].every(roleId => permissionsOf(db, roleId).every(permission => granted.includes(permission)));
+}
+
+/**
+ * Whether a caller may act on a user's account: edit, delete, restore or
+ * purge it, set its password, reset its 2FA, unlock it, sign it out, invite
+ * or impersonate it. Needs roles.manage when the user's role grants
+ * anything the caller lacks, so nobody can take over accounts that out-rank
+ * them.
+ *
+ * @param {import('lowdb').Low} db
+ * @param {{ role: string }} caller
+ * @param {{ role: string }} user
+ */
+export function mayManageUser(db, caller, user) {
+  return mayChangeRole(db, caller, user.role, user.role);
+}
+
+/**
+ * Permission a request needs, or null when any signed-in user may make it
+ */
+function requiredPermission(req, user) {
+  const [, resource, id] = parseUrl(req).pathname.split('/');
+
+  switch (resource) {
+    case 'users':
+      if (req.method === 'GET') {
+        // Everyone may read their own record
+        return id && String(id) === String(user.id) ? null : 'users.read';
+      }
+      return req.method === 'DELETE' ? 'users.delete' : 'users.write';
+    case 'roles':
+      return req.method === 'GET' ? null : 'roles.manage';
+    case 'impersonations':
+      return 'users.impersonate';
+    case 'trash':
+      return req.method === 'GET' ? 'users.read' : 'users.delete';
+    case 'savedFilters':
+      return 'users.read';
+    case 'loginAttempts':
+    case 'twoFactor':
+    case 'sessions':
+    case 'loginHistory':
+    case 'invitations':
+      return req.method === 'GET' ? 'users.read' : 'users.write';
+    default:
+      return null;
+  }
+}
+
+/**
+ * Reason a role may not be changed or deleted, or null when it may
+ * Locked roles (the administrator role) can never be edited, and roles
+ * still assigned to users cannot be deleted.
+ */
+function roleChangeConflict(db, req) {
+  const [, resource, id] = parseUrl(req).pathname.split('/');
+  if (resource !== 'roles' || !id || req.method === 'GET') {
+    return null;
+  }
+
+  const role = db.data.roles?.find(r => r.id === decodeURIComponent(id));
+  if (!role) {
+    return null;
+  }
+
+  if (role.locked) {
+    return `The ${role.name} role is locked`;
+  }
+
+  if (req.method === 'DELETE' && db.data.users?.some(user => user.role === role.id)) {
+    return `The ${role.name} role is still assigned to users`;
+  }
+
+  return null;
+}
+
+/**
+ * User whose account a request acts on, for the resources json-server
+ * serves without a route of their own
+ */
+function targetUser(db, req) {
+  const [, resource, id] = parseUrl(req).pathname.split('/');
+  if (resource === 'loginAttempts' && id && req.method === 'DELETE') {
+    const username = decodeURIComponent(id);
+    return db.data.users?.find(user => user.username === username);
+  }
+  return undefined;
+}
+
+/**
+ * Rejects requests the caller's role does not grant with a 403
+ * Also refuses to act on the accounts of users who out-rank the caller.
+ *
+ * @param {import('lowdb').Low} db
+ */
+export function createPermissionMiddleware(db) {
+  return (req, res, next) => {
+    if (!req.auth) {
+      return next();
+    }
+
+    const permission = requiredPermission(req, req.auth.user);
+    if (permission && !permissionsOf(db, req.auth.user.role).includes(permission)) {
+      return sendJson(res, 403, { message: `Missing permission: ${permission}` });
+    }
+
+    const target = targetUser(db, req);
+    if (target && !mayManageUser(db, req.auth.user, target)) {
+      return sendJson(res, 403, { message: 'Missing permission: roles.manage' });
+    }
+
+    const conflict = roleChangeConflict(db, req);
+    if (conflict) {
+      return sendJson(res, 409, { message: conflict });
+    }
+
+    next();
+  };
+}
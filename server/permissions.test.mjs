@@ -0,0 +1,86 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createPermissionMiddleware, mayManageUser } from './permissions.mjs';
+
+function createDb() {
+  return {
+    data: {
+      roles: [
+        { id: 'admin', name: 'Administrator', permissions: ['users.read', 'users.write', 'users.delete', 'roles.manage'], locked: true },
+        { id: 'user', name: 'User', permissions: [] },
+        { id: 'hr-viewer', name: 'HR Viewer', permissions: ['users.read'] },
+        { id: 'support', name: 'Support', permissions: ['users.read', 'users.write'] },
+        { id: 'helpdesk', name: 'Helpdesk', permissions: ['users.read', 'users.write'] }
+      ],
+      users: [
+        { id: '1', username: 'admin', role: 'admin' },
+        { id: '2', username: 'john.doe', role: 'user' },
+        { id: '3', username: 'jane.smith', role: 'hr-viewer' },
+        { id: '4', username: 'sam', role: 'helpdesk' }
+      ]
+    }
+  };
+}
+
+/**
+ * Runs a request through the middleware and resolves to the status it
+ * answered with, or null when it passed the request on
+ */
+function send(db, method, url, user) {
+  const req = { method, url, auth: user && { user } };
+
+  return new Promise(resolve => {
+    const res = {
+      writeHead: status => resolve(status),
+      end: () => {}
+    };
+    createPermissionMiddleware(db)(req, res, () => resolve(null));
+  });
+}
+
+describe('permission middleware', () => {
+  const db = createDb();
+  const [admin, john, jane, sam] = db.data.users;
+
+  it('lets everyone read their own record', async () => {
+    assert.equal(await send(db, 'GET', '/users/2', john), null);
+    assert.equal(await send(db, 'GET', '/users/1', john), 403);
+    assert.equal(await send(db, 'GET', '/users', john), 403);
+  });
+
+  it('requires the permission matching the request', async () => {
+    assert.equal(await send(db, 'GET', '/users?_page=1', jane), null);
+    assert.equal(await send(db, 'PATCH', '/users/2', jane), 403);
+    assert.equal(await send(db, 'DELETE', '/users/2', jane), 403);
+    assert.equal(await send(db, 'POST', '/users/2/credentials', jane), 403);
+    assert.equal(await send(db, 'DELETE', '/users/2', admin), null);
+  });
+
+  it('lets only role managers change roles', async () => {
+    assert.equal(await send(db, 'GET', '/roles', john), null);
+    assert.equal(await send(db, 'POST', '/roles', jane), 403);
+    assert.equal(await send(db, 'POST', '/roles', admin), null);
+  });
+
+  it('refuses to change locked roles and delete assigned ones', async () => {
+    assert.equal(await send(db, 'PATCH', '/roles/admin', admin), 409);
+    assert.equal(await send(db, 'DELETE', '/roles/hr-viewer', admin), 409);
+    assert.equal(await send(db, 'DELETE', '/roles/support', admin), null);
+    assert.equal(await send(db, 'PATCH', '/roles/hr-viewer', admin), null);
+  });
+
+  it('lets only callers who out-rank a user act on their account', async () => {
+    assert.equal(mayManageUser(db, sam, john), true);
+    assert.equal(mayManageUser(db, sam, sam), true);
+    assert.equal(mayManageUser(db, sam, admin), false);
+    assert.equal(mayManageUser(db, admin, admin), true);
+
+    assert.equal(await send(db, 'DELETE', '/loginAttempts/admin', sam), 403);
+    assert.equal(await send(db, 'DELETE', '/loginAttempts/john.doe', sam), null);
+    assert.equal(await send(db, 'DELETE', '/loginAttempts/admin', admin), null);
+  });
+
+  it('leaves requests without a caller to the auth middleware', async () => {
+    assert.equal(await send(db, 'DELETE', '/users/2', null), null);
+  });
+});
@@ -0,0 +1,126 @@
+import { randomBytes } from 'node:crypto';
+import { parseUrl, readJsonBody, sendJson } from './http.mjs';
+import { parseUserQuery } from './user-query.mjs';
+
+/**
+ * Named user list filters.
+ *
+ * GET    /savedFilters                     -> the caller's saved filters (users.read)
+ * POST   /savedFilters { name, filter }    -> 201, or 200 when it replaces the
+ *                                             caller's filter of the same name
+ * DELETE /savedFilters/:id                 -> 204, deletes one of the caller's filters
+ *
+ * A filter holds the search term, the role, status and department filters
+ * and an optional query (see parseUserQuery in user-query.mjs). Filters are
+ * private to the admin who saved them; links share a filter instead.
+ */
+
+const MAX_NAME_LENGTH = 60;
+const FILTER_FIELDS = ['searchTerm', 'role', 'status', 'department'];
+
+function ownFilters(db, userId) {
+  return (db.data.savedFilters ?? []).filter(f => String(f.ownerId) === String(userId));
+}
+
+/**
+ * Keeps the known parts of a filter
+ *
+ * @returns {{ filter: object } | { error: string }}
+ */
+function parseFilter(raw) {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    return { error: 'The filter is missing' };
+  }
+
+  const filter = {};
+  for (const field of FILTER_FIELDS) {
+    if (typeof raw[field] === 'string' && raw[field].trim()) {
+      filter[field] = raw[field].trim();
+    }
+  }
+
+  if (raw.query !== undefined && raw.query !== null) {
+    const parsed = parseUserQuery(raw.query);
+    if (parsed.error) {
+      return parsed;
+    }
+    filter.query = parsed.query;
+  }
+
+  return { filter };
+}
+
+async function saveFilter(db, req, res) {
+  const body = await readJsonBody(req);
+  const name = typeof body.name === 'string' ? body.name.trim() : '';
+  if (!name || name.length > MAX_NAME_LENGTH) {
+    return sendJson(res, 400, { message: `Filter names are 1 to ${MAX_NAME_LENGTH} characters long` });
+  }
+
+  const parsed = parseFilter(body.filter);
+  if (parsed.error) {
+    return sendJson(res, 400, { message: parsed.error });
+  }
+
+  const now = new Date().toISOString();
+  const existing = ownFilters(db, req.auth.user.id).find(f => f.name.toLowerCase() === name.toLowerCase());
+  if (existing) {
+    Object.assign(existing, { name, filter: parsed.filter, updatedAt: now });
+    await db.write();
+    return sendJson(res, 200, existing);
+  }
+
+  const saved = {
+    id: randomBytes(8).toString('hex'),
+    ownerId: req.auth.user.id,
+    name,
+    filter: parsed.filter,
+    createdAt: now,
+    updatedAt: now
+  };
+  db.data.savedFilters ??= [];
+  db.data.savedFilters.push(saved);
+  await db.write();
+
+  sendJson(res, 201, saved);
+}
+
+async function deleteFilter(db, req, res, id) {
+  const saved = ownFilters(db, req.auth.user.id).find(f => f.id === id);
+  if (!saved) {
+    return sendJson(res, 404, { message: 'Saved filter not found' });
+  }
+
+  db.data.savedFilters = db.data.savedFilters.filter(f => f !== saved);
+  await db.write();
+
+  res.writeHead(204, { 'Access-Control-Allow-Origin': '*' });
+  res.end();
+}
+
+/**
+ * Saved filter routes, mounted after the permission middleware
+ * Other methods answer 403.
+ *
+ * @param {import('lowdb').Low} db
+ */
+export function createSavedFilterRoutes(db) {
+  return (req, res, next) => {
+    const [, resource, id, ...rest] = parseUrl(req).pathname.split('/');
+    if (resource !== 'savedFilters') {
+      return next();
+    }
+
+    if (req.method === 'GET' && !id) {
+      return sendJson(res, 200, ownFilters(db, req.auth.user.id));
+    }
+    if (req.method === 'POST' && !id) {
+      return saveFilter(db, req, res);
+    }
+    if (req.method === 'DELETE' && id && rest.length === 0) {
+      return deleteFilter(db, req, res, decodeURIComponent(id));
+    }
+
+    sendJson(res, 403, { message: 'Access forbidden' });
+  };
+}
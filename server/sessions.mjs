@@ -0,0 +1,327 @@
+import { randomBytes } from 'node:crypto';
+import { parseUrl, sendJson } from './http.mjs';
+import { mayManageUser } from './permissions.mjs';
+
+/**
+ * Active sessions and login history.
+ *
+ * GET    /account/sessions        -> the caller's active sessions
+ * DELETE /account/sessions        -> 204, revokes all but the caller's current session
+ * DELETE /account/sessions/:id    -> 204, revokes one of the caller's sessions
+ * GET    /account/login-history   -> the caller's recent login attempts
+ * GET    /sessions?userId=        -> active sessions (users.read)
+ * DELETE /sessions/:id            -> 204, revokes a session (users.write; not of users who out-rank the caller)
+ * GET    /loginHistory?userId=    -> login attempts (users.read)
+ *
+ * Each sign-in opens a record in the sessions resource with the device, user
+ * agent, IP address and sign-in method. Access tokens (`sid` claim) and
+ * refresh tokens point at their session, so revoking it signs the device out
+ * on its next request. Every attempt, failed or not, is appended to the
+ * loginHistory resource; successful sign-ins right after a run of failures or
+ * from a device the user never used before are flagged.
+ */
+
+// Failures within this many minutes before a success make it suspicious
+const FAILURE_WINDOW_MINUTES = 30;
+const SUSPICIOUS_FAILURES = 3;
+
+// Entries kept per username
+const HISTORY_LIMIT = 50;
+
+// lastActiveAt is written at most once per minute
+const TOUCH_INTERVAL = 60 * 1000;
+
+/**
+ * Short description of the browser and OS of a user agent, e.g. "Chrome on Windows"
+ */
+function describeDevice(userAgent) {
+  if (!userAgent) {
+    return 'Unknown device';
+  }
+
+  const browsers = [['Edg/', 'Edge'], ['OPR/', 'Opera'], ['Firefox/', 'Firefox'], ['Chrome/', 'Chrome'], ['Safari/', 'Safari'], ['curl/', 'curl']];
+  const systems = [['Windows', 'Windows'], ['Android', 'Android'], ['iPhone', 'iOS'], ['iPad', 'iPadOS'], ['Mac OS X', 'macOS'], ['Linux', 'Linux']];
+
+  const browser = browsers.find(([token]) => userAgent.includes(token))?.[1] ?? 'Unknown browser';
+  const system = systems.find(([token]) => userAgent.includes(token))?.[1];
+  return system ? `${browser} on ${system}` : browser;
+}
+
+/**
+ * Client details of a request
+ */
+function clientOf(req) {
+  const userAgent = req.headers['user-agent'] ?? '';
+  const forwardedFor = req.headers['x-forwarded-for'];
+  return {
+    device: describeDevice(userAgent),
+    userAgent,
+    ipAddress: (typeof forwardedFor === 'string' ? forwardedFor.split(',')[0].trim() : '') || req.socket.remoteAddress || ''
+  };
+}
+
+function isActive(session) {
+  return !session.endedAt && Date.parse(session.expiresAt) > Date.now();
+}
+
+function findSession(db, id) {
+  return db.data.sessions?.find(session => session.id === id);
+}
+
+/**
+ * Opens a session for a user signing in (written together with its refresh token)
+ *
+ * @param {import('lowdb').Low} db
+ * @param {import('node:http').IncomingMessage} req
+ * @param {object} user
+ * @param {'password' | 'two-factor' | 'sso'} method
+ * @param {number} lifetime - Seconds until the session expires without a refresh
+ */
+export function openSession(db, req, user, method, lifetime) {
+  const now = new Date();
+  const session = {
+    id: randomBytes(16).toString('hex'),
+    userId: user.id,
+    method,
+    ...clientOf(req),
+    createdAt: now.toISOString(),
+    lastActiveAt: now.toISOString(),
+    expiresAt: new Date(now.getTime() + lifetime * 1000).toISOString(),
+    endedAt: null,
+    endReason: null,
+    endedBy: null
+  };
+
+  db.data.sessions ??= [];
+  db.data.sessions.push(session);
+  return session;
+}
+
+/**
+ * Extends a session when its refresh token is rotated
+ * Returns false when the session was revoked or has expired.
+ *
+ * @param {import('lowdb').Low} db
+ * @param {string} id
+ * @param {number} lifetime - Seconds until the session expires without a refresh
+ */
+export function extendSession(db, id, lifetime) {
+  const session = findSession(db, id);
+  if (!session || !isActive(session)) {
+    return false;
+  }
+
+  session.lastActiveAt = new Date().toISOString();
+  session.expiresAt = new Date(Date.now() + lifetime * 1000).toISOString();
+  return true;
+}
+
+/**
+ * Checks the session of an access token and records activity on it
+ *
+ * @param {import('lowdb').Low} db
+ * @param {string} id - The token's `sid` claim
+ * @returns {Promise<boolean>} false when the session was revoked or has expired
+ */
+export async function touchSession(db, id) {
+  const session = findSession(db, id);
+  if (!session || !isActive(session)) {
+    return false;
+  }
+
+  if (Date.now() - Date.parse(session.lastActiveAt) > TOUCH_INTERVAL) {
+    session.lastActiveAt = new Date().toISOString();
+    await db.write();
+  }
+  return true;
+}
+
+/**
+ * Ends the active sessions matching a predicate and revokes their refresh tokens
+ *
+ * @param {import('lowdb').Low} db
+ * @param {(session: object) => boolean} predicate
+ * @param {'logout' | 'revoked' | 'password-change'} reason
+ * @param {string | number | null} endedBy - Id of the user who ended them
+ */
+export async function endSessions(db, predicate, reason, endedBy = null) {
+  const ended = (db.data.sessions ?? []).filter(session => isActive(session) && predicate(session));
+  if (ended.length === 0) {
+    return 0;
+  }
+
+  const ids = new Set(ended.map(session => session.id));
+  for (const session of ended) {
+    session.endedAt = new Date().toISOString();
+    session.endReason = reason;
+    session.endedBy = endedBy;
+  }
+  db.data.refreshTokens = (db.data.refreshTokens ?? []).filter(token => !ids.has(token.sessionId));
+  await db.write();
+  return ended.length;
+}
+
+/**
+ * Flags of a successful sign-in, from the earlier attempts of its username
+ */
+function flagsFor(history, entry) {
+  const flags = [];
+  const since = Date.parse(entry.timestamp) - FAILURE_WINDOW_MINUTES * 60 * 1000;
+
+  // Failures since the last success within the window
+  let failures = 0;
+  for (let i = history.length - 1; i >= 0; i--) {
+    if (history[i].success || Date.parse(history[i].timestamp) < since) {
+      break;
+    }
+    failures++;
+  }
+  if (failures >= SUSPICIOUS_FAILURES) {
+    flags.push('failures-before-success');
+  }
+
+  const previousSuccesses = history.filter(h => h.success && String(h.userId) === String(entry.userId));
+  if (previousSuccesses.length > 0 && !previousSuccesses.some(h => h.userAgent === entry.userAgent)) {
+    flags.push('new-device');
+  }
+
+  return flags;
+}
+
+/**
+ * Appends a login attempt to the history of its username
+ *
+ * @param {import('lowdb').Low} db
+ * @param {import('node:http').IncomingMessage} req
+ * @param {{ username: string, userId?: string | number | null, method: string, success: boolean, failureReason?: string }} attempt
+ */
+export async function recordLoginAttempt(db, req, attempt) {
+  db.data.loginHistory ??= [];
+  const history = db.data.loginHistory.filter(h => h.username === attempt.username);
+
+  const entry = {
+    id: randomBytes(8).toString('hex'),
+    username: attempt.username,
+    userId: attempt.userId ?? null,
+    method: attempt.method,
+    success: attempt.success,
+    failureReason: attempt.success ? null : attempt.failureReason ?? 'invalid-credentials',
+    ...clientOf(req),
+    timestamp: new Date().toISOString(),
+    flags: []
+  };
+  if (entry.success) {
+    entry.flags = flagsFor(history, entry);
+  }
+
+  const dropped = new Set(history.slice(0, Math.max(history.length + 1 - HISTORY_LIMIT, 0)));
+  db.data.loginHistory = db.data.loginHistory.filter(h => !dropped.has(h));
+  db.data.loginHistory.push(entry);
+  await db.write();
+  return entry;
+}
+
+/**
+ * Public view of a session
+ */
+function toView(session, currentSessionId) {
+  const { id, userId, method, device, userAgent, ipAddress, createdAt, lastActiveAt, expiresAt } = session;
+  return { id, userId, method, device, userAgent, ipAddress, createdAt, lastActiveAt, expiresAt, current: id === currentSessionId };
+}
+
+function activeSessionsOf(db, userId, currentSessionId) {
+  return (db.data.sessions ?? [])
+    .filter(session => isActive(session) && (userId === null || String(session.userId) === String(userId)))
+    .sort((a, b) => b.lastActiveAt.localeCompare(a.lastActiveAt))
+    .map(session => toView(session, currentSessionId));
+}
+
+function historyOf(db, userId) {
+  return (db.data.loginHistory ?? [])
+    .filter(entry => userId === null || String(entry.userId) === String(userId))
+    .reverse();
+}
+
+function noContent(res) {
+  res.writeHead(204, { 'Access-Control-Allow-Origin': '*' });
+  res.end();
+}
+
+/**
+ * Sessions and login history of the signed-in user, mounted after the auth middleware
+ *
+ * @param {import('lowdb').Low} db
+ */
+export function createAccountSessionRoutes(db) {
+  return async (req, res, next) => {
+    const [, resource, section, id, ...rest] = parseUrl(req).pathname.split('/');
+    if (resource !== 'account' || !['sessions', 'login-history'].includes(section) || rest.length > 0) {
+      return next();
+    }
+
+    const { user, claims } = req.auth;
+
+    if (section === 'login-history') {
+      return req.method === 'GET' && !id ? sendJson(res, 200, historyOf(db, user.id)) : next();
+    }
+
+    if (req.method === 'GET' && !id) {
+      return sendJson(res, 200, activeSessionsOf(db, user.id, claims.sid));
+    }
+
+    if (req.method === 'DELETE' && !id) {
+      await endSessions(db, s => String(s.userId) === String(user.id) && s.id !== claims.sid, 'revoked', user.id);
+      return noContent(res);
+    }
+
+    if (req.method === 'DELETE') {
+      const session = findSession(db, decodeURIComponent(id));
+      if (!session || String(session.userId) !== String(user.id)) {
+        return sendJson(res, 404, { message: 'Session not found' });
+      }
+      await endSessions(db, s => s === session, 'revoked', user.id);
+      return noContent(res);
+    }
+
+    next();
+  };
+}
+
+/**
+ * Admin view of sessions and login history, mounted after the permission middleware
+ * Other methods answer 403.
+ *
+ * @param {import('lowdb').Low} db
+ */
+export function createSessionAdminRoutes(db) {
+  return async (req, res, next) => {
+    const url = parseUrl(req);
+    const [, resource, id, ...rest] = url.pathname.split('/');
+    if (resource !== 'sessions' && resource !== 'loginHistory') {
+      return next();
+    }
+
+    const userId = url.searchParams.get('userId');
+
+    if (req.method === 'GET' && !id) {
+      return sendJson(res, 200, resource === 'sessions'
+        ? activeSessionsOf(db, userId, req.auth.claims.sid)
+        : historyOf(db, userId));
+    }
+
+    if (resource === 'sessions' && req.method === 'DELETE' && id && rest.length === 0) {
+      const session = findSession(db, decodeURIComponent(id));
+      if (!session) {
+        return sendJson(res, 404, { message: 'Session not found' });
+      }
+      const owner = db.data.users?.find(u => String(u.id) === String(session.userId));
+      if (owner && !mayManageUser(db, req.auth.user, owner)) {
+        return sendJson(res, 403, { message: 'Missing permission: roles.manage' });
+      }
+      await endSessions(db, s => s === session, 'revoked', req.auth.user.id);
+      return noContent(res);
+    }
+
+    sendJson(res, 403, { message: 'Access forbidden' });
+  };
+}
@@ -0,0 +1,115 @@
+import { createHmac, randomBytes } from 'node:crypto';
+
+/**
+ * Time-based one-time passwords (RFC 6238) as used by authenticator apps:
+ * HMAC-SHA1, 6 digits, 30 second steps, base32-encoded secrets.
+ */
+
+const DIGITS = 6;
+const PERIOD = 30;
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+// Steps before and after the current one that are still accepted (clock drift)
+const DRIFT_WINDOW = 1;
+
+function base32Encode(bytes) {
+  let bits = '';
+  for (const byte of bytes) {
+    bits += byte.toString(2).padStart(8, '0');
+  }
+
+  let output = '';
+  for (let i = 0; i < bits.length; i += 5) {
+    output += BASE32_ALPHABET[parseInt(bits.slice(i, i + 5).padEnd(5, '0'), 2)];
+  }
+  return output;
+}
+
+function base32Decode(text) {
+  let bits = '';
+  for (const char of text.replace(/=+$/, '').toUpperCase()) {
+    const value = BASE32_ALPHABET.indexOf(char);
+    if (value === -1) {
+      throw new Error('Invalid base32 secret');
+    }
+    bits += value.toString(2).padStart(5, '0');
+  }
+
+  const bytes = [];
+  for (let i = 0; i + 8 <= bits.length; i += 8) {
+    bytes.push(parseInt(bits.slice(i, i + 8), 2));
+  }
+  return Buffer.from(bytes);
+}
+
+/**
+ * HOTP value (RFC 4226) of a secret for a counter
+ */
+function hotp(secret, counter) {
+  const message = Buffer.alloc(8);
+  message.writeBigUInt64BE(BigInt(counter));
+
+  const digest = createHmac('sha1', base32Decode(secret)).update(message).digest();
+  const offset = digest[digest.length - 1] & 0x0f;
+  const code = (digest.readUInt32BE(offset) & 0x7fffffff) % 10 ** DIGITS;
+  return code.toString().padStart(DIGITS, '0');
+}
+
+/**
+ * Creates a random 160-bit secret, base32-encoded
+ *
+ * @returns {string}
+ */
+export function generateSecret() {
+  return base32Encode(randomBytes(20));
+}
+
+/**
+ * Code shown by an authenticator app at a given time
+ *
+ * @param {string} secret
+ * @param {number} [time] - Milliseconds since the epoch
+ * @returns {string}
+ */
+export function generateTotp(secret, time = Date.now()) {
+  return hotp(secret, Math.floor(time / 1000 / PERIOD));
+}
+
+/**
+ * Checks a code against the current step and its neighbours
+ * Steps up to `lastStep` were used already and are refused, so a code cannot
+ * be replayed while it is still valid (RFC 6238, section 5.2).
+ *
+ * @param {string} secret
+ * @param {string} code
+ * @param {number | null} [lastStep] - Last step accepted for this secret
+ * @param {number} [time] - Milliseconds since the epoch
+ * @returns {number | null} The matched step, or null when the code is refused
+ */
+export function verifyTotp(secret, code, lastStep = null, time = Date.now()) {
+  if (typeof code !== 'string' || !/^\d{6}$/.test(code)) {
+    return null;
+  }
+
+  const counter = Math.floor(time / 1000 / PERIOD);
+  for (let step = counter - DRIFT_WINDOW; step <= counter + DRIFT_WINDOW; step++) {
+    if ((lastStep === null || step > lastStep) && hotp(secret, step) === code) {
+      return step;
+    }
+  }
+  return null;
+}
+
+/**
+ * Provisioning URI for authenticator apps, usually shown as a QR code
+ *
+ * @param {string} secret
+ * @param {string} accountName
+ * @param {string} issuer
+ * @returns {string}
+ */
+export function otpauthUrl(secret, accountName, issuer) {
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  const params = new URLSearchParams({ secret, issuer, algorithm: 'SHA1', digits: String(DIGITS), period: String(PERIOD) });
+  return `otpauth://totp/${label}?${params}`;
+}
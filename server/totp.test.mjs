@@ -0,0 +1,61 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { generateSecret, generateTotp, otpauthUrl, verifyTotp } from './totp.mjs';
+
+// Test secret of RFC 6238, base32-encoded
+const SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+const PERIOD_MS = 30 * 1000;
+
+describe('totp', () => {
+  it('generates the RFC 6238 test codes', () => {
+    assert.equal(generateTotp(SECRET, 59 * 1000), '287082');
+    assert.equal(generateTotp(SECRET, 1111111109 * 1000), '081804');
+    assert.equal(generateTotp(SECRET, 1234567890 * 1000), '005924');
+  });
+
+  it('accepts codes of the current step and one step of drift either way', () => {
+    const time = 1234567890 * 1000;
+    const step = Math.floor(time / PERIOD_MS);
+
+    assert.equal(verifyTotp(SECRET, generateTotp(SECRET, time), null, time), step);
+    assert.equal(verifyTotp(SECRET, generateTotp(SECRET, time - PERIOD_MS), null, time), step - 1);
+    assert.equal(verifyTotp(SECRET, generateTotp(SECRET, time + PERIOD_MS), null, time), step + 1);
+  });
+
+  it('refuses codes outside the drift window', () => {
+    const time = 1234567890 * 1000;
+
+    assert.equal(verifyTotp(SECRET, generateTotp(SECRET, time - 2 * PERIOD_MS), null, time), null);
+    assert.equal(verifyTotp(SECRET, generateTotp(SECRET, time + 2 * PERIOD_MS), null, time), null);
+  });
+
+  it('refuses steps that were used already', () => {
+    const time = 1234567890 * 1000;
+    const code = generateTotp(SECRET, time);
+    const step = verifyTotp(SECRET, code, null, time);
+
+    assert.equal(verifyTotp(SECRET, code, step, time), null);
+    assert.equal(verifyTotp(SECRET, generateTotp(SECRET, time - PERIOD_MS), step, time), null);
+    assert.equal(verifyTotp(SECRET, generateTotp(SECRET, time + PERIOD_MS), step, time), step + 1);
+  });
+
+  it('refuses codes that are not six digits', () => {
+    const code = generateTotp(SECRET);
+
+    assert.equal(verifyTotp(SECRET, Number(code)), null);
+    assert.equal(verifyTotp(SECRET, `${code} `), null);
+    assert.equal(verifyTotp(SECRET, code.slice(1)), null);
+  });
+
+  it('creates random base32 secrets that authenticator apps can use', () => {
+    const secret = generateSecret();
+
+    assert.match(secret, /^[A-Z2-7]{32}$/);
+    assert.notEqual(generateSecret(), secret);
+    assert.notEqual(verifyTotp(secret, generateTotp(secret)), null);
+    assert.equal(
+      otpauthUrl(secret, 'john.doe', 'WideBot'),
+      `otpauth://totp/WideBot%3Ajohn.doe?secret=${secret}&issuer=WideBot&algorithm=SHA1&digits=6&period=30`
+    );
+  });
+});
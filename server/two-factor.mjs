@@ -0,0 +1,257 @@
+import { createHash, randomBytes } from 'node:crypto';
+import { parseUrl, readJsonBody, sendJson } from './http.mjs';
+import { confirmPassword } from './password-routes.mjs';
+import { mayManageUser } from './permissions.mjs';
+import { generateSecret, otpauthUrl, verifyTotp } from './totp.mjs';
+
+/**
+ * TOTP two-factor authentication.
+ *
+ * GET  /account/2fa           -> { enabled, enabledAt, recoveryCodesLeft }
+ * POST /account/2fa/setup     -> { secret, otpauthUrl } (pending until enabled)
+ * POST /account/2fa/enable    { code }     -> { recoveryCodes }
+ * POST /account/2fa/disable   { password } -> 204
+ * GET  /twoFactor             -> [{ id, enabled, enabledAt }] (users.read)
+ * DELETE /twoFactor/:userId   -> 204, resets a user's 2FA (users.write; not of users who out-rank the caller)
+ *
+ * Secrets and hashed recovery codes are kept in the twoFactor resource of
+ * db.json (the record id is the user id); only the routes above expose it.
+ * The record also keeps the last accepted TOTP step (`lastStep`), so each
+ * authenticator code signs in only once.
+ * The login challenge itself is answered on POST /auth/2fa (auth-routes.mjs).
+ */
+
+// Issuer shown in authenticator apps
+const ISSUER = 'WideBot';
+
+const RECOVERY_CODE_COUNT = 10;
+
+// Lifetime of a login challenge in seconds
+export const CHALLENGE_LIFETIME = 300;
+
+// Pending login challenges by token; they only need to survive a few minutes
+const challenges = new Map();
+
+function findRecord(db, userId) {
+  return db.data.twoFactor?.find(record => record.id === String(userId));
+}
+
+function hashRecoveryCode(code) {
+  return createHash('sha256').update(code.replace(/[\s-]/g, '').toLowerCase()).digest('hex');
+}
+
+function createRecoveryCodes() {
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const code = randomBytes(5).toString('hex');
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+  });
+}
+
+async function removeRecord(db, userId) {
+  if (findRecord(db, userId)) {
+    db.data.twoFactor = db.data.twoFactor.filter(record => record.id !== String(userId));
+    await db.write();
+  }
+}
+
+function toStatus(record) {
+  return {
+    id: record.id,
+    enabled: record.enabled,
+    enabledAt: record.enabledAt,
+    recoveryCodesLeft: record.recoveryCodes.length
+  };
+}
+
+/**
+ * Whether a user has to answer a second factor at login
+ *
+ * @param {import('lowdb').Low} db
+ * @param {string | number} userId
+ */
+export function isTwoFactorEnabled(db, userId) {
+  return findRecord(db, userId)?.enabled === true;
+}
+
+/**
+ * Starts a login challenge for a user whose password was verified
+ *
+ * @param {{ id: string | number, username: string }} user
+ * @returns {string} The challenge token
+ */
+export function startChallenge(user) {
+  const now = Date.now();
+  for (const [token, challenge] of challenges) {
+    if (challenge.expiresAt < now) {
+      challenges.delete(token);
+    }
+  }
+
+  const token = randomBytes(32).toString('hex');
+  challenges.set(token, { userId: user.id, username: user.username, expiresAt: now + CHALLENGE_LIFETIME * 1000 });
+  return token;
+}
+
+/**
+ * Pending, unexpired challenge for a token
+ *
+ * @param {unknown} token
+ * @returns {{ userId: string | number, username: string, expiresAt: number } | null}
+ */
+export function findChallenge(token) {
+  const challenge = typeof token === 'string' ? challenges.get(token) : undefined;
+  return challenge && challenge.expiresAt > Date.now() ? challenge : null;
+}
+
+/**
+ * Ends a challenge once it was answered or abandoned
+ *
+ * @param {string} token
+ */
+export function endChallenge(token) {
+  challenges.delete(token);
+}
+
+/**
+ * Checks an authenticator code or a recovery code; recovery codes are used up
+ *
+ * @param {import('lowdb').Low} db
+ * @param {string | number} userId
+ * @param {unknown} code
+ * @returns {Promise<boolean>}
+ */
+export async function verifySecondFactor(db, userId, code) {
+  const record = findRecord(db, userId);
+  if (!record?.enabled || typeof code !== 'string') {
+    return false;
+  }
+
+  const trimmed = code.trim();
+  const step = verifyTotp(record.secret, trimmed, record.lastStep ?? null);
+  if (step !== null) {
+    record.lastStep = step;
+    await db.write();
+    return true;
+  }
+
+  const index = record.recoveryCodes.indexOf(hashRecoveryCode(trimmed));
+  if (index === -1) {
+    return false;
+  }
+
+  record.recoveryCodes.splice(index, 1);
+  await db.write();
+  return true;
+}
+
+async function setup(db, req, res) {
+  const user = req.auth.user;
+  const existing = findRecord(db, user.id);
+  if (existing?.enabled) {
+    return sendJson(res, 409, { message: 'Two-factor authentication is already enabled' });
+  }
+
+  // Starting over replaces a secret that was never confirmed
+  const record = { id: String(user.id), secret: generateSecret(), enabled: false, enabledAt: null, recoveryCodes: [] };
+  db.data.twoFactor = (db.data.twoFactor ?? []).filter(r => r !== existing);
+  db.data.twoFactor.push(record);
+  await db.write();
+
+  sendJson(res, 200, { secret: record.secret, otpauthUrl: otpauthUrl(record.secret, user.username, ISSUER) });
+}
+
+async function enable(db, req, res) {
+  const { code } = await readJsonBody(req);
+  const record = findRecord(db, req.auth.user.id);
+
+  if (!record) {
+    return sendJson(res, 400, { message: 'Start the two-factor setup first' });
+  }
+  if (record.enabled) {
+    return sendJson(res, 409, { message: 'Two-factor authentication is already enabled' });
+  }
+  const step = verifyTotp(record.secret, typeof code === 'string' ? code.trim() : '');
+  if (step === null) {
+    return sendJson(res, 400, { message: 'The verification code is incorrect' });
+  }
+
+  const recoveryCodes = createRecoveryCodes();
+  record.enabled = true;
+  record.lastStep = step;
+  record.enabledAt = new Date().toISOString();
+  record.recoveryCodes = recoveryCodes.map(hashRecoveryCode);
+  await db.write();
+
+  sendJson(res, 200, { recoveryCodes });
+}
+
+async function disable(db, req, res) {
+  const { password } = await readJsonBody(req);
+  const user = req.auth.user;
+
+  const wrongPassword = await confirmPassword(db, user, password, 'The password is incorrect');
+  if (wrongPassword) {
+    return sendJson(res, wrongPassword.status, wrongPassword.body);
+  }
+
+  await removeRecord(db, user.id);
+  res.writeHead(204, { 'Access-Control-Allow-Origin': '*' });
+  res.end();
+}
+
+/**
+ * 2FA enrollment of the signed-in user, mounted after the auth middleware
+ *
+ * @param {import('lowdb').Low} db
+ */
+export function createTwoFactorAccountRoutes(db) {
+  const routes = {
+    'POST /account/2fa/setup': setup,
+    'POST /account/2fa/enable': enable,
+    'POST /account/2fa/disable': disable
+  };
+
+  return (req, res, next) => {
+    const { pathname } = parseUrl(req);
+    if (pathname === '/account/2fa' && req.method === 'GET') {
+      const record = findRecord(db, req.auth.user.id);
+      return sendJson(res, 200, record?.enabled
+        ? toStatus(record)
+        : { id: String(req.auth.user.id), enabled: false, enabledAt: null, recoveryCodesLeft: 0 });
+    }
+
+    const route = routes[`${req.method} ${pathname}`];
+    return route ? route(db, req, res) : next();
+  };
+}
+
+/**
+ * Admin view of enrolled users, mounted after the permission middleware
+ * Secrets never leave the server; other methods answer 403.
+ *
+ * @param {import('lowdb').Low} db
+ */
+export function createTwoFactorAdminRoutes(db) {
+  return async (req, res, next) => {
+    const [, resource, id, ...rest] = parseUrl(req).pathname.split('/');
+    if (resource !== 'twoFactor') {
+      return next();
+    }
+
+    if (req.method === 'GET' && !id) {
+      return sendJson(res, 200, (db.data.twoFactor ?? []).filter(r => r.enabled).map(toStatus));
+    }
+    if (req.method === 'DELETE' && id && rest.length === 0) {
+      const userId = decodeURIComponent(id);
+      const user = db.data.users?.find(u => String(u.id) === userId);
+      if (user && !mayManageUser(db, req.auth.user, user)) {
+        return sendJson(res, 403, { message: 'Missing permission: roles.manage' });
+      }
+      await removeRecord(db, userId);
+      res.writeHead(204, { 'Access-Control-Allow-Origin': '*' });
+      return res.end();
+    }
+
+    sendJson(res, 403, { message: 'Access forbidden' });
+  };
+}
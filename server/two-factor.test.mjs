@@ -0,0 +1,69 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createTwoFactorAdminRoutes } from './two-factor.mjs';
+
+function createDb() {
+  return {
+    data: {
+      roles: [
+        { id: 'admin', permissions: ['users.read', 'users.write', 'roles.manage'] },
+        { id: 'user', permissions: [] },
+        { id: 'support', permissions: ['users.read', 'users.write'] }
+      ],
+      users: [
+        { id: '1', username: 'admin', role: 'admin' },
+        { id: '2', username: 'john.doe', role: 'user' },
+        { id: '3', username: 'sam', role: 'support' }
+      ],
+      twoFactor: [
+        { id: '1', enabled: true, enabledAt: '2024-01-01T00:00:00.000Z', secret: 'A', recoveryCodes: [] },
+        { id: '2', enabled: true, enabledAt: '2024-01-02T00:00:00.000Z', secret: 'B', recoveryCodes: [] }
+      ]
+    },
+    write: async () => {}
+  };
+}
+
+/**
+ * Runs a request through the admin routes as a caller and resolves to the
+ * status it answered with, or null when it passed the request on
+ */
+function send(db, method, url, user) {
+  const req = { method, url, auth: { user } };
+
+  return new Promise(resolve => {
+    const res = {
+      writeHead: status => resolve(status),
+      end: () => {}
+    };
+    createTwoFactorAdminRoutes(db)(req, res, () => resolve(null));
+  });
+}
+
+describe('two-factor admin routes', () => {
+  it('resets the 2FA of users the caller out-ranks', async () => {
+    const db = createDb();
+    const sam = db.data.users[2];
+
+    assert.equal(await send(db, 'DELETE', '/twoFactor/2', sam), 204);
+    assert.deepEqual(db.data.twoFactor.map(record => record.id), ['1']);
+  });
+
+  it('refuses to reset the 2FA of users who out-rank the caller', async () => {
+    const db = createDb();
+    const [admin, , sam] = db.data.users;
+
+    assert.equal(await send(db, 'DELETE', '/twoFactor/1', sam), 403);
+    assert.deepEqual(db.data.twoFactor.map(record => record.id), ['1', '2']);
+
+    assert.equal(await send(db, 'DELETE', '/twoFactor/1', admin), 204);
+    assert.deepEqual(db.data.twoFactor.map(record => record.id), ['2']);
+  });
+
+  it('refuses other methods and passes other resources on', async () => {
+    const db = createDb();
+
+    assert.equal(await send(db, 'PATCH', '/twoFactor/2', db.data.users[0]), 403);
+    assert.equal(await send(db, 'GET', '/users', db.data.users[0]), null);
+  });
+});
@@ -0,0 +1,286 @@
+import { parseUrl, sendJson } from './http.mjs';
+import { isDeleted } from './user-trash.mjs';
+import { createUserSearchIndex } from './user-search.mjs';
+
+/**
+ * Paged user queries.
+ *
+ * GET /users?_page=&_limit=&_sort=&_order=&q=&<field>=  -> one page of users
+ * GET /users/summary                                    -> user counts and departments
+ *
+ * json-server v1 dropped full-text search and the total count header, and its
+ * `_limit` ignores `_page`, so user lists are answered here instead
+ * (json-server 0.17 semantics):
+ * - `q` is a ranked fuzzy search (see user-search.mjs); without `_sort` the
+ *   best matches come first, and for pages the matched ranges of every user
+ *   are sent in `X-Search-Matches` as URI-encoded JSON,
+ *   `{ [id]: { [field]: [[start, end]] } }`
+ * - other parameters are exact matches on a field, e.g. `status=active`
+ * - `_sort` names a field and `_order` is `asc` (default) or `desc`
+ * - `_page` is 1-based and `_limit` is the page size (default 10)
+ * - `_query` is a JSON query of nested AND/OR groups (see parseUserQuery);
+ *   an invalid one answers 400
+ * The matching count is sent in `X-Total-Count`. Users in the trash are never
+ * listed (see user-trash.mjs).
+ *
+ * The summary holds what the dashboard and the filters need from all users,
+ * so clients only download the pages they show: counts by status, department
+ * and role, the five latest registrations and the sorted departments.
+ */
+
+const QUERY_PARAMS = ['_page', '_limit', '_sort', '_order', 'q', '_query'];
+const DEFAULT_LIMIT = 10;
+
+// Fields a query can test, and whether they hold text or dates
+const QUERY_FIELDS = {
+  firstName: 'text',
+  lastName: 'text',
+  email: 'text',
+  username: 'text',
+  role: 'text',
+  status: 'text',
+  department: 'text',
+  phone: 'text',
+  address: 'text',
+  joinDate: 'date',
+  lastActive: 'date',
+  dateOfBirth: 'date'
+};
+const OPERATORS = {
+  text: ['equals', 'contains', 'isEmpty'],
+  date: ['between', 'isEmpty']
+};
+const MAX_DEPTH = 4;
+const MAX_RULES = 50;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Validates a query from the `_query` parameter or a saved filter
+ *
+ * A query is a group `{ combinator: 'and' | 'or', negate?, rules: [] }` whose
+ * rules are groups or conditions `{ field, operator, value?, from?, to?, negate? }`:
+ * - `equals` and `contains` compare text fields with `value`, ignoring case
+ * - `between` keeps dates from `from` to `to` (YYYY-MM-DD, both inclusive,
+ *   either may be left out)
+ * - `isEmpty` matches missing or blank fields
+ *
+ * @param {unknown} query - Parsed JSON
+ * @returns {{ query: object } | { error: string }}
+ */
+export function parseUserQuery(query) {
+  let rules = 0;
+
+  function check(node, depth) {
+    if (typeof node !== 'object' || node === null || Array.isArray(node)) {
+      return 'Query rules must be objects';
+    }
+    if (node.negate !== undefined && typeof node.negate !== 'boolean') {
+      return 'negate must be true or false';
+    }
+
+    if ('rules' in node) {
+      if (depth >= MAX_DEPTH) {
+        return `Query groups can be nested ${MAX_DEPTH} levels deep`;
+      }
+      if (!['and', 'or'].includes(node.combinator) || !Array.isArray(node.rules)) {
+        return 'Query groups need an and/or combinator and a list of rules';
+      }
+      for (const rule of node.rules) {
+        const error = check(rule, depth + 1);
+        if (error) {
+          return error;
+        }
+      }
+      return null;
+    }
+
+    if (++rules > MAX_RULES) {
+      return `Queries can have at most ${MAX_RULES} conditions`;
+    }
+    const type = QUERY_FIELDS[node.field];
+    if (!type) {
+      return `${String(node.field)} cannot be queried`;
+    }
+    if (!OPERATORS[type].includes(node.operator)) {
+      return `${node.field} cannot be tested with ${String(node.operator)}`;
+    }
+    if ((node.operator === 'equals' || node.operator === 'contains') && (typeof node.value !== 'string' || !node.value.trim())) {
+      return `The ${node.field} condition needs a value`;
+    }
+    if (node.operator === 'between') {
+      const bounds = [node.from, node.to].filter(bound => bound !== undefined && bound !== null && bound !== '');
+      if (bounds.length === 0 || bounds.some(bound => typeof bound !== 'string' || !DATE_PATTERN.test(bound))) {
+        return `The ${node.field} range needs a from or to date as YYYY-MM-DD`;
+      }
+    }
+    return null;
+  }
+
+  const error = check(query, 0);
+  return error ? { error } : { query };
+}
+
+function isBlank(value) {
+  return value === undefined || value === null || String(value).trim() === '';
+}
+
+/**
+ * Whether a user matches a validated query group or condition
+ */
+function matchesQuery(user, node) {
+  let matches;
+
+  if ('rules' in node) {
+    // Empty groups match everyone
+    matches = node.combinator === 'and'
+      ? node.rules.every(rule => matchesQuery(user, rule))
+      : node.rules.length === 0 || node.rules.some(rule => matchesQuery(user, rule));
+  } else {
+    const value = user[node.field];
+    switch (node.operator) {
+      case 'isEmpty':
+        matches = isBlank(value);
+        break;
+      case 'equals':
+        matches = !isBlank(value) && String(value).toLowerCase() === node.value.trim().toLowerCase();
+        break;
+      case 'contains':
+        matches = !isBlank(value) && String(value).toLowerCase().includes(node.value.trim().toLowerCase());
+        break;
+      case 'between': {
+        // Timestamps are compared by their day
+        const day = isBlank(value) ? '' : String(value).slice(0, 10);
+        matches = day !== '' && (!node.from || day >= node.from) && (!node.to || day <= node.to);
+        break;
+      }
+    }
+  }
+
+  return node.negate ? !matches : matches;
+}
+
+function compare(a, b) {
+  // Missing values sort last in ascending order
+  if (a === undefined || a === null || a === '') {
+    return b === undefined || b === null || b === '' ? 0 : 1;
+  }
+  if (b === undefined || b === null || b === '') {
+    return -1;
+  }
+  if (typeof a === 'number' && typeof b === 'number') {
+    return a - b;
+  }
+  return String(a).localeCompare(String(b), undefined, { sensitivity: 'base', numeric: true });
+}
+
+function countBy(users, field) {
+  const counts = {};
+  for (const user of users) {
+    if (user[field]) {
+      counts[user[field]] = (counts[user[field]] ?? 0) + 1;
+    }
+  }
+  return counts;
+}
+
+/**
+ * Summary of the users outside the trash
+ */
+function summarize(users) {
+  const usersByDepartment = countBy(users, 'department');
+  const usersByStatus = countBy(users, 'status');
+
+  return {
+    totalUsers: users.length,
+    activeUsers: usersByStatus.active ?? 0,
+    inactiveUsers: usersByStatus.inactive ?? 0,
+    pendingUsers: usersByStatus.pending ?? 0,
+    usersByDepartment,
+    usersByRole: countBy(users, 'role'),
+    recentRegistrations: users
+      .filter(user => user.joinDate)
+      .sort((a, b) => compare(b.joinDate, a.joinDate))
+      .slice(0, 5),
+    departments: Object.keys(usersByDepartment).sort()
+  };
+}
+
+/**
+ * Answers paged, sorted and searched user list requests
+ * Mounted after the permission middleware, which checks users.read.
+ *
+ * @param {import('lowdb').Low} db
+ */
+export function createUserQueryRoutes(db) {
+  const searchIndex = createUserSearchIndex();
+
+  return (req, res, next) => {
+    const url = parseUrl(req);
+    const [, resource, id, ...rest] = url.pathname.split('/');
+    const params = url.searchParams;
+
+    if (req.method === 'GET' && resource === 'users' && id === 'summary' && rest.length === 0) {
+      return sendJson(res, 200, summarize((db.data.users ?? []).filter(user => !isDeleted(user))));
+    }
+    if (req.method !== 'GET' || resource !== 'users' || id) {
+      return next();
+    }
+
+    let query = null;
+    if (params.get('_query')) {
+      let parsed;
+      try {
+        parsed = parseUserQuery(JSON.parse(params.get('_query')));
+      } catch {
+        parsed = { error: '_query is not valid JSON' };
+      }
+      if (parsed.error) {
+        return sendJson(res, 400, { message: parsed.error });
+      }
+      query = parsed.query;
+    }
+
+    const term = params.get('q')?.trim() ?? '';
+    const filters = [...params.entries()].filter(([name]) => !QUERY_PARAMS.includes(name));
+
+    let users = (db.data.users ?? []).filter(user =>
+      !isDeleted(user) &&
+      (!query || matchesQuery(user, query)) &&
+      filters.every(([field, value]) => String(user[field] ?? '') === value)
+    );
+
+    const results = term ? searchIndex.search(users, term) : null;
+    if (results) {
+      users = users.filter(user => results.has(user));
+    }
+
+    const sortField = params.get('_sort');
+    if (sortField) {
+      const direction = params.get('_order') === 'desc' ? -1 : 1;
+      users = [...users].sort((a, b) => direction * compare(a[sortField], b[sortField]));
+    } else if (results) {
+      users = [...users].sort((a, b) => results.get(b).score - results.get(a).score);
+    }
+
+    const total = users.length;
+    const limit = Math.max(1, parseInt(params.get('_limit') ?? '', 10) || DEFAULT_LIMIT);
+    const page = Math.max(1, parseInt(params.get('_page') ?? '', 10) || 1);
+    const paged = params.has('_page') || params.has('_limit');
+    if (paged) {
+      users = users.slice((page - 1) * limit, page * limit);
+    }
+
+    const headers = { 'X-Total-Count': String(total) };
+    if (results && paged) {
+      // URI-encoded, as header values must be ASCII
+      headers['X-Search-Matches'] = encodeURIComponent(JSON.stringify(
+        Object.fromEntries(users.map(user => [user.id, results.get(user).matches]))
+      ));
+    }
+
+    sendJson(res, 200, users, {
+      ...headers,
+      'Access-Control-Expose-Headers': Object.keys(headers).join(', ')
+    });
+  };
+}
@@ -0,0 +1,70 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createUserQueryRoutes } from './user-query.mjs';
+
+function createDb() {
+  return {
+    data: {
+      users: [
+        { id: '1', firstName: 'Ada', role: 'admin', status: 'active', department: 'Engineering', joinDate: '2021-01-10' },
+        { id: '2', firstName: 'John', role: 'user', status: 'active', department: 'Sales', joinDate: '2023-05-01' },
+        { id: '3', firstName: 'Jane', role: 'user', status: 'pending', department: 'Engineering' },
+        { id: '4', firstName: 'Jim', role: 'user', status: 'inactive', department: 'Finance', joinDate: '2022-03-15' },
+        { id: '5', firstName: 'Gone', role: 'user', status: 'active', department: 'Legal', joinDate: '2024-01-01', deletedAt: '2024-02-01T00:00:00.000Z' }
+      ]
+    }
+  };
+}
+
+/**
+ * Sends a request through the routes and resolves to the response, or null
+ * when the request was passed on
+ */
+function send(db, method, url) {
+  return new Promise(resolve => {
+    let status;
+    let headers;
+    const res = {
+      writeHead: (code, head) => {
+        status = code;
+        headers = head;
+      },
+      end: text => resolve({ status, headers, body: JSON.parse(text) })
+    };
+    createUserQueryRoutes(db)({ method, url }, res, () => resolve(null));
+  });
+}
+
+describe('user queries', () => {
+  it('pages the users outside the trash and sends the total count', async () => {
+    const { status, headers, body } = await send(createDb(), 'GET', '/users?_sort=firstName&_page=2&_limit=2');
+
+    assert.equal(status, 200);
+    assert.equal(headers['X-Total-Count'], '4');
+    assert.deepEqual(body.map(user => user.id), ['4', '2']);
+  });
+
+  it('summarizes the users outside the trash', async () => {
+    const { status, body } = await send(createDb(), 'GET', '/users/summary');
+
+    assert.equal(status, 200);
+    assert.deepEqual({ ...body, recentRegistrations: body.recentRegistrations.map(user => user.id) }, {
+      totalUsers: 4,
+      activeUsers: 2,
+      inactiveUsers: 1,
+      pendingUsers: 1,
+      usersByDepartment: { Engineering: 2, Sales: 1, Finance: 1 },
+      usersByRole: { admin: 1, user: 3 },
+      recentRegistrations: ['2', '4', '1'],
+      departments: ['Engineering', 'Finance', 'Sales']
+    });
+  });
+
+  it('passes on other user requests', async () => {
+    const db = createDb();
+
+    assert.equal(await send(db, 'GET', '/users/2'), null);
+    assert.equal(await send(db, 'GET', '/users/summary/extra'), null);
+    assert.equal(await send(db, 'PUT', '/users/summary'), null);
+  });
+});
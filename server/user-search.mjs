@@ -0,0 +1,281 @@
+/**
+ * Ranked fuzzy user search.
+ *
+ * Every search term has to match one of a user's name, username, email,
+ * phone or department. A term scores by how well it matches:
+ * - the whole word (100), the start of a word (80) or anywhere in it (60)
+ * - a word with one typo, or two for long terms (50, 35)
+ * - a word that sounds alike: vowels are dropped and Arabic letters are
+ *   transliterated, so "Mohamed", "Muhammad" and "محمد" match (30)
+ * Users are ranked by the sum of their terms' best scores, weighted by field.
+ *
+ * Text is normalized before matching: case and Latin accents are ignored,
+ * Arabic diacritics and tatweel are dropped, and the alef/hamza forms, taa
+ * marbuta and alef maqsura are folded (أ إ آ ٱ → ا, ة → ه, ى → ي, ؤ → و, ئ → ي).
+ * Phone numbers are matched on their digits. Matches are reported as
+ * [start, end) ranges of the original field values, for highlighting.
+ */
+
+// Searched fields and their weights
+const FIELDS = {
+  firstName: 1,
+  lastName: 1,
+  username: 0.9,
+  email: 0.8,
+  phone: 0.8,
+  department: 0.5
+};
+
+const SCORES = { word: 100, prefix: 80, substring: 60, oneTypo: 50, twoTypos: 35, soundsAlike: 30 };
+
+const ARABIC_DIACRITICS = /[\u0610-\u061a\u064b-\u065f\u0670\u06d6-\u06ed\u0640]/;
+const ARABIC_FOLDS = { 'أ': 'ا', 'إ': 'ا', 'آ': 'ا', 'ٱ': 'ا', 'ة': 'ه', 'ى': 'ي', 'ؤ': 'و', 'ئ': 'ي' };
+const WORD_SEPARATORS = /[\s@._\-+()/,]+/;
+
+// Latin spelling of Arabic letters, for sound-alike keys
+const ARABIC_LATIN = {
+  'ا': 'a', 'ب': 'b', 'ت': 't', 'ث': 'th', 'ج': 'j', 'ح': 'h', 'خ': 'kh', 'د': 'd', 'ذ': 'th',
+  'ر': 'r', 'ز': 'z', 'س': 's', 'ش': 'sh', 'ص': 's', 'ض': 'd', 'ط': 't', 'ظ': 'z', 'ع': '',
+  'غ': 'gh', 'ف': 'f', 'ق': 'k', 'ك': 'k', 'ل': 'l', 'م': 'm', 'ن': 'n', 'ه': 'h', 'و': 'w',
+  'ي': 'y', 'ء': ''
+};
+
+/**
+ * Normalizes text for matching, keeping the original index of every character
+ *
+ * @param {string} text
+ * @param {boolean} [digitsOnly] - Keep digits only, for phone numbers
+ * @returns {{ value: string, offsets: number[] }}
+ */
+export function normalizeText(text, digitsOnly = false) {
+  let value = '';
+  const offsets = [];
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (digitsOnly ? !/\d/.test(char) : ARABIC_DIACRITICS.test(char)) {
+      continue;
+    }
+
+    const folded = ARABIC_FOLDS[char] ?? char.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+    for (const c of folded) {
+      value += c;
+      offsets.push(i);
+    }
+  }
+
+  return { value, offsets };
+}
+
+/**
+ * Consonant skeleton of a word, e.g. "mhmd" for Mohamed, Muhammad and محمد
+ */
+function soundKey(word) {
+  const latin = [...word].map(c => ARABIC_LATIN[c] ?? c).join('')
+    .replace(/ph/g, 'f')
+    .replace(/[cq]/g, 'k');
+
+  return latin
+    .replace(/[aeiouwy]/g, '')
+    .replace(/(.)\1+/g, '$1')
+    .replace(/h$/, '');
+}
+
+/**
+ * Number of edits (insertions, deletions, substitutions and swaps of
+ * neighbours) between two words, or max + 1 when there are more than max
+ */
+function editDistance(a, b, max) {
+  if (Math.abs(a.length - b.length) > max) {
+    return max + 1;
+  }
+
+  let previousRow = null;
+  let row = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const next = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      next[j] = Math.min(row[j] + 1, next[j - 1] + 1, row[j - 1] + cost);
+      if (previousRow && i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        next[j] = Math.min(next[j], previousRow[j - 2] + 1);
+      }
+      rowMin = Math.min(rowMin, next[j]);
+    }
+    if (rowMin > max) {
+      return max + 1;
+    }
+    previousRow = row;
+    row = next;
+  }
+  return row[b.length];
+}
+
+/**
+ * Normalized form of a field value with its words
+ */
+function indexField(text, digitsOnly) {
+  const { value, offsets } = normalizeText(text, digitsOnly);
+  const words = [];
+  let start = 0;
+  for (const part of value.split(WORD_SEPARATORS)) {
+    start = value.indexOf(part, start);
+    if (part) {
+      words.push({ text: part, start, key: digitsOnly ? '' : soundKey(part) });
+    }
+    start += part.length;
+  }
+  return { value, offsets, words };
+}
+
+/**
+ * Best match of a term in a field
+ *
+ * @returns {{ score: number, start: number, end: number } | null} Range in the normalized value
+ */
+function matchTerm(field, term, digitsOnly) {
+  let best = null;
+  const consider = (score, start, end) => {
+    if (!best || score > best.score) {
+      best = { score, start, end };
+    }
+  };
+
+  for (const word of field.words) {
+    if (word.text === term) {
+      return { score: SCORES.word, start: word.start, end: word.start + word.text.length };
+    }
+    if (word.text.startsWith(term)) {
+      consider(SCORES.prefix, word.start, word.start + term.length);
+    }
+  }
+  if (best || term.length < 2) {
+    return best;
+  }
+
+  const index = field.value.indexOf(term);
+  if (index !== -1) {
+    return { score: SCORES.substring, start: index, end: index + term.length };
+  }
+  if (digitsOnly || term.length < 4) {
+    return null;
+  }
+
+  // Typos, in the whole word or in the part typed so far
+  const maxEdits = term.length >= 7 ? 2 : 1;
+  const termKey = soundKey(term);
+  for (const word of field.words) {
+    const whole = editDistance(term, word.text, maxEdits);
+    const partial = word.text.length > term.length ? editDistance(term, word.text.slice(0, term.length), maxEdits) : whole;
+    const edits = Math.min(whole, partial);
+    if (edits <= maxEdits) {
+      const length = whole <= partial ? word.text.length : term.length;
+      consider(edits === 1 ? SCORES.oneTypo : SCORES.twoTypos, word.start, word.start + length);
+    } else if (termKey.length >= 2 && termKey === word.key) {
+      consider(SCORES.soundsAlike, word.start, word.start + word.text.length);
+    }
+  }
+  return best;
+}
+
+/**
+ * Search index over users
+ * Normalized field values are cached per user object and rebuilt when the
+ * user's fields change.
+ */
+export function createUserSearchIndex() {
+  const cache = new WeakMap();
+
+  function entryOf(user) {
+    const values = Object.keys(FIELDS).map(field => typeof user[field] === 'string' ? user[field] : '');
+    const signature = values.join('\u0000');
+    const cached = cache.get(user);
+    if (cached?.signature === signature) {
+      return cached;
+    }
+
+    const entry = {
+      signature,
+      fields: Object.fromEntries(Object.keys(FIELDS).map((field, i) => [field, indexField(values[i], field === 'phone')]))
+    };
+    cache.set(user, entry);
+    return entry;
+  }
+
+  /**
+   * Finds the users matching every term of a search
+   *
+   * @param {object[]} users
+   * @param {string} query - Search as typed
+   * @returns {Map<object, { score: number, matches: Record<string, [number, number][]> }>}
+   */
+  function search(users, query) {
+    const terms = normalizeText(query).value.split(/\s+/).filter(Boolean);
+    const results = new Map();
+    if (terms.length === 0) {
+      return results;
+    }
+
+    for (const user of users) {
+      const { fields } = entryOf(user);
+      const matches = {};
+      let score = 0;
+
+      const found = terms.every(term => {
+        const termMatches = [];
+        for (const [name, weight] of Object.entries(FIELDS)) {
+          const digitsOnly = name === 'phone';
+          const fieldTerm = digitsOnly ? term.replace(/\D/g, '') : term;
+          if (digitsOnly && fieldTerm.length < 3) {
+            continue;
+          }
+
+          const match = matchTerm(fields[name], fieldTerm, digitsOnly);
+          if (match) {
+            termMatches.push({ name, weight, ...match });
+          }
+        }
+        if (termMatches.length === 0) {
+          return false;
+        }
+
+        score += Math.max(...termMatches.map(m => m.score * m.weight));
+
+        // Typos and sound-alikes are only highlighted when nothing matched as typed
+        const best = Math.max(...termMatches.map(m => m.score));
+        const threshold = Math.min(best, SCORES.substring);
+        for (const { name, start, end } of termMatches.filter(m => m.score >= threshold)) {
+          // Back to the original value: from the first to the last matched character
+          const { offsets } = fields[name];
+          (matches[name] ??= []).push([offsets[start], offsets[end - 1] + 1]);
+        }
+        return true;
+      });
+
+      if (found) {
+        for (const name of Object.keys(matches)) {
+          matches[name] = mergeRanges(matches[name]);
+        }
+        results.set(user, { score, matches });
+      }
+    }
+
+    return results;
+  }
+
+  return { search };
+}
+
+function mergeRanges(ranges) {
+  const merged = [];
+  for (const [start, end] of [...ranges].sort((a, b) => a[0] - b[0])) {
+    const last = merged[merged.length - 1];
+    if (last && start <= last[1]) {
+      last[1] = Math.max(last[1], end);
+    } else {
+      merged.push([start, end]);
+    }
+  }
+  return merged;
+}
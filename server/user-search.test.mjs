@@ -0,0 +1,79 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createUserSearchIndex, normalizeText } from './user-search.mjs';
+
+const users = [
+  { id: '1', firstName: 'Mohamed', lastName: 'Ali', username: 'mohamed.ali', email: 'mohamed@example.com', phone: '+20 (100) 555-1234', department: 'Sales' },
+  { id: '2', firstName: 'محمد', lastName: 'أحمد', username: 'm.ahmed', email: 'm.ahmed@example.com', department: 'المبيعات' },
+  { id: '3', firstName: 'Muhammad', lastName: 'Hassan', username: 'mhassan', email: 'hassan@example.com', department: 'Engineering' },
+  { id: '4', firstName: 'José', lastName: 'García', username: 'jgarcia', email: 'jose@example.com', department: 'Marketing' }
+];
+
+function search(query) {
+  const results = createUserSearchIndex().search(users, query);
+  return [...results.entries()]
+    .sort(([, a], [, b]) => b.score - a.score)
+    .map(([user, result]) => ({ id: user.id, ...result }));
+}
+
+describe('user search', () => {
+  describe('normalizeText', () => {
+    it('drops Arabic diacritics and tatweel and folds letter forms', () => {
+      assert.equal(normalizeText('مُحَمَّد').value, 'محمد');
+      assert.equal(normalizeText('محـــمد').value, 'محمد');
+      assert.equal(normalizeText('أإآٱ').value, 'اااا');
+      assert.equal(normalizeText('فاطمة').value, 'فاطمه');
+      assert.equal(normalizeText('مصطفى').value, 'مصطفي');
+      assert.equal(normalizeText('مؤمن سائد').value, 'مومن سايد');
+    });
+
+    it('ignores case and Latin accents', () => {
+      assert.equal(normalizeText('José GARCÍA').value, 'jose garcia');
+    });
+
+    it('keeps the original index of every character', () => {
+      assert.deepEqual(normalizeText('مُحَمَّد'), { value: 'محمد', offsets: [0, 2, 4, 7] });
+      assert.deepEqual(normalizeText('+20 (1)', true), { value: '201', offsets: [1, 2, 5] });
+    });
+  });
+
+  describe('search', () => {
+    it('matches Arabic regardless of diacritics and hamza forms', () => {
+      assert.deepEqual(search('مُحَمَّد احمد').map(r => r.id), ['2']);
+      assert.deepEqual(search('أحمد')[0].matches.lastName, [[0, 4]]);
+    });
+
+    it('matches names that sound alike across spellings and scripts', () => {
+      assert.deepEqual(search('Muhammad').map(r => r.id), ['3', '1', '2']);
+      assert.deepEqual(search('محمد').map(r => r.id), ['2', '1', '3']);
+    });
+
+    it('ranks whole words over prefixes, substrings and typos', () => {
+      const scores = ['hassan', 'hass', 'assa', 'hasan'].map(query => search(query).find(r => r.id === '3').score);
+      assert.deepEqual([...scores].sort((a, b) => b - a), scores);
+      assert.ok(scores[3] > 0);
+    });
+
+    it('requires every term to match', () => {
+      assert.deepEqual(search('mohamed ali').map(r => r.id), ['1']);
+      assert.deepEqual(search('ali engineering'), []);
+    });
+
+    it('matches phone numbers on their digits', () => {
+      const [result] = search('1005551234');
+      assert.equal(result.id, '1');
+      assert.deepEqual(result.matches.phone, [[5, 18]]);
+    });
+
+    it('reports matched ranges of the original values', () => {
+      const [result] = search('gar');
+      assert.equal(result.id, '4');
+      assert.deepEqual(result.matches.lastName, [[0, 3]]);
+      assert.deepEqual(result.matches.username, [[1, 4]]);
+    });
+
+    it('finds nothing for blank searches', () => {
+      assert.deepEqual(search('   '), []);
+    });
+  });
+});
@@ -0,0 +1,145 @@
+import { parseUrl, sendJson } from './http.mjs';
+import { mayManageUser } from './permissions.mjs';
+import { endSessions } from './sessions.mjs';
+import { bumpVersion } from './user-versions.mjs';
+
+/**
+ * Soft delete of users.
+ *
+ * DELETE /users/:id             -> 200 with the user, now in the trash (users.delete)
+ * GET    /trash                 -> { retentionDays, users }, newest deletion first (users.read)
+ * POST   /trash/:id/restore     -> 200 with the restored user, under the same id (users.delete)
+ * DELETE /trash/:id             -> 204, purges the user and their sign-in data (users.delete)
+ *
+ * Deleting a user keeps the record with `deletedAt` and `deletedBy` (the id of
+ * the admin) and signs them out everywhere. Deleted users are hidden from the
+ * rest of the API: user queries, GET /users/:id, edits, sign-in and
+ * invitations. The trash is purged automatically once a deletion is older
+ * than TRASH_RETENTION_DAYS (default 30), at start-up and every hour.
+ * Users who out-rank the caller can be neither deleted, restored nor purged.
+ */
+
+const RETENTION_DAYS = parseInt(process.env['TRASH_RETENTION_DAYS'] ?? '30', 10);
+const PURGE_INTERVAL = 3600 * 1000;
+
+// Resources that belong to a user and go with them when they are purged
+const OWNED_RESOURCES = ['credentials', 'twoFactor', 'sessions', 'refreshTokens', 'invitations'];
+
+/**
+ * Whether a user record is in the trash
+ */
+export function isDeleted(user) {
+  return Boolean(user?.deletedAt);
+}
+
+function findUser(db, id) {
+  return db.data.users?.find(u => String(u.id) === String(id));
+}
+
+async function softDelete(db, req, res, user) {
+  user.deletedAt = new Date().toISOString();
+  user.deletedBy = req.auth.user.id;
+  bumpVersion(user);
+  await db.write();
+  await endSessions(db, s => String(s.userId) === String(user.id), 'deleted', req.auth.user.id);
+
+  sendJson(res, 200, user);
+}
+
+async function restore(db, res, user) {
+  delete user.deletedAt;
+  delete user.deletedBy;
+  bumpVersion(user);
+  await db.write();
+
+  sendJson(res, 200, user);
+}
+
+/**
+ * Removes users and everything they own for good
+ */
+async function purge(db, users) {
+  const ids = new Set(users.map(user => String(user.id)));
+  db.data.users = db.data.users.filter(user => !ids.has(String(user.id)));
+  for (const resource of OWNED_RESOURCES) {
+    if (db.data[resource]) {
+      db.data[resource] = db.data[resource].filter(record => !ids.has(String(record.userId)));
+    }
+  }
+  // Failed login counters are keyed by username
+  db.data.loginAttempts = (db.data.loginAttempts ?? []).filter(record => !users.some(user => user.username === record.id));
+  await db.write();
+}
+
+/**
+ * Purges the users deleted longer ago than the retention period
+ */
+async function purgeExpired(db) {
+  const cutoff = Date.now() - RETENTION_DAYS * 24 * 3600 * 1000;
+  const expired = (db.data.users ?? []).filter(user => isDeleted(user) && Date.parse(user.deletedAt) < cutoff);
+  if (expired.length > 0) {
+    await purge(db, expired);
+    console.log(`Purged ${expired.length} user(s) from the trash`);
+  }
+}
+
+/**
+ * Trash routes, mounted after the permission middleware
+ *
+ * @param {import('lowdb').Low} db
+ */
+export function createUserTrashRoutes(db) {
+  purgeExpired(db).catch(error => console.error('Trash purge failed:', error));
+  setInterval(() => purgeExpired(db).catch(error => console.error('Trash purge failed:', error)), PURGE_INTERVAL).unref();
+
+  return async (req, res, next) => {
+    const [, resource, id, action, ...rest] = parseUrl(req).pathname.split('/');
+    const user = id ? findUser(db, decodeURIComponent(id)) : undefined;
+
+    if (resource === 'users') {
+      if (!id || action !== undefined) {
+        return next();
+      }
+      // Deleted users are gone as far as the rest of the API is concerned
+      if (!user || isDeleted(user)) {
+        return sendJson(res, 404, { message: 'User not found' });
+      }
+      if (req.method !== 'DELETE') {
+        return next();
+      }
+      if (!mayManageUser(db, req.auth.user, user)) {
+        return sendJson(res, 403, { message: 'Missing permission: roles.manage' });
+      }
+      return softDelete(db, req, res, user);
+    }
+
+    if (resource !== 'trash' || rest.length > 0) {
+      return next();
+    }
+
+    if (req.method === 'GET' && !id) {
+      await purgeExpired(db);
+      const users = db.data.users
+        .filter(isDeleted)
+        .sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
+      return sendJson(res, 200, { retentionDays: RETENTION_DAYS, users });
+    }
+
+    if (!user || !isDeleted(user)) {
+      return sendJson(res, 404, { message: 'This user is not in the trash' });
+    }
+    if (!mayManageUser(db, req.auth.user, user)) {
+      return sendJson(res, 403, { message: 'Missing permission: roles.manage' });
+    }
+    if (req.method === 'POST' && action === 'restore') {
+      return restore(db, res, user);
+    }
+    if (req.method === 'DELETE' && action === undefined) {
+      await purge(db, [user]);
+      res.writeHead(204, { 'Access-Control-Allow-Origin': '*' });
+      return res.end();
+    }
+
+    sendJson(res, 403, { message: 'Access forbidden' });
+  };
+}
@@ -0,0 +1,137 @@
+import { randomBytes } from 'node:crypto';
+import { parseUrl, readJsonBody, sendJson } from './http.mjs';
+import { mayChangeRole } from './permissions.mjs';
+
+/**
+ * Optimistic concurrency for user edits.
+ *
+ * POST  /users { ...user }                -> 201 with the created user
+ * PUT   /users/:id { ...user, version }  -> 200 with the saved user, or 409
+ * PATCH /users/:id { ...changes, version }
+ *
+ * Every user carries a `version` that goes up by one with each change (users
+ * saved before versions existed count as version 1). Edits must send the
+ * version they were based on; when someone else saved in between, the edit
+ * is refused with 409 and the current record, so the client can merge.
+ * Server-side changes to users (SSO role mapping, accepted invitations) bump
+ * the version through `bumpVersion()` as well.
+ *
+ * The id, version and trash fields are owned by the server and ignored in
+ * request bodies (deleting goes through DELETE /users/:id). Giving a user a
+ * role is checked with `mayChangeRole()`: it is refused with 403 when the
+ * caller lacks roles.manage and the old or new role grants more than they
+ * have, so users who out-rank the caller cannot be edited at all.
+ */
+
+// Fields clients cannot set; the trash fields are managed by user-trash.mjs
+const SERVER_FIELDS = ['id', 'version', 'deletedAt', 'deletedBy'];
+
+/**
+ * Version of a user record
+ */
+export function versionOf(user) {
+  return Number.isInteger(user.version) && user.version > 0 ? user.version : 1;
+}
+
+/**
+ * Marks a user record as changed
+ */
+export function bumpVersion(user) {
+  user.version = versionOf(user) + 1;
+}
+
+/**
+ * Splits a request body into the client's changes and the version they were based on
+ */
+async function readChanges(req) {
+  const body = await readJsonBody(req);
+  const changes = Object.fromEntries(Object.entries(body).filter(([key]) => !SERVER_FIELDS.includes(key)));
+  return { changes, version: body.version };
+}
+
+/**
+ * Why the caller may not give a user the role, or null when they may
+ */
+function roleConflict(db, req, fromRole, toRole) {
+  if (toRole !== fromRole && !db.data.roles?.some(role => role.id === toRole)) {
+    return { status: 400, message: 'Unknown role' };
+  }
+  if (!mayChangeRole(db, req.auth.user, fromRole, toRole)) {
+    return { status: 403, message: 'Missing permission: roles.manage' };
+  }
+  return null;
+}
+
+async function createUser(db, req, res) {
+  const { changes } = await readChanges(req);
+  const conflict = roleConflict(db, req, undefined, changes.role);
+  if (conflict) {
+    return sendJson(res, conflict.status, { message: conflict.message });
+  }
+
+  const user = { id: randomBytes(8).toString('hex'), ...changes, version: 1 };
+  db.data.users ??= [];
+  db.data.users.push(user);
+  await db.write();
+
+  sendJson(res, 201, user);
+}
+
+async function saveUser(db, req, res, id) {
+  const user = db.data.users?.find(u => String(u.id) === id);
+  if (!user) {
+    return sendJson(res, 404, { message: 'User not found' });
+  }
+
+  const { changes, version } = await readChanges(req);
+  if (version === undefined || version === null) {
+    return sendJson(res, 428, { message: 'The version of the edited user is required' });
+  }
+  if (Number(version) !== versionOf(user)) {
+    return sendJson(res, 409, {
+      message: `${user.firstName} ${user.lastName} was changed by someone else while you were editing`,
+      current: user
+    });
+  }
+
+  const conflict = roleConflict(db, req, user.role, req.method === 'PUT' || 'role' in changes ? changes.role : user.role);
+  if (conflict) {
+    return sendJson(res, conflict.status, { message: conflict.message });
+  }
+
+  // PUT replaces the record, PATCH merges into it; the id never changes
+  if (req.method === 'PUT') {
+    for (const key of Object.keys(user)) {
+      if (!SERVER_FIELDS.includes(key)) {
+        delete user[key];
+      }
+    }
+  }
+  Object.assign(user, changes);
+  user.version = Number(version) + 1;
+  await db.write();
+
+  sendJson(res, 200, user);
+}
+
+/**
+ * Version-checked user writes, mounted after the permission middleware
+ *
+ * @param {import('lowdb').Low} db
+ */
+export function createUserVersionRoutes(db) {
+  return (req, res, next) => {
+    const [, resource, id, ...rest] = parseUrl(req).pathname.split('/');
+    if (resource !== 'users' || rest.length > 0) {
+      return next();
+    }
+    if (!id) {
+      return req.method === 'POST' ? createUser(db, req, res) : next();
+    }
+    if (!['PUT', 'PATCH'].includes(req.method)) {
+      return next();
+    }
+
+    return saveUser(db, req, res, decodeURIComponent(id));
+  };
+}
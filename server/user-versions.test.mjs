@@ -0,0 +1,112 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createUserVersionRoutes } from './user-versions.mjs';
+
+const admin = { id: '1', role: 'admin' };
+const support = { id: '5', role: 'support' };
+
+function createDb() {
+  return {
+    data: {
+      roles: [
+        { id: 'admin', permissions: ['users.read', 'users.write', 'roles.manage'] },
+        { id: 'support', permissions: ['users.read', 'users.write'] }
+      ],
+      users: [
+        { id: '2', firstName: 'John', lastName: 'Doe', department: 'Engineering', version: 3 },
+        { id: '3', firstName: 'Jane', lastName: 'Smith', department: 'Sales' },
+        { id: '4', firstName: 'Ada', lastName: 'Admin', role: 'admin', version: 1 }
+      ]
+    },
+    write: async () => {}
+  };
+}
+
+/**
+ * Sends a request with a JSON body through the routes as a caller and
+ * resolves to the response, or null when the request was passed on
+ */
+function send(db, method, url, body, caller = admin) {
+  const req = {
+    method,
+    url,
+    auth: { user: caller },
+    async *[Symbol.asyncIterator]() {
+      yield Buffer.from(JSON.stringify(body));
+    }
+  };
+
+  return new Promise(resolve => {
+    let status;
+    const res = {
+      writeHead: code => { status = code; },
+      end: text => resolve({ status, body: JSON.parse(text) })
+    };
+    createUserVersionRoutes(db)(req, res, () => resolve(null));
+  });
+}
+
+describe('user versions', () => {
+  it('saves edits based on the current version and bumps it', async () => {
+    const db = createDb();
+
+    const { status, body } = await send(db, 'PATCH', '/users/2', { department: 'Sales', version: 3 });
+    assert.equal(status, 200);
+    assert.deepEqual(body, { id: '2', firstName: 'John', lastName: 'Doe', department: 'Sales', version: 4 });
+    assert.equal(db.data.users[0].version, 4);
+  });
+
+  it('refuses edits based on an older version with the current record', async () => {
+    const db = createDb();
+
+    const { status, body } = await send(db, 'PUT', '/users/2', { firstName: 'Johnny', version: 2 });
+    assert.equal(status, 409);
+    assert.deepEqual(body.current, { id: '2', firstName: 'John', lastName: 'Doe', department: 'Engineering', version: 3 });
+    assert.equal(db.data.users[0].firstName, 'John');
+  });
+
+  it('refuses edits without a version', async () => {
+    const { status } = await send(createDb(), 'PATCH', '/users/2', { department: 'Sales' });
+    assert.equal(status, 428);
+  });
+
+  it('counts users saved before versions existed as version 1', async () => {
+    const db = createDb();
+
+    assert.equal((await send(db, 'PATCH', '/users/3', { department: 'HR', version: 2 })).status, 409);
+    assert.equal((await send(db, 'PATCH', '/users/3', { department: 'HR', version: 1 })).body.version, 2);
+  });
+
+  it('replaces the record on PUT but keeps its id', async () => {
+    const db = createDb();
+
+    const { body } = await send(db, 'PUT', '/users/2', { id: '9', firstName: 'John', lastName: 'Doe', version: 3 });
+    assert.deepEqual(body, { id: '2', firstName: 'John', lastName: 'Doe', version: 4 });
+  });
+
+  it('creates users with their own id at version 1', async () => {
+    const db = createDb();
+
+    const { status, body } = await send(db, 'POST', '/users', { id: '2', firstName: 'New', version: 7 });
+    assert.equal(status, 201);
+    assert.match(body.id, /^[0-9a-f]{16}$/);
+    assert.deepEqual(body, { id: body.id, firstName: 'New', version: 1 });
+    assert.deepEqual(db.data.users.at(-1), body);
+  });
+
+  it('refuses edits of users who out-rank the caller', async () => {
+    const db = createDb();
+
+    assert.equal((await send(db, 'PATCH', '/users/4', { firstName: 'Eve', version: 1 }, support)).status, 403);
+    assert.equal((await send(db, 'PATCH', '/users/2', { firstName: 'Johnny', version: 3 }, support)).status, 200);
+    assert.equal(db.data.users[2].firstName, 'Ada');
+  });
+
+  it('answers 404 for unknown users and passes other requests on', async () => {
+    const db = createDb();
+
+    assert.equal((await send(db, 'PATCH', '/users/99', { version: 1 })).status, 404);
+    assert.equal(await send(db, 'GET', '/users', undefined), null);
+    assert.equal(await send(db, 'PATCH', '/users/2/avatar', { version: 3 }), null);
+  });
+});
@@ -1,11 +1,12 @@
 import { Component, OnInit } from '@angular/core';
 import { RouterOutlet } from '@angular/router';
 import { TranslationService } from './core/translation.service';
+import { IdleWarningComponent } from './shared/idle-warning/idle-warning.component';
 
 @Component({
   selector: 'app-root',
   standalone: true,
-  imports: [RouterOutlet],
+  imports: [RouterOutlet, IdleWarningComponent],
   templateUrl: './app.component.html',
   styleUrl: './app.component.scss'
 })
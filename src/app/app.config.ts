@@ -6,25 +6,31 @@ import { TranslateModule, TranslateLoader } from '@ngx-translate/core';
 
 import { routes } from './app.routes';
 import { errorInterceptor } from './core/error.interceptor';
+import { authInterceptor } from './core/auth.interceptor';
 import { HttpLoaderFactory } from './core/translation-loader';
+import { IDLE_CONFIG } from './core/idle.service';
+import { IMPERSONATION_CONFIG } from './core/auth.service';
 
 /**
  * Application Configuration
  * 
  * Provides all necessary services and configurations for the application:
  * - Router with defined routes
- * - HttpClient with error interceptor
+ * - HttpClient with error and auth interceptors
  * - Animations for PrimeNG components
  * - Translation module (ngx-translate) with English as default
+ * - Idle timeout: logout after 15 minutes of inactivity, warning 1 minute before
  */
 export const appConfig: ApplicationConfig = {
   providers: [
     provideZoneChangeDetection({ eventCoalescing: true }),
     provideRouter(routes),
     provideHttpClient(
-      withInterceptors([errorInterceptor])
+      withInterceptors([errorInterceptor, authInterceptor])
     ),
     provideAnimations(),
+    { provide: IDLE_CONFIG, useValue: { timeoutMs: 15 * 60 * 1000, warningMs: 60 * 1000 } },
+    { provide: IMPERSONATION_CONFIG, useValue: { defaultDurationMinutes: 30, maxDurationMinutes: 120 } },
     importProvidersFrom(
       TranslateModule.forRoot({
         loader: {
@@ -1,24 +1,65 @@
 import { Routes } from '@angular/router';
 import { LoginComponent } from './features/auth/login/login.component';
+import { ForgotPasswordComponent } from './features/auth/forgot-password/forgot-password.component';
+import { ResetPasswordComponent } from './features/auth/reset-password/reset-password.component';
+import { AcceptInviteComponent } from './features/auth/accept-invite/accept-invite.component';
+import { OidcCallbackComponent } from './features/auth/oidc-callback/oidc-callback.component';
+import { ChangePasswordComponent } from './features/auth/change-password/change-password.component';
+import { SessionsComponent } from './features/auth/sessions/sessions.component';
 import { UserDashboardComponent } from './features/user/user-dashboard/user-dashboard.component';
 import { AdminDashboardComponent } from './features/admin/admin-dashboard/admin-dashboard.component';
 import { UserListComponent } from './features/admin/user-list/user-list.component';
+import { RoleListComponent } from './features/admin/role-list/role-list.component';
+import { UserImportComponent } from './features/admin/user-import/user-import.component';
 import { authGuard } from './core/auth.guard';
-import { roleGuard } from './core/role.guard';
+import { permissionGuard } from './core/permission.guard';
 
 /**
  * Application Routes Configuration
  * 
- * Implements role-based access control with guards:
+ * Implements permission-based access control with guards:
  * - /login: Public login page
+ * - /forgot-password, /reset-password/:token: Public password reset pages
+ * - /accept-invite/:token: Public onboarding page of an invitation
+ * - /auth/callback: Single sign-on redirect target
+ * - /change-password: Password change (requires authentication)
+ * - /sessions: Active sessions and login history (requires authentication)
  * - /user: User dashboard (requires authentication)
- * - /admin: Admin dashboard and management (requires admin role)
+ * - /admin: Admin dashboard and user management (requires users.read)
+ * - /admin/roles: Role editor (requires roles.manage)
+ * - /admin/import: User import from CSV or Excel (requires users.write)
  */
 export const routes: Routes = [
   { 
     path: 'login', 
     component: LoginComponent 
   },
+  { 
+    path: 'forgot-password', 
+    component: ForgotPasswordComponent 
+  },
+  { 
+    path: 'reset-password/:token', 
+    component: ResetPasswordComponent 
+  },
+  { 
+    path: 'accept-invite/:token', 
+    component: AcceptInviteComponent 
+  },
+  { 
+    path: 'auth/callback', 
+    component: OidcCallbackComponent 
+  },
+  { 
+    path: 'change-password', 
+    component: ChangePasswordComponent, 
+    canActivate: [authGuard] 
+  },
+  { 
+    path: 'sessions', 
+    component: SessionsComponent, 
+    canActivate: [authGuard] 
+  },
   { 
     path: 'user', 
     component: UserDashboardComponent, 
@@ -27,13 +68,25 @@ export const routes: Routes = [
   { 
     path: 'admin', 
     component: AdminDashboardComponent, 
-    canActivate: [authGuard, roleGuard],
-    data: { roles: ['admin'] },
+    canActivate: [authGuard, permissionGuard],
+    data: { permissions: ['users.read'] },
     children: [
       { 
         path: 'users', 
         component: UserListComponent 
       },
+      { 
+        path: 'roles', 
+        component: RoleListComponent,
+        canActivate: [permissionGuard],
+        data: { permissions: ['roles.manage'] }
+      },
+      { 
+        path: 'import', 
+        component: UserImportComponent,
+        canActivate: [permissionGuard],
+        data: { permissions: ['users.write'] }
+      },
       { 
         path: '', 
         redirectTo: 'users', 
@@ -0,0 +1,13 @@
+import { HttpContextToken } from '@angular/common/http';
+
+/**
+ * Base URL of the json-server backend API
+ * Requests to this origin carry the bearer token (see authInterceptor)
+ */
+export const API_BASE_URL = 'http://localhost:3000';
+
+/**
+ * Marks requests whose 401 must not trigger a token refresh and replay,
+ * such as the refresh calls themselves
+ */
+export const SKIP_TOKEN_REFRESH = new HttpContextToken<boolean>(() => false);
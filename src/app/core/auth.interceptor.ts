@@ -0,0 +1,47 @@
+import { HttpErrorResponse, HttpInterceptorFn, HttpRequest } from '@angular/common/http';
+import { inject } from '@angular/core';
+import { throwError } from 'rxjs';
+import { catchError, switchMap } from 'rxjs/operators';
+import { AuthService } from './auth.service';
+import { API_BASE_URL, SKIP_TOKEN_REFRESH } from './api.config';
+
+/**
+ * HTTP Auth Interceptor
+ *
+ * Attaches the current token as a Bearer Authorization header.
+ * Only requests to the backend API are decorated, so static assets such as
+ * the translation files loaded by TranslationHttpLoader never receive it.
+ *
+ * On a 401 the request waits for AuthService.refreshSession() (shared by
+ * every request that failed meanwhile) and is replayed once with the new
+ * token. If the refresh fails, AuthService logs out and the original 401
+ * continues to errorInterceptor.
+ */
+export const authInterceptor: HttpInterceptorFn = (req, next) => {
+  const authService = inject(AuthService);
+  const token = authService.getCurrentAuthState().token;
+
+  // Requests that already carry credentials (e.g. refresh calls) are left alone
+  if (!token || !req.url.startsWith(API_BASE_URL) || req.headers.has('Authorization')) {
+    return next(req);
+  }
+
+  return next(withToken(req, token)).pipe(
+    catchError(error => {
+      if (!(error instanceof HttpErrorResponse) || error.status !== 401 || req.context.get(SKIP_TOKEN_REFRESH)) {
+        return throwError(() => error);
+      }
+
+      return authService.refreshSession().pipe(
+        catchError(() => throwError(() => error)),
+        switchMap(token => next(withToken(req, token)))
+      );
+    })
+  );
+};
+
+function withToken<T>(req: HttpRequest<T>, token: string): HttpRequest<T> {
+  return req.clone({
+    setHeaders: { Authorization: `Bearer ${token}` }
+  });
+}
@@ -1,54 +1,69 @@
-import { Injectable } from '@angular/core';
-import { BehaviorSubject, Observable, of, throwError } from 'rxjs';
-import { delay, map, tap } from 'rxjs/operators';
+import { Inject, Injectable, InjectionToken } from '@angular/core';
+import { HttpClient, HttpContext } from '@angular/common/http';
+import { BehaviorSubject, Observable, Subscription, fromEvent, of, race, throwError, timer } from 'rxjs';
+import { catchError, finalize, map, shareReplay, switchMap, take, tap } from 'rxjs/operators';
 import { Router } from '@angular/router';
+import { SessionSyncEvent, SessionSyncService } from './session-sync.service';
+import { SessionStoreService } from './session-store.service';
+import { PermissionService } from './permission.service';
+import { OfflineStoreService } from './offline-store.service';
+import { API_BASE_URL, SKIP_TOKEN_REFRESH } from './api.config';
+import { decodeJwt, validateClaims } from './jwt.util';
+import { parseUser } from './user.schema';
+import { ApiError, ErrorHandlingService } from './error-handling.service';
 import { 
   User, 
   LoginCredentials, 
   AuthResponse, 
-  AuthState 
+  AuthState,
+  LoginResult,
+  TwoFactorChallenge,
+  ImpersonationEndReason,
+  ImpersonationOptions,
+  ImpersonationSession,
+  InvitedProfile,
+  Permission
 } from './user.model';
 
+/**
+ * Impersonation Config Interface
+ * Limits offered when starting an impersonation
+ */
+export interface ImpersonationConfig {
+  // Duration preselected in the impersonation dialog
+  defaultDurationMinutes: number;
+  // Longest impersonation an admin can start
+  maxDurationMinutes: number;
+}
+
+/**
+ * Impersonation configuration, override it in app.config.ts
+ */
+export const IMPERSONATION_CONFIG = new InjectionToken<ImpersonationConfig>('IMPERSONATION_CONFIG', {
+  providedIn: 'root',
+  factory: () => ({ defaultDurationMinutes: 30, maxDurationMinutes: 120 })
+});
+
 
 @Injectable({
   providedIn: 'root'
 })
 export class AuthService {
-  // Static credentials for demo
-  private readonly CREDENTIALS = {
-    admin: { username: 'admin', password: 'admin123', role: 'admin' as const },
-    user: { username: 'user', password: 'user123', role: 'user' as const }
-  };
-
-  // Mock user data
-  private readonly MOCK_USERS = {
-    admin: {
-      id: 1,
-      username: 'admin',
-      email: 'admin@widebot.com',
-      firstName: 'Admin',
-      lastName: 'User',
-      role: 'admin' as const,
-      status: 'active' as const,
-      phone: '+201234567890',
-      address: '123 Admin Street, Cairo, Egypt',
-      department: 'Management',
-      avatar: 'https://i.pravatar.cc/150?img=1'
-    },
-    user: {
-      id: 2,
-      username: 'user',
-      email: 'user@widebot.com',
-      firstName: 'John',
-      lastName: 'Doe',
-      role: 'user' as const,
-      status: 'active' as const,
-      phone: '+201234567891',
-      address: '456 User Lane, Cairo, Egypt',
-      department: 'Engineering',
-      avatar: 'https://i.pravatar.cc/150?img=2'
-    }
-  };
+  // Local auth server (see server/auth-routes.mjs)
+  private readonly AUTH_URL = `${API_BASE_URL}/auth`;
+  // Audited impersonation sessions (see server/impersonation-routes.mjs)
+  private readonly IMPERSONATION_URL = `${API_BASE_URL}/impersonations`;
+  // Signed-in account settings (see server/password-routes.mjs)
+  private readonly ACCOUNT_URL = `${API_BASE_URL}/account`;
+
+  // Renew the access token this long before it expires
+  private readonly REFRESH_LEEWAY_MS = 60000;
+  // Web Lock that lets one tab at a time rotate the shared refresh token
+  private readonly REFRESH_LOCK = 'widebot-auth-refresh';
+  // How long a failed refresh waits for a token renewed by another tab
+  private readonly REFRESH_RACE_GRACE_MS = 1000;
+  // Retry delay of a refresh that could not reach the server (or when back online)
+  private readonly REFRESH_RETRY_MS = 30000;
 
   // Auth state management using BehaviorSubject for reactive updates
   private authState$ = new BehaviorSubject<AuthState>({
@@ -56,12 +71,37 @@ export class AuthService {
     token: null,
     isAuthenticated: false,
     isImpersonating: false,
-    originalUser: null
+    originalUser: null,
+    impersonation: null
   });
 
-  constructor(private router: Router) {
-    // Restore session from localStorage on service initialization
+  // Silent renewal timer and the refresh currently in flight (shared by all callers)
+  private refreshTimer: Subscription | null = null;
+  private refreshInFlight$: Observable<string> | null = null;
+
+  // Ends the impersonation session when it expires
+  private impersonationTimer: Subscription | null = null;
+
+  constructor(
+    private router: Router,
+    private http: HttpClient,
+    private sessionSync: SessionSyncService,
+    private sessionStore: SessionStoreService,
+    private permissionService: PermissionService,
+    private errorHandler: ErrorHandlingService,
+    private offlineStore: OfflineStoreService,
+    @Inject(IMPERSONATION_CONFIG) private impersonationConfig: ImpersonationConfig
+  ) {
+    // Restore the persisted session on service initialization
     this.restoreSession();
+
+    // Follow logins, logouts and impersonation made in other tabs
+    this.sessionSync.getEvents().subscribe(event => this.handleSyncEvent(event));
+
+    // Sessions outside localStorage are only known to the tabs holding them
+    if (!this.isAuthenticated()) {
+      this.sessionSync.publish({ type: 'session-request' });
+    }
   }
 
   /**
@@ -94,11 +134,11 @@ export class AuthService {
   }
 
   /**
-   * Checks if current user has admin role
+   * Checks if the current user's role grants a permission
+   * Returns false while the roles are still loading.
    */
-  isAdmin(): boolean {
-    const user = this.getCurrentUser();
-    return user?.role === 'admin';
+  hasPermission(permission: Permission): boolean {
+    return this.permissionService.can(this.getCurrentUser(), permission);
   }
 
   /**
@@ -109,184 +149,725 @@ export class AuthService {
   }
 
   /**
-   * Login method with static credentials
-   * Simulates API call with delay and returns JWT token
+   * Checks if the current impersonation blocks changes
+   */
+  isReadOnly(): boolean {
+    return !!this.authState$.value.impersonation?.readOnly;
+  }
+
+  /**
+   * Gets the impersonation duration limits
+   */
+  getImpersonationConfig(): ImpersonationConfig {
+    return this.impersonationConfig;
+  }
+
+  /**
+   * Login method backed by the local auth server
+   * The server verifies the password hash and returns a signed JWT and a refresh token.
+   * Accounts with two-factor authentication get a challenge instead, to be
+   * answered with verifyTwoFactor().
    * 
    * @param credentials - Username and password
-   * @returns Observable<AuthResponse> with user data and token
+   * @param rememberMe - Keep the session after the browser is closed
+   * @returns Observable<LoginResult> with the session, or the 2FA challenge
+   */
+  login(credentials: LoginCredentials, rememberMe = false): Observable<LoginResult> {
+    return this.http.post<LoginResult>(`${this.AUTH_URL}/login`, credentials, this.authCallOptions()).pipe(
+      map(result => this.isTwoFactorChallenge(result) ? result : this.startSession(result, rememberMe))
+    );
+  }
+
+  /**
+   * Second login step for accounts with two-factor authentication
+   * 
+   * @param challenge - Challenge returned by login()
+   * @param code - Code from the authenticator app, or a recovery code
+   * @param rememberMe - Keep the session after the browser is closed
+   * @returns Observable<AuthResponse> with user data and tokens
    */
-  login(credentials: LoginCredentials): Observable<AuthResponse> {
-    // Validate credentials
-    const validCredential = Object.values(this.CREDENTIALS).find(
-      cred => cred.username === credentials.username && cred.password === credentials.password
+  verifyTwoFactor(challenge: TwoFactorChallenge, code: string, rememberMe = false): Observable<AuthResponse> {
+    return this.http.post<AuthResponse>(
+      `${this.AUTH_URL}/2fa`,
+      { challengeToken: challenge.challengeToken, code },
+      this.authCallOptions()
+    ).pipe(
+      map(response => this.startSession(response, rememberMe))
     );
+  }
 
-    if (!validCredential) {
-      return throwError(() => new Error('Invalid username or password'));
+  /**
+   * Single sign-on: exchanges a provider ID token for a session
+   * The auth server verifies the token and maps its claims to a role (see OidcService).
+   * 
+   * @param idToken - ID token from the identity provider
+   * @param nonce - Nonce sent with the authorization request
+   * @param rememberMe - Keep the session after the browser is closed
+   * @returns Observable<AuthResponse> with user data and tokens
+   */
+  loginWithIdToken(idToken: string, nonce: string, rememberMe = false): Observable<AuthResponse> {
+    return this.http.post<AuthResponse>(`${this.AUTH_URL}/oidc`, { idToken, nonce }, this.authCallOptions()).pipe(
+      map(response => this.startSession(response, rememberMe))
+    );
+  }
+
+  /**
+   * Checks whether a login result asks for the second factor
+   */
+  isTwoFactorChallenge(result: LoginResult): result is TwoFactorChallenge {
+    return 'twoFactorRequired' in result && result.twoFactorRequired === true;
+  }
+
+  /**
+   * Renews the access token with the stored refresh token
+   * Concurrent callers share a single refresh; the refresh token is rotated.
+   * Tabs sharing the session refresh one at a time (Web Locks), and a tab
+   * that finds the session renewed by another one adopts its token instead.
+   * Logs the user out when the server refuses the refresh; when it cannot be
+   * reached the session is kept and the refresh retried later.
+   * 
+   * @returns Observable<string> with the renewed access token
+   */
+  refreshSession(): Observable<string> {
+    if (this.refreshInFlight$) {
+      return this.refreshInFlight$;
     }
 
-    // Simulate API delay
-    return of(validCredential).pipe(
-      delay(800), // Simulate network delay
-      map(cred => {
-        const user = this.MOCK_USERS[cred.role];
-        const token = this.generateMockToken(user);
-        const expiresIn = 3600; // 1 hour in seconds
-
-        return {
-          user,
-          token,
-          expiresIn
-        };
-      }),
-      tap(response => {
-        // Update auth state
-        this.setAuthState({
-          user: response.user,
-          token: response.token,
-          isAuthenticated: true,
-          isImpersonating: false,
-          originalUser: null
-        });
+    const refreshToken = this.sessionStore.get('refreshToken');
+    const currentState = this.authState$.value;
+    // The session belongs to the admin while impersonating
+    const sessionUser = currentState.originalUser ?? currentState.user;
 
-        // Persist to localStorage
-        this.saveSession(response);
-      })
+    if (!refreshToken || !sessionUser) {
+      this.logout();
+      return throwError(() => new Error('No session to refresh'));
+    }
+
+    this.refreshInFlight$ = this.withRefreshLock(() => {
+      // Another tab may have renewed the session while this one waited for the lock
+      const renewed = this.readRenewedSession(refreshToken);
+      if (renewed) {
+        this.adoptStoredToken(renewed);
+        return of(renewed.token);
+      }
+
+      return this.http.post<AuthResponse>(
+        `${this.AUTH_URL}/refresh`,
+        { refreshToken },
+        this.authCallOptions()
+      ).pipe(
+        map(response => this.checkResponse(response, sessionUser)),
+        tap(response => {
+          // Keep impersonation untouched, only the token (and fresh session user) changes
+          const latestState = this.authState$.value;
+          this.setAuthState(latestState.isImpersonating
+            ? { ...latestState, token: response.token }
+            : { ...latestState, user: response.user, token: response.token });
+          this.saveSession(response);
+          this.scheduleRefresh(response.expiresIn);
+          this.announce('session-refreshed');
+        }),
+        map(response => response.token)
+      );
+    }).pipe(
+      catchError(error => {
+        // Offline or server down: the refresh token may still be good
+        if (error instanceof ApiError && error.status === 0) {
+          this.retryRefresh();
+          return throwError(() => error);
+        }
+
+        // Another tab may have rotated the refresh token first; without Web
+        // Locks, or with a session handed over by event, its new token can
+        // reach this tab just after this refresh failed
+        return timer(this.REFRESH_RACE_GRACE_MS).pipe(switchMap(() => {
+          const renewed = this.readRenewedSession(refreshToken);
+          if (renewed) {
+            this.adoptStoredToken(renewed);
+            return of(renewed.token);
+          }
+
+          console.error('Failed to refresh session:', error);
+          this.logout();
+          return throwError(() => error);
+        }));
+      }),
+      finalize(() => {
+        this.refreshInFlight$ = null;
+      }),
+      shareReplay(1)
     );
+
+    return this.refreshInFlight$;
   }
 
   /**
    * Logout method
-   * Clears auth state and redirects to login
+   * Clears auth state and the offline data of the user, revokes the refresh
+   * token and redirects to login
+   * 
+   * @param broadcast - Whether to log out the other tabs as well
    */
-  logout(): void {
+  logout(broadcast = true): void {
+    this.refreshTimer?.unsubscribe();
+    this.refreshTimer = null;
+    this.impersonationTimer?.unsubscribe();
+    this.impersonationTimer = null;
+
+    // Close the audit record while the access token can still authorize it
+    const { impersonation, token, user, originalUser } = this.authState$.value;
+    if (broadcast && impersonation && token) {
+      this.recordImpersonationEnd(impersonation, 'logout', token);
+    }
+
+    // Revoke the refresh token on the server (best effort)
+    const refreshToken = this.sessionStore.get('refreshToken');
+    if (refreshToken) {
+      this.http.post<void>(`${this.AUTH_URL}/logout`, { refreshToken }, this.authCallOptions())
+        .pipe(catchError(() => of(undefined)))
+        .subscribe();
+    }
+
     // Clear auth state
     this.authState$.next({
       user: null,
       token: null,
       isAuthenticated: false,
       isImpersonating: false,
-      originalUser: null
+      originalUser: null,
+      impersonation: null
     });
 
-    // Clear localStorage
-    localStorage.removeItem('auth_token');
-    localStorage.removeItem('auth_user');
-    localStorage.removeItem('auth_expires');
+    // Clear the persisted session, and the users and offline changes kept on this device
+    this.sessionStore.clear();
+    this.permissionService.clear();
+    const ownerId = (originalUser ?? user)?.id;
+    if (ownerId) {
+      this.offlineStore.clear(ownerId).catch(error => console.error('Failed to clear offline data:', error));
+    }
+
+    if (broadcast) {
+      this.sessionSync.publish({ type: 'logout' });
+    }
 
     // Redirect to login
     this.router.navigate(['/login']);
   }
 
   /**
-   * Impersonate user (admin only)
-   * Allows admin to switch to a user's view without logging out
+   * Changes the password of the signed-in user
+   * The server re-verifies the current password and signs out the user's
+   * other sessions; this session keeps its refresh token.
+   *
+   * @param currentPassword - Password the user signed in with
+   * @param newPassword - Password to set
+   */
+  changePassword(currentPassword: string, newPassword: string): Observable<void> {
+    if (this.authState$.value.isImpersonating) {
+      return throwError(() => new Error('Stop the impersonation to change your password'));
+    }
+
+    return this.http.post<void>(`${this.ACCOUNT_URL}/password`, { currentPassword, newPassword });
+  }
+
+  /**
+   * Asks the server to mail a password reset link
+   * The request succeeds whether or not the account exists.
+   *
+   * @param identifier - Username or email address
+   */
+  requestPasswordReset(identifier: string): Observable<void> {
+    return this.http.post<unknown>(`${this.AUTH_URL}/forgot-password`, { identifier }, this.authCallOptions())
+      .pipe(map(() => undefined));
+  }
+
+  /**
+   * Sets a new password with the single-use token of a reset link
+   *
+   * @param token - Token from the reset link
+   * @param newPassword - Password to set
+   */
+  resetPassword(token: string, newPassword: string): Observable<void> {
+    return this.http.post<void>(`${this.AUTH_URL}/reset-password`, { token, newPassword }, this.authCallOptions());
+  }
+
+  /**
+   * Gets the profile an open invitation was sent for
+   *
+   * @param token - Token from the invitation link
+   */
+  getInvitation(token: string): Observable<InvitedProfile> {
+    return this.http.get<InvitedProfile>(`${this.AUTH_URL}/invitations/${encodeURIComponent(token)}`, this.authCallOptions());
+  }
+
+  /**
+   * Accepts an invitation: sets the first password, completes the profile
+   * and signs the new user in
+   *
+   * @param token - Token from the invitation link
+   * @param password - Password to set
+   * @param profile - Profile fields the invitee filled in
+   * @returns Observable<AuthResponse> with user data and tokens
+   */
+  acceptInvitation(
+    token: string,
+    password: string,
+    profile: Pick<User, 'firstName' | 'lastName' | 'phone' | 'address' | 'dateOfBirth'>
+  ): Observable<AuthResponse> {
+    return this.http.post<AuthResponse>(`${this.AUTH_URL}/accept-invite`, { token, password, profile }, this.authCallOptions()).pipe(
+      map(response => this.startSession(response, false))
+    );
+  }
+
+  /**
+   * Impersonate user (requires the users.impersonate permission)
+   * Records an audited session on the server with the given reason. The
+   * session survives reloads and ends automatically when it expires.
    * 
    * @param user - User to impersonate
+   * @param options - Reason, read-only mode and duration
+   * @returns Observable<ImpersonationSession> with the recorded session
    */
-  impersonateUser(user: User): void {
+  impersonateUser(user: User, options: ImpersonationOptions): Observable<ImpersonationSession> {
     const currentState = this.authState$.value;
+    const originalUser = currentState.user;
     
-    if (!currentState.user || currentState.user.role !== 'admin') {
-      throw new Error('Only admins can impersonate users');
+    if (!originalUser || !this.permissionService.can(originalUser, 'users.impersonate')) {
+      return throwError(() => new Error('You do not have permission to impersonate users'));
+    }
+    if (currentState.isImpersonating) {
+      return throwError(() => new Error('Stop the current impersonation first'));
     }
 
-    // Save original admin user if not already impersonating
-    const originalUser = currentState.isImpersonating 
-      ? currentState.originalUser 
-      : currentState.user;
-
-    // Update auth state with impersonated user
-    this.setAuthState({
-      user,
-      token: currentState.token,
-      isAuthenticated: true,
-      isImpersonating: true,
-      originalUser
-    });
+    return this.http.post<ImpersonationSession>(this.IMPERSONATION_URL, {
+      userId: user.id,
+      reason: options.reason,
+      readOnly: options.readOnly,
+      durationMinutes: Math.min(options.durationMinutes, this.impersonationConfig.maxDurationMinutes)
+    }).pipe(
+      tap(session => {
+        this.sessionStore.set('impersonation', JSON.stringify({ session, user }));
+        this.applyImpersonation(session, user, originalUser);
+        this.announce('impersonate');
+      })
+    );
   }
 
   /**
    * Stop impersonation and return to original admin user
+   * 
+   * @param endReason - Why the session ended, recorded in the audit trail
    */
-  stopImpersonation(): void {
+  stopImpersonation(endReason: ImpersonationEndReason = 'stopped'): void {
     const currentState = this.authState$.value;
     
     if (!currentState.isImpersonating || !currentState.originalUser) {
       return;
     }
 
-    // Restore original admin user
+    if (currentState.impersonation) {
+      this.recordImpersonationEnd(currentState.impersonation, endReason);
+    }
+
+    this.endImpersonation();
+    this.announce('stop-impersonation');
+  }
+
+  /**
+   * Starts the session of a successful login
+   * 
+   * @param response - Response of the auth server
+   * @param rememberMe - Picks the persistence of the session (see SessionStoreService)
+   * @returns The checked response
+   */
+  private startSession(response: AuthResponse, rememberMe: boolean): AuthResponse {
+    response = this.checkResponse(response);
+
+    // Update auth state
     this.setAuthState({
-      user: currentState.originalUser,
-      token: currentState.token,
+      user: response.user,
+      token: response.token,
       isAuthenticated: true,
       isImpersonating: false,
-      originalUser: null
+      originalUser: null,
+      impersonation: null
     });
+
+    // Persist where the "remember me" choice says
+    this.sessionStore.use(this.sessionStore.persistenceFor(rememberMe));
+    this.saveSession(response);
+    this.scheduleRefresh(response.expiresIn);
+    this.announce('login');
+    return response;
   }
 
   /**
-   * Generates a mock JWT token
-   * In a real app, this would be returned from the backend
+   * Checks that a token response is well-formed and its claims match the returned user
+   * 
+   * @param response - Response of the auth server
+   * @param expectedUser - User the session must belong to, if known
+   * @returns The response with its user normalized
+   * @throws Error when the user or token is malformed or the claims do not match
    */
-  private generateMockToken(user: User): string {
-    const header = btoa(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
-    const payload = btoa(JSON.stringify({ 
-      sub: user.id, 
-      username: user.username,
-      role: user.role,
-      iat: Date.now(),
-      exp: Date.now() + 3600000 // 1 hour
-    }));
-    const signature = btoa('mock-signature');
-    
-    return `${header}.${payload}.${signature}`;
+  private checkResponse(response: AuthResponse, expectedUser?: User): AuthResponse {
+    const user = this.toSessionUser(response.user);
+    const reason = validateClaims(decodeJwt(response.token), user);
+    if (reason) {
+      throw new Error(`Rejected token: ${reason}`);
+    }
+    if (expectedUser && expectedUser.id !== user.id) {
+      throw new Error('Rejected token: session belongs to another user');
+    }
+
+    return { ...response, user };
   }
 
   /**
-   * Saves authentication session to localStorage
+   * Validates a user from the auth server or the session store
+   *
+   * @throws PayloadValidationError when the record does not match the User schema
+   */
+  private toSessionUser(raw: unknown): User {
+    const result = parseUser(raw);
+    const error = this.errorHandler.reportInvalidPayload('user', result.issues, false);
+    if (!result.ok) {
+      throw error;
+    }
+    return result.value;
+  }
+
+  /**
+   * Auth server calls never carry or refresh the access token themselves
+   */
+  private authCallOptions(): { context: HttpContext } {
+    return { context: new HttpContext().set(SKIP_TOKEN_REFRESH, true) };
+  }
+
+  /**
+   * Schedules a silent refresh shortly before the access token expires
+   * 
+   * @param expiresIn - Seconds until the access token expires
+   */
+  private scheduleRefresh(expiresIn: number): void {
+    this.refreshTimer?.unsubscribe();
+
+    const delayMs = Math.max(expiresIn * 1000 - this.REFRESH_LEEWAY_MS, 0);
+    this.refreshTimer = timer(delayMs).pipe(
+      switchMap(() => this.refreshSession()),
+      catchError(() => of(null))
+    ).subscribe();
+  }
+
+  /**
+   * Retries a refresh that could not reach the server once the browser is
+   * back online, or after a while when it never went offline
+   */
+  private retryRefresh(): void {
+    this.refreshTimer?.unsubscribe();
+    this.refreshTimer = race(fromEvent(window, 'online'), timer(this.REFRESH_RETRY_MS)).pipe(
+      take(1),
+      switchMap(() => this.refreshSession()),
+      catchError(() => of(null))
+    ).subscribe();
+  }
+
+  /**
+   * Saves authentication session to the session store
    */
   private saveSession(response: AuthResponse): void {
-    const expiresAt = Date.now() + (response.expiresIn * 1000);
-    
-    localStorage.setItem('auth_token', response.token);
-    localStorage.setItem('auth_user', JSON.stringify(response.user));
-    localStorage.setItem('auth_expires', expiresAt.toString());
+    this.sessionStore.set('token', response.token);
+    this.sessionStore.set('user', JSON.stringify(response.user));
+    this.sessionStore.set('refreshToken', response.refreshToken);
+  }
+
+  /**
+   * Reads the persisted session from the session store
+   * The expiry comes from the token's own exp claim, and the claims must
+   * match the stored user (an expired token is accepted while a refresh
+   * token can renew it).
+   * 
+   * @returns The stored session, or null when it is missing, malformed or mismatched
+   */
+  private readStoredSession(): { user: User; token: string; expiresAt: number; refreshToken: string | null } | null {
+    const token = this.sessionStore.get('token');
+    const userStr = this.sessionStore.get('user');
+    const refreshToken = this.sessionStore.get('refreshToken');
+
+    if (!token || !userStr) {
+      return null;
+    }
+
+    try {
+      const user = this.toSessionUser(JSON.parse(userStr));
+      const claims = decodeJwt(token);
+      const reason = validateClaims(claims, user, !!refreshToken);
+      if (reason) {
+        throw new Error(reason);
+      }
+
+      return { user, token, expiresAt: claims.exp * 1000, refreshToken };
+    } catch (error) {
+      console.error('Failed to read stored session:', error);
+      return null;
+    }
   }
 
   /**
-   * Restores authentication session from localStorage
+   * Restores authentication session from the session store
    * Called on service initialization
    */
   private restoreSession(): void {
-    const token = localStorage.getItem('auth_token');
-    const userStr = localStorage.getItem('auth_user');
-    const expiresStr = localStorage.getItem('auth_expires');
-
-    if (!token || !userStr || !expiresStr) {
+    if (!this.sessionStore.get('token')) {
       return;
     }
 
-    // Check if token has expired
-    const expiresAt = parseInt(expiresStr, 10);
-    if (Date.now() > expiresAt) {
-      this.logout();
+    // Malformed, mismatched or expired (without refresh token) sessions are rejected
+    const session = this.readStoredSession();
+    if (!session) {
+      this.logout(false);
       return;
     }
 
+    this.setAuthState({
+      user: session.user,
+      token: session.token,
+      isAuthenticated: true,
+      isImpersonating: false,
+      originalUser: null,
+      impersonation: null
+    });
+
+    // Resume an impersonation started before the reload (ends right away if it expired)
+    const stored = this.readStoredImpersonation(session.user);
+    if (stored) {
+      this.applyImpersonation(stored.session, stored.user, session.user);
+    }
+
+    // Refreshes right away (asynchronously) when the token already expired
+    this.scheduleRefresh((session.expiresAt - Date.now()) / 1000);
+  }
+
+  /**
+   * Reads the impersonation persisted by impersonateUser()
+   * 
+   * @param originalUser - Signed-in user the impersonation must belong to
+   * @returns The stored session and impersonated user, or null when there is none
+   */
+  private readStoredImpersonation(originalUser: User): { session: ImpersonationSession; user: User } | null {
+    const stored = this.sessionStore.get('impersonation');
+    if (!stored) {
+      return null;
+    }
+
     try {
-      const user = JSON.parse(userStr);
+      const parsed = JSON.parse(stored);
+      const session: ImpersonationSession = parsed.session;
+      const user = this.toSessionUser(parsed.user);
+      if (String(session.actorId) === originalUser.id && String(session.targetId) === user.id) {
+        return { session, user };
+      }
+    } catch (error) {
+      console.error('Failed to read stored impersonation:', error);
+    }
+
+    this.sessionStore.remove('impersonation');
+    return null;
+  }
+
+  /**
+   * Switches to the impersonated user and schedules the automatic end
+   */
+  private applyImpersonation(session: ImpersonationSession, user: User, originalUser: User): void {
+    this.setAuthState({
+      user,
+      token: this.authState$.value.token,
+      isAuthenticated: true,
+      isImpersonating: true,
+      originalUser,
+      impersonation: session
+    });
+
+    this.impersonationTimer?.unsubscribe();
+    this.impersonationTimer = timer(Math.max(Date.parse(session.expiresAt) - Date.now(), 0))
+      .subscribe(() => {
+        this.stopImpersonation('expired');
+        this.permissionService.getLandingRoute(originalUser).pipe(take(1))
+          .subscribe(route => this.router.navigate([route]));
+      });
+  }
+
+  /**
+   * Returns to the original user locally, without recording anything
+   */
+  private endImpersonation(): void {
+    const currentState = this.authState$.value;
+
+    this.impersonationTimer?.unsubscribe();
+    this.impersonationTimer = null;
+    this.sessionStore.remove('impersonation');
+
+    if (currentState.isImpersonating && currentState.originalUser) {
       this.setAuthState({
-        user,
-        token,
+        user: currentState.originalUser,
+        token: currentState.token,
         isAuthenticated: true,
         isImpersonating: false,
-        originalUser: null
+        originalUser: null,
+        impersonation: null
       });
-    } catch (error) {
-      console.error('Failed to restore session:', error);
-      this.logout();
+    }
+  }
+
+  /**
+   * Closes the audit record of an impersonation session (best effort)
+   * 
+   * @param session - Session to close
+   * @param endReason - Why it ended
+   * @param token - Explicit access token, for calls made while the state is being cleared
+   */
+  private recordImpersonationEnd(session: ImpersonationSession, endReason: ImpersonationEndReason, token?: string): void {
+    const options = token ? { headers: { Authorization: `Bearer ${token}` } } : {};
+
+    this.http.post<ImpersonationSession>(`${this.IMPERSONATION_URL}/${session.id}/stop`, { endReason }, options)
+      .pipe(catchError(error => {
+        console.error('Failed to record the end of impersonation:', error);
+        return of(null);
+      }))
+      .subscribe();
+  }
+
+  /**
+   * Reads the session when another tab renewed it after `refreshToken` was read
+   *
+   * @returns The renewed session, or null when it was not renewed
+   */
+  private readRenewedSession(refreshToken: string): { token: string; expiresAt: number } | null {
+    const session = this.readStoredSession();
+    return session && session.refreshToken !== refreshToken && session.expiresAt > Date.now() ? session : null;
+  }
+
+  /**
+   * Runs a refresh while holding the refresh lock shared by all tabs
+   * The lock is released once the refresh completes, fails or is unsubscribed.
+   */
+  private withRefreshLock<T>(refresh: () => Observable<T>): Observable<T> {
+    if (typeof navigator === 'undefined' || !navigator.locks) {
+      return refresh();
+    }
+
+    return new Observable<T>(subscriber => {
+      let inner: Subscription | null = null;
+
+      navigator.locks.request(this.REFRESH_LOCK, () => new Promise<void>(release => {
+        if (subscriber.closed) {
+          release();
+          return;
+        }
+        inner = refresh().pipe(finalize(release)).subscribe(subscriber);
+      })).catch(error => subscriber.error(error));
+
+      return () => inner?.unsubscribe();
+    });
+  }
+
+  /**
+   * Switches to the token another tab stored, keeping the rest of the state
+   */
+  private adoptStoredToken(session: { token: string; expiresAt: number }): void {
+    this.setAuthState({ ...this.authState$.value, token: session.token });
+    this.scheduleRefresh((session.expiresAt - Date.now()) / 1000);
+  }
+
+  /**
+   * Announces an auth change to the other tabs
+   * Sessions outside localStorage are sent along, so the other tabs can follow.
+   */
+  private announce(type: 'login' | 'session-refreshed' | 'impersonate' | 'stop-impersonation'): void {
+    const session = this.sessionStore.share();
+    this.sessionSync.publish(session ? { type, session } : { type });
+  }
+
+  /**
+   * Leaves the login page once another tab signed this one in
+   */
+  private leaveLoginPage(user: User): void {
+    if (this.router.url.startsWith('/login')) {
+      this.permissionService.getLandingRoute(user).pipe(take(1))
+        .subscribe(route => this.router.navigate([route]));
+    }
+  }
+
+  /**
+   * Applies an auth change announced by another tab
+   * Mirrors the change locally without announcing it again
+   */
+  private handleSyncEvent(event: SessionSyncEvent): void {
+    const currentState = this.authState$.value;
+
+    // Sessions outside localStorage come with the event; a shared session
+    // is only taken by tabs that have none
+    if (event.session && (event.type !== 'session-shared' || !currentState.isAuthenticated)) {
+      this.sessionStore.adopt(event.session);
+    }
+
+    switch (event.type) {
+      case 'login': {
+        const session = this.readStoredSession();
+        if (!session) {
+          return;
+        }
+
+        this.setAuthState({
+          user: session.user,
+          token: session.token,
+          isAuthenticated: true,
+          isImpersonating: false,
+          originalUser: null,
+          impersonation: null
+        });
+        this.scheduleRefresh((session.expiresAt - Date.now()) / 1000);
+        this.leaveLoginPage(session.user);
+        break;
+      }
+      case 'session-request': {
+        const session = currentState.isAuthenticated ? this.sessionStore.share() : null;
+        if (session) {
+          this.sessionSync.publish({ type: 'session-shared', session });
+        }
+        break;
+      }
+      case 'session-shared':
+        if (!currentState.isAuthenticated && event.session) {
+          this.restoreSession();
+          const user = this.authState$.value.originalUser ?? this.authState$.value.user;
+          if (user) {
+            this.leaveLoginPage(user);
+          }
+        }
+        break;
+      case 'session-refreshed': {
+        const session = this.readStoredSession();
+        if (session && currentState.isAuthenticated) {
+          this.adoptStoredToken(session);
+        }
+        break;
+      }
+      case 'logout':
+        if (currentState.isAuthenticated) {
+          this.logout(false);
+        }
+        break;
+      case 'impersonate': {
+        const originalUser = currentState.isImpersonating ? null : currentState.user;
+        const stored = originalUser ? this.readStoredImpersonation(originalUser) : null;
+        if (originalUser && stored) {
+          this.applyImpersonation(stored.session, stored.user, originalUser);
+        }
+        break;
+      }
+      case 'stop-impersonation':
+        this.endImpersonation();
+        break;
     }
   }
 
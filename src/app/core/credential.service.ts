@@ -0,0 +1,36 @@
+import { Injectable } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { Observable } from 'rxjs';
+import { User } from './user.model';
+import { API_BASE_URL } from './api.config';
+
+/**
+ * Credential Service
+ *
+ * Provisions the initial password of users created from the user list. The
+ * auth server hashes it and keeps the hash in the credentials resource,
+ * which the app can neither read nor write directly.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class CredentialService {
+  // Backend API URL
+  private readonly API_URL = `${API_BASE_URL}/users`;
+
+  constructor(private http: HttpClient) {}
+
+  /**
+   * Creates the initial credentials for a user
+   * Refused when the user already has a password.
+   *
+   * @param user - User the credentials belong to
+   * @param password - Initial plain text password
+   */
+  provisionCredentials(user: User, password: string): Observable<void> {
+    return this.http.post<void>(`${this.API_URL}/${encodeURIComponent(user.id)}/credentials`, {
+      username: user.username,
+      password
+    });
+  }
+}
@@ -1,19 +1,112 @@
 import { Injectable } from '@angular/core';
 import { HttpErrorResponse } from '@angular/common/http';
-import { Observable, throwError } from 'rxjs';
+import { Observable, Subject, throwError } from 'rxjs';
+import { PayloadIssue } from './user.schema';
+
+/**
+ * API Error
+ * Error thrown for failed HTTP calls. Keeps the status code and the
+ * response body for callers that need more than the message.
+ */
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly details: Record<string, unknown> | null
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+/**
+ * Payload Validation Error
+ * Records from the API that did not match their schema. Repaired records
+ * are kept; rejected ones never reach the application state.
+ */
+export class PayloadValidationError extends Error {
+  constructor(
+    public readonly resource: string,
+    public readonly issues: PayloadIssue[]
+  ) {
+    super(`Invalid ${resource} data from the server: ${issues.filter(i => !i.repaired).map(describeIssue).join('; ')}`);
+    this.name = 'PayloadValidationError';
+  }
+
+  /**
+   * Ids of the records that were rejected
+   */
+  get rejectedIds(): (string | null)[] {
+    return [...new Set(this.issues.filter(i => !i.repaired).map(i => i.recordId))];
+  }
+}
+
+/**
+ * Version Conflict Error
+ * An edit was refused because someone else saved the record first (409).
+ * Carries the record as it is now on the server, to merge with.
+ */
+export class VersionConflictError<T> extends Error {
+  constructor(
+    message: string,
+    public readonly current: T
+  ) {
+    super(message);
+    this.name = 'VersionConflictError';
+  }
+}
+
+function describeIssue(issue: PayloadIssue): string {
+  return `${issue.recordId ? `#${issue.recordId} ` : ''}${issue.field} ${issue.problem}`.trim();
+}
 
 @Injectable({
   providedIn: 'root'
 })
 export class ErrorHandlingService {
+  private payloadErrors$ = new Subject<PayloadValidationError>();
 
   constructor() { }
 
+  /**
+   * Emits payloads with rejected records, for components to notify the user
+   */
+  getPayloadErrors(): Observable<PayloadValidationError> {
+    return this.payloadErrors$.asObservable();
+  }
+
+  /**
+   * Reports records from the API that did not match their schema
+   * Repairs are only logged; rejected records are also announced through
+   * getPayloadErrors() unless the caller surfaces the returned error itself.
+   *
+   * @param resource - API resource the records came from
+   * @param issues - Problems found while validating
+   * @param announce - Emit the error through getPayloadErrors()
+   * @returns The error describing the rejected records, or null when all were kept
+   */
+  reportInvalidPayload(resource: string, issues: PayloadIssue[], announce = true): PayloadValidationError | null {
+    const repaired = issues.filter(i => i.repaired);
+    if (repaired.length) {
+      console.warn(`Repaired ${resource} data from the server:`, repaired.map(describeIssue));
+    }
+    if (repaired.length === issues.length) {
+      return null;
+    }
+
+    const error = new PayloadValidationError(resource, issues);
+    this.logError(error);
+    if (announce) {
+      this.payloadErrors$.next(error);
+    }
+    return error;
+  }
+
   /**
    * Handles HTTP errors and returns user-friendly error messages
    * 
    * @param error - The HTTP error response
-   * @returns Observable that throws a formatted error
+   * @returns Observable that throws a formatted ApiError
    */
   handleError(error: HttpErrorResponse): Observable<never> {
     let errorMessage = 'An error occurred. Please try again later.';
@@ -31,7 +124,8 @@ export class ErrorHandlingService {
     // Log error for debugging
     this.logError(error);
 
-    return throwError(() => new Error(errorMessage));
+    const details = typeof error.error === 'object' && !(error.error instanceof ErrorEvent) ? error.error : null;
+    return throwError(() => new ApiError(errorMessage, error.status, details));
   }
 
   /**
@@ -56,17 +150,23 @@ export class ErrorHandlingService {
   private getServerErrorMessage(error: HttpErrorResponse): string {
     switch (error.status) {
       case 400:
-        return 'Bad request. Please check your input.';
+        return error.error?.message || 'Bad request. Please check your input.';
       case 401:
-        return 'Unauthorized. Please log in again.';
+        return error.error?.message || 'Unauthorized. Please log in again.';
       case 403:
-        return 'Access forbidden. You don\'t have permission to access this resource.';
+        return error.error?.message || 'Access forbidden. You don\'t have permission to access this resource.';
       case 404:
         return 'Resource not found.';
       case 409:
-        return 'Conflict. This operation cannot be completed.';
+        return error.error?.message || 'Conflict. This operation cannot be completed.';
       case 422:
         return 'Validation error. Please check your input.';
+      case 428:
+        return error.error?.message || 'This change must be based on the current version of the record.';
+      case 423:
+        return error.error?.message || 'This account is locked.';
+      case 429:
+        return error.error?.message || 'Too many requests. Please wait and try again.';
       case 500:
         return 'Internal server error. Please try again later.';
       case 503:
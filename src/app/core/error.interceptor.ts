@@ -1,31 +1,32 @@
 import { HttpInterceptorFn, HttpErrorResponse } from '@angular/common/http';
-import { inject } from '@angular/core';
+import { Injector, inject } from '@angular/core';
 import { catchError } from 'rxjs/operators';
-import { Router } from '@angular/router';
 import { ErrorHandlingService } from './error-handling.service';
+import { AuthService } from './auth.service';
+import { SKIP_TOKEN_REFRESH } from './api.config';
 
 /**
  * HTTP Error Interceptor
  * 
  * Intercepts all HTTP errors globally and handles them appropriately.
- * Automatically logs out users on 401 errors.
+ * Automatically logs out users on 401 errors through AuthService, so its
+ * state, refresh timer and the other tabs follow. Registered before
+ * authInterceptor, so a 401 only reaches it once the token refresh failed.
+ * 401s of the auth server calls themselves (login, refresh) are left to AuthService.
  * Logs all errors for debugging and monitoring.
  */
 export const errorInterceptor: HttpInterceptorFn = (req, next) => {
   const errorHandler = inject(ErrorHandlingService);
-  const router = inject(Router);
+  // AuthService makes requests itself, so it is looked up once an error needs it
+  const injector = inject(Injector);
 
   return next(req).pipe(
     catchError((error: HttpErrorResponse) => {
       // Handle 401 Unauthorized - automatically redirect to login
-      if (error.status === 401) {
-        // Clear any stored authentication data
-        localStorage.removeItem('auth_token');
-        localStorage.removeItem('auth_user');
-        localStorage.removeItem('auth_expires');
-        
-        // Redirect to login
-        router.navigate(['/login']);
+      if (error.status === 401 && !req.context.get(SKIP_TOKEN_REFRESH)) {
+        // Clear the session and redirect to login; only a signed-in tab signs out the others
+        const authService = injector.get(AuthService);
+        authService.logout(authService.isAuthenticated());
       }
 
       // Use error handling service to process the error
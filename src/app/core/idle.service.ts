@@ -0,0 +1,124 @@
+import { Inject, Injectable, InjectionToken, NgZone, OnDestroy } from '@angular/core';
+import { BehaviorSubject, Observable, Subject, Subscription, fromEvent, interval, merge } from 'rxjs';
+import { distinctUntilChanged, map, takeUntil, throttleTime } from 'rxjs/operators';
+import { AuthService } from './auth.service';
+
+/**
+ * Idle Config Interface
+ * Inactivity limits used by the idle monitor
+ */
+export interface IdleConfig {
+  // Inactivity after which the user is logged out
+  timeoutMs: number;
+  // How long before the timeout the countdown warning is shown
+  warningMs: number;
+}
+
+/**
+ * Idle monitor configuration, override it in app.config.ts
+ */
+export const IDLE_CONFIG = new InjectionToken<IdleConfig>('IDLE_CONFIG', {
+  providedIn: 'root',
+  factory: () => ({ timeoutMs: 15 * 60 * 1000, warningMs: 60 * 1000 })
+});
+
+/**
+ * Idle Service
+ *
+ * Watches user activity while signed in and logs out after a period of
+ * inactivity, exposing a countdown for the warning dialog beforehand.
+ * The last activity time is kept in localStorage, so activity in any tab
+ * keeps every tab signed in.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class IdleService implements OnDestroy {
+  private readonly STORAGE_KEY = 'auth_last_activity';
+  private readonly ACTIVITY_EVENTS = ['mousemove', 'mousedown', 'keydown', 'scroll', 'touchstart'];
+
+  // Seconds left before logout while the warning is shown, null otherwise
+  private countdown$ = new BehaviorSubject<number | null>(null);
+  private monitor: Subscription | null = null;
+  private destroy$ = new Subject<void>();
+
+  constructor(
+    private authService: AuthService,
+    private ngZone: NgZone,
+    @Inject(IDLE_CONFIG) private config: IdleConfig
+  ) {
+    this.authService.getAuthState()
+      .pipe(
+        map(state => state.isAuthenticated),
+        distinctUntilChanged(),
+        takeUntil(this.destroy$)
+      )
+      .subscribe(isAuthenticated => isAuthenticated ? this.start() : this.stop());
+  }
+
+  /**
+   * Gets the remaining seconds of the idle warning as an Observable
+   * Emits null while no warning is due
+   */
+  getCountdown(): Observable<number | null> {
+    return this.countdown$.asObservable();
+  }
+
+  /**
+   * Records activity, dismissing the warning in every tab
+   */
+  keepAlive(): void {
+    localStorage.setItem(this.STORAGE_KEY, Date.now().toString());
+    this.countdown$.next(null);
+  }
+
+  ngOnDestroy(): void {
+    this.stop();
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  private start(): void {
+    this.stop();
+    this.keepAlive();
+
+    // Activity and the 1s tick run outside Angular to avoid needless change detection
+    this.ngZone.runOutsideAngular(() => {
+      const activity = merge(...this.ACTIVITY_EVENTS.map(name => fromEvent(document, name))).pipe(
+        throttleTime(1000)
+      );
+
+      this.monitor = activity.subscribe(() => {
+        // Once the warning is up, only an explicit "stay signed in" counts
+        if (this.countdown$.value === null) {
+          localStorage.setItem(this.STORAGE_KEY, Date.now().toString());
+        }
+      });
+
+      this.monitor.add(interval(1000).subscribe(() => this.check()));
+    });
+  }
+
+  private stop(): void {
+    this.monitor?.unsubscribe();
+    this.monitor = null;
+    if (this.countdown$.value !== null) {
+      this.ngZone.run(() => this.countdown$.next(null));
+    }
+  }
+
+  private check(): void {
+    const lastActivity = parseInt(localStorage.getItem(this.STORAGE_KEY) ?? '0', 10) || Date.now();
+    const remaining = this.config.timeoutMs - (Date.now() - lastActivity);
+
+    if (remaining <= 0) {
+      this.ngZone.run(() => this.authService.logout());
+      return;
+    }
+
+    const countdown = remaining <= this.config.warningMs ? Math.ceil(remaining / 1000) : null;
+    if (countdown !== this.countdown$.value) {
+      this.ngZone.run(() => this.countdown$.next(countdown));
+    }
+  }
+}
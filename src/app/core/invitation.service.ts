@@ -0,0 +1,85 @@
+import { Injectable } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { BehaviorSubject, Observable, of } from 'rxjs';
+import { catchError, map, tap } from 'rxjs/operators';
+import { Invitation, User } from './user.model';
+import { API_BASE_URL } from './api.config';
+
+/**
+ * Invitation Service
+ *
+ * Onboarding invitations of pending users (see server/invitation-routes.mjs).
+ * Keeps the newest invitation of every user so the user list can show
+ * whether a link is still open, and lets admins resend or revoke it.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class InvitationService {
+  private readonly API_URL = `${API_BASE_URL}/invitations`;
+
+  // Newest invitation per user id
+  private invitationsState$ = new BehaviorSubject<Map<string, Invitation>>(new Map());
+
+  constructor(private http: HttpClient) {}
+
+  /**
+   * Gets the newest invitation of every invited user
+   */
+  getInvitations(): Observable<Map<string, Invitation>> {
+    return this.invitationsState$.asObservable();
+  }
+
+  /**
+   * Gets the newest invitation of a user, if they were invited
+   */
+  getLatestInvitation(userId: User['id']): Observable<Invitation | undefined> {
+    return this.invitationsState$.pipe(map(invitations => invitations.get(String(userId))));
+  }
+
+  /**
+   * Loads all invitations (requires users.read)
+   */
+  loadInvitations(): void {
+    this.http.get<Invitation[]>(this.API_URL).pipe(
+      catchError(error => {
+        console.error('Error loading invitations:', error);
+        return of([]);
+      })
+    ).subscribe(invitations => {
+      const latest = new Map<string, Invitation>();
+      for (const invitation of invitations) {
+        const known = latest.get(String(invitation.userId));
+        if (!known || known.createdAt < invitation.createdAt) {
+          latest.set(String(invitation.userId), invitation);
+        }
+      }
+      this.invitationsState$.next(latest);
+    });
+  }
+
+  /**
+   * Mails a pending user a new invitation link; earlier links stop working
+   * (requires users.write)
+   */
+  sendInvitation(userId: User['id']): Observable<Invitation> {
+    return this.http.post<Invitation>(this.API_URL, { userId }).pipe(
+      tap(invitation => this.store(invitation))
+    );
+  }
+
+  /**
+   * Revokes an open invitation (requires users.write)
+   */
+  revokeInvitation(invitation: Invitation): Observable<void> {
+    return this.http.delete<void>(`${this.API_URL}/${encodeURIComponent(invitation.id)}`).pipe(
+      tap(() => this.store({ ...invitation, status: 'revoked', revokedAt: new Date().toISOString() }))
+    );
+  }
+
+  private store(invitation: Invitation): void {
+    const invitations = new Map(this.invitationsState$.value);
+    invitations.set(String(invitation.userId), invitation);
+    this.invitationsState$.next(invitations);
+  }
+}
@@ -0,0 +1,87 @@
+import { JwtClaims, decodeJwt, validateClaims } from './jwt.util';
+import { User } from './user.model';
+
+function base64Url(value: unknown): string {
+  const bytes = new TextEncoder().encode(JSON.stringify(value));
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function createToken(claims: unknown): string {
+  return `${base64Url({ alg: 'HS256', typ: 'JWT' })}.${base64Url(claims)}.signature`;
+}
+
+describe('jwt.util', () => {
+  const now = Math.floor(Date.now() / 1000);
+  const user: User = {
+    id: '2',
+    username: 'john.doe',
+    email: 'john.doe@example.com',
+    firstName: 'John',
+    lastName: 'Doe',
+    role: 'user',
+    status: 'active',
+    version: 1
+  };
+  const claims: JwtClaims = { sub: '2', username: 'john.doe', role: 'user', iat: now - 60, exp: now + 900 };
+
+  describe('decodeJwt', () => {
+    it('should decode the claims of a token', () => {
+      expect(decodeJwt(createToken(claims))).toEqual(claims);
+    });
+
+    it('should decode non-ASCII claims', () => {
+      expect(decodeJwt(createToken({ ...claims, username: 'محمد' })).username).toBe('محمد');
+    });
+
+    it('should reject tokens without three segments', () => {
+      expect(() => decodeJwt('header.payload')).toThrowError('Malformed token');
+      expect(() => decodeJwt(`${createToken(claims)}.extra`)).toThrowError('Malformed token');
+      expect(() => decodeJwt('header..signature')).toThrowError('Malformed token');
+    });
+
+    it('should reject payloads that are not JSON', () => {
+      expect(() => decodeJwt('header.not-json.signature')).toThrowError('Malformed token');
+    });
+  });
+
+  describe('validateClaims', () => {
+    it('should accept the claims of the user', () => {
+      expect(validateClaims(claims, user)).toBeNull();
+    });
+
+    it('should accept a numeric subject matching the id', () => {
+      expect(validateClaims({ ...claims, sub: 2 as unknown as string }, user)).toBeNull();
+    });
+
+    it('should require exp and iat', () => {
+      const withoutExp: Partial<JwtClaims> = { ...claims };
+      delete withoutExp.exp;
+      expect(validateClaims(withoutExp as JwtClaims, user)).toBe('Token is missing exp or iat');
+      expect(validateClaims({ ...claims, iat: String(now) as unknown as number }, user)).toBe('Token is missing exp or iat');
+    });
+
+    it('should reject tokens issued in the future beyond the clock skew', () => {
+      expect(validateClaims({ ...claims, iat: now + 30 }, user)).toBeNull();
+      expect(validateClaims({ ...claims, iat: now + 120, exp: now + 1000 }, user)).toBe('Token issue time is invalid');
+    });
+
+    it('should reject tokens expiring before they were issued', () => {
+      expect(validateClaims({ ...claims, exp: claims.iat }, user)).toBe('Token issue time is invalid');
+    });
+
+    it('should reject expired tokens unless expired tokens are allowed', () => {
+      const expired = { ...claims, iat: now - 1000, exp: now - 10 };
+      expect(validateClaims(expired, user)).toBe('Token expired');
+      expect(validateClaims(expired, user, true)).toBeNull();
+    });
+
+    it('should reject tokens of another user', () => {
+      expect(validateClaims({ ...claims, sub: '3' }, user)).toBe('Token subject does not match the user');
+      expect(validateClaims({ ...claims, username: 'jane.smith' }, user)).toBe('Token subject does not match the user');
+    });
+
+    it('should reject tokens with another role', () => {
+      expect(validateClaims({ ...claims, role: 'admin' }, user)).toBe('Token role does not match the user');
+    });
+  });
+});
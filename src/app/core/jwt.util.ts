@@ -0,0 +1,71 @@
+import { User, UserRole } from './user.model';
+
+/**
+ * JWT Claims Interface
+ * Claims carried by the access tokens the auth server signs
+ */
+export interface JwtClaims {
+  sub: string;
+  username: string;
+  role: UserRole;
+  iat: number;
+  exp: number;
+}
+
+// Tolerated clock difference between the browser and the server, in seconds
+const CLOCK_SKEW = 60;
+
+/**
+ * Decodes the payload of a compact JWT
+ * The signature is verified by the server; the client only reads the claims.
+ *
+ * @param token - Compact JWT (header.payload.signature)
+ * @returns The decoded claims
+ * @throws Error when the token is not a well-formed JWT
+ */
+export function decodeJwt(token: string): JwtClaims {
+  const segments = token.split('.');
+  if (segments.length !== 3 || segments.some(segment => !segment)) {
+    throw new Error('Malformed token');
+  }
+
+  try {
+    const base64 = segments[1].replace(/-/g, '+').replace(/_/g, '/');
+    const json = decodeURIComponent(
+      Array.from(atob(base64), char => '%' + char.charCodeAt(0).toString(16).padStart(2, '0')).join('')
+    );
+    return JSON.parse(json);
+  } catch {
+    throw new Error('Malformed token');
+  }
+}
+
+/**
+ * Validates the standard and app claims of a token
+ *
+ * @param claims - Decoded token claims
+ * @param user - User the token is expected to belong to
+ * @param allowExpired - Accept an expired token (e.g. one that is about to be refreshed)
+ * @returns The reason the claims are invalid, or null when they are valid
+ */
+export function validateClaims(claims: JwtClaims, user: User, allowExpired = false): string | null {
+  const now = Date.now() / 1000;
+
+  if (typeof claims.exp !== 'number' || typeof claims.iat !== 'number') {
+    return 'Token is missing exp or iat';
+  }
+  if (claims.iat > now + CLOCK_SKEW || claims.exp <= claims.iat) {
+    return 'Token issue time is invalid';
+  }
+  if (!allowExpired && claims.exp <= now) {
+    return 'Token expired';
+  }
+  if (String(claims.sub) !== String(user.id) || claims.username !== user.username) {
+    return 'Token subject does not match the user';
+  }
+  if (claims.role !== user.role) {
+    return 'Token role does not match the user';
+  }
+
+  return null;
+}
@@ -0,0 +1,69 @@
+import { Injectable } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { BehaviorSubject, Observable, of } from 'rxjs';
+import { catchError, map, tap } from 'rxjs/operators';
+import { LoginAttempt } from './user.model';
+import { API_BASE_URL } from './api.config';
+
+/**
+ * Login Attempt Service
+ *
+ * Lets admins see which accounts are locked after too many failed logins
+ * and unlock them. The failures themselves are recorded by the auth server.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class LoginAttemptService {
+  // Backend API URL
+  private readonly API_URL = `${API_BASE_URL}/loginAttempts`;
+
+  private attemptsState$ = new BehaviorSubject<LoginAttempt[]>([]);
+
+  constructor(private http: HttpClient) {}
+
+  /**
+   * Gets the accounts that are currently locked, keyed by username
+   */
+  getLockedAccounts(): Observable<Map<string, LoginAttempt>> {
+    return this.attemptsState$.pipe(
+      map(attempts => new Map(
+        attempts
+          .filter(attempt => this.isLocked(attempt))
+          .map(attempt => [attempt.id, attempt])
+      ))
+    );
+  }
+
+  /**
+   * Loads the failed login attempts from the API
+   */
+  loadAttempts(): void {
+    this.http.get<LoginAttempt[]>(this.API_URL).pipe(
+      catchError(error => {
+        console.error('Error loading login attempts:', error);
+        return of([]);
+      })
+    ).subscribe(attempts => this.attemptsState$.next(attempts));
+  }
+
+  /**
+   * Unlocks an account by clearing its failed attempts
+   *
+   * @param username - Username of the locked account
+   */
+  unlock(username: string): Observable<void> {
+    return this.http.delete<void>(`${this.API_URL}/${encodeURIComponent(username)}`).pipe(
+      tap(() => this.attemptsState$.next(
+        this.attemptsState$.value.filter(attempt => attempt.id !== username)
+      ))
+    );
+  }
+
+  /**
+   * Checks whether an attempt record still locks its account
+   */
+  isLocked(attempt: LoginAttempt): boolean {
+    return !!attempt.lockedUntil && Date.parse(attempt.lockedUntil) > Date.now();
+  }
+}
@@ -0,0 +1,191 @@
+import { Injectable } from '@angular/core';
+import { QueuedUserChange, User, UserId } from './user.model';
+
+const DB_NAME = 'widebot-offline';
+const DB_VERSION = 1;
+const USERS_STORE = 'users';
+const QUEUE_STORE = 'queue';
+
+/**
+ * Offline Store Service
+ *
+ * Keeps the users of the pages loaded and the changes made offline in IndexedDB,
+ * per signed-in admin, so both survive a reload. When IndexedDB cannot be
+ * opened (e.g. private windows of some browsers) they are kept in memory and
+ * last as long as the page. Both are removed when the admin signs out.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class OfflineStoreService {
+  private db: Promise<IDBDatabase | null> | null = null;
+
+  // Used when IndexedDB is unavailable
+  private memoryUsers = new Map<UserId, User[]>();
+  private memoryQueue: QueuedUserChange[] = [];
+  private nextSeq = 1;
+
+  /**
+   * Gets the users cached for an admin
+   *
+   * @returns The users, or null when nothing was cached yet
+   */
+  async getUsers(ownerId: UserId): Promise<User[] | null> {
+    const db = await this.open();
+    if (!db) {
+      return this.memoryUsers.get(ownerId) ?? null;
+    }
+
+    const entry = await this.read<{ users: User[] } | undefined>(db, USERS_STORE, store => store.get(ownerId));
+    return entry?.users ?? null;
+  }
+
+  /**
+   * Replaces the users cached for an admin
+   */
+  async saveUsers(ownerId: UserId, users: User[]): Promise<void> {
+    const db = await this.open();
+    if (!db) {
+      this.memoryUsers.set(ownerId, users);
+      return;
+    }
+
+    await this.write(db, USERS_STORE, store => store.put({ ownerId, users, savedAt: new Date().toISOString() }));
+  }
+
+  /**
+   * Gets an admin's queued changes, oldest first
+   */
+  async getQueue(ownerId: UserId): Promise<QueuedUserChange[]> {
+    const db = await this.open();
+    const changes = db
+      ? await this.read<QueuedUserChange[]>(db, QUEUE_STORE, store => store.index('ownerId').getAll(ownerId))
+      : this.memoryQueue.filter(change => change.ownerId === ownerId);
+
+    return [...changes].sort((a, b) => a.seq! - b.seq!);
+  }
+
+  /**
+   * Adds a change to the end of the queue
+   */
+  async enqueue(change: Omit<QueuedUserChange, 'seq'>): Promise<void> {
+    const db = await this.open();
+    if (!db) {
+      this.memoryQueue.push({ ...change, seq: this.nextSeq++ });
+      return;
+    }
+
+    await this.write(db, QUEUE_STORE, store => store.add(change));
+  }
+
+  /**
+   * Removes a change once it was replayed
+   */
+  async dequeue(seq: number): Promise<void> {
+    await this.remove([seq]);
+  }
+
+  /**
+   * Points an admin's queued changes of a user at the user as the server
+   * saved it: its id for users created offline, and its new version
+   */
+  async rebase(ownerId: UserId, userId: UserId, saved: User): Promise<void> {
+    const changes = (await this.getQueue(ownerId))
+      .filter(change => change.userId === userId)
+      .map(change => ({ ...change, userId: saved.id, user: { ...change.user, id: saved.id, version: saved.version } }));
+
+    const db = await this.open();
+    if (!db) {
+      this.memoryQueue = this.memoryQueue.map(change => changes.find(c => c.seq === change.seq) ?? change);
+      return;
+    }
+
+    await this.write(db, QUEUE_STORE, store => changes.forEach(change => store.put(change)));
+  }
+
+  /**
+   * Removes all of an admin's queued changes of a user
+   *
+   * @returns The removed changes
+   */
+  async drop(ownerId: UserId, userId: UserId): Promise<QueuedUserChange[]> {
+    const changes = (await this.getQueue(ownerId)).filter(change => change.userId === userId);
+    await this.remove(changes.map(change => change.seq!));
+    return changes;
+  }
+
+  /**
+   * Removes everything kept for an admin: cached users and queued changes
+   */
+  async clear(ownerId: UserId): Promise<void> {
+    const changes = await this.getQueue(ownerId);
+    await this.remove(changes.map(change => change.seq!));
+
+    const db = await this.open();
+    if (!db) {
+      this.memoryUsers.delete(ownerId);
+      return;
+    }
+
+    await this.write(db, USERS_STORE, store => store.delete(ownerId));
+  }
+
+  private async remove(seqs: number[]): Promise<void> {
+    const db = await this.open();
+    if (!db) {
+      this.memoryQueue = this.memoryQueue.filter(change => !seqs.includes(change.seq!));
+      return;
+    }
+
+    await this.write(db, QUEUE_STORE, store => seqs.forEach(seq => store.delete(seq)));
+  }
+
+  /**
+   * Opens the database once, or resolves to null when it cannot be used
+   */
+  private open(): Promise<IDBDatabase | null> {
+    this.db ??= new Promise(resolve => {
+      if (typeof indexedDB === 'undefined') {
+        resolve(null);
+        return;
+      }
+
+      try {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(USERS_STORE, { keyPath: 'ownerId' });
+          request.result.createObjectStore(QUEUE_STORE, { keyPath: 'seq', autoIncrement: true })
+            .createIndex('ownerId', 'ownerId');
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          console.warn('Offline storage is unavailable; offline data lasts until the page is closed', request.error);
+          resolve(null);
+        };
+      } catch {
+        resolve(null);
+      }
+    });
+    return this.db;
+  }
+
+  private read<T>(db: IDBDatabase, storeName: string, query: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+    return new Promise((resolve, reject) => {
+      const request = query(db.transaction(storeName, 'readonly').objectStore(storeName));
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  /**
+   * Runs writes in one transaction, resolving once they are stored
+   */
+  private write(db: IDBDatabase, storeName: string, writes: (store: IDBObjectStore) => void): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(storeName, 'readwrite');
+      writes(transaction.objectStore(storeName));
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+}
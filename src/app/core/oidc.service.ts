@@ -0,0 +1,199 @@
+import { Inject, Injectable, InjectionToken } from '@angular/core';
+import { HttpClient, HttpContext, HttpParams } from '@angular/common/http';
+import { Observable, forkJoin, from, throwError } from 'rxjs';
+import { catchError, map, shareReplay, switchMap, tap } from 'rxjs/operators';
+import { AuthService } from './auth.service';
+import { API_BASE_URL, SKIP_TOKEN_REFRESH } from './api.config';
+import { ApiError } from './error-handling.service';
+import { createCodeChallenge, randomUrlSafeString } from './pkce.util';
+import { AuthResponse } from './user.model';
+
+/**
+ * OIDC Config Interface
+ * Identity provider used for single sign-on
+ */
+export interface OidcConfig {
+  // Shows the SSO button on the login page
+  enabled: boolean;
+  // Provider name shown on the button
+  displayName: string;
+  // Issuer URL; endpoints are read from its discovery document
+  issuer: string;
+  clientId: string;
+  // Must be registered with the provider; routed to OidcCallbackComponent
+  redirectUri: string;
+  scope: string;
+}
+
+/**
+ * SSO configuration, override it in app.config.ts
+ * Defaults to the mock provider served by the local API (server/mock-idp.mjs).
+ */
+export const OIDC_CONFIG = new InjectionToken<OidcConfig>('OIDC_CONFIG', {
+  providedIn: 'root',
+  factory: () => ({
+    enabled: true,
+    displayName: 'Company SSO',
+    issuer: `${API_BASE_URL}/idp`,
+    clientId: 'widebot-spa',
+    redirectUri: `${window.location.origin}/auth/callback`,
+    scope: 'openid profile email groups'
+  })
+});
+
+/**
+ * Discovery document of an OpenID Connect provider (the fields used here)
+ */
+interface OidcDiscovery {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+}
+
+/**
+ * Sign-in in progress, kept across the redirect to the provider
+ */
+interface PendingOidcLogin {
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+  returnUrl: string | null;
+  rememberMe: boolean;
+}
+
+/**
+ * OIDC Service
+ *
+ * Single sign-on with the authorization code flow and PKCE. beginLogin()
+ * redirects to the provider; on the way back OidcCallbackComponent calls
+ * completeLogin(), which exchanges the code for an ID token and hands it to
+ * AuthService. The auth server verifies the token and maps its claims to a role.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class OidcService {
+  private readonly STORAGE_KEY = 'oidc_pending_login';
+
+  private discovery$: Observable<OidcDiscovery> | null = null;
+
+  constructor(
+    private http: HttpClient,
+    private authService: AuthService,
+    @Inject(OIDC_CONFIG) private config: OidcConfig
+  ) {}
+
+  /**
+   * Gets the SSO configuration
+   */
+  getConfig(): OidcConfig {
+    return this.config;
+  }
+
+  /**
+   * Redirects the browser to the provider's sign-in page
+   *
+   * @param returnUrl - Route to open after signing in
+   * @param rememberMe - Keep the session after the browser is closed
+   */
+  beginLogin(returnUrl: string | null = null, rememberMe = false): Observable<void> {
+    const pending: PendingOidcLogin = {
+      state: randomUrlSafeString(),
+      nonce: randomUrlSafeString(),
+      codeVerifier: randomUrlSafeString(48),
+      returnUrl,
+      rememberMe
+    };
+
+    return forkJoin([this.getDiscovery(), from(createCodeChallenge(pending.codeVerifier))]).pipe(
+      map(([discovery, codeChallenge]) => {
+        const params = new HttpParams({
+          fromObject: {
+            response_type: 'code',
+            client_id: this.config.clientId,
+            redirect_uri: this.config.redirectUri,
+            scope: this.config.scope,
+            state: pending.state,
+            nonce: pending.nonce,
+            code_challenge: codeChallenge,
+            code_challenge_method: 'S256'
+          }
+        });
+
+        // sessionStorage keeps the verifier in this tab only
+        sessionStorage.setItem(this.STORAGE_KEY, JSON.stringify(pending));
+        window.location.assign(`${discovery.authorization_endpoint}?${params.toString()}`);
+      })
+    );
+  }
+
+  /**
+   * Finishes the sign-in from the parameters of the callback URL
+   *
+   * @param params - Query parameters the provider redirected back with
+   * @returns Observable with the session and the route to open
+   */
+  completeLogin(params: Record<string, string | undefined>): Observable<{ response: AuthResponse; returnUrl: string | null }> {
+    const pending = this.takePendingLogin();
+
+    if (params['error']) {
+      return throwError(() => new Error(params['error_description'] || 'Sign-in was cancelled'));
+    }
+    if (!pending || !params['code'] || params['state'] !== pending.state) {
+      return throwError(() => new Error('This sign-in link is invalid or was already used'));
+    }
+
+    return this.getDiscovery().pipe(
+      switchMap(discovery => this.http.post<{ id_token: string }>(
+        discovery.token_endpoint,
+        new HttpParams({
+          fromObject: {
+            grant_type: 'authorization_code',
+            code: params['code'] as string,
+            redirect_uri: this.config.redirectUri,
+            client_id: this.config.clientId,
+            code_verifier: pending.codeVerifier
+          }
+        }),
+        { context: new HttpContext().set(SKIP_TOKEN_REFRESH, true) }
+      ).pipe(
+        // OAuth errors explain themselves in error_description
+        catchError(error => throwError(() => error instanceof ApiError && error.details?.['error_description']
+          ? new Error(String(error.details['error_description']))
+          : error))
+      )),
+      switchMap(tokens => this.authService.loginWithIdToken(tokens.id_token, pending.nonce, !!pending.rememberMe)),
+      map(response => ({ response, returnUrl: pending.returnUrl }))
+    );
+  }
+
+  /**
+   * Loads the provider's discovery document once
+   */
+  private getDiscovery(): Observable<OidcDiscovery> {
+    if (!this.discovery$) {
+      this.discovery$ = this.http.get<OidcDiscovery>(
+        `${this.config.issuer}/.well-known/openid-configuration`,
+        { context: new HttpContext().set(SKIP_TOKEN_REFRESH, true) }
+      ).pipe(
+        tap({ error: () => this.discovery$ = null }),
+        shareReplay(1)
+      );
+    }
+    return this.discovery$;
+  }
+
+  /**
+   * Reads and forgets the pending sign-in, so a callback URL works once
+   */
+  private takePendingLogin(): PendingOidcLogin | null {
+    const stored = sessionStorage.getItem(this.STORAGE_KEY);
+    sessionStorage.removeItem(this.STORAGE_KEY);
+
+    try {
+      return stored ? JSON.parse(stored) : null;
+    } catch {
+      return null;
+    }
+  }
+}
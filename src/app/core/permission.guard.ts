@@ -0,0 +1,40 @@
+import { inject } from '@angular/core';
+import { CanActivateFn, Router } from '@angular/router';
+import { of } from 'rxjs';
+import { map, switchMap, take } from 'rxjs/operators';
+import { AuthService } from './auth.service';
+import { PermissionService } from './permission.service';
+import { Permission } from './user.model';
+
+export const permissionGuard: CanActivateFn = (route) => {
+  const authService = inject(AuthService);
+  const permissionService = inject(PermissionService);
+  const router = inject(Router);
+
+  const currentUser = authService.getCurrentUser();
+
+  // If no user is authenticated, redirect to login
+  if (!currentUser) {
+    router.navigate(['/login']);
+    return false;
+  }
+
+  // Get required permissions from route data (if specified)
+  const requiredPermissions = route.data['permissions'] as Permission[] | undefined;
+
+  // If no specific permissions are required, just check for authentication
+  if (!requiredPermissions || requiredPermissions.length === 0) {
+    return true;
+  }
+
+  // Users missing a permission are sent to the dashboard they can open
+  return permissionService.hasPermission(currentUser, requiredPermissions).pipe(
+    take(1),
+    switchMap(allowed => allowed
+      ? of(true)
+      : permissionService.getLandingRoute(currentUser).pipe(
+        take(1),
+        map(landingRoute => router.parseUrl(landingRoute))
+      ))
+  );
+};
@@ -0,0 +1,151 @@
+import { Injectable } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { BehaviorSubject, Observable, of } from 'rxjs';
+import { catchError, filter, finalize, map, tap } from 'rxjs/operators';
+import { Permission, Role, User } from './user.model';
+import { API_BASE_URL } from './api.config';
+
+/**
+ * Every permission a role can grant, with a short description for the role editor
+ */
+export const PERMISSIONS: { value: Permission; label: string; description: string }[] = [
+  { value: 'users.read', label: 'View users', description: 'Open the admin dashboard and user list' },
+  { value: 'users.write', label: 'Edit users', description: 'Create and update users' },
+  { value: 'users.delete', label: 'Delete users', description: 'Delete users' },
+  { value: 'users.impersonate', label: 'Impersonate users', description: 'View the app as another user' },
+  { value: 'roles.manage', label: 'Manage roles', description: 'Create, edit and delete roles' }
+];
+
+/**
+ * Permission Service
+ *
+ * Loads the editable roles from the API and answers which permissions a
+ * user has through their role. Roles are loaded lazily on first use and
+ * cleared on logout, so every session sees the latest role definitions.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class PermissionService {
+  // Backend API URL
+  private readonly API_URL = `${API_BASE_URL}/roles`;
+
+  // Null until the roles have been loaded for the current session
+  private rolesState$ = new BehaviorSubject<Role[] | null>(null);
+  private loadingRoles = false;
+
+  constructor(private http: HttpClient) {}
+
+  /**
+   * Gets all roles as an Observable, loading them on first use
+   */
+  getRoles(): Observable<Role[]> {
+    if (this.rolesState$.value === null && !this.loadingRoles) {
+      this.loadRoles();
+    }
+
+    return this.rolesState$.pipe(
+      filter((roles): roles is Role[] => roles !== null)
+    );
+  }
+
+  /**
+   * Loads all roles from the API
+   * Updates the central state
+   */
+  loadRoles(): void {
+    this.loadingRoles = true;
+
+    this.http.get<Role[]>(this.API_URL).pipe(
+      catchError(error => {
+        console.error('Error loading roles:', error);
+        return of([]);
+      }),
+      finalize(() => {
+        this.loadingRoles = false;
+      })
+    ).subscribe(roles => this.rolesState$.next(roles));
+  }
+
+  /**
+   * Forgets the loaded roles (called on logout)
+   */
+  clear(): void {
+    this.rolesState$.next(null);
+  }
+
+  /**
+   * Gets the permissions a user has through their role
+   *
+   * @param user - User to check, null when signed out
+   */
+  getPermissions(user: User | null): Observable<Permission[]> {
+    return this.getRoles().pipe(
+      map(roles => roles.find(role => role.id === user?.role)?.permissions ?? [])
+    );
+  }
+
+  /**
+   * Checks whether a user has all of the given permissions
+   *
+   * @param user - User to check, null when signed out
+   * @param required - Permission or permissions that are all required
+   */
+  hasPermission(user: User | null, required: Permission | Permission[]): Observable<boolean> {
+    const requiredList = Array.isArray(required) ? required : [required];
+
+    return this.getPermissions(user).pipe(
+      map(permissions => requiredList.every(permission => permissions.includes(permission)))
+    );
+  }
+
+  /**
+   * Synchronous permission check against the roles loaded so far
+   * Returns false while the roles are not loaded yet.
+   */
+  can(user: User | null, permission: Permission): boolean {
+    const role = this.rolesState$.value?.find(r => r.id === user?.role);
+    return !!role?.permissions.includes(permission);
+  }
+
+  /**
+   * Gets the route a user lands on after login
+   * Users who can view the user list go to the admin dashboard.
+   */
+  getLandingRoute(user: User | null): Observable<string> {
+    return this.hasPermission(user, 'users.read').pipe(
+      map(canReadUsers => canReadUsers ? '/admin' : '/user')
+    );
+  }
+
+  /**
+   * Creates a new role
+   */
+  createRole(role: Role): Observable<Role> {
+    return this.http.post<Role>(this.API_URL, role).pipe(
+      tap(created => this.rolesState$.next([...(this.rolesState$.value ?? []), created]))
+    );
+  }
+
+  /**
+   * Updates an existing role
+   */
+  updateRole(id: Role['id'], changes: Partial<Role>): Observable<Role> {
+    return this.http.patch<Role>(`${this.API_URL}/${encodeURIComponent(id)}`, changes).pipe(
+      tap(updated => this.rolesState$.next(
+        (this.rolesState$.value ?? []).map(role => role.id === id ? updated : role)
+      ))
+    );
+  }
+
+  /**
+   * Deletes a role that is no longer assigned to any user
+   */
+  deleteRole(id: Role['id']): Observable<void> {
+    return this.http.delete<void>(`${this.API_URL}/${encodeURIComponent(id)}`).pipe(
+      tap(() => this.rolesState$.next(
+        (this.rolesState$.value ?? []).filter(role => role.id !== id)
+      ))
+    );
+  }
+}
@@ -0,0 +1,33 @@
+/**
+ * Helpers for the OAuth 2.0 authorization code flow with PKCE (RFC 7636)
+ */
+
+/**
+ * Encodes bytes as unpadded base64url
+ */
+function base64url(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+/**
+ * Creates a random URL-safe string, used for code verifiers, states and nonces
+ *
+ * @param byteLength - Number of random bytes (32 gives a 43 character string)
+ */
+export function randomUrlSafeString(byteLength = 32): string {
+  return base64url(crypto.getRandomValues(new Uint8Array(byteLength)));
+}
+
+/**
+ * Derives the S256 code challenge of a code verifier
+ *
+ * @param codeVerifier - Verifier kept by the client until the token request
+ * @returns Promise<string> with base64url(SHA-256(verifier))
+ */
+export async function createCodeChallenge(codeVerifier: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(codeVerifier));
+  return base64url(new Uint8Array(digest));
+}
@@ -0,0 +1,68 @@
+import { Injectable } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { BehaviorSubject, Observable, of } from 'rxjs';
+import { catchError, map, tap } from 'rxjs/operators';
+import { SavedFilter, UserFilter } from './user.model';
+import { normalizeQuery } from './user-query.util';
+import { API_BASE_URL } from './api.config';
+
+/**
+ * Saved Filter Service
+ *
+ * Named user list filters of the signed-in admin (see server/saved-filters.mjs).
+ * Saving under an existing name replaces that filter.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class SavedFilterService {
+  private readonly API_URL = `${API_BASE_URL}/savedFilters`;
+
+  private filtersState$ = new BehaviorSubject<SavedFilter[]>([]);
+
+  constructor(private http: HttpClient) {}
+
+  /**
+   * Gets the saved filters, sorted by name
+   */
+  getSavedFilters(): Observable<SavedFilter[]> {
+    return this.filtersState$.pipe(
+      map(filters => [...filters].sort((a, b) => a.name.localeCompare(b.name)))
+    );
+  }
+
+  /**
+   * Loads the saved filters (requires users.read)
+   */
+  loadSavedFilters(): void {
+    this.http.get<SavedFilter[]>(this.API_URL).pipe(
+      catchError(error => {
+        console.error('Error loading saved filters:', error);
+        return of([]);
+      })
+    ).subscribe(filters => this.filtersState$.next(filters));
+  }
+
+  /**
+   * Saves a filter under a name, replacing one with the same name
+   */
+  saveFilter(name: string, filter: UserFilter): Observable<SavedFilter> {
+    const body = { ...filter, query: filter.query ? normalizeQuery(filter.query) : undefined };
+
+    return this.http.post<SavedFilter>(this.API_URL, { name, filter: body }).pipe(
+      tap(saved => this.filtersState$.next([
+        ...this.filtersState$.value.filter(f => f.id !== saved.id),
+        saved
+      ]))
+    );
+  }
+
+  /**
+   * Deletes a saved filter
+   */
+  deleteFilter(filter: SavedFilter): Observable<void> {
+    return this.http.delete<void>(`${this.API_URL}/${encodeURIComponent(filter.id)}`).pipe(
+      tap(() => this.filtersState$.next(this.filtersState$.value.filter(f => f.id !== filter.id)))
+    );
+  }
+}
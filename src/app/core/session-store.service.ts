@@ -0,0 +1,244 @@
+import { Inject, Injectable, InjectionToken } from '@angular/core';
+
+/**
+ * Key-Value Store Interface
+ * Minimal storage contract, implemented by Web Storage and by MemoryStore
+ */
+export interface KeyValueStore {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+}
+
+/**
+ * Keeps values in memory; they are gone after a reload
+ */
+export class MemoryStore implements KeyValueStore {
+  private values = new Map<string, string>();
+
+  getItem(key: string): string | null {
+    return this.values.get(key) ?? null;
+  }
+
+  setItem(key: string, value: string): void {
+    this.values.set(key, value);
+  }
+
+  removeItem(key: string): void {
+    this.values.delete(key);
+  }
+}
+
+/**
+ * Wraps localStorage or sessionStorage
+ * Browsers can refuse access (e.g. blocked cookies); the session then lives
+ * for this page only instead of breaking the app.
+ */
+export class WebStorageStore implements KeyValueStore {
+  private fallback = new MemoryStore();
+
+  constructor(private storage: () => Storage) {}
+
+  getItem(key: string): string | null {
+    try {
+      return this.storage().getItem(key);
+    } catch {
+      return this.fallback.getItem(key);
+    }
+  }
+
+  setItem(key: string, value: string): void {
+    try {
+      this.storage().setItem(key, value);
+    } catch {
+      this.fallback.setItem(key, value);
+    }
+  }
+
+  removeItem(key: string): void {
+    try {
+      this.storage().removeItem(key);
+    } catch {
+      this.fallback.removeItem(key);
+    }
+  }
+}
+
+/**
+ * Session Persistence Type
+ * - local: survives closing the browser (localStorage)
+ * - session: ends with the tab (sessionStorage)
+ * - memory: ends with the page
+ */
+export type SessionPersistence = 'local' | 'session' | 'memory';
+
+/**
+ * Backends of each persistence, override them in app.config.ts
+ */
+export const SESSION_STORAGE_BACKENDS = new InjectionToken<Record<SessionPersistence, KeyValueStore>>('SESSION_STORAGE_BACKENDS', {
+  providedIn: 'root',
+  factory: () => ({
+    local: new WebStorageStore(() => localStorage),
+    session: new WebStorageStore(() => sessionStorage),
+    memory: new MemoryStore()
+  })
+});
+
+/**
+ * Session Store Config Interface
+ * Persistence picked by the "remember me" checkbox of the login form
+ */
+export interface SessionStoreConfig {
+  remembered: SessionPersistence;
+  notRemembered: SessionPersistence;
+}
+
+/**
+ * Session store configuration, override it in app.config.ts
+ * Sessions that are not remembered live in sessionStorage, which browsers
+ * keep per tab: the tabs open at login (and tabs opened while one of them
+ * is signed in) get a copy over BroadcastChannel instead (see
+ * SessionSyncService), and closing the last of them ends the session.
+ */
+export const SESSION_STORE_CONFIG = new InjectionToken<SessionStoreConfig>('SESSION_STORE_CONFIG', {
+  providedIn: 'root',
+  factory: () => ({ remembered: 'local', notRemembered: 'session' })
+});
+
+/**
+ * Parts of the persisted auth session and their storage keys
+ */
+const SESSION_KEYS = {
+  token: 'auth_token',
+  user: 'auth_user',
+  refreshToken: 'auth_refresh_token',
+  impersonation: 'auth_impersonation'
+} as const;
+
+export type SessionKey = keyof typeof SESSION_KEYS;
+
+/**
+ * Session Snapshot Interface
+ * A stored session handed to another tab
+ */
+export interface SessionSnapshot {
+  persistence: SessionPersistence;
+  values: Partial<Record<SessionKey, string>>;
+}
+
+/**
+ * Session Store Service
+ *
+ * The only place that reads or writes the persisted auth session. The
+ * persistence is chosen at login; reads follow whichever backend holds a
+ * session, so tabs sharing localStorage pick up each other's logins. Other
+ * sessions are copied between tabs with share() and adopt().
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class SessionStoreService {
+  // Checked in this order when looking for a stored session
+  private readonly LOOKUP_ORDER: SessionPersistence[] = ['memory', 'session', 'local'];
+
+  private selected: SessionPersistence;
+
+  constructor(
+    @Inject(SESSION_STORE_CONFIG) private config: SessionStoreConfig,
+    @Inject(SESSION_STORAGE_BACKENDS) private backends: Record<SessionPersistence, KeyValueStore>
+  ) {
+    this.selected = this.findStoredSession() ?? config.notRemembered;
+  }
+
+  /**
+   * Gets the persistence configured for a "remember me" choice
+   */
+  persistenceFor(rememberMe: boolean): SessionPersistence {
+    return rememberMe ? this.config.remembered : this.config.notRemembered;
+  }
+
+  /**
+   * Gets the persistence of the current session
+   */
+  getPersistence(): SessionPersistence {
+    return this.findStoredSession() ?? this.selected;
+  }
+
+  /**
+   * Stores the next session with the given persistence
+   * Sessions kept by the other backends are removed.
+   */
+  use(persistence: SessionPersistence): void {
+    for (const other of this.LOOKUP_ORDER.filter(p => p !== persistence)) {
+      this.clearBackend(this.backends[other]);
+    }
+    this.selected = persistence;
+  }
+
+  get(key: SessionKey): string | null {
+    return this.backends[this.getPersistence()].getItem(SESSION_KEYS[key]);
+  }
+
+  set(key: SessionKey, value: string): void {
+    this.backends[this.getPersistence()].setItem(SESSION_KEYS[key], value);
+  }
+
+  remove(key: SessionKey): void {
+    for (const persistence of this.LOOKUP_ORDER) {
+      this.backends[persistence].removeItem(SESSION_KEYS[key]);
+    }
+  }
+
+  /**
+   * Copies the stored session for tabs that cannot read it themselves
+   *
+   * @returns The session, or null when there is none or it is in localStorage (shared already)
+   */
+  share(): SessionSnapshot | null {
+    const persistence = this.findStoredSession();
+    if (!persistence || persistence === 'local') {
+      return null;
+    }
+
+    const values: Partial<Record<SessionKey, string>> = {};
+    for (const key of Object.keys(SESSION_KEYS) as SessionKey[]) {
+      const value = this.backends[persistence].getItem(SESSION_KEYS[key]);
+      if (value !== null) {
+        values[key] = value;
+      }
+    }
+    return { persistence, values };
+  }
+
+  /**
+   * Replaces the stored session with one handed over by another tab
+   */
+  adopt(snapshot: SessionSnapshot): void {
+    this.use(snapshot.persistence);
+
+    const backend = this.backends[snapshot.persistence];
+    this.clearBackend(backend);
+    for (const [key, value] of Object.entries(snapshot.values)) {
+      backend.setItem(SESSION_KEYS[key as SessionKey], value);
+    }
+  }
+
+  /**
+   * Removes the stored session from every backend
+   */
+  clear(): void {
+    for (const persistence of this.LOOKUP_ORDER) {
+      this.clearBackend(this.backends[persistence]);
+    }
+  }
+
+  private findStoredSession(): SessionPersistence | null {
+    return this.LOOKUP_ORDER.find(p => this.backends[p].getItem(SESSION_KEYS.token) !== null) ?? null;
+  }
+
+  private clearBackend(backend: KeyValueStore): void {
+    for (const key of Object.values(SESSION_KEYS)) {
+      backend.removeItem(key);
+    }
+  }
+}
@@ -0,0 +1,90 @@
+import { Injectable, NgZone, OnDestroy } from '@angular/core';
+import { Observable, Subject } from 'rxjs';
+import { SessionSnapshot } from './session-store.service';
+
+/**
+ * Session Sync Event
+ * Auth changes one tab announces to the other tabs of the same browser.
+ * The details (tokens, impersonation session) are read from SessionStoreService;
+ * sessions kept outside localStorage travel with the event instead. A tab
+ * opened without a session asks the others for theirs ('session-request').
+ */
+export type SessionSyncEvent = (
+  | { type: 'login' }
+  | { type: 'logout' }
+  | { type: 'session-refreshed' }
+  | { type: 'impersonate' }
+  | { type: 'stop-impersonation' }
+  | { type: 'session-request' }
+  | { type: 'session-shared' }
+) & {
+  session?: SessionSnapshot;
+};
+
+/**
+ * Session Sync Service
+ *
+ * Propagates auth changes across browser tabs. Uses BroadcastChannel
+ * where available and falls back to localStorage storage events.
+ * Events are only delivered to the other tabs, never to the sender.
+ * The fallback drops the sessions attached to events rather than writing
+ * them to localStorage, so without BroadcastChannel only remembered
+ * sessions are shared.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class SessionSyncService implements OnDestroy {
+  private readonly CHANNEL_NAME = 'widebot-auth';
+  private readonly STORAGE_KEY = 'auth_sync_event';
+
+  private events$ = new Subject<SessionSyncEvent>();
+  private channel: BroadcastChannel | null = null;
+
+  private readonly onStorage = (event: StorageEvent) => {
+    if (event.key === this.STORAGE_KEY && event.newValue) {
+      this.emit(JSON.parse(event.newValue).event);
+    }
+  };
+
+  constructor(private ngZone: NgZone) {
+    if (typeof BroadcastChannel !== 'undefined') {
+      this.channel = new BroadcastChannel(this.CHANNEL_NAME);
+      this.channel.onmessage = (message: MessageEvent<SessionSyncEvent>) => this.emit(message.data);
+    } else {
+      window.addEventListener('storage', this.onStorage);
+    }
+  }
+
+  /**
+   * Gets the events published by other tabs as an Observable
+   */
+  getEvents(): Observable<SessionSyncEvent> {
+    return this.events$.asObservable();
+  }
+
+  /**
+   * Announces an auth change to the other tabs
+   *
+   * @param event - The change to propagate
+   */
+  publish(event: SessionSyncEvent): void {
+    if (this.channel) {
+      this.channel.postMessage(event);
+      return;
+    }
+
+    // Storage events only fire when the value changes, hence the timestamp
+    localStorage.setItem(this.STORAGE_KEY, JSON.stringify({ event: { ...event, session: undefined }, at: Date.now() }));
+    localStorage.removeItem(this.STORAGE_KEY);
+  }
+
+  ngOnDestroy(): void {
+    this.channel?.close();
+    window.removeEventListener('storage', this.onStorage);
+  }
+
+  private emit(event: SessionSyncEvent): void {
+    this.ngZone.run(() => this.events$.next(event));
+  }
+}
@@ -0,0 +1,78 @@
+import { Injectable } from '@angular/core';
+import { HttpClient, HttpParams } from '@angular/common/http';
+import { Observable } from 'rxjs';
+import { LoginHistoryEntry, User, UserSession } from './user.model';
+import { API_BASE_URL } from './api.config';
+
+/**
+ * Session Service
+ *
+ * Active sessions and login history (see server/sessions.mjs). Users see
+ * and revoke their own sessions; admins can list and revoke anyone's. A
+ * revoked session is signed out on its next API request.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class SessionService {
+  // Sessions of the signed-in user
+  private readonly ACCOUNT_URL = `${API_BASE_URL}/account`;
+  // All sessions and attempts, for admins
+  private readonly SESSIONS_URL = `${API_BASE_URL}/sessions`;
+  private readonly HISTORY_URL = `${API_BASE_URL}/loginHistory`;
+
+  constructor(private http: HttpClient) {}
+
+  /**
+   * Gets the active sessions of the signed-in user, most recently active first
+   */
+  getMySessions(): Observable<UserSession[]> {
+    return this.http.get<UserSession[]>(`${this.ACCOUNT_URL}/sessions`);
+  }
+
+  /**
+   * Signs one of the signed-in user's sessions out
+   */
+  revokeMySession(id: string): Observable<void> {
+    return this.http.delete<void>(`${this.ACCOUNT_URL}/sessions/${encodeURIComponent(id)}`);
+  }
+
+  /**
+   * Signs out every session of the signed-in user except the current one
+   */
+  revokeOtherSessions(): Observable<void> {
+    return this.http.delete<void>(`${this.ACCOUNT_URL}/sessions`);
+  }
+
+  /**
+   * Gets the sign-in attempts of the signed-in user, newest first
+   */
+  getMyLoginHistory(): Observable<LoginHistoryEntry[]> {
+    return this.http.get<LoginHistoryEntry[]>(`${this.ACCOUNT_URL}/login-history`);
+  }
+
+  /**
+   * Gets the active sessions of a user (requires users.read)
+   */
+  getUserSessions(userId: User['id']): Observable<UserSession[]> {
+    return this.http.get<UserSession[]>(this.SESSIONS_URL, {
+      params: new HttpParams().set('userId', String(userId))
+    });
+  }
+
+  /**
+   * Signs out any user's session (requires users.write)
+   */
+  revokeSession(id: string): Observable<void> {
+    return this.http.delete<void>(`${this.SESSIONS_URL}/${encodeURIComponent(id)}`);
+  }
+
+  /**
+   * Gets the sign-in attempts of a user, newest first (requires users.read)
+   */
+  getUserLoginHistory(userId: User['id']): Observable<LoginHistoryEntry[]> {
+    return this.http.get<LoginHistoryEntry[]>(this.HISTORY_URL, {
+      params: new HttpParams().set('userId', String(userId))
+    });
+  }
+}
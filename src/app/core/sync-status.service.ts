@@ -0,0 +1,64 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject, Observable } from 'rxjs';
+import { SyncStatus } from './user.model';
+
+const INITIAL_STATUS: SyncStatus = { online: true, syncing: false, pending: 0, conflicts: [] };
+
+/**
+ * Sync Status Service
+ *
+ * Whether the server is reachable, and the offline changes and conflicts
+ * UserService reports while replaying them. Kept apart from UserService so
+ * the header can show it without loading the user list.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class SyncStatusService {
+  private syncState$ = new BehaviorSubject<SyncStatus>(INITIAL_STATUS);
+
+  /**
+   * Gets whether the server is reachable and the changes waiting for it
+   */
+  getSyncStatus(): Observable<SyncStatus> {
+    return this.syncState$.asObservable();
+  }
+
+  /**
+   * Gets the current sync status synchronously
+   */
+  getCurrentStatus(): SyncStatus {
+    return this.syncState$.value;
+  }
+
+  /**
+   * Whether changes are queued instead of sent, as the server is unreachable
+   */
+  isOffline(): boolean {
+    return !this.syncState$.value.online;
+  }
+
+  update(changes: Partial<SyncStatus>): void {
+    this.syncState$.next({ ...this.syncState$.value, ...changes });
+  }
+
+  setOnline(online: boolean): void {
+    if (this.syncState$.value.online !== online) {
+      this.update({ online });
+    }
+  }
+
+  /**
+   * Clears the reported sync conflicts
+   */
+  dismissConflicts(): void {
+    this.update({ conflicts: [] });
+  }
+
+  /**
+   * Forgets the status of the previous user (called when another user signs in)
+   */
+  reset(): void {
+    this.syncState$.next(INITIAL_STATUS);
+  }
+}
@@ -0,0 +1,96 @@
+import { Injectable } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { BehaviorSubject, Observable, of } from 'rxjs';
+import { catchError, map, tap } from 'rxjs/operators';
+import { TwoFactorSetup, TwoFactorStatus, UserId } from './user.model';
+import { API_BASE_URL } from './api.config';
+
+/**
+ * Two-Factor Service
+ *
+ * TOTP enrollment of the signed-in user, and for admins the list of
+ * enrolled users and resetting their 2FA. The login challenge itself is
+ * answered through AuthService.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class TwoFactorService {
+  // Enrollment of the signed-in user (see server/two-factor.mjs)
+  private readonly ACCOUNT_URL = `${API_BASE_URL}/account/2fa`;
+  // Enrolled users, for admins
+  private readonly API_URL = `${API_BASE_URL}/twoFactor`;
+
+  private enrolledState$ = new BehaviorSubject<TwoFactorStatus[]>([]);
+
+  constructor(private http: HttpClient) {}
+
+  /**
+   * Gets the 2FA status of the signed-in user
+   */
+  getStatus(): Observable<TwoFactorStatus> {
+    return this.http.get<TwoFactorStatus>(this.ACCOUNT_URL);
+  }
+
+  /**
+   * Creates a new secret; it only takes effect once confirmed with enable()
+   */
+  setup(): Observable<TwoFactorSetup> {
+    return this.http.post<TwoFactorSetup>(`${this.ACCOUNT_URL}/setup`, {});
+  }
+
+  /**
+   * Confirms the pending secret with a code from the authenticator app
+   *
+   * @param code - Current 6-digit code
+   * @returns Observable<string[]> with the one-time recovery codes
+   */
+  enable(code: string): Observable<string[]> {
+    return this.http.post<{ recoveryCodes: string[] }>(`${this.ACCOUNT_URL}/enable`, { code }).pipe(
+      map(response => response.recoveryCodes)
+    );
+  }
+
+  /**
+   * Turns 2FA off for the signed-in user
+   *
+   * @param password - Current password, checked again by the server
+   */
+  disable(password: string): Observable<void> {
+    return this.http.post<void>(`${this.ACCOUNT_URL}/disable`, { password });
+  }
+
+  /**
+   * Gets the users with 2FA enabled, keyed by user id
+   */
+  getEnrolledUsers(): Observable<Map<string, TwoFactorStatus>> {
+    return this.enrolledState$.pipe(
+      map(statuses => new Map(statuses.map(status => [status.id, status])))
+    );
+  }
+
+  /**
+   * Loads the enrolled users from the API
+   */
+  loadEnrolledUsers(): void {
+    this.http.get<TwoFactorStatus[]>(this.API_URL).pipe(
+      catchError(error => {
+        console.error('Error loading two-factor enrollments:', error);
+        return of([]);
+      })
+    ).subscribe(statuses => this.enrolledState$.next(statuses));
+  }
+
+  /**
+   * Removes another user's 2FA so they can sign in with their password and enroll again
+   *
+   * @param userId - Id of the user
+   */
+  reset(userId: UserId): Observable<void> {
+    return this.http.delete<void>(`${this.API_URL}/${encodeURIComponent(userId)}`).pipe(
+      tap(() => this.enrolledState$.next(
+        this.enrolledState$.value.filter(status => status.id !== userId)
+      ))
+    );
+  }
+}
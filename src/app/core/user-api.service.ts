@@ -0,0 +1,218 @@
+import { Injectable } from '@angular/core';
+import { HttpClient, HttpParams } from '@angular/common/http';
+import { Observable, of, throwError } from 'rxjs';
+import { catchError, map, switchMap } from 'rxjs/operators';
+import { SearchMatches, User, UserFilter, UserId, UserPage, UserSort, UserSummary, UserTrash } from './user.model';
+import { parseUser, parseUsers } from './user.schema';
+import { hasConditions, normalizeQuery } from './user-query.util';
+import { ApiError, ErrorHandlingService, VersionConflictError } from './error-handling.service';
+import { API_BASE_URL } from './api.config';
+
+/**
+ * User API Service
+ *
+ * Typed access to the users resource. Every user the server returns is
+ * validated and normalized (see user.schema.ts) before it is handed out:
+ * lists keep the records that pass or could be repaired, and single records
+ * that fail make the call error. Problems are reported through
+ * ErrorHandlingService, so malformed data never reaches the UserService state.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class UserApiService {
+  private readonly API_URL = `${API_BASE_URL}/users`;
+  private readonly TRASH_URL = `${API_BASE_URL}/trash`;
+  private readonly RESOURCE = 'user';
+
+  constructor(
+    private http: HttpClient,
+    private errorHandler: ErrorHandlingService
+  ) {}
+
+  /**
+   * Gets the statistics and departments of all users, counted by the server
+   */
+  getSummary(): Observable<UserSummary> {
+    return this.http.get<Omit<UserSummary, 'recentRegistrations'> & { recentRegistrations: unknown }>(`${this.API_URL}/summary`).pipe(
+      map(body => ({ ...body, recentRegistrations: this.toUsers(body.recentRegistrations) }))
+    );
+  }
+
+  /**
+   * Gets one page of users; paging, sorting and filtering happen on the server,
+   * which reports the number of matching users in the X-Total-Count header and
+   * where a search matched them in X-Search-Matches
+   *
+   * @param page - 1-based page number
+   * @param pageSize - Users per page
+   * @param filter - Search term and field filters
+   * @param sort - Sort field and direction
+   */
+  getPage(page: number, pageSize: number, filter?: UserFilter, sort?: UserSort): Observable<UserPage> {
+    const params = this.toQueryParams(filter, sort)
+      .set('_page', page)
+      .set('_limit', pageSize);
+
+    return this.http.get<unknown>(this.API_URL, { params, observe: 'response' }).pipe(
+      map(response => {
+        const data = this.toUsers(response.body);
+        // Rejected records still count, so the pager stays in line with the server
+        const total = Number(response.headers.get('X-Total-Count') ?? data.length);
+
+        return {
+          data,
+          total,
+          page,
+          pageSize,
+          totalPages: Math.ceil(total / pageSize),
+          matches: this.toSearchMatches(response.headers.get('X-Search-Matches'))
+        };
+      })
+    );
+  }
+
+  /**
+   * Gets every user matching a filter, in the given order
+   *
+   * @param filter - Search term and field filters
+   * @param sort - Sort field and direction
+   */
+  getMatching(filter?: UserFilter, sort?: UserSort): Observable<User[]> {
+    return this.http.get<unknown>(this.API_URL, { params: this.toQueryParams(filter, sort) }).pipe(
+      map(body => this.toUsers(body))
+    );
+  }
+
+  /**
+   * Gets a single user
+   */
+  getById(id: UserId): Observable<User> {
+    return this.http.get<unknown>(`${this.API_URL}/${encodeURIComponent(id)}`).pipe(
+      switchMap(body => this.toUser(body))
+    );
+  }
+
+  /**
+   * Creates a user; the server assigns the id
+   */
+  create(user: Omit<User, 'id'>): Observable<User> {
+    return this.http.post<unknown>(this.API_URL, user).pipe(
+      switchMap(body => this.toUser(body))
+    );
+  }
+
+
+  /**
+   * Replaces a user
+   * The server refuses the change when `user.version` is no longer current.
+   *
+   * @throws VersionConflictError with the server's record on a version mismatch
+   */
+  update(id: UserId, user: User): Observable<User> {
+    return this.http.put<unknown>(`${this.API_URL}/${encodeURIComponent(id)}`, user).pipe(
+      switchMap(body => this.toUser(body)),
+      catchError(error => {
+        if (!(error instanceof ApiError) || error.status !== 409 || !error.details?.['current']) {
+          return throwError(() => error);
+        }
+
+        return this.toUser(error.details['current']).pipe(
+          switchMap(current => throwError(() => new VersionConflictError(error.message, current)))
+        );
+      })
+    );
+  }
+
+  /**
+   * Moves a user to the trash
+   */
+  delete(id: UserId): Observable<void> {
+    return this.http.delete<unknown>(`${this.API_URL}/${encodeURIComponent(id)}`).pipe(
+      map(() => undefined)
+    );
+  }
+
+  /**
+   * Gets the users in the trash
+   */
+  getTrash(): Observable<UserTrash> {
+    return this.http.get<{ retentionDays: number; users: unknown }>(this.TRASH_URL).pipe(
+      map(body => ({ retentionDays: body.retentionDays, users: this.toUsers(body.users) }))
+    );
+  }
+
+  /**
+   * Takes a user out of the trash, under its original id
+   */
+  restore(id: UserId): Observable<User> {
+    return this.http.post<unknown>(`${this.TRASH_URL}/${encodeURIComponent(id)}/restore`, {}).pipe(
+      switchMap(body => this.toUser(body))
+    );
+  }
+
+  /**
+   * Deletes a user in the trash for good
+   */
+  purge(id: UserId): Observable<void> {
+    return this.http.delete<unknown>(`${this.TRASH_URL}/${encodeURIComponent(id)}`).pipe(
+      map(() => undefined)
+    );
+  }
+
+  /**
+   * Query parameters of a filter and sort order, in json-server syntax
+   */
+  private toQueryParams(filter?: UserFilter, sort?: UserSort): HttpParams {
+    let params = new HttpParams();
+
+    if (sort) {
+      params = params.set('_sort', sort.field).set('_order', sort.order);
+    }
+    if (filter?.searchTerm?.trim()) {
+      params = params.set('q', filter.searchTerm.trim());
+    }
+    if (filter?.role) {
+      params = params.set('role', filter.role);
+    }
+    if (filter?.status) {
+      params = params.set('status', filter.status);
+    }
+    if (filter?.department) {
+      params = params.set('department', filter.department);
+    }
+    if (hasConditions(filter?.query)) {
+      params = params.set('_query', JSON.stringify(normalizeQuery(filter!.query!)));
+    }
+    return params;
+  }
+
+  /**
+   * Reads the X-Search-Matches header; highlighting is left out when it is malformed
+   */
+  private toSearchMatches(header: string | null): SearchMatches {
+    if (!header) {
+      return {};
+    }
+
+    try {
+      const matches = JSON.parse(decodeURIComponent(header));
+      return typeof matches === 'object' && matches !== null && !Array.isArray(matches) ? matches : {};
+    } catch {
+      return {};
+    }
+  }
+
+  private toUsers(body: unknown): User[] {
+    const { users, issues } = parseUsers(body);
+    this.errorHandler.reportInvalidPayload(this.RESOURCE, issues);
+    return users;
+  }
+
+  private toUser(body: unknown): Observable<User> {
+    const result = parseUser(body);
+    // The caller gets the error, so it is not announced as well
+    const error = this.errorHandler.reportInvalidPayload(this.RESOURCE, result.issues, false);
+    return result.ok ? of(result.value) : throwError(() => error);
+  }
+}
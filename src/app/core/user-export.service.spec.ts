@@ -0,0 +1,76 @@
+import { HttpClient } from '@angular/common/http';
+import { firstValueFrom } from 'rxjs';
+import { UserExportService } from './user-export.service';
+import { User, UserExport } from './user.model';
+
+describe('UserExportService', () => {
+  const user: User = {
+    id: '2',
+    username: 'john.doe',
+    email: 'john.doe@example.com',
+    firstName: 'John',
+    lastName: 'Doe',
+    role: 'user',
+    status: 'active',
+    department: 'Sales, "East"',
+    version: 1
+  };
+  const data: UserExport = {
+    users: [user, { ...user, id: '3', username: 'jane', address: 'Main St 1\nSpringfield' }],
+    columns: [
+      { header: 'Username', value: u => u.username },
+      { header: 'Department', value: u => u.department ?? '' },
+      { header: 'Address', value: u => u.address ?? '' }
+    ],
+    criteria: [{ label: 'Search', value: '"doe"' }],
+    exportedAt: new Date(2024, 4, 1, 9, 30)
+  };
+
+  let service: UserExportService;
+  let download: jasmine.Spy;
+
+  beforeEach(() => {
+    service = new UserExportService({} as HttpClient);
+    download = spyOn(service as unknown as { download(blob: Blob, fileName: string): void }, 'download');
+  });
+
+  /**
+   * Exports the data as CSV and reads back the downloaded file
+   */
+  async function exportCsv(exported = data): Promise<{ bytes: Uint8Array; text: string; fileName: string }> {
+    await firstValueFrom(service.export('csv', exported), { defaultValue: undefined });
+    const [blob, fileName] = download.calls.mostRecent().args as [Blob, string];
+    return { bytes: new Uint8Array(await blob.arrayBuffer()), text: await blob.text(), fileName };
+  }
+
+  describe('CSV', () => {
+    it('should write the criteria above the table and name the file by the export time', async () => {
+      const { bytes, text, fileName } = await exportCsv();
+
+      expect(fileName).toBe('users-2024-05-01-0930.csv');
+      // UTF-8 byte order mark, for Excel
+      expect([...bytes.slice(0, 3)]).toEqual([0xef, 0xbb, 0xbf]);
+      expect(text.split('\r\n').slice(0, 5)).toEqual(['Users', 'Exported,2024-05-01 09:30', 'Search,"""doe"""', 'Users,2', '']);
+    });
+
+    it('should quote cells with commas, quotes and line breaks', async () => {
+      const { text } = await exportCsv();
+
+      expect(text.split('\r\n\r\n')[1]).toBe([
+        'Username,Department,Address',
+        'john.doe,"Sales, ""East""",',
+        'jane,"Sales, ""East""","Main St 1\nSpringfield"',
+        ''
+      ].join('\r\n'));
+    });
+
+    it('should keep cells from being read as formulas', async () => {
+      const { text } = await exportCsv({
+        ...data,
+        users: [{ ...user, username: '=1+2', department: '@SUM(A1)', address: '-5' }]
+      });
+
+      expect(text.split('\r\n\r\n')[1].split('\r\n')[1]).toBe("'=1+2,'@SUM(A1),'-5");
+    });
+  });
+});
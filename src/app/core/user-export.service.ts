@@ -0,0 +1,188 @@
+import { Injectable } from '@angular/core';
+import { formatDate } from '@angular/common';
+import { HttpClient } from '@angular/common/http';
+import { Observable, defer, firstValueFrom } from 'rxjs';
+import { map, shareReplay } from 'rxjs/operators';
+import { ExportFormat, UserExport } from './user.model';
+
+const TITLE = 'Users';
+const TIMESTAMP_FORMAT = 'yyyy-MM-dd HH:mm';
+
+// Latin and Arabic font embedded in PDFs; the standard PDF fonts have no Arabic glyphs
+const PDF_FONT = 'NotoSansArabic';
+const PDF_FONT_URL = '/fonts/NotoSansArabic_400Regular.ttf';
+
+// Spreadsheet apps run cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * User Export Service
+ *
+ * Writes user lists as CSV, Excel or PDF files for download. Every file starts
+ * with the filters the list was taken with and the export time, followed by
+ * the columns and rows as shown. SheetJS and jsPDF are only loaded when a
+ * file of their format is written.
+ *
+ * CSV cells that a spreadsheet would read as a formula are prefixed with an
+ * apostrophe, so user data cannot inject formulas. Excel files need no such
+ * guard: every cell is written as a text cell, which Excel never evaluates.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class UserExportService {
+  // Base64 of the PDF font, fetched on the first PDF export
+  private pdfFont$: Observable<string> | null = null;
+
+  constructor(private http: HttpClient) {}
+
+  /**
+   * Writes and downloads a user list
+   *
+   * @param format - File format
+   * @param data - Users, columns and filter criteria
+   * @returns Observable that completes once the file is saved
+   */
+  export(format: ExportFormat, data: UserExport): Observable<void> {
+    const fileName = `users-${formatDate(data.exportedAt, 'yyyy-MM-dd-HHmm', 'en-US')}.${format}`;
+
+    return defer(async () => {
+      switch (format) {
+        case 'csv':
+          return this.writeCsv(data, fileName);
+        case 'xlsx':
+          return this.writeXlsx(data, fileName);
+        case 'pdf':
+          return this.writePdf(data, fileName);
+      }
+    });
+  }
+
+  /**
+   * Lines above the table: title, export time and filter criteria
+   */
+  private headerRows(data: UserExport): string[][] {
+    return [
+      [TITLE],
+      ['Exported', formatDate(data.exportedAt, TIMESTAMP_FORMAT, 'en-US')],
+      ...data.criteria.map(({ label, value }) => [label, value]),
+      ['Users', String(data.users.length)]
+    ];
+  }
+
+  private tableRows(data: UserExport): string[][] {
+    return data.users.map(user => data.columns.map(column => column.value(user)));
+  }
+
+  /**
+   * Writes and downloads rows of cells as a CSV file
+   * Cells are guarded against formulas like those of user list exports.
+   *
+   * @param rows - Lines of the file, as their cells
+   * @param fileName - Name of the downloaded file
+   */
+  downloadCsv(rows: string[][], fileName: string): void {
+    const lines = rows.map(cells => cells.map(cell => this.toCsvCell(this.escapeFormula(cell))).join(','));
+
+    // The byte order mark makes Excel read the file as UTF-8
+    this.download(new Blob(['\uFEFF' + lines.join('\r\n') + '\r\n'], { type: 'text/csv' }), fileName);
+  }
+
+  private writeCsv(data: UserExport, fileName: string): void {
+    this.downloadCsv([
+      ...this.headerRows(data),
+      [],
+      data.columns.map(column => column.header),
+      ...this.tableRows(data)
+    ], fileName);
+  }
+
+  private async writeXlsx(data: UserExport, fileName: string): Promise<void> {
+    const xlsx = await import('xlsx');
+    const header = this.headerRows(data);
+    const rows = [...header, [], data.columns.map(column => column.header), ...this.tableRows(data)];
+
+    const sheet = xlsx.utils.aoa_to_sheet(rows);
+    sheet['!cols'] = data.columns.map((column, index) => ({
+      wch: Math.min(40, Math.max(column.header.length, ...rows.slice(header.length + 1).map(row => row[index]?.length ?? 0)) + 2)
+    }));
+
+    const workbook = xlsx.utils.book_new();
+    xlsx.utils.book_append_sheet(workbook, sheet, TITLE);
+    xlsx.writeFile(workbook, fileName);
+  }
+
+  private async writePdf(data: UserExport, fileName: string): Promise<void> {
+    const [{ jsPDF }, { default: autoTable }, font] = await Promise.all([
+      import('jspdf'),
+      import('jspdf-autotable/es'),
+      firstValueFrom(this.loadPdfFont())
+    ]);
+    const doc = new jsPDF({ orientation: 'landscape', unit: 'pt', format: 'a4' });
+    const margin = 40;
+
+    doc.addFileToVFS(`${PDF_FONT}.ttf`, font);
+    doc.addFont(`${PDF_FONT}.ttf`, PDF_FONT, 'normal');
+    doc.setFont(PDF_FONT, 'normal');
+
+    doc.setFontSize(16);
+    doc.text(TITLE, margin, margin + 8);
+    doc.setFontSize(9);
+    const [, ...details] = this.headerRows(data);
+    details.forEach(([label, value], index) => doc.text(`${label}: ${value}`, margin, margin + 28 + index * 13));
+
+    autoTable(doc, {
+      head: [data.columns.map(column => column.header)],
+      body: this.tableRows(data),
+      startY: margin + 28 + details.length * 13,
+      margin: { left: margin, right: margin, bottom: margin },
+      styles: { font: PDF_FONT, fontStyle: 'normal', fontSize: 8, cellPadding: 4 },
+      headStyles: { fontStyle: 'normal', fillColor: [59, 130, 246] }
+    });
+
+    // Page numbers once the number of pages is known
+    const pages = doc.getNumberOfPages();
+    for (let page = 1; page <= pages; page++) {
+      doc.setPage(page);
+      doc.setFontSize(8);
+      doc.text(`Page ${page} of ${pages}`, doc.internal.pageSize.getWidth() - margin, doc.internal.pageSize.getHeight() - margin / 2, { align: 'right' });
+    }
+
+    doc.save(fileName);
+  }
+
+  /**
+   * Fetches the PDF font once, as base64 for jsPDF's virtual file system
+   */
+  private loadPdfFont(): Observable<string> {
+    this.pdfFont$ ??= this.http.get(PDF_FONT_URL, { responseType: 'arraybuffer' }).pipe(
+      map(buffer => {
+        const bytes = new Uint8Array(buffer);
+        let binary = '';
+        for (let i = 0; i < bytes.length; i += 0x8000) {
+          binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+        }
+        return btoa(binary);
+      }),
+      // A failed download is not cached, the next export tries again
+      shareReplay(1)
+    );
+    return this.pdfFont$;
+  }
+
+  private download(blob: Blob, fileName: string): void {
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(link.href);
+  }
+
+  private escapeFormula(value: string): string {
+    return FORMULA_PREFIX.test(value) ? `'${value}` : value;
+  }
+
+  private toCsvCell(value: string): string {
+    return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+  }
+}
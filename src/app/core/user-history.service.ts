@@ -0,0 +1,158 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject, Observable, defer, throwError } from 'rxjs';
+import { distinctUntilChanged, finalize, map } from 'rxjs/operators';
+import { UserChangeKind, UserHistory, UserHistoryEntry } from './user.model';
+import { AuthService } from './auth.service';
+
+/**
+ * Undoable change, with the requests that revert and reapply it
+ */
+interface UserCommand extends UserHistoryEntry {
+  undo: () => Observable<unknown>;
+  redo: () => Observable<unknown>;
+}
+
+/**
+ * User History Service
+ *
+ * Command history of user changes. UserService records every create, update
+ * and delete (and bulk changes as one step) together with the requests that
+ * revert and reapply it; the user list undoes and redoes them from its undo
+ * toast and history panel. Recording a new change clears what could be
+ * redone. The history belongs to the signed-in admin and starts over when
+ * someone else signs in or an impersonation starts or ends.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class UserHistoryService {
+  // Oldest changes are forgotten beyond this many
+  private readonly LIMIT = 25;
+
+  private undoStack: UserCommand[] = [];
+  private redoStack: UserCommand[] = [];
+  private busy = false;
+  private historyState$ = new BehaviorSubject<UserHistory>({ undo: [], redo: [], busy: false });
+  private nextId = 1;
+
+  constructor(private authService: AuthService) {
+    this.authService.getAuthState()
+      .pipe(
+        map(state => state.user?.id ?? null),
+        distinctUntilChanged()
+      )
+      .subscribe(() => this.clear());
+  }
+
+  /**
+   * Gets the changes that can be undone and redone
+   */
+  getHistory(): Observable<UserHistory> {
+    return this.historyState$.asObservable();
+  }
+
+  /**
+   * Records a change that was just saved
+   *
+   * @param kind - Kind of change
+   * @param label - What was done, shown in the history
+   * @param undo - Reverts the change
+   * @param redo - Applies the change again after it was undone
+   */
+  record(
+    kind: UserChangeKind,
+    label: string,
+    undo: () => Observable<unknown>,
+    redo: () => Observable<unknown>
+  ): UserHistoryEntry {
+    const command: UserCommand = {
+      id: String(this.nextId++),
+      kind,
+      label,
+      timestamp: new Date().toISOString(),
+      undo,
+      redo
+    };
+
+    this.undoStack = [...this.undoStack, command].slice(-this.LIMIT);
+    this.redoStack = [];
+    this.publish();
+    return this.toEntry(command);
+  }
+
+  /**
+   * Reverts the newest change
+   *
+   * @returns Observable with the reverted change, or null when there is none
+   */
+  undo(): Observable<UserHistoryEntry> | null {
+    return this.apply('undo');
+  }
+
+  /**
+   * Applies the newest undone change again
+   *
+   * @returns Observable with the reapplied change, or null when there is none
+   */
+  redo(): Observable<UserHistoryEntry> | null {
+    return this.apply('redo');
+  }
+
+  /**
+   * Forgets all changes
+   */
+  clear(): void {
+    this.undoStack = [];
+    this.redoStack = [];
+    this.publish();
+  }
+
+  /**
+   * Runs the newest command of one stack and moves it to the other
+   * A command that fails stays where it was, so it can be tried again.
+   */
+  private apply(direction: 'undo' | 'redo'): Observable<UserHistoryEntry> | null {
+    const stack = direction === 'undo' ? this.undoStack : this.redoStack;
+    const command = stack[stack.length - 1];
+    if (!command || this.busy) {
+      return null;
+    }
+    if (this.authService.isReadOnly()) {
+      return throwError(() => new Error('Changes are disabled during a read-only impersonation'));
+    }
+
+    return defer(() => {
+      this.busy = true;
+      this.publish();
+
+      return command[direction]().pipe(
+        map(() => {
+          if (direction === 'undo') {
+            this.undoStack = this.undoStack.filter(c => c !== command);
+            this.redoStack = [...this.redoStack, command];
+          } else {
+            this.redoStack = this.redoStack.filter(c => c !== command);
+            this.undoStack = [...this.undoStack, command];
+          }
+          return this.toEntry(command);
+        }),
+        finalize(() => {
+          this.busy = false;
+          this.publish();
+        })
+      );
+    });
+  }
+
+  private publish(): void {
+    this.historyState$.next({
+      undo: this.undoStack.map(c => this.toEntry(c)).reverse(),
+      redo: this.redoStack.map(c => this.toEntry(c)).reverse(),
+      busy: this.busy
+    });
+  }
+
+  private toEntry({ id, kind, label, timestamp }: UserCommand): UserHistoryEntry {
+    return { id, kind, label, timestamp };
+  }
+}
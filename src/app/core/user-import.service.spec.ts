@@ -0,0 +1,124 @@
+import { HttpClient } from '@angular/common/http';
+import { UserExportService } from './user-export.service';
+import { UserImportService } from './user-import.service';
+import { ImportSheet, Role, User } from './user.model';
+
+describe('UserImportService', () => {
+  const exportService = new UserExportService({} as HttpClient);
+  const service = new UserImportService(exportService);
+  const roles: Role[] = [
+    { id: 'admin', name: 'Administrator', permissions: [] },
+    { id: 'user', name: 'User', permissions: [] }
+  ];
+  const existing: User = {
+    id: '2',
+    username: 'john.doe',
+    email: 'john.doe@example.com',
+    firstName: 'John',
+    lastName: 'Doe',
+    role: 'user',
+    status: 'active',
+    version: 1
+  };
+  const columns = ['Full Name', 'Email', 'Username', 'Role', 'Dept', 'Phone', 'DOB'];
+  const mapping = service.guessMapping(columns);
+
+  function validate(...rows: string[][]) {
+    const sheet: ImportSheet = { fileName: 'users.csv', columns, rows };
+    return service.validate(sheet, mapping, [existing], roles);
+  }
+
+  describe('guessMapping', () => {
+    it('should map columns by their headers', () => {
+      expect(mapping).toEqual({ name: 0, email: 1, username: 2, role: 3, department: 4, phone: 5, dateOfBirth: 6 });
+      expect(service.guessMapping(['first_name', 'Last-Name', 'Notes'])).toEqual({ firstName: 0, lastName: 1 });
+    });
+
+    it('should require an email, a username and a name', () => {
+      expect(service.isMappingComplete(mapping)).toBeTrue();
+      expect(service.isMappingComplete({ firstName: 0, email: 1, username: 2 })).toBeTrue();
+      expect(service.isMappingComplete({ lastName: 0, email: 1, username: 2 })).toBeFalse();
+      expect(service.isMappingComplete({ name: 0, email: 1 })).toBeFalse();
+    });
+  });
+
+  describe('validate', () => {
+    it('should turn valid rows into pending users', () => {
+      const [row] = validate(['Ada Lovelace King', 'ada@example.com', 'ada', 'Administrator', 'Research', '+44 20 7946', '1815-12-10']);
+
+      expect(row.line).toBe(2);
+      expect(row.errors).toEqual([]);
+      expect(row.user).toEqual({
+        firstName: 'Ada',
+        lastName: 'Lovelace King',
+        email: 'ada@example.com',
+        username: 'ada',
+        role: 'admin',
+        status: 'pending',
+        department: 'Research',
+        phone: '+44 20 7946',
+        dateOfBirth: '1815-12-10',
+        avatar: 'https://i.pravatar.cc/150?u=ada@example.com'
+      });
+    });
+
+    it('should give rows without a role the default role', () => {
+      const [row] = validate(['Grace Hopper', 'grace@example.com', 'grace', '', 'Navy', '', '']);
+      expect(row.user?.role).toBe('user');
+    });
+
+    it('should apply the rules of the user dialog', () => {
+      const [row] = validate(['Al', 'not-an-email', 'ab', 'user', '', 'call me', '']);
+
+      expect(row.user).toBeNull();
+      expect(row.errors).toEqual([
+        'Full Name: Minimum length is 3',
+        'Email: Invalid email address',
+        'Username: Minimum length is 3',
+        'Department: This field is required',
+        'Phone: Invalid format'
+      ]);
+    });
+
+    it('should reject unknown roles and invalid or future dates', () => {
+      const future = new Date(Date.now() + 86400000 * 2).toISOString().split('T')[0];
+      const rows = validate(
+        ['Alan Turing', 'alan@example.com', 'alan', 'wizard', 'Research', '', 'someday'],
+        ['Joan Clarke', 'joan@example.com', 'joan', 'user', 'Research', '', future]
+      );
+
+      expect(rows[0].errors).toEqual(['Role: "wizard" is not a role', 'Date of Birth: Invalid date']);
+      expect(rows[1].errors).toEqual(['Date of Birth: Invalid date']);
+    });
+
+    it('should reject usernames and emails that are taken by users or earlier rows', () => {
+      const rows = validate(
+        ['John Doe', 'John.Doe@example.com', 'johnny', 'user', 'Sales', '', ''],
+        ['Jane Smith', 'jane@example.com', 'jane', 'user', 'Sales', '', ''],
+        ['Jane Doe', 'JANE@example.com', 'Jane', 'user', 'Sales', '', '']
+      );
+
+      expect(rows.map(row => row.errors)).toEqual([
+        ['Email: Already used by an existing user'],
+        [],
+        ['Username: Already used by row 3', 'Email: Already used by row 3']
+      ]);
+    });
+  });
+
+  describe('downloadErrorReport', () => {
+    it('should list the rejected rows with their errors, guarded against formulas', async () => {
+      const download = spyOn(exportService as unknown as { download(blob: Blob, fileName: string): void }, 'download');
+      const sheet: ImportSheet = { fileName: 'users.xlsx', columns, rows: [] };
+      const [row] = validate(['=HYPERLINK("http://x")', 'x', 'al', 'user', 'Sales', '', '']);
+
+      service.downloadErrorReport(sheet, [row]);
+
+      const [blob, fileName] = download.calls.mostRecent().args as [Blob, string];
+      expect(fileName).toBe('users-errors.csv');
+      expect((await blob.text()).split('\r\n')[1]).toBe(
+        '2,"\'=HYPERLINK(""http://x"")",x,al,user,Sales,,,Email: Invalid email address; Username: Minimum length is 3'
+      );
+    });
+  });
+});
@@ -0,0 +1,233 @@
+import { Injectable } from '@angular/core';
+import { FormControl, FormGroup } from '@angular/forms';
+import { Observable, from } from 'rxjs';
+import { map } from 'rxjs/operators';
+import { ImportField, ImportMapping, ImportRow, ImportSheet, NewUser, Role, User } from './user.model';
+import { UserExportService } from './user-export.service';
+import { USER_FIELD_VALIDATORS, describeFieldError } from '../shared/validators/user-fields.validators';
+
+/**
+ * Import fields with their labels and the column headers they are guessed from
+ */
+export const IMPORT_FIELDS: readonly { field: ImportField; label: string; headers: string[] }[] = [
+  { field: 'name', label: 'Full Name', headers: ['name', 'full name', 'fullname'] },
+  { field: 'firstName', label: 'First Name', headers: ['first name', 'firstname', 'given name'] },
+  { field: 'lastName', label: 'Last Name', headers: ['last name', 'lastname', 'surname', 'family name'] },
+  { field: 'email', label: 'Email', headers: ['email', 'e-mail', 'email address', 'mail'] },
+  { field: 'username', label: 'Username', headers: ['username', 'user name', 'login'] },
+  { field: 'role', label: 'Role', headers: ['role'] },
+  { field: 'department', label: 'Department', headers: ['department', 'dept', 'team'] },
+  { field: 'phone', label: 'Phone', headers: ['phone', 'phone number', 'mobile', 'telephone'] },
+  { field: 'address', label: 'Address', headers: ['address'] },
+  { field: 'dateOfBirth', label: 'Date of Birth', headers: ['date of birth', 'dateofbirth', 'birthday', 'dob', 'birth date'] }
+];
+
+// Role of rows without one, as in the user dialog
+const DEFAULT_ROLE = 'user';
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * User Import Service
+ *
+ * Reads CSV and Excel files for the import wizard, maps their columns to
+ * user fields and checks every row with the user dialog's rules and for
+ * usernames and emails that are already taken, before anything is created.
+ * SheetJS is only loaded once a file is read.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class UserImportService {
+  constructor(private exportService: UserExportService) {}
+
+  /**
+   * Reads the first sheet of a CSV or Excel file
+   * The first row holds the column headers; empty rows are skipped.
+   *
+   * @param file - Uploaded .csv, .xlsx or .xls file
+   * @returns Observable<ImportSheet>
+   */
+  readFile(file: File): Observable<ImportSheet> {
+    const isCsv = file.name.toLowerCase().endsWith('.csv');
+
+    return from(Promise.all([import('xlsx'), isCsv ? file.text() : file.arrayBuffer()])).pipe(
+      map(([xlsx, content]) => {
+        // CSV values stay text, so phone numbers keep their leading + and zeros
+        const workbook = typeof content === 'string'
+          ? xlsx.read(content, { type: 'string', raw: true })
+          : xlsx.read(content, { type: 'array', cellDates: true });
+        const sheet = workbook.Sheets[workbook.SheetNames[0]];
+        if (!sheet) {
+          throw new Error('The file has no sheets');
+        }
+
+        const [header = [], ...rows] = xlsx.utils.sheet_to_json<unknown[]>(sheet, {
+          header: 1,
+          raw: false,
+          defval: '',
+          blankrows: false,
+          dateNF: 'yyyy-mm-dd'
+        });
+        if (header.length === 0) {
+          throw new Error('The file is empty');
+        }
+
+        const columns = header.map((title, index) => String(title).trim() || `Column ${index + 1}`);
+        return {
+          fileName: file.name,
+          columns,
+          rows: rows.map(row => columns.map((_, index) => String(row[index] ?? '').trim()))
+        };
+      })
+    );
+  }
+
+  /**
+   * Maps columns to fields by their headers
+   */
+  guessMapping(columns: string[]): ImportMapping {
+    const mapping: ImportMapping = {};
+    const normalized = columns.map(column => column.toLowerCase().replace(/[_\-.]+/g, ' ').trim());
+
+    for (const { field, headers } of IMPORT_FIELDS) {
+      const index = normalized.findIndex(column => headers.includes(column));
+      if (index !== -1) {
+        mapping[field] = index;
+      }
+    }
+
+    return mapping;
+  }
+
+  /**
+   * Whether a mapping fills the fields every user needs
+   */
+  isMappingComplete(mapping: ImportMapping): boolean {
+    return mapping.email !== undefined &&
+      mapping.username !== undefined &&
+      (mapping.name !== undefined || mapping.firstName !== undefined);
+  }
+
+  /**
+   * Turns the rows of a file into users, or the reasons they are rejected
+   *
+   * @param sheet - File contents
+   * @param mapping - Column of every field
+   * @param existingUsers - Users whose usernames and emails are taken
+   * @param roles - Roles a row may name, by id or by name
+   */
+  validate(sheet: ImportSheet, mapping: ImportMapping, existingUsers: User[], roles: Role[]): ImportRow[] {
+    // Who took a username or email: an existing user or an earlier row
+    const usernames = new Map(existingUsers.map(u => [u.username.toLowerCase(), 'an existing user']));
+    const emails = new Map(existingUsers.map(u => [u.email.toLowerCase(), 'an existing user']));
+
+    return sheet.rows.map((values, index) => {
+      const line = index + 2;
+      const value = (field: ImportField) => mapping[field] === undefined ? '' : values[mapping[field]!] ?? '';
+      const errors: string[] = [];
+
+      const name = value('name') || [value('firstName'), value('lastName')].filter(Boolean).join(' ');
+      const roleText = value('role');
+      const role = roleText
+        ? roles.find(r => r.id.toLowerCase() === roleText.toLowerCase() || r.name.toLowerCase() === roleText.toLowerCase())?.id
+        : DEFAULT_ROLE;
+
+      // The same rules as the user dialog
+      const form = new FormGroup({
+        name: new FormControl(name, USER_FIELD_VALIDATORS.name),
+        email: new FormControl(value('email'), USER_FIELD_VALIDATORS.email),
+        username: new FormControl(value('username'), USER_FIELD_VALIDATORS.username),
+        department: new FormControl(value('department'), USER_FIELD_VALIDATORS.department),
+        phone: new FormControl(value('phone'), USER_FIELD_VALIDATORS.phone)
+      });
+      for (const [key, control] of Object.entries(form.controls)) {
+        if (control.errors) {
+          errors.push(`${this.labelOf(key)}: ${describeFieldError(control.errors)}`);
+        }
+      }
+
+      if (!role) {
+        errors.push(`Role: "${roleText}" is not a role`);
+      }
+
+      const dateOfBirth = this.toDate(value('dateOfBirth'));
+      if (dateOfBirth === null) {
+        errors.push('Date of Birth: Invalid date');
+      }
+
+      const username = value('username').toLowerCase();
+      const email = value('email').toLowerCase();
+      if (username && usernames.has(username)) {
+        errors.push(`Username: Already used by ${usernames.get(username)}`);
+      }
+      if (email && emails.has(email)) {
+        errors.push(`Email: Already used by ${emails.get(email)}`);
+      }
+      if (username && !usernames.has(username)) {
+        usernames.set(username, `row ${line}`);
+      }
+      if (email && !emails.has(email)) {
+        emails.set(email, `row ${line}`);
+      }
+
+      if (errors.length > 0) {
+        return { line, values, user: null, errors };
+      }
+
+      const [firstName, ...rest] = name.split(' ');
+      const user: NewUser = {
+        firstName: value('firstName') || firstName,
+        lastName: value('name') ? rest.join(' ') || firstName : value('lastName'),
+        email: value('email'),
+        username: value('username'),
+        role: role!,
+        status: 'pending',
+        department: value('department'),
+        avatar: `https://i.pravatar.cc/150?u=${value('email')}`
+      };
+      if (value('phone')) {
+        user.phone = value('phone');
+      }
+      if (value('address')) {
+        user.address = value('address');
+      }
+      if (dateOfBirth) {
+        user.dateOfBirth = dateOfBirth;
+      }
+
+      return { line, values, user, errors };
+    });
+  }
+
+  /**
+   * Saves the rejected rows as CSV, with the reasons in an extra column
+   *
+   * @param sheet - File the rows came from
+   * @param rows - Rejected rows
+   */
+  downloadErrorReport(sheet: ImportSheet, rows: ImportRow[]): void {
+    this.exportService.downloadCsv([
+      ['Line', ...sheet.columns, 'Errors'],
+      ...rows.map(row => [String(row.line), ...row.values, row.errors.join('; ')])
+    ], `${sheet.fileName.replace(/\.[^.]+$/, '')}-errors.csv`);
+  }
+
+  /**
+   * Date of birth as YYYY-MM-DD; undefined when empty, null when invalid
+   */
+  private toDate(value: string): string | undefined | null {
+    if (!value) {
+      return undefined;
+    }
+
+    const time = DATE_PATTERN.test(value) ? Date.parse(`${value}T00:00:00Z`) : Date.parse(`${value} UTC`);
+    if (Number.isNaN(time) || time > Date.now()) {
+      return null;
+    }
+    return new Date(time).toISOString().split('T')[0];
+  }
+
+  private labelOf(key: string): string {
+    return IMPORT_FIELDS.find(f => f.field === key)?.label ?? key;
+  }
+}
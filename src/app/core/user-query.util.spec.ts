@@ -0,0 +1,155 @@
+import { MAX_QUERY_DEPTH, matchesQuery, normalizeQuery, parseQuery } from './user-query.util';
+import { QueryGroup, User } from './user.model';
+
+describe('user-query.util', () => {
+  const user: User = {
+    id: '2',
+    username: 'john.doe',
+    email: 'john.doe@example.com',
+    firstName: 'John',
+    lastName: 'Doe',
+    role: 'user',
+    status: 'active',
+    department: 'Engineering',
+    joinDate: '2023-03-15',
+    lastActive: '2024-01-10T08:30:00.000Z',
+    version: 1
+  };
+
+  describe('parseQuery', () => {
+    it('should read a complete query', () => {
+      const query = parseQuery({
+        combinator: 'or',
+        rules: [
+          { field: 'firstName', operator: 'equals', value: 'John' },
+          { combinator: 'and', rules: [{ field: 'joinDate', operator: 'between', from: '2023-01-01' }] }
+        ]
+      });
+
+      expect(query).toEqual({
+        combinator: 'or',
+        negate: false,
+        rules: [
+          { field: 'firstName', operator: 'equals', value: 'John', negate: false },
+          { combinator: 'and', negate: false, rules: [{ field: 'joinDate', operator: 'between', from: '2023-01-01', negate: false }] }
+        ]
+      });
+    });
+
+    it('should reject values that are not query groups', () => {
+      expect(parseQuery(null)).toBeNull();
+      expect(parseQuery('query')).toBeNull();
+      expect(parseQuery({ combinator: 'xor', rules: [] })).toBeNull();
+      expect(parseQuery({ combinator: 'and', rules: {} })).toBeNull();
+    });
+
+    it('should reject rules that are not objects', () => {
+      expect(parseQuery({ combinator: 'and', rules: [null] })).toBeNull();
+      expect(parseQuery({ combinator: 'or', rules: ['email', 42] })).toBeNull();
+      expect(parseQuery({ combinator: 'and', rules: [{ combinator: 'or', rules: [null] }] })).toBeNull();
+    });
+
+    it('should reject unknown fields and operators', () => {
+      expect(parseQuery({ combinator: 'and', rules: [{ field: 'password', operator: 'equals', value: 'x' }] })).toBeNull();
+      expect(parseQuery({ combinator: 'and', rules: [{ field: 'email', operator: 'between', from: '2023-01-01' }] })).toBeNull();
+    });
+
+    it('should reject malformed values and dates', () => {
+      expect(parseQuery({ combinator: 'and', rules: [{ field: 'email', operator: 'equals', value: 42 }] })).toBeNull();
+      expect(parseQuery({ combinator: 'and', rules: [{ field: 'joinDate', operator: 'between', from: '15.03.2023' }] })).toBeNull();
+    });
+
+    it('should reject incomplete queries', () => {
+      expect(parseQuery({ combinator: 'and', rules: [{ field: 'email', operator: 'contains', value: ' ' }] })).toBeNull();
+      expect(parseQuery({
+        combinator: 'and',
+        rules: [{ combinator: 'or', rules: [{ field: 'joinDate', operator: 'between' }] }]
+      })).toBeNull();
+    });
+
+    it('should reject queries nested deeper than the maximum depth', () => {
+      let query: unknown = { field: 'email', operator: 'isEmpty' };
+      for (let depth = 0; depth < MAX_QUERY_DEPTH; depth++) {
+        query = { combinator: 'and', rules: [query] };
+      }
+      expect(parseQuery(query)).not.toBeNull();
+      expect(parseQuery({ combinator: 'and', rules: [query] })).toBeNull();
+    });
+  });
+
+  describe('normalizeQuery', () => {
+    it('should keep only the values each operator uses', () => {
+      const query: QueryGroup = {
+        combinator: 'and',
+        negate: false,
+        rules: [
+          { field: 'email', operator: 'contains', value: ' example ', from: '2023-01-01', negate: false },
+          { field: 'joinDate', operator: 'between', value: 'x', from: '2023-01-01', to: '' },
+          { field: 'phone', operator: 'isEmpty', value: '555', negate: true }
+        ]
+      };
+
+      expect(normalizeQuery(query)).toEqual({
+        combinator: 'and',
+        rules: [
+          { field: 'email', operator: 'contains', value: 'example' },
+          { field: 'joinDate', operator: 'between', from: '2023-01-01' },
+          { field: 'phone', operator: 'isEmpty', negate: true }
+        ]
+      });
+    });
+
+    it('should drop empty groups and keep negated ones', () => {
+      const query: QueryGroup = {
+        combinator: 'or',
+        negate: true,
+        rules: [
+          { combinator: 'and', rules: [] },
+          { combinator: 'and', rules: [{ combinator: 'or', rules: [] }] },
+          { field: 'role', operator: 'equals', value: 'admin' }
+        ]
+      };
+
+      expect(normalizeQuery(query)).toEqual({
+        combinator: 'or',
+        negate: true,
+        rules: [{ field: 'role', operator: 'equals', value: 'admin' }]
+      });
+    });
+  });
+
+  describe('matchesQuery', () => {
+    it('should compare text case-insensitively', () => {
+      expect(matchesQuery(user, { field: 'department', operator: 'equals', value: ' engineering ' })).toBeTrue();
+      expect(matchesQuery(user, { field: 'department', operator: 'equals', value: 'engine' })).toBeFalse();
+      expect(matchesQuery(user, { field: 'email', operator: 'contains', value: 'EXAMPLE' })).toBeTrue();
+    });
+
+    it('should not match empty fields with equals or contains', () => {
+      expect(matchesQuery(user, { field: 'phone', operator: 'contains', value: '' })).toBeFalse();
+      expect(matchesQuery(user, { field: 'phone', operator: 'isEmpty' })).toBeTrue();
+    });
+
+    it('should compare dates and timestamps by day, with inclusive bounds', () => {
+      expect(matchesQuery(user, { field: 'joinDate', operator: 'between', from: '2023-03-15', to: '2023-03-15' })).toBeTrue();
+      expect(matchesQuery(user, { field: 'lastActive', operator: 'between', to: '2024-01-10' })).toBeTrue();
+      expect(matchesQuery(user, { field: 'lastActive', operator: 'between', from: '2024-01-11' })).toBeFalse();
+      expect(matchesQuery(user, { field: 'dateOfBirth', operator: 'between', from: '1900-01-01' })).toBeFalse();
+    });
+
+    it('should combine groups with and/or and negate rules', () => {
+      const john = { field: 'firstName', operator: 'equals', value: 'john' } as const;
+      const admin = { field: 'role', operator: 'equals', value: 'admin' } as const;
+
+      expect(matchesQuery(user, { combinator: 'and', rules: [john, admin] })).toBeFalse();
+      expect(matchesQuery(user, { combinator: 'or', rules: [john, admin] })).toBeTrue();
+      expect(matchesQuery(user, { combinator: 'and', rules: [john, { ...admin, negate: true }] })).toBeTrue();
+      expect(matchesQuery(user, { combinator: 'or', negate: true, rules: [john, admin] })).toBeFalse();
+    });
+
+    it('should match everyone with empty groups', () => {
+      expect(matchesQuery(user, { combinator: 'and', rules: [] })).toBeTrue();
+      expect(matchesQuery(user, { combinator: 'or', rules: [] })).toBeTrue();
+    });
+  });
+});
@@ -0,0 +1,329 @@
+import { Params } from '@angular/router';
+import { QueryCondition, QueryField, QueryGroup, QueryOperator, User, UserFilter, UserSort, UserStatus } from './user.model';
+
+/**
+ * Helpers for user list queries: the fields and operators of the query
+ * builder, filters as URL query parameters, and the offline counterpart of
+ * the server's filtering (server side: user-query.mjs)
+ */
+
+/**
+ * Query fields with their labels, whether they hold text or dates and the
+ * dropdown their values are picked from
+ */
+export const QUERY_FIELDS: readonly {
+  field: QueryField;
+  label: string;
+  type: 'text' | 'date';
+  options?: 'role' | 'status' | 'department';
+}[] = [
+  { field: 'firstName', label: 'First Name', type: 'text' },
+  { field: 'lastName', label: 'Last Name', type: 'text' },
+  { field: 'email', label: 'Email', type: 'text' },
+  { field: 'username', label: 'Username', type: 'text' },
+  { field: 'role', label: 'Role', type: 'text', options: 'role' },
+  { field: 'status', label: 'Status', type: 'text', options: 'status' },
+  { field: 'department', label: 'Department', type: 'text', options: 'department' },
+  { field: 'phone', label: 'Phone', type: 'text' },
+  { field: 'address', label: 'Address', type: 'text' },
+  { field: 'joinDate', label: 'Join Date', type: 'date' },
+  { field: 'lastActive', label: 'Last Active', type: 'date' },
+  { field: 'dateOfBirth', label: 'Date of Birth', type: 'date' }
+];
+
+export const QUERY_OPERATORS: Record<'text' | 'date', { label: string; value: QueryOperator }[]> = {
+  text: [
+    { label: 'is', value: 'equals' },
+    { label: 'contains', value: 'contains' },
+    { label: 'is empty', value: 'isEmpty' }
+  ],
+  date: [
+    { label: 'is between', value: 'between' },
+    { label: 'is empty', value: 'isEmpty' }
+  ]
+};
+
+// Limits enforced by the server
+export const MAX_QUERY_DEPTH = 4;
+
+const USER_STATUSES: readonly UserStatus[] = ['active', 'inactive', 'pending'];
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Fields searched offline
+const SEARCH_FIELDS: readonly (keyof User)[] = ['firstName', 'lastName', 'username', 'email', 'phone', 'department'];
+
+export function isQueryGroup(rule: QueryCondition | QueryGroup): rule is QueryGroup {
+  return 'rules' in rule;
+}
+
+export function fieldOf(field: QueryField): (typeof QUERY_FIELDS)[number] {
+  return QUERY_FIELDS.find(f => f.field === field)!;
+}
+
+export function createCondition(field: QueryField = 'firstName'): QueryCondition {
+  return { field, operator: fieldOf(field).type === 'date' ? 'between' : 'equals', value: '' };
+}
+
+export function createGroup(combinator: QueryGroup['combinator'] = 'and'): QueryGroup {
+  return { combinator, rules: [createCondition()] };
+}
+
+/**
+ * Whether a query has any conditions
+ */
+export function hasConditions(group: QueryGroup | undefined): boolean {
+  return !!group && group.rules.some(rule => isQueryGroup(rule) ? hasConditions(rule) : true);
+}
+
+/**
+ * Whether every condition of a query has the values its operator needs
+ */
+export function isQueryComplete(group: QueryGroup): boolean {
+  return group.rules.every(rule => {
+    if (isQueryGroup(rule)) {
+      return isQueryComplete(rule);
+    }
+    switch (rule.operator) {
+      case 'equals':
+      case 'contains':
+        return !!rule.value?.trim();
+      case 'between':
+        return !!rule.from || !!rule.to;
+      default:
+        return true;
+    }
+  });
+}
+
+/**
+ * Copy of a query without empty groups and with only the values each
+ * operator uses, as sent to the server
+ */
+export function normalizeQuery(group: QueryGroup): QueryGroup {
+  const rules = group.rules
+    .map(rule => {
+      if (isQueryGroup(rule)) {
+        return normalizeQuery(rule);
+      }
+      const condition: QueryCondition = { field: rule.field, operator: rule.operator };
+      if (rule.operator === 'equals' || rule.operator === 'contains') {
+        condition.value = rule.value?.trim();
+      }
+      if (rule.operator === 'between') {
+        if (rule.from) {
+          condition.from = rule.from;
+        }
+        if (rule.to) {
+          condition.to = rule.to;
+        }
+      }
+      if (rule.negate) {
+        condition.negate = true;
+      }
+      return condition;
+    })
+    .filter(rule => !isQueryGroup(rule) || rule.rules.length > 0);
+
+  return group.negate ? { combinator: group.combinator, negate: true, rules } : { combinator: group.combinator, rules };
+}
+
+/**
+ * Reads a query from a link or saved filter
+ *
+ * @returns The query, or null when it is not a well-formed, complete query
+ */
+export function parseQuery(value: unknown, depth = 0): QueryGroup | null {
+  if (typeof value !== 'object' || value === null || depth >= MAX_QUERY_DEPTH) {
+    return null;
+  }
+
+  const group = value as Partial<QueryGroup>;
+  if ((group.combinator !== 'and' && group.combinator !== 'or') || !Array.isArray(group.rules)) {
+    return null;
+  }
+
+  const rules: QueryGroup['rules'] = [];
+  for (const rule of group.rules as unknown[]) {
+    if (typeof rule !== 'object' || rule === null) {
+      return null;
+    }
+    if ('rules' in rule) {
+      const nested = parseQuery(rule, depth + 1);
+      if (!nested) {
+        return null;
+      }
+      rules.push(nested);
+      continue;
+    }
+
+    const condition = rule as Partial<QueryCondition>;
+    const field = QUERY_FIELDS.find(f => f.field === condition.field);
+    if (!field || !QUERY_OPERATORS[field.type].some(o => o.value === condition.operator)) {
+      return null;
+    }
+    for (const bound of [condition.from, condition.to]) {
+      if (bound !== undefined && (typeof bound !== 'string' || !DATE_PATTERN.test(bound))) {
+        return null;
+      }
+    }
+    if (condition.value !== undefined && typeof condition.value !== 'string') {
+      return null;
+    }
+    rules.push({ ...condition, negate: condition.negate === true } as QueryCondition);
+  }
+
+  const query: QueryGroup = { combinator: group.combinator, rules, negate: group.negate === true };
+  // The server refuses conditions without the values their operator needs
+  return depth > 0 || isQueryComplete(query) ? query : null;
+}
+
+/**
+ * Readable form of a query, e.g. for export headers
+ *
+ * @param group - Query to describe
+ * @param valueLabel - Display text of a field value, e.g. role names
+ */
+export function describeQuery(group: QueryGroup, valueLabel: (field: QueryField, value: string) => string = (_, value) => value): string {
+  const parts = group.rules.map(rule => {
+    if (isQueryGroup(rule)) {
+      return `(${describeQuery(rule, valueLabel)})`;
+    }
+
+    const label = fieldOf(rule.field).label;
+    let text: string;
+    switch (rule.operator) {
+      case 'equals':
+        text = `${label} is "${valueLabel(rule.field, rule.value ?? '')}"`;
+        break;
+      case 'contains':
+        text = `${label} contains "${rule.value ?? ''}"`;
+        break;
+      case 'between':
+        text = rule.from && rule.to
+          ? `${label} from ${rule.from} to ${rule.to}`
+          : rule.from ? `${label} from ${rule.from}` : `${label} until ${rule.to}`;
+        break;
+      default:
+        text = `${label} is empty`;
+    }
+    return rule.negate ? `NOT ${text}` : text;
+  });
+
+  const text = parts.join(group.combinator === 'and' ? ' AND ' : ' OR ');
+  return group.negate ? `NOT (${text})` : text;
+}
+
+/**
+ * Query parameters of a filter, for links to the user list
+ */
+export function filterToParams(filter: UserFilter): Params {
+  return {
+    q: filter.searchTerm?.trim() || null,
+    role: filter.role || null,
+    status: filter.status || null,
+    department: filter.department || null,
+    query: hasConditions(filter.query) ? JSON.stringify(normalizeQuery(filter.query!)) : null
+  };
+}
+
+/**
+ * Filter of a link to the user list; parts that cannot be read are left out
+ */
+export function paramsToFilter(params: Params): UserFilter {
+  const filter: UserFilter = {};
+  const text = (name: string) => typeof params[name] === 'string' && params[name].trim() ? params[name].trim() as string : undefined;
+
+  filter.searchTerm = text('q');
+  filter.role = text('role');
+  filter.department = text('department');
+  const status = text('status') as UserStatus | undefined;
+  if (status && USER_STATUSES.includes(status)) {
+    filter.status = status;
+  }
+
+  const query = text('query');
+  if (query) {
+    try {
+      filter.query = parseQuery(JSON.parse(query)) ?? undefined;
+    } catch {
+      // Malformed links show the list without the query
+    }
+  }
+
+  return filter;
+}
+
+/**
+ * Whether a user matches a query, as on the server
+ */
+export function matchesQuery(user: User, rule: QueryCondition | QueryGroup): boolean {
+  let matches: boolean;
+
+  if (isQueryGroup(rule)) {
+    // Empty groups match everyone
+    matches = rule.combinator === 'and'
+      ? rule.rules.every(r => matchesQuery(user, r))
+      : rule.rules.length === 0 || rule.rules.some(r => matchesQuery(user, r));
+  } else {
+    const value = String(user[rule.field] ?? '').trim();
+    const expected = rule.value?.trim().toLowerCase() ?? '';
+    switch (rule.operator) {
+      case 'equals':
+        matches = value !== '' && value.toLowerCase() === expected;
+        break;
+      case 'contains':
+        matches = value !== '' && value.toLowerCase().includes(expected);
+        break;
+      case 'between': {
+        // Timestamps are compared by their day
+        const day = value.slice(0, 10);
+        matches = day !== '' && (!rule.from || day >= rule.from) && (!rule.to || day <= rule.to);
+        break;
+      }
+      default:
+        matches = value === '';
+    }
+  }
+
+  return rule.negate ? !matches : matches;
+}
+
+/**
+ * Filters and sorts users the way the server does, for the user list while
+ * the server is unreachable. Searches match the terms as typed, without the
+ * server's ranking and typo tolerance.
+ */
+export function queryUsers(users: User[], filter: UserFilter = {}, sort?: UserSort): User[] {
+  const terms = filter.searchTerm?.trim().toLowerCase().split(/\s+/).filter(Boolean) ?? [];
+
+  const matching = users.filter(user =>
+    !user.deletedAt &&
+    (!filter.role || user.role === filter.role) &&
+    (!filter.status || user.status === filter.status) &&
+    (!filter.department || user.department === filter.department) &&
+    (!filter.query || matchesQuery(user, filter.query)) &&
+    terms.every(term => SEARCH_FIELDS.some(field => String(user[field] ?? '').toLowerCase().includes(term)))
+  );
+
+  if (!sort) {
+    return matching;
+  }
+
+  const direction = sort.order === 'desc' ? -1 : 1;
+  return [...matching].sort((a, b) => direction * compareValues(a[sort.field], b[sort.field]));
+}
+
+function compareValues(a: unknown, b: unknown): number {
+  // Missing values sort last in ascending order
+  const isBlank = (value: unknown) => value === undefined || value === null || value === '';
+  if (isBlank(a)) {
+    return isBlank(b) ? 0 : 1;
+  }
+  if (isBlank(b)) {
+    return -1;
+  }
+  if (typeof a === 'number' && typeof b === 'number') {
+    return a - b;
+  }
+  return String(a).localeCompare(String(b), undefined, { sensitivity: 'base', numeric: true });
+}
@@ -1,9 +1,15 @@
+/**
+ * User Id
+ * Ids are strings, as json-server stores them (see user.schema.ts)
+ */
+export type UserId = string;
+
 /**
  * User Model Interface
  * Represents a user entity in the system with all relevant properties
  */
 export interface User {
-  id: number;
+  id: UserId;
   username: string;
   email: string;
   firstName: string;
@@ -17,19 +23,49 @@ export interface User {
   joinDate?: string;
   avatar?: string;
   lastActive?: string;
+  // Goes up with every saved change; edits send the version they started from
+  version: number;
+  // Set while the user is in the trash: when, and by which admin
+  deletedAt?: string;
+  deletedBy?: UserId;
 }
 
 /**
- * User Role Enum
- * Defines the available roles in the system
+ * User Role
+ * Id of a record in the roles resource ('admin' and 'user' ship by default)
+ */
+export type UserRole = string;
+
+/**
+ * Permission Enum
+ * Named permissions that roles grant
  */
-export type UserRole = 'admin' | 'user';
+export type Permission =
+  | 'users.read'
+  | 'users.write'
+  | 'users.delete'
+  | 'users.impersonate'
+  | 'roles.manage';
+
+/**
+ * Role Interface
+ * Editable group of permissions, served by the roles resource
+ */
+export interface Role {
+  id: UserRole;
+  name: string;
+  description?: string;
+  permissions: Permission[];
+  // Locked roles (the administrator role) cannot be edited or deleted
+  locked?: boolean;
+}
 
 /**
  * User Status Enum
- * Defines the possible user statuses
+ * Defines the possible user statuses; invited users stay pending until they
+ * accept their invitation
  */
-export type UserStatus = 'active' | 'inactive';
+export type UserStatus = 'active' | 'inactive' | 'pending';
 
 /**
  * Login Credentials Interface
@@ -40,6 +76,18 @@ export interface LoginCredentials {
   password: string;
 }
 
+/**
+ * Login Attempt Interface
+ * Failed login attempts of a username, served by the loginAttempts resource
+ */
+export interface LoginAttempt {
+  // The username the attempts were made with
+  id: string;
+  failures: number;
+  lastFailureAt: string;
+  lockedUntil: string | null;
+}
+
 /**
  * Authentication Response Interface
  * Returned after successful authentication
@@ -48,6 +96,165 @@ export interface AuthResponse {
   user: User;
   token: string;
   expiresIn: number;
+  refreshToken: string;
+  refreshExpiresIn: number;
+}
+
+/**
+ * Two-Factor Challenge Interface
+ * Returned by the login instead of a session when the account has 2FA enabled
+ */
+export interface TwoFactorChallenge {
+  twoFactorRequired: true;
+  challengeToken: string;
+  expiresIn: number;
+}
+
+/**
+ * Login Result Type
+ * Either a session or the second login step
+ */
+export type LoginResult = AuthResponse | TwoFactorChallenge;
+
+/**
+ * Two-Factor Status Interface
+ * Enrollment of a user (id is the user id)
+ */
+export interface TwoFactorStatus {
+  id: string;
+  enabled: boolean;
+  enabledAt: string | null;
+  recoveryCodesLeft: number;
+}
+
+/**
+ * Two-Factor Setup Interface
+ * Secret of a pending enrollment, to be added to an authenticator app
+ */
+export interface TwoFactorSetup {
+  secret: string;
+  otpauthUrl: string;
+}
+
+/**
+ * Sign-In Method Type
+ * How a session was opened
+ */
+export type SignInMethod = 'password' | 'two-factor' | 'sso';
+
+/**
+ * User Session Interface
+ * An active sign-in on one device, served by /account/sessions and /sessions
+ */
+export interface UserSession {
+  id: string;
+  userId: User['id'];
+  method: SignInMethod;
+  // Browser and OS, e.g. "Chrome on Windows"
+  device: string;
+  userAgent: string;
+  ipAddress: string;
+  createdAt: string;
+  lastActiveAt: string;
+  expiresAt: string;
+  // Session of the caller's own token
+  current: boolean;
+}
+
+/**
+ * Login Flag Type
+ * Suspicious patterns detected on a successful sign-in
+ */
+export type LoginFlag = 'failures-before-success' | 'new-device';
+
+/**
+ * Login History Entry Interface
+ * One sign-in attempt, served by /account/login-history and /loginHistory
+ */
+export interface LoginHistoryEntry {
+  id: string;
+  username: string;
+  userId: User['id'] | null;
+  method: SignInMethod;
+  success: boolean;
+  failureReason: 'invalid-credentials' | 'invalid-code' | 'throttled' | 'locked' | null;
+  device: string;
+  userAgent: string;
+  ipAddress: string;
+  timestamp: string;
+  flags: LoginFlag[];
+}
+
+/**
+ * Invitation Status Type
+ * State of an onboarding invitation
+ */
+export type InvitationStatus = 'open' | 'accepted' | 'expired' | 'revoked';
+
+/**
+ * Invitation Interface
+ * Onboarding link mailed to a pending user, served by /invitations
+ */
+export interface Invitation {
+  id: string;
+  userId: User['id'];
+  email: string;
+  invitedBy: User['id'];
+  createdAt: string;
+  expiresAt: string;
+  acceptedAt: string | null;
+  revokedAt: string | null;
+  status: InvitationStatus;
+}
+
+/**
+ * Invited Profile Interface
+ * What the accept page knows about the invitee, served by /auth/invitations/:token
+ */
+export interface InvitedProfile {
+  username: string;
+  email: string;
+  firstName: string;
+  lastName: string;
+  phone?: string;
+  address?: string;
+  dateOfBirth?: string;
+  expiresAt: string;
+}
+
+/**
+ * Impersonation End Reason
+ * Why an impersonation session ended
+ */
+export type ImpersonationEndReason = 'stopped' | 'expired' | 'logout';
+
+/**
+ * Impersonation Session Interface
+ * Audit record of one impersonation, served by the impersonations resource
+ */
+export interface ImpersonationSession {
+  id: string;
+  actorId: User['id'];
+  actorUsername: string;
+  targetId: User['id'];
+  targetUsername: string;
+  reason: string;
+  // Blocks user mutations while impersonating
+  readOnly: boolean;
+  startedAt: string;
+  expiresAt: string;
+  endedAt: string | null;
+  endReason: ImpersonationEndReason | null;
+}
+
+/**
+ * Impersonation Options Interface
+ * Chosen by the admin when starting an impersonation
+ */
+export interface ImpersonationOptions {
+  reason: string;
+  readOnly: boolean;
+  durationMinutes: number;
 }
 
 /**
@@ -60,6 +267,7 @@ export interface AuthState {
   isAuthenticated: boolean;
   isImpersonating: boolean;
   originalUser: User | null;
+  impersonation: ImpersonationSession | null;
 }
 
 /**
@@ -70,11 +278,22 @@ export interface UserStatistics {
   totalUsers: number;
   activeUsers: number;
   inactiveUsers: number;
+  // Invited users who have not joined yet
+  pendingUsers: number;
   usersByDepartment: { [key: string]: number };
   usersByRole: { [key: string]: number };
   recentRegistrations: User[];
 }
 
+/**
+ * User Summary Interface
+ * Statistics of all users with their departments, so lists only need to
+ * load the pages they show
+ */
+export interface UserSummary extends UserStatistics {
+  departments: string[];
+}
+
 /**
  * User Filter Interface
  * Used for filtering and searching users
@@ -84,6 +303,78 @@ export interface UserFilter {
   role?: UserRole;
   status?: UserStatus;
   department?: string;
+  // Conditions built in the query builder, on top of the fields above
+  query?: QueryGroup;
+}
+
+/**
+ * Query Field Type
+ * User fields the query builder can test
+ */
+export type QueryField =
+  | 'firstName'
+  | 'lastName'
+  | 'email'
+  | 'username'
+  | 'role'
+  | 'status'
+  | 'department'
+  | 'phone'
+  | 'address'
+  | 'joinDate'
+  | 'lastActive'
+  | 'dateOfBirth';
+
+/**
+ * Query Operator Type
+ * equals and contains test text, between tests dates, isEmpty tests either
+ */
+export type QueryOperator = 'equals' | 'contains' | 'between' | 'isEmpty';
+
+/**
+ * Query Condition Interface
+ * One test of a user field
+ */
+export interface QueryCondition {
+  field: QueryField;
+  operator: QueryOperator;
+  value?: string;
+  // Date range as YYYY-MM-DD, both inclusive; either may be left out
+  from?: string;
+  to?: string;
+  negate?: boolean;
+}
+
+/**
+ * Query Group Interface
+ * Conditions and nested groups that must all (and) or partly (or) match
+ */
+export interface QueryGroup {
+  combinator: 'and' | 'or';
+  rules: (QueryCondition | QueryGroup)[];
+  negate?: boolean;
+}
+
+/**
+ * Saved Filter Interface
+ * A named filter an admin saved for later
+ */
+export interface SavedFilter {
+  id: string;
+  ownerId: UserId;
+  name: string;
+  filter: UserFilter;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * User Sort Interface
+ * Sort field and direction of a user list query
+ */
+export interface UserSort {
+  field: keyof User;
+  order: 'asc' | 'desc';
 }
 
 /**
@@ -98,3 +389,202 @@ export interface PaginatedResponse<T> {
   totalPages: number;
 }
 
+/**
+ * Search Matches Type
+ * Matched [start, end) ranges per field of the users a search found, by user id
+ */
+export type SearchMatches = Record<UserId, Partial<Record<keyof User, [number, number][]>>>;
+
+/**
+ * User Page Interface
+ * A page of users with where the search matched them
+ */
+export interface UserPage extends PaginatedResponse<User> {
+  matches: SearchMatches;
+}
+
+
+/**
+ * User Change Kind Type
+ * Kinds of user changes that can be undone
+ */
+export type UserChangeKind = 'create' | 'update' | 'delete' | 'bulk';
+
+/**
+ * User History Entry Interface
+ * One undoable change to users
+ */
+export interface UserHistoryEntry {
+  id: string;
+  kind: UserChangeKind;
+  // What was done, e.g. "Deleted Jane Doe"
+  label: string;
+  timestamp: string;
+}
+
+/**
+ * User History Interface
+ * Changes that can be undone and redone, newest first
+ */
+export interface UserHistory {
+  undo: UserHistoryEntry[];
+  redo: UserHistoryEntry[];
+  // An undo or redo is being applied
+  busy: boolean;
+}
+
+/**
+ * User Trash Interface
+ * Deleted users, purged for good after the retention period
+ */
+export interface UserTrash {
+  retentionDays: number;
+  users: User[];
+}
+
+/**
+ * Bulk Failure Interface
+ * A user a bulk action could not be applied to, and why
+ */
+export interface BulkFailure<T = User> {
+  user: T;
+  message: string;
+}
+
+/**
+ * Bulk Progress Interface
+ * Progress of a bulk action, emitted after every user
+ */
+export interface BulkProgress<T = User> {
+  total: number;
+  completed: number;
+  succeeded: number;
+  failures: BulkFailure<T>[];
+}
+
+/**
+ * New User Type
+ * A user before the server assigned the id and version
+ */
+export type NewUser = Omit<User, 'id' | 'version'>;
+
+/**
+ * Import Sheet Interface
+ * Header and rows of an uploaded CSV or Excel file
+ */
+export interface ImportSheet {
+  fileName: string;
+  columns: string[];
+  rows: string[][];
+}
+
+/**
+ * Import Field Type
+ * User fields a column of an import file can fill; either the full name or
+ * the first and last name
+ */
+export type ImportField =
+  | 'name'
+  | 'firstName'
+  | 'lastName'
+  | 'email'
+  | 'username'
+  | 'role'
+  | 'department'
+  | 'phone'
+  | 'address'
+  | 'dateOfBirth';
+
+/**
+ * Import Mapping Type
+ * Column index of every mapped field
+ */
+export type ImportMapping = Partial<Record<ImportField, number>>;
+
+/**
+ * Import Row Interface
+ * A row of an import file, as a user to create or with the reasons it is rejected
+ */
+export interface ImportRow {
+  // Line in the file, counting the header as line 1
+  line: number;
+  values: string[];
+  user: NewUser | null;
+  errors: string[];
+}
+
+/**
+ * Export Format Type
+ */
+export type ExportFormat = 'csv' | 'xlsx' | 'pdf';
+
+/**
+ * Export Column Interface
+ * A column of an exported user list and how a user's cell is written
+ */
+export interface ExportColumn {
+  header: string;
+  value: (user: User) => string;
+}
+
+/**
+ * User Export Interface
+ * A user list to export, with the filters it was taken with
+ */
+export interface UserExport {
+  users: User[];
+  columns: ExportColumn[];
+  // Filters and sort order, written above the table
+  criteria: { label: string; value: string }[];
+  exportedAt: Date;
+}
+
+/**
+ * Queued User Change Interface
+ * A create, update or delete made while the server was unreachable,
+ * replayed in order once it is back
+ */
+export interface QueuedUserChange {
+  // Set by the offline store, in the order the changes were made
+  seq?: number;
+  // Admin who made the change; only they replay it
+  ownerId: UserId;
+  action: 'create' | 'update' | 'delete';
+  // Users created offline have a temporary id until the server assigns one
+  userId: UserId;
+  // The user as saved, or as it was before the delete
+  user: User;
+  queuedAt: string;
+}
+
+/**
+ * Sync Conflict Reason Type
+ * - changed: someone else saved the user while the change waited
+ * - deleted: someone else deleted the user
+ * - alreadyDeleted: a queued delete found the user gone
+ * - rejected: the server refused the change, e.g. a username taken meanwhile
+ */
+export type SyncConflictReason = 'changed' | 'deleted' | 'alreadyDeleted' | 'rejected';
+
+/**
+ * Sync Conflict Interface
+ * A queued change the server refused while it was replayed
+ */
+export interface SyncConflict {
+  change: QueuedUserChange;
+  reason: SyncConflictReason;
+  message: string;
+  // The user as the server holds it now, when known
+  current: User | null;
+}
+
+/**
+ * Sync Status Interface
+ * Whether the server is reachable, and the changes waiting for it
+ */
+export interface SyncStatus {
+  online: boolean;
+  syncing: boolean;
+  pending: number;
+  conflicts: SyncConflict[];
+}
@@ -0,0 +1,103 @@
+import { User } from './user.model';
+import { parseUser, parseUsers } from './user.schema';
+
+describe('user.schema', () => {
+  const record: User = {
+    id: '2',
+    username: 'john.doe',
+    email: 'john.doe@example.com',
+    firstName: 'John',
+    lastName: 'Doe',
+    role: 'user',
+    status: 'active',
+    version: 3
+  };
+
+  /**
+   * Fields of the issues that made a record be rejected
+   */
+  function rejectedFields(raw: unknown): string[] {
+    const result = parseUser(raw);
+    expect(result.ok).toBeFalse();
+    return result.issues.filter(issue => !issue.repaired).map(issue => issue.field);
+  }
+
+  describe('parseUser', () => {
+    it('should accept a valid user without issues', () => {
+      const result = parseUser(record);
+      expect(result).toEqual({ ok: true, value: record, issues: [] });
+    });
+
+    it('should reject values that are not objects', () => {
+      for (const raw of [null, 'user', 42, [record]]) {
+        expect(rejectedFields(raw)).toEqual(['']);
+      }
+    });
+
+    it('should reject users without an id', () => {
+      expect(rejectedFields({ ...record, id: undefined })).toEqual(['id']);
+      expect(rejectedFields({ ...record, id: ' ' })).toEqual(['id']);
+      expect(rejectedFields({ ...record, id: NaN })).toEqual(['id']);
+    });
+
+    it('should reject users missing a required field', () => {
+      expect(rejectedFields({ ...record, username: '' })).toEqual(['username']);
+      expect(rejectedFields({ ...record, email: undefined, role: 7 })).toEqual(['email', 'role']);
+      expect(rejectedFields({ ...record, firstName: '  ' })).toEqual(['firstName']);
+    });
+
+    it('should reject malformed email addresses', () => {
+      expect(rejectedFields({ ...record, email: 'john.doe' })).toEqual(['email']);
+    });
+
+    it('should reject unknown statuses', () => {
+      expect(rejectedFields({ ...record, status: 'banned' })).toEqual(['status']);
+      expect(rejectedFields({ ...record, status: undefined })).toEqual(['status']);
+    });
+
+    it('should report every reason a record was rejected', () => {
+      const result = parseUser({ id: 5, email: 'nobody' });
+      expect(result.ok).toBeFalse();
+      expect(result.issues.map(issue => [issue.field, issue.repaired])).toEqual([
+        ['id', true],
+        ['username', false],
+        ['firstName', false],
+        ['role', false],
+        ['email', false],
+        ['lastName', true],
+        ['status', false]
+      ]);
+      expect(result.issues.every(issue => issue.recordId === '5')).toBeTrue();
+    });
+
+    it('should repair what can be repaired', () => {
+      const result = parseUser({
+        ...record,
+        id: 2,
+        lastName: undefined,
+        phone: 5551234,
+        version: 0,
+        joinDate: '2023-03-15T10:00:00.000Z',
+        dateOfBirth: 'someday'
+      });
+
+      expect(result.ok).toBeTrue();
+      if (result.ok) {
+        expect(result.value).toEqual({ ...record, lastName: '', version: 1, joinDate: '2023-03-15' });
+        expect(result.issues.map(issue => issue.field)).toEqual(['id', 'lastName', 'phone', 'version', 'dateOfBirth']);
+      }
+    });
+  });
+
+  describe('parseUsers', () => {
+    it('should keep the valid users and report the rejected ones', () => {
+      const { users, issues } = parseUsers([record, { ...record, id: '3', status: 'banned' }]);
+      expect(users.map(user => user.id)).toEqual(['2']);
+      expect(issues).toEqual([{ recordId: '3', field: 'status', problem: '"banned" is not a known status', repaired: false }]);
+    });
+
+    it('should reject payloads that are not lists', () => {
+      expect(parseUsers({ data: [record] }).users).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,185 @@
+import { User, UserId, UserStatus } from './user.model';
+
+/**
+ * Payload Issue Interface
+ * One problem found in a record from the API
+ */
+export interface PayloadIssue {
+  // Id of the record, when it could be read
+  recordId: string | null;
+  field: string;
+  problem: string;
+  // Fixed in place; otherwise the whole record was rejected
+  repaired: boolean;
+}
+
+/**
+ * Parse Result Type
+ * A normalized record and the repairs it needed, or the reasons it was rejected
+ */
+export type ParseResult<T> =
+  | { ok: true; value: T; issues: PayloadIssue[] }
+  | { ok: false; issues: PayloadIssue[] };
+
+const USER_STATUSES: readonly UserStatus[] = ['active', 'inactive', 'pending'];
+
+// Fields every user must have; records without them are rejected
+const REQUIRED_TEXT: readonly (keyof User)[] = ['username', 'email', 'firstName', 'role'];
+
+// Fields that are dropped when they hold something other than text
+const OPTIONAL_TEXT: readonly (keyof User)[] = ['phone', 'address', 'department', 'avatar'];
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Normalizes an id from the API
+ * json-server stores ids as strings; older records may still carry numbers.
+ *
+ * @returns The id as a string, or null when it is not a usable id
+ */
+export function normalizeId(value: unknown): UserId | null {
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return String(value);
+  }
+  if (typeof value === 'string' && value.trim()) {
+    return value.trim();
+  }
+  return null;
+}
+
+/**
+ * Validates a user record from the API against the User schema
+ *
+ * Repairs what can be repaired without guessing (numeric ids, missing last
+ * names, untrimmed text, unparseable optional dates) and rejects records
+ * without an id, a required field or a known status. Unknown fields are
+ * dropped.
+ *
+ * @param raw - Record as received
+ * @returns The normalized user, or the reasons it was rejected
+ */
+export function parseUser(raw: unknown): ParseResult<User> {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    return { ok: false, issues: [{ recordId: null, field: '', problem: 'is not an object', repaired: false }] };
+  }
+
+  const record = raw as Record<string, unknown>;
+  const id = normalizeId(record['id']);
+  const issues: PayloadIssue[] = [];
+  const issue = (field: string, problem: string, repaired: boolean) =>
+    issues.push({ recordId: id, field, problem, repaired });
+
+  if (id === null) {
+    issue('id', 'is missing', false);
+  } else if (typeof record['id'] !== 'string') {
+    issue('id', 'was a number', true);
+  }
+
+  const user: Record<string, unknown> = { id };
+
+  for (const field of REQUIRED_TEXT) {
+    const value = record[field];
+    if (typeof value !== 'string' || !value.trim()) {
+      issue(field, 'is missing', false);
+    } else {
+      user[field] = value.trim();
+    }
+  }
+
+  if (typeof user['email'] === 'string' && !EMAIL_PATTERN.test(user['email'])) {
+    issue('email', 'is not an email address', false);
+  }
+
+  if (typeof record['lastName'] === 'string') {
+    user['lastName'] = record['lastName'].trim();
+  } else {
+    user['lastName'] = '';
+    issue('lastName', 'was missing', true);
+  }
+
+  if (USER_STATUSES.includes(record['status'] as UserStatus)) {
+    user['status'] = record['status'];
+  } else {
+    issue('status', `"${String(record['status'])}" is not a known status`, false);
+  }
+
+  for (const field of OPTIONAL_TEXT) {
+    const value = record[field];
+    if (typeof value === 'string') {
+      user[field] = value.trim();
+    } else if (value !== undefined && value !== null) {
+      issue(field, 'was not text and was dropped', true);
+    }
+  }
+
+  // Users saved before versions existed count as version 1
+  const version = record['version'];
+  if (typeof version === 'number' && Number.isInteger(version) && version > 0) {
+    user['version'] = version;
+  } else {
+    user['version'] = 1;
+    if (version !== undefined) {
+      issue('version', 'was not a positive integer', true);
+    }
+  }
+
+  if (record['deletedBy'] !== undefined && record['deletedBy'] !== null) {
+    const deletedBy = normalizeId(record['deletedBy']);
+    if (deletedBy === null) {
+      issue('deletedBy', 'was not an id and was dropped', true);
+    } else {
+      user['deletedBy'] = deletedBy;
+    }
+  }
+
+  // Calendar dates are kept as YYYY-MM-DD, timestamps as ISO strings
+  for (const [field, dateOnly] of [['dateOfBirth', true], ['joinDate', true], ['lastActive', false], ['deletedAt', false]] as const) {
+    const value = record[field];
+    if (value === undefined || value === null || value === '') {
+      continue;
+    }
+
+    if (dateOnly && typeof value === 'string' && DATE_PATTERN.test(value)) {
+      user[field] = value;
+      continue;
+    }
+
+    const time = typeof value === 'string' || typeof value === 'number' ? new Date(value).getTime() : NaN;
+    if (Number.isNaN(time)) {
+      issue(field, 'was not a date and was dropped', true);
+      continue;
+    }
+
+    const normalized = new Date(time).toISOString();
+    user[field] = dateOnly ? normalized.split('T')[0] : normalized;
+  }
+
+  return issues.some(i => !i.repaired)
+    ? { ok: false, issues }
+    : { ok: true, value: user as unknown as User, issues };
+}
+
+/**
+ * Validates a list of user records, keeping the valid and repaired ones
+ *
+ * @param raw - List as received
+ * @returns The normalized users and every issue found
+ */
+export function parseUsers(raw: unknown): { users: User[]; issues: PayloadIssue[] } {
+  if (!Array.isArray(raw)) {
+    return { users: [], issues: [{ recordId: null, field: '', problem: 'expected a list of users', repaired: false }] };
+  }
+
+  const users: User[] = [];
+  const issues: PayloadIssue[] = [];
+  for (const record of raw) {
+    const result = parseUser(record);
+    issues.push(...result.issues);
+    if (result.ok) {
+      users.push(result.value);
+    }
+  }
+
+  return { users, issues };
+}
@@ -0,0 +1,261 @@
+import { BehaviorSubject, filter, firstValueFrom, lastValueFrom, of, throwError } from 'rxjs';
+import { AuthService } from './auth.service';
+import { CredentialService } from './credential.service';
+import { ApiError, VersionConflictError } from './error-handling.service';
+import { InvitationService } from './invitation.service';
+import { OfflineStoreService } from './offline-store.service';
+import { PermissionService } from './permission.service';
+import { SyncStatusService } from './sync-status.service';
+import { UserApiService } from './user-api.service';
+import { UserHistoryService } from './user-history.service';
+import { UserService } from './user.service';
+import { AuthState, User, UserPage, UserSummary } from './user.model';
+
+describe('UserService', () => {
+  const john: User = {
+    id: '2',
+    username: 'john.doe',
+    email: 'john.doe@example.com',
+    firstName: 'John',
+    lastName: 'Doe',
+    role: 'user',
+    status: 'active',
+    version: 1
+  };
+  const jane: User = { ...john, id: '3', username: 'jane.smith', firstName: 'Jane', lastName: 'Smith', version: 4 };
+  const summary: UserSummary = {
+    totalUsers: 40,
+    activeUsers: 30,
+    inactiveUsers: 6,
+    pendingUsers: 4,
+    usersByDepartment: { Sales: 25, Research: 15 },
+    usersByRole: { user: 38, admin: 2 },
+    recentRegistrations: [jane],
+    departments: ['Research', 'Sales']
+  };
+  const firstPage: UserPage = { data: [john, jane], total: 40, page: 1, pageSize: 10, totalPages: 4, matches: {} };
+
+  let api: jasmine.SpyObj<UserApiService>;
+  let history: UserHistoryService;
+  let offlineStore: OfflineStoreService;
+  let syncStatus: SyncStatusService;
+  let service: UserService;
+
+  beforeEach(async () => {
+    api = jasmine.createSpyObj<UserApiService>('UserApiService', ['getSummary', 'getPage', 'create', 'update', 'delete', 'restore']);
+    api.getSummary.and.returnValue(of(summary));
+    api.getPage.and.returnValue(of(firstPage));
+    api.update.and.callFake((id, user) => of({ ...user, version: user.version + 1 }));
+    api.delete.and.returnValue(of(undefined));
+    api.restore.and.callFake(id => of([john, jane].find(user => user.id === id)!));
+
+    // Signed in as an admin who may read users
+    const authState$ = new BehaviorSubject({ user: { id: '1' } } as AuthState);
+    const authService = jasmine.createSpyObj<AuthService>('AuthService', ['getAuthState', 'getCurrentAuthState', 'isReadOnly']);
+    authService.getAuthState.and.returnValue(authState$);
+    authService.getCurrentAuthState.and.callFake(() => authState$.value);
+    authService.isReadOnly.and.returnValue(false);
+    const permissionService = jasmine.createSpyObj<PermissionService>('PermissionService', ['hasPermission']);
+    permissionService.hasPermission.and.returnValue(of(true));
+
+    history = new UserHistoryService(authService);
+    offlineStore = new OfflineStoreService();
+    syncStatus = new SyncStatusService();
+    service = new UserService(
+      api, {} as CredentialService, authService, history, {} as InvitationService, offlineStore, syncStatus, permissionService
+    );
+    await loaded();
+    await firstValueFrom(service.getPaginatedUsers());
+  });
+
+  async function undo(): Promise<void> {
+    await firstValueFrom(history.undo()!);
+  }
+
+  async function loaded(): Promise<void> {
+    await firstValueFrom(service.getLoadingState().pipe(filter(loading => !loading)));
+  }
+
+  /**
+   * Loads the users again and waits until they are loaded
+   */
+  async function load(): Promise<void> {
+    service.loadUsers();
+    await loaded();
+  }
+
+  describe('loading', () => {
+    it('should count the users on the server and keep only the pages that were loaded', async () => {
+      expect(await firstValueFrom(service.getUserStatistics())).toEqual(summary);
+      expect(await firstValueFrom(service.getDepartments())).toEqual(['Research', 'Sales']);
+      expect(service.getCurrentUsers()).toEqual([john, jane]);
+      expect(await offlineStore.getUsers('1')).toEqual([john, jane]);
+    });
+
+    it('should keep the newest copy of users loaded again', async () => {
+      const renamed = { ...john, lastName: 'Dough', version: 2 };
+      const ada = { ...john, id: '4', username: 'ada' };
+      api.getPage.and.returnValue(of({ ...firstPage, data: [renamed, ada], page: 2 }));
+
+      await firstValueFrom(service.getPaginatedUsers(2));
+
+      expect(service.getCurrentUsers()).toEqual([renamed, jane, ada]);
+    });
+  });
+
+  describe('bulkUpdate', () => {
+    it('should report the users that failed and change the rest', async () => {
+      api.update.and.callFake((id, user) => id === jane.id
+        ? throwError(() => new Error('Changed by someone else'))
+        : of({ ...user, version: user.version + 1 }));
+
+      const progress = await lastValueFrom(service.bulkUpdate([john, jane], { status: 'inactive' }, 'Deactivated'));
+
+      expect(progress).toEqual({
+        total: 2,
+        completed: 2,
+        succeeded: 1,
+        failures: [{ user: jane, message: 'Changed by someone else' }]
+      });
+      expect(service.getCurrentUsers().map(user => user.status)).toEqual(['inactive', 'active']);
+    });
+
+    it('should undo the changed users as one step with their newest versions', async () => {
+      await lastValueFrom(service.bulkUpdate([john, jane], { department: 'Sales' }, 'Moved'));
+      api.update.calls.reset();
+
+      await undo();
+
+      expect(api.update.calls.allArgs()).toEqual([
+        ['2', { ...john, version: 2 }],
+        ['3', { ...jane, version: 5 }]
+      ]);
+      expect(service.getCurrentUsers().map(user => user.department)).toEqual([undefined, undefined]);
+    });
+
+    it('should record nothing when every user failed', async () => {
+      api.update.and.returnValue(throwError(() => new Error('Server error')));
+
+      await lastValueFrom(service.bulkUpdate([john], { role: 'admin' }, 'Changed the role of'));
+
+      expect(history.undo()).toBeNull();
+    });
+
+    it('should keep the step undoable when part of the undo failed', async () => {
+      await lastValueFrom(service.bulkUpdate([john, jane], { status: 'inactive' }, 'Deactivated'));
+      api.update.and.callFake((id, user) => id === jane.id
+        ? throwError(() => new Error('Server error'))
+        : of({ ...user, version: user.version + 1 }));
+
+      await expectAsync(undo()).toBeRejectedWithError('1 of 2 users could not be changed; try again');
+      expect(history.undo()).not.toBeNull();
+    });
+  });
+
+  describe('bulkDelete', () => {
+    it('should restore every deleted user when undone', async () => {
+      await lastValueFrom(service.bulkDelete([john, jane]));
+      expect(service.getCurrentUsers()).toEqual([]);
+
+      await undo();
+
+      expect(api.restore.calls.allArgs()).toEqual([['2'], ['3']]);
+      expect(service.getCurrentUsers().map(user => user.id)).toEqual(['2', '3']);
+    });
+  });
+
+  describe('offline changes', () => {
+    const unreachable = new ApiError('The server is unreachable', 0, null);
+
+    beforeEach(async () => {
+      await offlineStore.saveUsers('1', [john, jane]);
+      api.getSummary.and.returnValue(throwError(() => unreachable));
+      await load();
+    });
+
+    it('should count the cached users', async () => {
+      const statistics = await firstValueFrom(service.getUserStatistics());
+
+      expect(statistics.totalUsers).toBe(2);
+      expect(statistics.usersByRole).toEqual({ user: 2 });
+    });
+
+    it('should serve the cached users and queue changes while the server is unreachable', async () => {
+      await firstValueFrom(service.updateUser(john.id, { status: 'inactive' }));
+
+      expect(service.getCurrentUsers().map(user => user.status)).toEqual(['inactive', 'active']);
+      expect(api.update).not.toHaveBeenCalled();
+      expect(syncStatus.getCurrentStatus()).toEqual({ online: false, syncing: false, pending: 1, conflicts: [] });
+    });
+
+    it('should replay the queue in order and point later changes at the saved user', async () => {
+      const created = await firstValueFrom(service.createUser({
+        username: 'ada',
+        email: 'ada@example.com',
+        firstName: 'Ada',
+        lastName: 'Lovelace',
+        role: 'user',
+        status: 'active'
+      }));
+      await firstValueFrom(service.updateUser(created.id, { department: 'Research' }));
+      await firstValueFrom(service.updateUser(john.id, { status: 'inactive' }));
+
+      api.create.and.callFake(user => of({ ...user, id: '7' }));
+      api.getSummary.and.returnValue(of(summary));
+      await load();
+
+      const { id: localId, ...values } = created;
+      expect(localId).toMatch(/^local-/);
+      expect(api.create).toHaveBeenCalledOnceWith(values);
+      expect(api.update.calls.allArgs()).toEqual([
+        ['7', { ...created, id: '7', department: 'Research' }],
+        ['2', { ...john, status: 'inactive' }]
+      ]);
+      expect(await offlineStore.getQueue('1')).toEqual([]);
+      expect(syncStatus.getCurrentStatus()).toEqual({ online: true, syncing: false, pending: 0, conflicts: [] });
+    });
+
+    it('should report the changes the server refused and replay the rest', async () => {
+      const current = { ...john, lastName: 'Dough', version: 2 };
+      await firstValueFrom(service.updateUser(john.id, { status: 'inactive' }));
+      await firstValueFrom(service.updateUser(jane.id, { status: 'inactive' }));
+
+      api.update.and.callFake((id, user) => id === john.id
+        ? throwError(() => new VersionConflictError('Changed by someone else', current))
+        : of({ ...user, version: user.version + 1 }));
+      api.getSummary.and.returnValue(of(summary));
+      await load();
+
+      const { conflicts } = syncStatus.getCurrentStatus();
+      expect(conflicts).toEqual([{
+        change: jasmine.objectContaining({ action: 'update', userId: john.id }),
+        reason: 'changed',
+        message: 'Changed by someone else',
+        current
+      }]);
+      expect(api.update).toHaveBeenCalledWith(jane.id, { ...jane, status: 'inactive' });
+      expect(await offlineStore.getQueue('1')).toEqual([]);
+    });
+
+    it('should drop the later changes of a user the server did not create', async () => {
+      const created = await firstValueFrom(service.createUser({
+        username: 'john.doe',
+        email: 'johnny@example.com',
+        firstName: 'Johnny',
+        lastName: 'Doe',
+        role: 'user',
+        status: 'active'
+      }));
+      await firstValueFrom(service.updateUser(created.id, { department: 'Sales' }));
+
+      api.create.and.returnValue(throwError(() => new ApiError('Username is already taken', 409, null)));
+      api.getSummary.and.returnValue(of(summary));
+      await load();
+
+      const { conflicts } = syncStatus.getCurrentStatus();
+      expect(conflicts.map(conflict => [conflict.change.action, conflict.reason])).toEqual([['create', 'rejected']]);
+      expect(api.update).not.toHaveBeenCalled();
+      expect(await offlineStore.getQueue('1')).toEqual([]);
+    });
+  });
+});
@@ -1,28 +1,54 @@
 import { Injectable } from '@angular/core';
-import { HttpClient, HttpParams } from '@angular/common/http';
-import { BehaviorSubject, Observable, of, throwError } from 'rxjs';
-import { delay, map, tap, catchError } from 'rxjs/operators';
+import { BehaviorSubject, EMPTY, Observable, Subject, Subscription, defer, from, fromEvent, interval, merge, of, throwError } from 'rxjs';
+import { delay, map, tap, catchError, switchMap, mergeMap, scan, startWith, toArray, filter, finalize, take, skip, distinctUntilChanged, debounceTime } from 'rxjs/operators';
 import { 
   User, 
+  UserId,
   UserFilter, 
-  PaginatedResponse, 
-  UserStatistics 
+  UserSort,
+  UserPage,
+  BulkProgress,
+  NewUser,
+  UserStatistics,
+  UserSummary,
+  UserTrash,
+  QueuedUserChange,
+  SyncConflict
 } from './user.model';
+import { CredentialService } from './credential.service';
+import { AuthService } from './auth.service';
+import { UserApiService } from './user-api.service';
+import { UserHistoryService } from './user-history.service';
+import { InvitationService } from './invitation.service';
+import { OfflineStoreService } from './offline-store.service';
+import { SyncStatusService } from './sync-status.service';
+import { PermissionService } from './permission.service';
+import { queryUsers } from './user-query.util';
+import { ApiError, VersionConflictError } from './error-handling.service';
 
 /**
  * User Service
  * 
  * Manages user data with full CRUD operations.
  * Uses RxJS BehaviorSubject for centralized state management.
- * Integrates with json-server for mock backend API.
+ * Integrates with json-server for mock backend API through UserApiService,
+ * which validates every user the server returns.
  * 
  * Features:
  * - CRUD operations (Create, Read, Update, Delete)
  * - Reactive state management with BehaviorSubject
- * - Filtering, searching, and pagination
- * - User statistics for analytics
+ * - Server-side filtering, searching, sorting and pagination; only the
+ *   pages that were shown are kept in the state
+ * - User statistics and departments, counted by the server
  * - Optimistic UI updates
- * - Undo functionality for delete operations
+ * - Undo and redo of creates, updates and deletes (see UserHistoryService)
+ * - Soft delete with a trash to restore or purge users from
+ * - Batched bulk updates, deletes and imports, undone as one step
+ * - Mutations blocked during read-only impersonation
+ * - Offline mode: the users of the pages loaded are kept in IndexedDB and
+ *   served when the server is unreachable; creates, updates and deletes made
+ *   meanwhile are queued and replayed in order once it is back, reporting
+ *   conflicts
  * 
  * State Management Pattern:
  * - Single source of truth using BehaviorSubject
@@ -33,20 +59,31 @@ import {
   providedIn: 'root'
 })
 export class UserService {
-  // Backend API URL
-  private readonly API_URL = 'http://localhost:3000/users';
+  // Requests a bulk action keeps in flight at once
+  private readonly BULK_CONCURRENCY = 4;
+  // How often the server is tried again while offline
+  private readonly RECONNECT_INTERVAL = 15000;
+  // Id prefix of users created offline, until the server assigns their ids
+  private readonly LOCAL_ID_PREFIX = 'local-';
+  // Quiet time after changes before the summary is counted again
+  private readonly SUMMARY_DELAY = 500;
 
-  // Central state for users using BehaviorSubject
+  // Central state for users using BehaviorSubject; holds the users of the pages loaded
   private usersState$ = new BehaviorSubject<User[]>([]);
   private loadingState$ = new BehaviorSubject<boolean>(false);
-  private lastDeletedUser: { user: User; index: number } | null = null;
+  private summaryState$ = new BehaviorSubject<UserSummary | null>(null);
+  private summaryRequests$ = new Subject<void>();
+
+  // Admin the users in the state were loaded for; only their users are cached
+  private loadedFor: UserId | null = null;
+  private loadSubscription: Subscription | null = null;
   
   // Local mock data (commented out - using json-server instead)
   // Uncomment if you want to use local data without backend
   /*
   private mockUsers: User[] = [
     {
-      id: 1,
+      id: '1',
       username: 'johndoe',
       email: 'john.doe@example.com',
       firstName: 'John',
@@ -62,7 +99,7 @@ export class UserService {
       lastActive: new Date().toISOString()
     },
     {
-      id: 2,
+      id: '2',
       username: 'janesmith',
       email: 'jane.smith@example.com',
       firstName: 'Jane',
@@ -78,7 +115,7 @@ export class UserService {
       lastActive: new Date().toISOString()
     },
     {
-      id: 3,
+      id: '3',
       username: 'mikejohnson',
       email: 'mike.johnson@example.com',
       firstName: 'Mike',
@@ -94,7 +131,7 @@ export class UserService {
       lastActive: new Date(Date.now() - 86400000).toISOString()
     },
     {
-      id: 4,
+      id: '4',
       username: 'sarahwilliams',
       email: 'sarah.williams@example.com',
       firstName: 'Sarah',
@@ -110,7 +147,7 @@ export class UserService {
       lastActive: new Date(Date.now() - 3600000).toISOString()
     },
     {
-      id: 5,
+      id: '5',
       username: 'davidbrown',
       email: 'david.brown@example.com',
       firstName: 'David',
@@ -126,7 +163,7 @@ export class UserService {
       lastActive: new Date(Date.now() - 2592000000).toISOString()
     },
     {
-      id: 6,
+      id: '6',
       username: 'emilydavis',
       email: 'emily.davis@example.com',
       firstName: 'Emily',
@@ -142,7 +179,7 @@ export class UserService {
       lastActive: new Date().toISOString()
     },
     {
-      id: 7,
+      id: '7',
       username: 'robertmiller',
       email: 'robert.miller@example.com',
       firstName: 'Robert',
@@ -158,7 +195,7 @@ export class UserService {
       lastActive: new Date(Date.now() - 7200000).toISOString()
     },
     {
-      id: 8,
+      id: '8',
       username: 'lisawilson',
       email: 'lisa.wilson@example.com',
       firstName: 'Lisa',
@@ -174,7 +211,7 @@ export class UserService {
       lastActive: new Date().toISOString()
     },
     {
-      id: 9,
+      id: '9',
       username: 'jamesmoore',
       email: 'james.moore@example.com',
       firstName: 'James',
@@ -190,7 +227,7 @@ export class UserService {
       lastActive: new Date(Date.now() - 5184000000).toISOString()
     },
     {
-      id: 10,
+      id: '10',
       username: 'mariatailor',
       email: 'maria.taylor@example.com',
       firstName: 'Maria',
@@ -210,9 +247,43 @@ export class UserService {
   private nextId = 11; // For generating new IDs
   */
 
-  constructor(private http: HttpClient) {
-    // Initialize by loading users from API
-    this.loadUsers();
+  constructor(
+    private api: UserApiService,
+    private credentialService: CredentialService,
+    private authService: AuthService,
+    private history: UserHistoryService,
+    private invitationService: InvitationService,
+    private offlineStore: OfflineStoreService,
+    private syncStatus: SyncStatusService,
+    private permissionService: PermissionService
+  ) {
+    // Keep the latest users of the signed-in admin for offline use
+    this.usersState$.pipe(skip(1), filter(() => this.loadedFor !== null && this.loadedFor === this.getOwnerId())).subscribe(users => {
+      this.offlineStore.saveUsers(this.loadedFor!, users).catch(error => console.error('Error caching users:', error));
+    });
+
+    // Try the server again when the browser is back online, and every little while until then
+    fromEvent(window, 'offline').subscribe(() => this.syncStatus.setOnline(false));
+    merge(fromEvent(window, 'online'), interval(this.RECONNECT_INTERVAL)).pipe(
+      filter(() => this.syncStatus.isOffline() && !this.loadingState$.value && this.loadedFor !== null)
+    ).subscribe(() => this.loadUsers());
+
+    // Count again after changes, once a burst of them (e.g. a bulk action) is over
+    this.summaryRequests$.pipe(
+      debounceTime(this.SUMMARY_DELAY),
+      filter(() => this.loadedFor !== null),
+      switchMap(() => this.fetchSummary())
+    ).subscribe(summary => this.summaryState$.next(summary));
+
+    // Start over whenever another user signs in on this tab; the users are
+    // only loaded for those who may read them
+    this.authService.getAuthState().pipe(
+      map(state => state.user),
+      distinctUntilChanged((previous, current) => previous?.id === current?.id),
+      tap(() => this.reset()),
+      switchMap(user => user ? this.permissionService.hasPermission(user, 'users.read').pipe(take(1)) : of(false)),
+      filter(canRead => canRead)
+    ).subscribe(() => this.loadUsers());
   }
 
   /**
@@ -238,21 +309,36 @@ export class UserService {
   }
 
   /**
-   * Loads all users from the API
-   * Updates the central state
+   * Loads the user summary from the API
+   * The users themselves are loaded a page at a time (see getPaginatedUsers).
+   * Changes made offline are sent first; when the server is unreachable, the
+   * users cached on the last visit are served and counted instead.
    */
   loadUsers(): void {
+    const ownerId = this.getOwnerId();
     this.loadingState$.next(true);
     
     // BACKEND CALL - Using json-server
-    this.http.get<User[]>(this.API_URL).pipe(
+    this.loadSubscription = this.syncChanges().pipe(
+      switchMap(() => this.api.getSummary()),
+      tap(() => this.syncStatus.setOnline(true)),
+      map(summary => ({ summary, users: null as User[] | null })),
       catchError(error => {
         console.error('Error loading users:', error);
-        this.loadingState$.next(false);
-        return of([]);
+        const cached = this.wentOffline(error) && ownerId
+          ? from(this.offlineStore.getUsers(ownerId)).pipe(
+              map(users => users ?? []),
+              catchError(() => of([]))
+            )
+          : of([]);
+        return cached.pipe(map(users => ({ summary: this.summarize(users), users })));
       })
-    ).subscribe(users => {
-      this.usersState$.next(users);
+    ).subscribe(({ summary, users }) => {
+      this.loadedFor = ownerId;
+      if (users) {
+        this.usersState$.next(users);
+      }
+      this.summaryState$.next(summary);
       this.loadingState$.next(false);
     });
   }
@@ -263,7 +349,7 @@ export class UserService {
    * @param id - User ID
    * @returns Observable<User>
    */
-  getUserById(id: number): Observable<User> {
+  getUserById(id: UserId): Observable<User> {
     // First check local state
     const user = this.usersState$.value.find(u => u.id === id);
     if (user) {
@@ -271,29 +357,48 @@ export class UserService {
     }
     
     // If not in state, fetch from API
-    return this.http.get<User>(`${this.API_URL}/${id}`);
+    return this.api.getById(id);
   }
 
   /**
    * Creates a new user
    * Implements optimistic UI update
+   * Provisions the user's initial credentials when a password is given
    * 
    * @param user - User data (without ID)
+   * @param initialPassword - Optional password the user signs in with
    * @returns Observable<User> with created user
    */
-  createUser(user: Omit<User, 'id'>): Observable<User> {
+  createUser(user: NewUser, initialPassword?: string): Observable<User> {
+    if (this.authService.isReadOnly()) {
+      return this.readOnlyError();
+    }
+
+    if (this.syncStatus.isOffline()) {
+      return this.queueCreate(user, initialPassword);
+    }
+
     this.loadingState$.next(true);
+    let created = false;
 
-    return this.http.post<User>(this.API_URL, user).pipe(
+    return this.api.create({ ...user, version: 1 }).pipe(
+      tap(() => created = true),
+      switchMap(newUser => initialPassword
+        ? this.credentialService.provisionCredentials(newUser, initialPassword).pipe(map(() => newUser))
+        : of(newUser)
+      ),
       tap(newUser => {
         // Optimistic update: add new user to state immediately
         const currentUsers = this.usersState$.value;
         this.usersState$.next([...currentUsers, newUser]);
         this.loadingState$.next(false);
+        this.recordCreate(newUser);
+        this.refreshSummary();
       }),
       catchError(error => {
         this.loadingState$.next(false);
-        return throwError(() => error);
+        // The server was not reached, so the user is queued instead
+        return !created && this.wentOffline(error) ? this.queueCreate(user, initialPassword) : throwError(() => error);
       })
     );
   }
@@ -303,10 +408,14 @@ export class UserService {
    * Implements optimistic UI update
    * 
    * @param id - User ID
-   * @param user - Updated user data
+   * @param user - Updated user data, with the version the edit started from
    * @returns Observable<User> with updated user
    */
-  updateUser(id: number, user: Partial<User>): Observable<User> {
+  updateUser(id: UserId, user: Partial<User>): Observable<User> {
+    if (this.authService.isReadOnly()) {
+      return this.readOnlyError();
+    }
+
     this.loadingState$.next(true);
 
     // Store original state for rollback if needed
@@ -324,7 +433,11 @@ export class UserService {
     optimisticUsers[userIndex] = updatedUser;
     this.usersState$.next(optimisticUsers);
 
-    return this.http.put<User>(`${this.API_URL}/${id}`, updatedUser).pipe(
+    if (this.syncStatus.isOffline()) {
+      return this.queueChange('update', updatedUser);
+    }
+
+    return this.api.update(id, updatedUser).pipe(
       tap(serverUser => {
         // Update with server response
         const currentUsers = this.usersState$.value;
@@ -335,10 +448,20 @@ export class UserService {
           this.usersState$.next(finalUsers);
         }
         this.loadingState$.next(false);
+        this.recordUpdate(originalUsers[userIndex], serverUser);
+        this.refreshSummary();
       }),
       catchError(error => {
-        // Rollback on error
-        this.usersState$.next(originalUsers);
+        if (this.wentOffline(error)) {
+          return this.queueChange('update', updatedUser);
+        }
+
+        // Rollback on error; on a conflict, show what the server holds now
+        if (error instanceof VersionConflictError) {
+          this.usersState$.next(originalUsers.map(u => u.id === id ? error.current : u));
+        } else {
+          this.usersState$.next(originalUsers);
+        }
         this.loadingState$.next(false);
         return throwError(() => error);
       })
@@ -346,13 +469,18 @@ export class UserService {
   }
 
   /**
-   * Deletes a user
-   * Stores deleted user for undo functionality
+   * Moves a user to the trash
+   * The deletion can be undone through UserHistoryService or the trash, which
+   * restore the user under the same id.
    * 
    * @param id - User ID to delete
    * @returns Observable<void>
    */
-  deleteUser(id: number): Observable<void> {
+  deleteUser(id: UserId): Observable<void> {
+    if (this.authService.isReadOnly()) {
+      return this.readOnlyError();
+    }
+
     this.loadingState$.next(true);
 
     const currentUsers = this.usersState$.value;
@@ -363,24 +491,27 @@ export class UserService {
       return throwError(() => new Error('User not found'));
     }
 
-    // Store for undo functionality
-    this.lastDeletedUser = {
-      user: currentUsers[userIndex],
-      index: userIndex
-    };
-
     // Optimistic delete
     const optimisticUsers = currentUsers.filter(u => u.id !== id);
     this.usersState$.next(optimisticUsers);
 
-    return this.http.delete<void>(`${this.API_URL}/${id}`).pipe(
+    if (this.syncStatus.isOffline()) {
+      return this.queueChange('delete', currentUsers[userIndex]).pipe(map(() => undefined));
+    }
+
+    return this.api.delete(id).pipe(
       tap(() => {
         this.loadingState$.next(false);
+        this.recordDelete(currentUsers[userIndex]);
+        this.refreshSummary();
       }),
       catchError(error => {
+        if (this.wentOffline(error)) {
+          return this.queueChange('delete', currentUsers[userIndex]).pipe(map(() => undefined));
+        }
+
         // Rollback on error
         this.usersState$.next(currentUsers);
-        this.lastDeletedUser = null;
         this.loadingState$.next(false);
         return throwError(() => error);
       })
@@ -388,137 +519,235 @@ export class UserService {
   }
 
   /**
-   * Undoes the last delete operation
-   * Restores the deleted user
+   * Applies the same changes to several users
+   * Runs a few requests at a time and emits the progress after every user;
+   * users that fail (e.g. edited by someone else meanwhile) are reported and
+   * the rest still change. The changes that succeeded are recorded as one
+   * undoable step.
    * 
-   * @returns Observable<User> | null
+   * @param users - Users as they were loaded, with their versions
+   * @param changes - Field values to set on every user
+   * @param action - Past-tense verb for the history, e.g. "Deactivated"
+   * @returns Observable<BulkProgress>
    */
-  undoDelete(): Observable<User> | null {
-    if (!this.lastDeletedUser) {
-      return null;
+  bulkUpdate(users: User[], changes: Partial<User>, action: string): Observable<BulkProgress> {
+    if (this.authService.isReadOnly()) {
+      return this.readOnlyError();
     }
 
-    const { user } = this.lastDeletedUser;
-    this.lastDeletedUser = null;
+    return defer(() => {
+      const saved: { before: User; after: User }[] = [];
 
-    // Re-create the user via API
-    return this.createUser(user);
+      return this.runBulk(users, user =>
+        this.replaceUser({ ...user, ...changes }).pipe(tap(after => saved.push({ before: user, after })))
+      ).pipe(
+        tap({
+          complete: () => {
+            if (saved.length > 0) {
+              const save = (values: User) => {
+                const version = this.usersState$.value.find(u => u.id === values.id)?.version ?? values.version;
+                return this.replaceUser({ ...values, version });
+              };
+              this.history.record(
+                'bulk',
+                `${action} ${this.countOf(saved.length)}`,
+                () => this.runAll(saved.map(({ before }) => () => save(before))),
+                () => this.runAll(saved.map(({ after }) => () => save(after)))
+              );
+            }
+          }
+        })
+      );
+    });
   }
 
   /**
-   * Filters users based on criteria
+   * Moves several users to the trash
+   * Batched and reported like bulkUpdate(); undoing restores them all.
    * 
-   * @param filter - Filter criteria
-   * @returns Filtered users array
-   */
-  filterUsers(filter: UserFilter): User[] {
-    let filtered = this.usersState$.value;
-
-    if (filter.searchTerm) {
-      const searchLower = filter.searchTerm.toLowerCase();
-      filtered = filtered.filter(user =>
-        user.firstName.toLowerCase().includes(searchLower) ||
-        user.lastName.toLowerCase().includes(searchLower) ||
-        user.email.toLowerCase().includes(searchLower) ||
-        user.username.toLowerCase().includes(searchLower)
-      );
+   * @param users - Users to delete
+   * @returns Observable<BulkProgress>
+   */
+  bulkDelete(users: User[]): Observable<BulkProgress> {
+    if (this.authService.isReadOnly()) {
+      return this.readOnlyError();
     }
 
-    if (filter.role) {
-      filtered = filtered.filter(user => user.role === filter.role);
+    return defer(() => {
+      const deleted: User[] = [];
+
+      return this.runBulk(users, user => this.removeUser(user.id).pipe(tap(() => deleted.push(user)))).pipe(
+        tap({
+          complete: () => {
+            if (deleted.length > 0) {
+              this.history.record(
+                'bulk',
+                `Deleted ${this.countOf(deleted.length)}`,
+                () => this.runAll(deleted.map(user => () => this.restoreUser(user.id))),
+                () => this.runAll(deleted.map(user => () => this.removeUser(user.id)))
+              );
+            }
+          }
+        })
+      );
+    });
+  }
+
+  /**
+   * Creates imported users as pending, optionally inviting them
+   * Batched and reported like bulkUpdate(); undoing moves them all to the
+   * trash. A user whose invitation could not be sent still counts as a
+   * failure, so it shows up in the error report.
+   * 
+   * @param users - Validated users to create
+   * @param sendInvitations - Mail every created user an invitation
+   * @returns Observable<BulkProgress<NewUser>>
+   */
+  importUsers(users: NewUser[], sendInvitations: boolean): Observable<BulkProgress<NewUser>> {
+    if (this.authService.isReadOnly()) {
+      return this.readOnlyError();
     }
 
-    if (filter.status) {
-      filtered = filtered.filter(user => user.status === filter.status);
+    return defer(() => {
+      const created: User[] = [];
+
+      return this.runBulk(users, user =>
+        this.api.create({ ...user, status: 'pending', version: 1 }).pipe(
+          tap(newUser => {
+            created.push(newUser);
+            this.usersState$.next([...this.usersState$.value, newUser]);
+            this.refreshSummary();
+          }),
+          switchMap(newUser => sendInvitations
+            ? this.invitationService.sendInvitation(newUser.id).pipe(
+                catchError(error => throwError(() => new Error(`Created, but the invitation could not be sent: ${error.message}`)))
+              )
+            : of(newUser)
+          )
+        )
+      ).pipe(
+        tap({
+          complete: () => {
+            if (created.length > 0) {
+              this.history.record(
+                'bulk',
+                `Imported ${this.countOf(created.length)}`,
+                () => this.runAll(created.map(user => () => this.removeUser(user.id))),
+                () => this.runAll(created.map(user => () => this.restoreUser(user.id)))
+              );
+            }
+          }
+        })
+      );
+    });
+  }
+
+  /**
+   * Gets the users in the trash
+   * 
+   * @returns Observable<UserTrash> with the retention period in days
+   */
+  getTrash(): Observable<UserTrash> {
+    return this.api.getTrash();
+  }
+
+  /**
+   * Takes a user out of the trash, under their original id
+   * 
+   * @param id - ID of the deleted user
+   * @returns Observable<User> with the restored user
+   */
+  restoreDeletedUser(id: UserId): Observable<User> {
+    if (this.authService.isReadOnly()) {
+      return this.readOnlyError();
     }
 
-    if (filter.department) {
-      filtered = filtered.filter(user => user.department === filter.department);
+    return this.restoreUser(id);
+  }
+
+  /**
+   * Deletes a user in the trash for good, with their credentials and sessions
+   * This cannot be undone.
+   * 
+   * @param id - ID of the deleted user
+   * @returns Observable<void>
+   */
+  purgeUser(id: UserId): Observable<void> {
+    if (this.authService.isReadOnly()) {
+      return this.readOnlyError();
     }
 
-    return filtered;
+    return this.api.purge(id);
   }
 
   /**
-   * Gets paginated users
+   * Gets one page of users from the API
+   * Paging, sorting, searching and filtering happen on the server, which
+   * reports the number of matching users in the X-Total-Count header. The
+   * users of every page are kept, so while the server is unreachable, pages
+   * are taken from the users cached so far.
    * 
-   * @param page - Page number (1-indexed)
-   * @param pageSize - Number of items per page
-   * @param filter - Optional filter criteria
-   * @returns Paginated response with users
+   * @param page - 1-based page number
+   * @param pageSize - Users per page
+   * @param filter - Search term and field filters
+   * @param sort - Sort field and direction; searches without one are ranked by relevance
+   * @returns Observable<UserPage> with the matches of the search
    */
   getPaginatedUsers(
-    page: number = 1,
-    pageSize: number = 10,
-    filter?: UserFilter
-  ): Observable<PaginatedResponse<User>> {
-    return this.getUsers().pipe(
-      map(users => {
-        // Apply filters if provided
-        let filtered = filter ? this.filterUsers(filter) : users;
-        
-        // Calculate pagination
-        const total = filtered.length;
-        const totalPages = Math.ceil(total / pageSize);
-        const start = (page - 1) * pageSize;
-        const end = start + pageSize;
-        const data = filtered.slice(start, end);
-
-        return {
-          data,
-          total,
-          page,
-          pageSize,
-          totalPages
-        };
-      })
+    page = 1,
+    pageSize = 10,
+    filter?: UserFilter,
+    sort?: UserSort
+  ): Observable<UserPage> {
+    const offlinePage = () => this.whenLoaded(() => {
+      const users = queryUsers(this.usersState$.value, filter, sort);
+      return {
+        data: users.slice((page - 1) * pageSize, page * pageSize),
+        total: users.length,
+        page,
+        pageSize,
+        totalPages: Math.ceil(users.length / pageSize),
+        matches: {}
+      };
+    });
+
+    if (this.syncStatus.isOffline()) {
+      return offlinePage();
+    }
+    return this.api.getPage(page, pageSize, filter, sort).pipe(
+      tap(result => this.keepUsers(result.data)),
+      catchError(error => this.wentOffline(error) ? offlinePage() : throwError(() => error))
+    );
+  }
+
+  /**
+   * Gets every user matching a filter, e.g. for exports
+   * Searching, filtering and sorting happen on the server, as for pages,
+   * or on the cached users while it is unreachable.
+   *
+   * @param filter - Search term and field filters
+   * @param sort - Sort field and direction
+   * @returns Observable<User[]>
+   */
+  getFilteredUsers(filter?: UserFilter, sort?: UserSort): Observable<User[]> {
+    const offlineUsers = () => this.whenLoaded(() => queryUsers(this.usersState$.value, filter, sort));
+
+    if (this.syncStatus.isOffline()) {
+      return offlineUsers();
+    }
+    return this.api.getMatching(filter, sort).pipe(
+      catchError(error => this.wentOffline(error) ? offlineUsers() : throwError(() => error))
     );
   }
 
   /**
    * Gets user statistics for analytics dashboard
+   * Counted by the server over all users, and again after changes
    * 
    * @returns Observable<UserStatistics>
    */
   getUserStatistics(): Observable<UserStatistics> {
-    return this.getUsers().pipe(
-      map(users => {
-        const totalUsers = users.length;
-        const activeUsers = users.filter(u => u.status === 'active').length;
-        const inactiveUsers = users.filter(u => u.status === 'inactive').length;
-
-        // Users by department
-        const usersByDepartment: { [key: string]: number } = {};
-        users.forEach(user => {
-          if (user.department) {
-            usersByDepartment[user.department] = (usersByDepartment[user.department] || 0) + 1;
-          }
-        });
-
-        // Users by role
-        const usersByRole: { [key: string]: number } = {};
-        users.forEach(user => {
-          usersByRole[user.role] = (usersByRole[user.role] || 0) + 1;
-        });
-
-        // Recent registrations (last 5)
-        const recentRegistrations = [...users]
-          .sort((a, b) => {
-            if (!a.joinDate || !b.joinDate) return 0;
-            return new Date(b.joinDate).getTime() - new Date(a.joinDate).getTime();
-          })
-          .slice(0, 5);
-
-        return {
-          totalUsers,
-          activeUsers,
-          inactiveUsers,
-          usersByDepartment,
-          usersByRole,
-          recentRegistrations
-        };
-      })
-    );
+    return this.getSummary();
   }
 
   /**
@@ -527,14 +756,419 @@ export class UserService {
    * @returns Array of department names
    */
   getDepartments(): Observable<string[]> {
-    return this.getUsers().pipe(
-      map(users => {
-        const departments = users
-          .map(u => u.department)
-          .filter((dept): dept is string => !!dept);
-        return [...new Set(departments)].sort();
+    return this.getSummary().pipe(
+      map(summary => summary.departments)
+    );
+  }
+
+  /**
+   * Admin whose users are cached and whose changes are queued; during an
+   * impersonation, the admin who started it
+   */
+  private getOwnerId(): UserId | null {
+    const state = this.authService.getCurrentAuthState();
+    return (state.originalUser ?? state.user)?.id ?? null;
+  }
+
+  /**
+   * Forgets the users and sync status of the previous user, cancelling their load
+   */
+  private reset(): void {
+    this.loadSubscription?.unsubscribe();
+    this.loadSubscription = null;
+    this.loadedFor = null;
+    this.usersState$.next([]);
+    this.summaryState$.next(null);
+    this.loadingState$.next(false);
+    this.syncStatus.reset();
+  }
+
+  /**
+   * Summary of the loaded users, once it was counted
+   */
+  private getSummary(): Observable<UserSummary> {
+    return this.summaryState$.pipe(
+      filter((summary): summary is UserSummary => summary !== null)
+    );
+  }
+
+  /**
+   * Has the summary counted again, after a change
+   */
+  private refreshSummary(): void {
+    this.summaryRequests$.next();
+  }
+
+  /**
+   * Gets the summary from the server, or counts the cached users while it is
+   * unreachable; other errors keep the last summary
+   */
+  private fetchSummary(): Observable<UserSummary> {
+    const offlineSummary = () => of(this.summarize(this.usersState$.value));
+
+    if (this.syncStatus.isOffline()) {
+      return offlineSummary();
+    }
+    return this.api.getSummary().pipe(
+      catchError(error => {
+        if (this.wentOffline(error)) {
+          return offlineSummary();
+        }
+        console.error('Error loading the user summary:', error);
+        return EMPTY;
+      })
+    );
+  }
+
+  /**
+   * Counts users like the server does, for the cached users while offline
+   */
+  private summarize(all: User[]): UserSummary {
+    // Users in the trash do not count
+    const users = all.filter(u => !u.deletedAt);
+    const totalUsers = users.length;
+    const activeUsers = users.filter(u => u.status === 'active').length;
+    const inactiveUsers = users.filter(u => u.status === 'inactive').length;
+    const pendingUsers = users.filter(u => u.status === 'pending').length;
+
+    // Users by department
+    const usersByDepartment: { [key: string]: number } = {};
+    users.forEach(user => {
+      if (user.department) {
+        usersByDepartment[user.department] = (usersByDepartment[user.department] || 0) + 1;
+      }
+    });
+
+    // Users by role
+    const usersByRole: { [key: string]: number } = {};
+    users.forEach(user => {
+      usersByRole[user.role] = (usersByRole[user.role] || 0) + 1;
+    });
+
+    // Recent registrations (last 5)
+    const recentRegistrations = users
+      .filter(u => u.joinDate)
+      .sort((a, b) => b.joinDate!.localeCompare(a.joinDate!))
+      .slice(0, 5);
+
+    return {
+      totalUsers,
+      activeUsers,
+      inactiveUsers,
+      pendingUsers,
+      usersByDepartment,
+      usersByRole,
+      recentRegistrations,
+      departments: Object.keys(usersByDepartment).sort()
+    };
+  }
+
+  /**
+   * Keeps the users of a loaded page in the state, and so in the offline cache
+   */
+  private keepUsers(users: User[]): void {
+    const loaded = new Map(users.map(u => [u.id, u]));
+    const current = this.usersState$.value;
+    const known = new Set(current.map(u => u.id));
+    this.usersState$.next([...current.map(u => loaded.get(u.id) ?? u), ...users.filter(u => !known.has(u.id))]);
+  }
+
+  /**
+   * Switches to offline mode when an error means the server could not be reached
+   *
+   * @returns Whether it could not
+   */
+  private wentOffline(error: unknown): boolean {
+    if (!(error instanceof ApiError) || error.status !== 0) {
+      return false;
+    }
+    this.syncStatus.setOnline(false);
+    return true;
+  }
+
+  /**
+   * Runs a query on the cached users once they finished loading
+   */
+  private whenLoaded<T>(query: () => T): Observable<T> {
+    return this.loadingState$.pipe(
+      filter(loading => !loading),
+      take(1),
+      map(() => query())
+    );
+  }
+
+  /**
+   * Adds a user created offline to the state and the queue, under a temporary id
+   * Passwords are never stored offline, so users with one are created online only.
+   */
+  private queueCreate(user: NewUser, initialPassword?: string): Observable<User> {
+    if (initialPassword) {
+      return throwError(() => new Error('The server is unreachable; passwords can only be set once it is back'));
+    }
+
+    const localUser: User = { ...user, id: `${this.LOCAL_ID_PREFIX}${crypto.randomUUID()}`, version: 1 };
+    this.usersState$.next([...this.usersState$.value, localUser]);
+    return this.queueChange('create', localUser);
+  }
+
+  /**
+   * Queues a change made offline, which the state already shows
+   * Deleting a user created offline drops their queued changes instead.
+   */
+  private queueChange(action: QueuedUserChange['action'], user: User): Observable<User> {
+    const ownerId = this.getOwnerId();
+    if (!ownerId) {
+      this.loadingState$.next(false);
+      return throwError(() => new Error('Sign in to make changes'));
+    }
+
+    const queued = action === 'delete' && user.id.startsWith(this.LOCAL_ID_PREFIX)
+      ? this.offlineStore.drop(ownerId, user.id)
+      : this.offlineStore.enqueue({ ownerId, action, userId: user.id, user, queuedAt: new Date().toISOString() });
+
+    return from(queued).pipe(
+      switchMap(() => this.offlineStore.getQueue(ownerId)),
+      map(changes => {
+        this.syncStatus.update({ pending: changes.length });
+        this.refreshSummary();
+        return user;
+      }),
+      finalize(() => this.loadingState$.next(false))
+    );
+  }
+
+  /**
+   * Replays the signed-in admin's queued changes, oldest first
+   * Changes the server refuses are reported as conflicts and dropped; an
+   * unreachable server stops the replay and keeps the rest for the next try.
+   */
+  private syncChanges(): Observable<void> {
+    const ownerId = this.getOwnerId();
+    if (!ownerId) {
+      return of(undefined);
+    }
+
+    return from(this.offlineStore.getQueue(ownerId)).pipe(
+      switchMap(changes => {
+        this.syncStatus.update({ pending: changes.length });
+        if (changes.length === 0) {
+          return of(undefined);
+        }
+
+        this.syncStatus.update({ syncing: true });
+        return this.replayNext(ownerId).pipe(
+          finalize(() => this.syncStatus.update({ syncing: false }))
+        );
+      })
+    );
+  }
+
+  /**
+   * Replays the oldest queued change, then the rest
+   */
+  private replayNext(ownerId: UserId): Observable<void> {
+    return from(this.offlineStore.getQueue(ownerId)).pipe(
+      switchMap(([change, ...rest]) => {
+        if (!change) {
+          this.syncStatus.update({ pending: 0 });
+          return of(undefined);
+        }
+
+        this.syncStatus.update({ pending: rest.length + 1 });
+        return this.replayChange(change).pipe(
+          catchError(error => this.wentOffline(error) ? throwError(() => error) : this.reportConflict(change, error)),
+          switchMap(() => this.replayNext(ownerId))
+        );
+      })
+    );
+  }
+
+  /**
+   * Sends a queued change and points the changes after it at the saved user:
+   * the id the server gave a user created offline, and the new version
+   */
+  private replayChange(change: QueuedUserChange): Observable<void> {
+    let request: Observable<User | null>;
+    switch (change.action) {
+      case 'create': {
+        const values: Partial<User> = { ...change.user, version: 1 };
+        delete values.id;
+        request = this.api.create(values as Omit<User, 'id'>);
+        break;
+      }
+      case 'update':
+        request = this.api.update(change.userId, change.user);
+        break;
+      default:
+        request = this.api.delete(change.userId).pipe(map(() => null));
+    }
+
+    return request.pipe(
+      switchMap(saved => {
+        if (!saved) {
+          return of(undefined);
+        }
+        this.usersState$.next(this.usersState$.value.map(u => u.id === change.userId ? saved : u));
+        return from(this.offlineStore.rebase(change.ownerId, change.userId, saved));
+      }),
+      switchMap(() => this.offlineStore.dequeue(change.seq!))
+    );
+  }
+
+  /**
+   * Reports a queued change the server refused, and drops it
+   * The later changes of a user that could not be created are dropped too.
+   */
+  private reportConflict(change: QueuedUserChange, error: unknown): Observable<void> {
+    const conflict: SyncConflict = {
+      change,
+      reason: 'rejected',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      current: null
+    };
+    if (error instanceof VersionConflictError) {
+      conflict.reason = 'changed';
+      conflict.current = error.current as User;
+    } else if (error instanceof ApiError && error.status === 404) {
+      conflict.reason = change.action === 'delete' ? 'alreadyDeleted' : 'deleted';
+    }
+    this.syncStatus.update({ conflicts: [...this.syncStatus.getCurrentStatus().conflicts, conflict] });
+
+    return from(this.offlineStore.dequeue(change.seq!)).pipe(
+      switchMap(() => change.action === 'create' ? this.offlineStore.drop(change.ownerId, change.userId) : of([])),
+      map(() => undefined)
+    );
+  }
+
+  /**
+   * Records a created user; undoing moves them to the trash
+   */
+  private recordCreate(user: User): void {
+    this.history.record(
+      'create',
+      `Created ${this.nameOf(user)}`,
+      () => this.removeUser(user.id),
+      () => this.restoreUser(user.id)
+    );
+  }
+
+  /**
+   * Records an edit; undoing saves the previous values again
+   * Both directions send the version of the latest known record, so an undo
+   * never overwrites what someone else saved since.
+   */
+  private recordUpdate(before: User, after: User): void {
+    let latest = after;
+    const save = (values: User) => {
+      const version = this.usersState$.value.find(u => u.id === after.id)?.version ?? latest.version;
+      return this.replaceUser({ ...values, version }).pipe(tap(saved => latest = saved));
+    };
+
+    this.history.record('update', `Updated ${this.nameOf(after)}`, () => save(before), () => save(after));
+  }
+
+  /**
+   * Records a deleted user; undoing takes them out of the trash
+   */
+  private recordDelete(user: User): void {
+    this.history.record(
+      'delete',
+      `Deleted ${this.nameOf(user)}`,
+      () => this.restoreUser(user.id),
+      () => this.removeUser(user.id)
+    );
+  }
+
+  /**
+   * Moves a user to the trash without recording it
+   */
+  private removeUser(id: UserId): Observable<void> {
+    return this.api.delete(id).pipe(
+      tap(() => {
+        this.usersState$.next(this.usersState$.value.filter(u => u.id !== id));
+        this.refreshSummary();
+      })
+    );
+  }
+
+  /**
+   * Takes a user out of the trash without recording it
+   */
+  private restoreUser(id: UserId): Observable<User> {
+    return this.api.restore(id).pipe(
+      tap(restored => {
+        this.usersState$.next([...this.usersState$.value.filter(u => u.id !== restored.id), restored]);
+        this.refreshSummary();
       })
     );
   }
+
+  /**
+   * Saves a user without recording it
+   */
+  private replaceUser(user: User): Observable<User> {
+    return this.api.update(user.id, user).pipe(
+      tap(saved => {
+        this.usersState$.next(this.usersState$.value.map(u => u.id === saved.id ? saved : u));
+        this.refreshSummary();
+      })
+    );
+  }
+
+  /**
+   * Runs an action for several users, a few at a time, collecting failures
+   */
+  private runBulk<T>(users: T[], action: (user: T) => Observable<unknown>): Observable<BulkProgress<T>> {
+    const initial: BulkProgress<T> = { total: users.length, completed: 0, succeeded: 0, failures: [] };
+
+    return from(users).pipe(
+      mergeMap(user => action(user).pipe(
+        map(() => null),
+        catchError(error => of({ user, message: error?.message || 'Unknown error' }))
+      ), this.BULK_CONCURRENCY),
+      scan((progress, failure) => ({
+        ...progress,
+        completed: progress.completed + 1,
+        succeeded: progress.succeeded + (failure ? 0 : 1),
+        failures: failure ? [...progress.failures, failure] : progress.failures
+      }), initial),
+      startWith(initial)
+    );
+  }
+
+  /**
+   * Runs requests a few at a time and fails if any of them failed
+   * Used to undo and redo bulk actions, which are all-or-retry.
+   */
+  private runAll(requests: (() => Observable<unknown>)[]): Observable<void> {
+    return from(requests).pipe(
+      mergeMap(request => request().pipe(
+        map(() => true),
+        catchError(() => of(false))
+      ), this.BULK_CONCURRENCY),
+      toArray(),
+      switchMap(results => {
+        const failed = results.filter(ok => !ok).length;
+        return failed === 0
+          ? of(undefined)
+          : throwError(() => new Error(`${failed} of ${results.length} users could not be changed; try again`));
+      })
+    );
+  }
+
+  private countOf(count: number): string {
+    return `${count} user${count === 1 ? '' : 's'}`;
+  }
+
+  private nameOf(user: User): string {
+    return `${user.firstName} ${user.lastName}`.trim();
+  }
+
+  /**
+   * Error returned by mutations during a read-only impersonation
+   */
+  private readOnlyError(): Observable<never> {
+    return throwError(() => new Error('Changes are disabled during a read-only impersonation'));
+  }
 }
 
@@ -13,8 +13,9 @@ import { ButtonModule } from 'primeng/button';
 import { SkeletonModule } from 'primeng/skeleton';
 
 import { UserService } from '../../../core/user.service';
-import { UserStatistics, User } from '../../../core/user.model';
+import { UserStatistics, User, UserId } from '../../../core/user.model';
 import { HeaderComponent } from '../../../shared/header/header.component';
+import { HasPermissionDirective } from '../../../shared/has-permission/has-permission.directive';
 
 
 @Component({
@@ -29,7 +30,8 @@ import { HeaderComponent } from '../../../shared/header/header.component';
     TagModule,
     ButtonModule,
     SkeletonModule,
-    HeaderComponent
+    HeaderComponent,
+    HasPermissionDirective
   ],
   templateUrl: './admin-dashboard.component.html',
   styleUrl: './admin-dashboard.component.scss',
@@ -160,7 +162,7 @@ export class AdminDashboardComponent implements OnInit, OnDestroy {
   /**
    * Tracks users by ID for ngFor performance
    */
-  trackByUserId(index: number, user: User): number {
+  trackByUserId(index: number, user: User): UserId {
     return user.id;
   }
 }
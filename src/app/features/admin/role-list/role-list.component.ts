@@ -0,0 +1,244 @@
+import { Component, OnInit, OnDestroy, ChangeDetectionStrategy, ChangeDetectorRef } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ReactiveFormsModule, FormBuilder, FormGroup, Validators } from '@angular/forms';
+import { Subject } from 'rxjs';
+import { takeUntil } from 'rxjs/operators';
+
+// PrimeNG Imports
+import { TableModule } from 'primeng/table';
+import { ButtonModule } from 'primeng/button';
+import { InputTextModule } from 'primeng/inputtext';
+import { CheckboxModule } from 'primeng/checkbox';
+import { TagModule } from 'primeng/tag';
+import { ConfirmDialogModule } from 'primeng/confirmdialog';
+import { ToastModule } from 'primeng/toast';
+import { DialogModule } from 'primeng/dialog';
+import { TooltipModule } from 'primeng/tooltip';
+
+import { ConfirmationService, MessageService } from 'primeng/api';
+
+import { PermissionService, PERMISSIONS } from '../../../core/permission.service';
+import { UserService } from '../../../core/user.service';
+import { Permission, Role } from '../../../core/user.model';
+
+
+@Component({
+  selector: 'app-role-list',
+  standalone: true,
+  imports: [
+    CommonModule,
+    ReactiveFormsModule,
+    TableModule,
+    ButtonModule,
+    InputTextModule,
+    CheckboxModule,
+    TagModule,
+    ConfirmDialogModule,
+    ToastModule,
+    DialogModule,
+    TooltipModule
+  ],
+  providers: [ConfirmationService, MessageService],
+  templateUrl: './role-list.component.html',
+  styleUrl: './role-list.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class RoleListComponent implements OnInit, OnDestroy {
+  roles: Role[] = [];
+  permissions = PERMISSIONS;
+
+  // Number of users assigned to each role
+  userCounts: Record<string, number> = {};
+
+  // Dialog state
+  showRoleDialog = false;
+  dialogMode: 'add' | 'edit' = 'add';
+  selectedRole: Role | null = null;
+  roleForm!: FormGroup;
+  submittingForm = false;
+
+  private destroy$ = new Subject<void>();
+
+  constructor(
+    private permissionService: PermissionService,
+    private userService: UserService,
+    private confirmationService: ConfirmationService,
+    private messageService: MessageService,
+    private cdr: ChangeDetectorRef,
+    private fb: FormBuilder
+  ) {}
+
+  ngOnInit(): void {
+    this.roleForm = this.fb.group({
+      name: ['', [Validators.required, Validators.minLength(3)]],
+      description: ['', [Validators.maxLength(200)]],
+      permissions: [[] as Permission[]]
+    });
+
+    this.permissionService.getRoles()
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(roles => {
+        this.roles = roles;
+        this.cdr.markForCheck();
+      });
+
+    this.userService.getUserStatistics()
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(statistics => {
+        this.userCounts = statistics.usersByRole;
+        this.cdr.markForCheck();
+      });
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  /**
+   * Opens add role dialog
+   */
+  addRole(): void {
+    this.dialogMode = 'add';
+    this.selectedRole = null;
+    this.roleForm.reset({ name: '', description: '', permissions: [] });
+    this.showRoleDialog = true;
+    this.cdr.markForCheck();
+  }
+
+  /**
+   * Opens edit role dialog
+   */
+  editRole(role: Role): void {
+    this.dialogMode = 'edit';
+    this.selectedRole = role;
+    this.roleForm.reset({
+      name: role.name,
+      description: role.description || '',
+      permissions: [...role.permissions]
+    });
+    this.showRoleDialog = true;
+    this.cdr.markForCheck();
+  }
+
+  /**
+   * Saves role (add or edit)
+   */
+  saveRole(): void {
+    if (this.roleForm.invalid) {
+      this.roleForm.markAllAsTouched();
+      this.cdr.markForCheck();
+      return;
+    }
+
+    const { name, description, permissions } = this.roleForm.value;
+    const id = this.selectedRole?.id ?? this.toRoleId(name);
+
+    if (this.dialogMode === 'add' && this.roles.some(role => role.id === id)) {
+      this.messageService.add({
+        severity: 'error',
+        summary: 'Error',
+        detail: `A role named "${name}" already exists`
+      });
+      return;
+    }
+
+    this.submittingForm = true;
+    const request = this.dialogMode === 'add'
+      ? this.permissionService.createRole({ id, name, description, permissions })
+      : this.permissionService.updateRole(id, { name, description, permissions });
+
+    request.pipe(takeUntil(this.destroy$)).subscribe({
+      next: () => {
+        this.messageService.add({
+          severity: 'success',
+          summary: 'Success',
+          detail: this.dialogMode === 'add' ? 'Role created successfully' : 'Role updated successfully'
+        });
+        this.closeDialog();
+      },
+      error: (error) => {
+        this.messageService.add({
+          severity: 'error',
+          summary: 'Error',
+          detail: error.message || 'Failed to save role'
+        });
+        this.submittingForm = false;
+        this.cdr.markForCheck();
+      }
+    });
+  }
+
+  /**
+   * Deletes a role with confirmation
+   */
+  deleteRole(role: Role): void {
+    this.confirmationService.confirm({
+      message: `Delete the "${role.name}" role?`,
+      header: 'Delete Role',
+      icon: 'pi pi-exclamation-triangle',
+      accept: () => {
+        this.permissionService.deleteRole(role.id)
+          .pipe(takeUntil(this.destroy$))
+          .subscribe({
+            next: () => {
+              this.messageService.add({
+                severity: 'success',
+                summary: 'Deleted',
+                detail: 'Role deleted successfully'
+              });
+              this.cdr.markForCheck();
+            },
+            error: (error) => {
+              this.messageService.add({
+                severity: 'error',
+                summary: 'Error',
+                detail: error.message || 'Failed to delete role'
+              });
+              this.cdr.markForCheck();
+            }
+          });
+      }
+    });
+  }
+
+  /**
+   * Closes the role dialog
+   */
+  closeDialog(): void {
+    this.showRoleDialog = false;
+    this.submittingForm = false;
+    this.selectedRole = null;
+    this.cdr.markForCheck();
+  }
+
+  /**
+   * Gets the label of a permission
+   */
+  getPermissionLabel(permission: Permission): string {
+    return this.permissions.find(p => p.value === permission)?.label ?? permission;
+  }
+
+  /**
+   * Checks if a form field has an error
+   */
+  hasFieldError(fieldName: string): boolean {
+    const field = this.roleForm.get(fieldName);
+    return !!(field && field.invalid && field.touched);
+  }
+
+  /**
+   * TrackBy function for performance
+   */
+  trackByRoleId(index: number, role: Role): string {
+    return role.id;
+  }
+
+  /**
+   * Derives a role id from its name, e.g. "HR Viewer" -> "hr-viewer"
+   */
+  private toRoleId(name: string): string {
+    const slug = name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+    return slug || `role-${Date.now()}`;
+  }
+}
@@ -0,0 +1,256 @@
+import { Component, OnInit, OnDestroy, ChangeDetectionStrategy, ChangeDetectorRef } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { RouterModule } from '@angular/router';
+import { Subject, combineLatest } from 'rxjs';
+import { finalize, take, takeUntil } from 'rxjs/operators';
+
+// PrimeNG Imports
+import { StepsModule } from 'primeng/steps';
+import { TableModule } from 'primeng/table';
+import { ButtonModule } from 'primeng/button';
+import { DropdownModule } from 'primeng/dropdown';
+import { TagModule } from 'primeng/tag';
+import { MessageModule } from 'primeng/message';
+import { CheckboxModule } from 'primeng/checkbox';
+import { ProgressBarModule } from 'primeng/progressbar';
+import { SelectButtonModule } from 'primeng/selectbutton';
+import { MenuItem } from 'primeng/api';
+
+import { UserService } from '../../../core/user.service';
+import { PermissionService } from '../../../core/permission.service';
+import { IMPORT_FIELDS, UserImportService } from '../../../core/user-import.service';
+import { BulkProgress, ImportMapping, ImportRow, ImportSheet, NewUser } from '../../../core/user.model';
+
+/**
+ * User Import Component
+ * Wizard that creates users from a CSV or Excel file: upload, map the
+ * columns, preview the validated rows, then import the valid ones in batches.
+ * Rejected rows can be downloaded as an error report.
+ */
+@Component({
+  selector: 'app-user-import',
+  standalone: true,
+  imports: [
+    CommonModule,
+    FormsModule,
+    RouterModule,
+    StepsModule,
+    TableModule,
+    ButtonModule,
+    DropdownModule,
+    TagModule,
+    MessageModule,
+    CheckboxModule,
+    ProgressBarModule,
+    SelectButtonModule
+  ],
+  templateUrl: './user-import.component.html',
+  styleUrl: './user-import.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class UserImportComponent implements OnInit, OnDestroy {
+  readonly steps: MenuItem[] = [
+    { label: 'Upload' },
+    { label: 'Map Columns' },
+    { label: 'Preview' },
+    { label: 'Import' }
+  ];
+  readonly fields = IMPORT_FIELDS;
+  activeStep = 0;
+
+  // Upload
+  sheet: ImportSheet | null = null;
+  reading = false;
+  errorMessage = '';
+
+  // Column mapping
+  mapping: ImportMapping = {};
+  columnOptions: { label: string; value: number }[] = [];
+
+  // Preview
+  rows: ImportRow[] = [];
+  previewFilter: 'all' | 'valid' | 'rejected' = 'all';
+  previewFilters = [
+    { label: 'All', value: 'all' },
+    { label: 'Ready', value: 'valid' },
+    { label: 'Rejected', value: 'rejected' }
+  ];
+  sendInvitations = true;
+
+  // Import
+  progress: BulkProgress<NewUser> | null = null;
+  importing = false;
+
+  private destroy$ = new Subject<void>();
+
+  constructor(
+    private importService: UserImportService,
+    private userService: UserService,
+    private permissionService: PermissionService,
+    private cdr: ChangeDetectorRef
+  ) {}
+
+  ngOnInit(): void {
+    // Load the roles rows are checked against
+    this.permissionService.getRoles().pipe(take(1), takeUntil(this.destroy$)).subscribe();
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  /**
+   * Reads the chosen file and guesses the column mapping
+   */
+  onFileSelected(event: Event): void {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    input.value = '';
+    if (!file) {
+      return;
+    }
+
+    this.reading = true;
+    this.errorMessage = '';
+    this.importService.readFile(file)
+      .pipe(
+        finalize(() => {
+          this.reading = false;
+          this.cdr.markForCheck();
+        }),
+        takeUntil(this.destroy$)
+      )
+      .subscribe({
+        next: (sheet) => {
+          if (sheet.rows.length === 0) {
+            this.errorMessage = 'The file has a header but no users';
+            return;
+          }
+
+          this.sheet = sheet;
+          this.columnOptions = sheet.columns.map((column, index) => ({ label: column, value: index }));
+          this.mapping = this.importService.guessMapping(sheet.columns);
+          this.activeStep = 1;
+        },
+        error: (error) => this.errorMessage = `${file.name} could not be read: ${error.message || 'unknown error'}`
+      });
+  }
+
+  /**
+   * First value of a mapped column, as an example
+   */
+  sampleOf(field: keyof ImportMapping): string {
+    const index = this.mapping[field];
+    return index === undefined ? '' : this.sheet?.rows[0]?.[index] ?? '';
+  }
+
+  isMappingComplete(): boolean {
+    return this.importService.isMappingComplete(this.mapping);
+  }
+
+  /**
+   * Validates every row with the chosen mapping
+   */
+  preview(): void {
+    // Every user, not only the loaded pages, so duplicates are caught before importing
+    combineLatest([this.userService.getFilteredUsers(), this.permissionService.getRoles()])
+      .pipe(take(1), takeUntil(this.destroy$))
+      .subscribe({
+        next: ([users, roles]) => {
+          this.errorMessage = '';
+          this.rows = this.importService.validate(this.sheet!, this.mapping, users, roles);
+          this.previewFilter = this.rejectedRows().length > 0 ? 'rejected' : 'all';
+          this.activeStep = 2;
+          this.cdr.markForCheck();
+        },
+        error: (error) => {
+          this.errorMessage = error.message || 'The users could not be loaded';
+          this.cdr.markForCheck();
+        }
+      });
+  }
+
+  validRows(): ImportRow[] {
+    return this.rows.filter(row => row.user);
+  }
+
+  rejectedRows(): ImportRow[] {
+    return this.rows.filter(row => !row.user);
+  }
+
+  /**
+   * Rows shown in the preview table
+   */
+  previewRows(): ImportRow[] {
+    if (this.previewFilter === 'valid') {
+      return this.validRows();
+    }
+    return this.previewFilter === 'rejected' ? this.rejectedRows() : this.rows;
+  }
+
+  /**
+   * Creates the valid rows in batches
+   */
+  startImport(): void {
+    const rows = this.validRows();
+    this.activeStep = 3;
+    this.importing = true;
+
+    this.userService.importUsers(rows.map(row => row.user!), this.sendInvitations)
+      .pipe(
+        finalize(() => {
+          this.importing = false;
+          this.cdr.markForCheck();
+        }),
+        takeUntil(this.destroy$)
+      )
+      .subscribe({
+        next: (progress) => {
+          this.progress = progress;
+          this.cdr.markForCheck();
+        },
+        error: (error) => this.errorMessage = error.message || 'The import failed'
+      });
+  }
+
+  /**
+   * Share of the import that is done, in percent
+   */
+  getPercent(): number {
+    return this.progress?.total ? Math.round(this.progress.completed * 100 / this.progress.total) : 0;
+  }
+
+  /**
+   * Rows that were rejected, or failed while importing
+   */
+  reportRows(): ImportRow[] {
+    const failures = new Map((this.progress?.failures ?? []).map(f => [f.user, f.message]));
+    const failed = this.rows
+      .filter(row => row.user && failures.has(row.user))
+      .map(row => ({ ...row, errors: [failures.get(row.user!)!] }));
+
+    return [...this.rejectedRows(), ...failed].sort((a, b) => a.line - b.line);
+  }
+
+  downloadErrorReport(): void {
+    this.importService.downloadErrorReport(this.sheet!, this.reportRows());
+  }
+
+  back(): void {
+    this.activeStep--;
+  }
+
+  /**
+   * Starts over with another file
+   */
+  reset(): void {
+    this.sheet = null;
+    this.mapping = {};
+    this.rows = [];
+    this.progress = null;
+    this.errorMessage = '';
+    this.activeStep = 0;
+  }
+}
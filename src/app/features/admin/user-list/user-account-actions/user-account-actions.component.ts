@@ -0,0 +1,79 @@
+import { ChangeDetectionStrategy, ChangeDetectorRef, Component, Input, OnDestroy, OnInit } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { Subject } from 'rxjs';
+import { takeUntil } from 'rxjs/operators';
+
+// PrimeNG Imports
+import { ButtonModule } from 'primeng/button';
+import { TooltipModule } from 'primeng/tooltip';
+
+import { Invitation, User, UserId } from '../../../../core/user.model';
+import { HasPermissionDirective } from '../../../../shared/has-permission/has-permission.directive';
+import { UserAccountsService } from '../user-accounts.service';
+
+/**
+ * User Account Actions Component
+ * Row buttons of the user list that unlock an account, reset 2FA and send
+ * or revoke invitations; each shows only when it applies to the user.
+ */
+@Component({
+  selector: 'app-user-account-actions',
+  standalone: true,
+  imports: [CommonModule, ButtonModule, TooltipModule, HasPermissionDirective],
+  templateUrl: './user-account-actions.component.html',
+  styleUrl: './user-account-actions.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class UserAccountActionsComponent implements OnInit, OnDestroy {
+  @Input({ required: true }) user!: User;
+
+  private destroy$ = new Subject<void>();
+
+  constructor(
+    private accounts: UserAccountsService,
+    private cdr: ChangeDetectorRef
+  ) {}
+
+  ngOnInit(): void {
+    this.accounts.getState()
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(() => this.cdr.markForCheck());
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  isLocked(): boolean {
+    return this.accounts.getLockedUntil(this.user) !== null;
+  }
+
+  hasTwoFactor(): boolean {
+    return this.accounts.hasTwoFactor(this.user);
+  }
+
+  getInvitation(): Invitation | null {
+    return this.accounts.getInvitation(this.user);
+  }
+
+  getSendingInvitation(): UserId | null {
+    return this.accounts.getSendingInvitation();
+  }
+
+  unlockUser(): void {
+    this.accounts.unlockUser(this.user);
+  }
+
+  resetTwoFactor(): void {
+    this.accounts.resetTwoFactor(this.user);
+  }
+
+  resendInvitation(): void {
+    this.accounts.resendInvitation(this.user);
+  }
+
+  revokeInvitation(): void {
+    this.accounts.revokeInvitation(this.user);
+  }
+}
@@ -0,0 +1,67 @@
+import { ChangeDetectionStrategy, ChangeDetectorRef, Component, Input, OnDestroy, OnInit } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { Subject } from 'rxjs';
+import { takeUntil } from 'rxjs/operators';
+
+// PrimeNG Imports
+import { TagModule } from 'primeng/tag';
+import { TooltipModule } from 'primeng/tooltip';
+
+import { User } from '../../../../core/user.model';
+import { UserAccountsService } from '../user-accounts.service';
+
+/**
+ * User Account Tags Component
+ * Status cell of the user list: the user's status with where their
+ * invitation stands, and whether they are locked out or use 2FA.
+ */
+@Component({
+  selector: 'app-user-account-tags',
+  standalone: true,
+  imports: [CommonModule, TagModule, TooltipModule],
+  templateUrl: './user-account-tags.component.html',
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class UserAccountTagsComponent implements OnInit, OnDestroy {
+  @Input({ required: true }) user!: User;
+
+  private destroy$ = new Subject<void>();
+
+  constructor(
+    private accounts: UserAccountsService,
+    private cdr: ChangeDetectorRef
+  ) {}
+
+  ngOnInit(): void {
+    this.accounts.getState()
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(() => this.cdr.markForCheck());
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  getLockedUntil(): string | null {
+    return this.accounts.getLockedUntil(this.user);
+  }
+
+  hasTwoFactor(): boolean {
+    return this.accounts.hasTwoFactor(this.user);
+  }
+
+  getInvitationHint(): string {
+    return this.accounts.getInvitationHint(this.user);
+  }
+
+  /**
+   * Gets status tag severity
+   */
+  getStatusSeverity(status: string): 'success' | 'danger' | 'warn' {
+    if (status === 'pending') {
+      return 'warn';
+    }
+    return status === 'active' ? 'success' : 'danger';
+  }
+}
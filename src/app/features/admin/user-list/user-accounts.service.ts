@@ -0,0 +1,235 @@
+import { Injectable, OnDestroy } from '@angular/core';
+import { BehaviorSubject, Observable, Subject, combineLatest } from 'rxjs';
+import { takeUntil } from 'rxjs/operators';
+import { ConfirmationService, MessageService } from 'primeng/api';
+
+import { LoginAttemptService } from '../../../core/login-attempt.service';
+import { TwoFactorService } from '../../../core/two-factor.service';
+import { InvitationService } from '../../../core/invitation.service';
+import { Invitation, LoginAttempt, TwoFactorStatus, User, UserId } from '../../../core/user.model';
+
+/**
+ * Sign-in state of the listed users
+ */
+export interface UserAccountState {
+  // Accounts locked after too many failed logins, keyed by username
+  lockedAccounts: Map<string, LoginAttempt>;
+  // Users with two-factor authentication, keyed by user id
+  twoFactorUsers: Map<string, TwoFactorStatus>;
+  // Newest invitation of invited users, keyed by user id
+  invitations: Map<string, Invitation>;
+  // User whose invitation is being sent
+  sendingInvitation: UserId | null;
+}
+
+/**
+ * User Accounts Service
+ *
+ * Lockouts, two-factor enrollments and invitations of the users in the user
+ * list, and the row actions on them. Provided by the user list, so its
+ * confirmations and messages show in the list's dialogs and toasts.
+ */
+@Injectable()
+export class UserAccountsService implements OnDestroy {
+  private state$ = new BehaviorSubject<UserAccountState>({
+    lockedAccounts: new Map(),
+    twoFactorUsers: new Map(),
+    invitations: new Map(),
+    sendingInvitation: null
+  });
+  private destroy$ = new Subject<void>();
+
+  constructor(
+    private loginAttemptService: LoginAttemptService,
+    private twoFactorService: TwoFactorService,
+    private invitationService: InvitationService,
+    private confirmationService: ConfirmationService,
+    private messageService: MessageService
+  ) {
+    combineLatest([
+      this.loginAttemptService.getLockedAccounts(),
+      this.twoFactorService.getEnrolledUsers(),
+      this.invitationService.getInvitations()
+    ])
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(([lockedAccounts, twoFactorUsers, invitations]) => this.update({ lockedAccounts, twoFactorUsers, invitations }));
+
+    this.loginAttemptService.loadAttempts();
+    this.twoFactorService.loadEnrolledUsers();
+    this.invitationService.loadInvitations();
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  /**
+   * Gets the sign-in state of the users, emitting whenever it changes
+   */
+  getState(): Observable<UserAccountState> {
+    return this.state$.asObservable();
+  }
+
+  /**
+   * Number of accounts currently locked
+   */
+  getLockedCount(): number {
+    return this.state$.value.lockedAccounts.size;
+  }
+
+  /**
+   * Gets the lockout end of a user, or null when the account is not locked
+   */
+  getLockedUntil(user: User): string | null {
+    return this.state$.value.lockedAccounts.get(user.username)?.lockedUntil ?? null;
+  }
+
+  /**
+   * Checks whether a user signs in with a second factor
+   */
+  hasTwoFactor(user: User): boolean {
+    return this.state$.value.twoFactorUsers.has(String(user.id));
+  }
+
+  /**
+   * Gets the newest invitation of a pending user
+   */
+  getInvitation(user: User): Invitation | null {
+    return user.status === 'pending' ? this.state$.value.invitations.get(String(user.id)) ?? null : null;
+  }
+
+  /**
+   * Describes where a pending user's invitation stands
+   */
+  getInvitationHint(user: User): string {
+    const invitation = this.getInvitation(user);
+    switch (invitation?.status) {
+      case 'open':
+        return `Invitation expires ${new Date(invitation.expiresAt).toLocaleString()}`;
+      case 'expired':
+        return 'Invitation expired';
+      case 'revoked':
+        return 'Invitation revoked';
+      default:
+        return 'Not invited yet';
+    }
+  }
+
+  /**
+   * Gets the user whose invitation is being sent, if any
+   */
+  getSendingInvitation(): UserId | null {
+    return this.state$.value.sendingInvitation;
+  }
+
+  /**
+   * Unlocks an account locked after too many failed logins
+   */
+  unlockUser(user: User): void {
+    this.loginAttemptService.unlock(user.username)
+      .pipe(takeUntil(this.destroy$))
+      .subscribe({
+        next: () => this.messageService.add({
+          severity: 'success',
+          summary: 'Unlocked',
+          detail: `${user.firstName} ${user.lastName} can sign in again`
+        }),
+        error: (error) => this.messageService.add({
+          severity: 'error',
+          summary: 'Error',
+          detail: error.message || 'Failed to unlock user'
+        })
+      });
+  }
+
+  /**
+   * Resets a user's two-factor authentication, e.g. after they lost their device
+   */
+  resetTwoFactor(user: User): void {
+    this.confirmationService.confirm({
+      header: 'Reset Two-Factor Authentication',
+      message: `${user.firstName} ${user.lastName} will sign in with their password only until they enroll again. Continue?`,
+      icon: 'pi pi-exclamation-triangle',
+      accept: () => {
+        this.twoFactorService.reset(user.id)
+          .pipe(takeUntil(this.destroy$))
+          .subscribe({
+            next: () => this.messageService.add({
+              severity: 'success',
+              summary: '2FA Reset',
+              detail: `Two-factor authentication was removed for ${user.firstName} ${user.lastName}`
+            }),
+            error: (error) => this.messageService.add({
+              severity: 'error',
+              summary: 'Error',
+              detail: error.message || 'Failed to reset two-factor authentication'
+            })
+          });
+      }
+    });
+  }
+
+  /**
+   * Mails a pending user a new invitation link
+   */
+  resendInvitation(user: User): void {
+    this.update({ sendingInvitation: user.id });
+    this.invitationService.sendInvitation(user.id)
+      .pipe(takeUntil(this.destroy$))
+      .subscribe({
+        next: () => {
+          this.update({ sendingInvitation: null });
+          this.messageService.add({
+            severity: 'success',
+            summary: 'Invitation Sent',
+            detail: `A new invitation was sent to ${user.email}; earlier links no longer work`
+          });
+        },
+        error: (error) => {
+          this.update({ sendingInvitation: null });
+          this.messageService.add({
+            severity: 'error',
+            summary: 'Error',
+            detail: error.message || 'Failed to send the invitation'
+          });
+        }
+      });
+  }
+
+  /**
+   * Revokes a pending user's open invitation with confirmation
+   */
+  revokeInvitation(user: User): void {
+    const invitation = this.getInvitation(user);
+    if (!invitation) {
+      return;
+    }
+
+    this.confirmationService.confirm({
+      header: 'Revoke Invitation',
+      message: `The invitation link sent to ${user.email} will stop working. You can send a new one later. Continue?`,
+      icon: 'pi pi-exclamation-triangle',
+      accept: () => {
+        this.invitationService.revokeInvitation(invitation)
+          .pipe(takeUntil(this.destroy$))
+          .subscribe({
+            next: () => this.messageService.add({
+              severity: 'success',
+              summary: 'Invitation Revoked',
+              detail: `${user.firstName} ${user.lastName} can no longer join with the link`
+            }),
+            error: (error) => this.messageService.add({
+              severity: 'error',
+              summary: 'Error',
+              detail: error.message || 'Failed to revoke the invitation'
+            })
+          });
+      }
+    });
+  }
+
+  private update(changes: Partial<UserAccountState>): void {
+    this.state$.next({ ...this.state$.value, ...changes });
+  }
+}
@@ -0,0 +1,212 @@
+import {
+  ChangeDetectionStrategy,
+  ChangeDetectorRef,
+  Component,
+  EventEmitter,
+  Input,
+  OnDestroy,
+  Output
+} from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { Observable, Subject } from 'rxjs';
+import { finalize, takeUntil } from 'rxjs/operators';
+
+// PrimeNG Imports
+import { ButtonModule } from 'primeng/button';
+import { DropdownModule } from 'primeng/dropdown';
+import { ProgressBarModule } from 'primeng/progressbar';
+import { DialogModule } from 'primeng/dialog';
+import { MessageModule } from 'primeng/message';
+import { TableModule } from 'primeng/table';
+import { ConfirmationService, MessageService } from 'primeng/api';
+
+import { UserService } from '../../../../core/user.service';
+import { BulkProgress, User } from '../../../../core/user.model';
+import { HasPermissionDirective } from '../../../../shared/has-permission/has-permission.directive';
+import { countOf, undoToast } from '../user-list.util';
+
+/**
+ * User Bulk Actions Component
+ * Toolbar of the user list shown while rows are checked: changes the status,
+ * role or department of the checked users or deletes them, with progress,
+ * and lists the users a bulk action failed for.
+ */
+@Component({
+  selector: 'app-user-bulk-actions',
+  standalone: true,
+  imports: [
+    CommonModule,
+    FormsModule,
+    ButtonModule,
+    DropdownModule,
+    ProgressBarModule,
+    DialogModule,
+    MessageModule,
+    TableModule,
+    HasPermissionDirective
+  ],
+  templateUrl: './user-bulk-actions.component.html',
+  styleUrl: './user-bulk-actions.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class UserBulkActionsComponent implements OnDestroy {
+  // Rows checked in the table; kept across pages
+  @Input() selection: User[] = [];
+  @Input() roleOptions: { label: string; value: string }[] = [];
+  @Input() departmentOptions: { label: string; value: string }[] = [];
+  @Output() selectionChange = new EventEmitter<User[]>();
+  // A bulk action finished, so the page shows outdated users
+  @Output() changed = new EventEmitter<void>();
+
+  bulkRole: string | null = null;
+  bulkDepartment: string | null = null;
+  // Progress of the running bulk action, and the outcome of one with failures
+  progress: BulkProgress | null = null;
+  summary: { action: string; progress: BulkProgress } | null = null;
+
+  private destroy$ = new Subject<void>();
+
+  constructor(
+    private userService: UserService,
+    private confirmationService: ConfirmationService,
+    private messageService: MessageService,
+    private cdr: ChangeDetectorRef
+  ) {}
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  /**
+   * Activates or deactivates the selected users
+   * Pending users are left alone; they become active by joining.
+   */
+  bulkSetStatus(status: 'active' | 'inactive'): void {
+    const users = this.selection.filter(u => u.status !== 'pending' && u.status !== status);
+    const action = status === 'active' ? 'Activated' : 'Deactivated';
+    this.confirmBulk(
+      users,
+      `${status === 'active' ? 'Activate' : 'Deactivate'} ${countOf(users.length)}?`,
+      () => this.runBulk(action, this.userService.bulkUpdate(users, { status }, action))
+    );
+  }
+
+  /**
+   * Gives the selected users the role picked in the toolbar
+   */
+  bulkChangeRole(role: string | null): void {
+    if (!role) {
+      return;
+    }
+
+    const users = this.selection.filter(u => u.role !== role);
+    const roleName = this.roleOptions.find(option => option.value === role)?.label ?? role;
+    this.confirmBulk(
+      users,
+      `Change the role of ${countOf(users.length)} to ${roleName}?`,
+      () => this.runBulk('Changed the role of', this.userService.bulkUpdate(users, { role }, 'Changed the role of'))
+    );
+    this.bulkRole = null;
+  }
+
+  /**
+   * Moves the selected users to the department picked in the toolbar
+   */
+  bulkChangeDepartment(department: string | null): void {
+    if (!department) {
+      return;
+    }
+
+    const users = this.selection.filter(u => u.department !== department);
+    this.confirmBulk(
+      users,
+      `Move ${countOf(users.length)} to ${department}?`,
+      () => this.runBulk('Moved', this.userService.bulkUpdate(users, { department }, 'Moved'))
+    );
+    this.bulkDepartment = null;
+  }
+
+  /**
+   * Moves the selected users to the trash
+   */
+  bulkDelete(): void {
+    const users = [...this.selection];
+    this.confirmBulk(
+      users,
+      `Move ${countOf(users.length)} to the trash?`,
+      () => this.runBulk('Deleted', this.userService.bulkDelete(users))
+    );
+  }
+
+  /**
+   * Share of the running bulk action that is done, in percent
+   */
+  getPercent(): number {
+    const progress = this.progress;
+    return progress?.total ? Math.round(progress.completed * 100 / progress.total) : 0;
+  }
+
+  clearSelection(): void {
+    this.selectionChange.emit([]);
+  }
+
+  private confirmBulk(users: User[], message: string, run: () => void): void {
+    if (users.length === 0) {
+      this.messageService.add({
+        severity: 'info',
+        summary: 'Nothing to Change',
+        detail: 'The selected users already match'
+      });
+      return;
+    }
+
+    this.confirmationService.confirm({
+      header: 'Bulk Action',
+      message,
+      icon: 'pi pi-exclamation-triangle',
+      accept: run
+    });
+  }
+
+  /**
+   * Follows a bulk action, then keeps the users it failed for selected
+   */
+  private runBulk(action: string, progress$: Observable<BulkProgress>): void {
+    this.summary = null;
+    progress$
+      .pipe(
+        finalize(() => {
+          this.progress = null;
+          this.changed.emit();
+          this.cdr.markForCheck();
+        }),
+        takeUntil(this.destroy$)
+      )
+      .subscribe({
+        next: (progress) => {
+          this.progress = progress;
+          this.cdr.markForCheck();
+        },
+        complete: () => {
+          const progress = this.progress!;
+          const failed = new Set(progress.failures.map(f => f.user.id));
+          this.selectionChange.emit(this.selection.filter(u => failed.has(u.id)));
+
+          if (progress.failures.length > 0) {
+            this.summary = { action, progress };
+          } else {
+            this.messageService.add(undoToast('Success', `${action} ${countOf(progress.succeeded)}`));
+          }
+        },
+        error: (error) => {
+          this.messageService.add({
+            severity: 'error',
+            summary: 'Error',
+            detail: error.message || 'The bulk action failed'
+          });
+        }
+      });
+  }
+}
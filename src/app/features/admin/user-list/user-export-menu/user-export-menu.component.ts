@@ -0,0 +1,130 @@
+import { ChangeDetectionStrategy, ChangeDetectorRef, Component, Input, OnDestroy } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { Subject } from 'rxjs';
+import { finalize, map, switchMap, takeUntil } from 'rxjs/operators';
+
+// PrimeNG Imports
+import { ButtonModule } from 'primeng/button';
+import { MenuModule } from 'primeng/menu';
+import { MenuItem, MessageService } from 'primeng/api';
+
+import { UserService } from '../../../../core/user.service';
+import { UserExportService } from '../../../../core/user-export.service';
+import { ExportColumn, ExportFormat, UserFilter, UserSort } from '../../../../core/user.model';
+import { USER_COLUMNS, countOf, describeUserQuery } from '../user-list.util';
+
+/**
+ * User Export Menu Component
+ * Export button of the user list: every user matching the filters, in table
+ * order, with the visible columns, as CSV, Excel or PDF.
+ */
+@Component({
+  selector: 'app-user-export-menu',
+  standalone: true,
+  imports: [CommonModule, ButtonModule, MenuModule],
+  templateUrl: './user-export-menu.component.html',
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class UserExportMenuComponent implements OnDestroy {
+  @Input() filter: UserFilter = {};
+  // Sort order of the table; none ranks searches by relevance
+  @Input() sort: UserSort | undefined;
+  // Keys of the visible columns
+  @Input() columns: string[] = [];
+  // Role names by id, to export roles by name
+  @Input() roleNames: Record<string, string> = {};
+
+  exportItems: MenuItem[] = [
+    { label: 'CSV', icon: 'pi pi-file', command: () => this.exportUsers('csv') },
+    { label: 'Excel', icon: 'pi pi-file-excel', command: () => this.exportUsers('xlsx') },
+    { label: 'PDF', icon: 'pi pi-file-pdf', command: () => this.exportUsers('pdf') }
+  ];
+  exporting = false;
+
+  private destroy$ = new Subject<void>();
+
+  constructor(
+    private userService: UserService,
+    private userExport: UserExportService,
+    private messageService: MessageService,
+    private cdr: ChangeDetectorRef
+  ) {}
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  /**
+   * Exports every user matching the filters, in table order, with the visible columns
+   */
+  exportUsers(format: ExportFormat): void {
+    const columns = this.getExportColumns();
+    const criteria = this.getFilterCriteria();
+    this.exporting = true;
+    this.cdr.markForCheck();
+
+    this.userService.getFilteredUsers(this.filter, this.sort)
+      .pipe(
+        switchMap(users => this.userExport.export(format, { users, columns, criteria, exportedAt: new Date() }).pipe(
+          map(() => users.length)
+        )),
+        finalize(() => {
+          this.exporting = false;
+          this.cdr.markForCheck();
+        }),
+        takeUntil(this.destroy$)
+      )
+      .subscribe({
+        next: (count) => this.messageService.add({
+          severity: 'success',
+          summary: 'Exported',
+          detail: `Exported ${countOf(count)}`
+        }),
+        error: (error) => this.messageService.add({
+          severity: 'error',
+          summary: 'Error',
+          detail: error.message || 'Failed to export users'
+        })
+      });
+  }
+
+  /**
+   * Exported columns of the visible table columns, in table order
+   */
+  private getExportColumns(): ExportColumn[] {
+    const exportColumns: Record<string, ExportColumn[]> = {
+      user: [
+        { header: 'Name', value: user => `${user.firstName} ${user.lastName}`.trim() },
+        { header: 'Username', value: user => user.username }
+      ],
+      email: [{ header: 'Email', value: user => user.email }],
+      department: [{ header: 'Department', value: user => user.department ?? '' }],
+      role: [{ header: 'Role', value: user => this.roleNames[user.role] ?? user.role }],
+      status: [{ header: 'Status', value: user => user.status }],
+      joinDate: [{ header: 'Join Date', value: user => user.joinDate ?? '' }]
+    };
+
+    return USER_COLUMNS
+      .filter(column => this.columns.includes(column.key))
+      .flatMap(column => exportColumns[column.key]);
+  }
+
+  /**
+   * Filters and sort order as written above exports
+   */
+  private getFilterCriteria(): { label: string; value: string }[] {
+    const { searchTerm = '', role, status, department, query } = this.filter;
+    const sort = this.sort;
+    const sortColumn = USER_COLUMNS.find(column => column.sortField === sort?.field);
+
+    return [
+      { label: 'Search', value: searchTerm.trim() ? `"${searchTerm.trim()}"` : 'None' },
+      { label: 'Role', value: role ? this.roleNames[role] ?? role : 'All roles' },
+      { label: 'Status', value: status ?? 'All statuses' },
+      { label: 'Department', value: department || 'All departments' },
+      { label: 'Query', value: query ? describeUserQuery(query, this.roleNames) : 'None' },
+      { label: 'Sorted by', value: sort ? `${sortColumn?.header ?? sort.field} (${sort.order === 'asc' ? 'ascending' : 'descending'})` : 'Relevance' }
+    ];
+  }
+}
@@ -0,0 +1,116 @@
+import {
+  ChangeDetectionStrategy,
+  ChangeDetectorRef,
+  Component,
+  EventEmitter,
+  OnDestroy,
+  OnInit,
+  Output
+} from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { Observable, Subject } from 'rxjs';
+import { takeUntil } from 'rxjs/operators';
+
+// PrimeNG Imports
+import { ButtonModule } from 'primeng/button';
+import { SidebarModule } from 'primeng/sidebar';
+import { TooltipModule } from 'primeng/tooltip';
+import { MessageService } from 'primeng/api';
+
+import { UserHistoryService } from '../../../../core/user-history.service';
+import { UserHistory, UserHistoryEntry } from '../../../../core/user.model';
+import { HasPermissionDirective } from '../../../../shared/has-permission/has-permission.directive';
+
+/**
+ * User History Controls Component
+ * Undo and redo buttons of the user list header, and the panel with the
+ * changes made to users that can be undone and redone.
+ */
+@Component({
+  selector: 'app-user-history-controls',
+  standalone: true,
+  imports: [CommonModule, ButtonModule, SidebarModule, TooltipModule, HasPermissionDirective],
+  templateUrl: './user-history-controls.component.html',
+  styleUrl: './user-history-controls.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class UserHistoryControlsComponent implements OnInit, OnDestroy {
+  // A change was undone or redone, so the page shows outdated users
+  @Output() changed = new EventEmitter<void>();
+
+  history: UserHistory = { undo: [], redo: [], busy: false };
+  showPanel = false;
+
+  private destroy$ = new Subject<void>();
+
+  constructor(
+    private userHistory: UserHistoryService,
+    private messageService: MessageService,
+    private cdr: ChangeDetectorRef
+  ) {}
+
+  ngOnInit(): void {
+    this.userHistory.getHistory()
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(history => {
+        this.history = history;
+        this.cdr.markForCheck();
+      });
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  /**
+   * Reverts the newest change to users
+   */
+  undo(): void {
+    this.runHistory(this.userHistory.undo(), 'Undone');
+  }
+
+  /**
+   * Applies the newest undone change again
+   */
+  redo(): void {
+    this.runHistory(this.userHistory.redo(), 'Redone');
+  }
+
+  /**
+   * Gets the icon of a change in the history panel
+   */
+  getHistoryIcon(entry: UserHistoryEntry): string {
+    const icons: Record<UserHistoryEntry['kind'], string> = {
+      create: 'pi-user-plus',
+      update: 'pi-pencil',
+      delete: 'pi-trash',
+      bulk: 'pi-users'
+    };
+    return icons[entry.kind];
+  }
+
+  private runHistory(step: Observable<UserHistoryEntry> | null, summary: string): void {
+    if (!step) {
+      return;
+    }
+
+    this.messageService.clear();
+    step.pipe(takeUntil(this.destroy$))
+      .subscribe({
+        next: (entry) => {
+          this.messageService.add({
+            severity: 'info',
+            summary,
+            detail: entry.label
+          });
+          this.changed.emit();
+        },
+        error: (error) => this.messageService.add({
+          severity: 'error',
+          summary: 'Error',
+          detail: error.message || `Failed to ${summary === 'Undone' ? 'undo' : 'redo'} the change`
+        })
+      });
+  }
+}
@@ -0,0 +1,150 @@
+import {
+  ChangeDetectionStrategy,
+  ChangeDetectorRef,
+  Component,
+  EventEmitter,
+  Input,
+  OnChanges,
+  OnDestroy,
+  Output,
+  SimpleChanges
+} from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormBuilder, FormGroup, ReactiveFormsModule, Validators } from '@angular/forms';
+import { Router } from '@angular/router';
+import { Subject } from 'rxjs';
+import { takeUntil } from 'rxjs/operators';
+
+// PrimeNG Imports
+import { DialogModule } from 'primeng/dialog';
+import { ButtonModule } from 'primeng/button';
+import { InputTextModule } from 'primeng/inputtext';
+import { DropdownModule } from 'primeng/dropdown';
+import { CheckboxModule } from 'primeng/checkbox';
+import { MessageService } from 'primeng/api';
+
+import { AuthService } from '../../../../core/auth.service';
+import { User } from '../../../../core/user.model';
+
+/**
+ * User Impersonation Dialog Component
+ * Dialog opened from the user list that asks for the reason, duration and
+ * mode of viewing the app as a user (requires users.impersonate).
+ */
+@Component({
+  selector: 'app-user-impersonation-dialog',
+  standalone: true,
+  imports: [
+    CommonModule,
+    ReactiveFormsModule,
+    DialogModule,
+    ButtonModule,
+    InputTextModule,
+    DropdownModule,
+    CheckboxModule
+  ],
+  templateUrl: './user-impersonation-dialog.component.html',
+  styleUrl: './user-impersonation-dialog.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class UserImpersonationDialogComponent implements OnChanges, OnDestroy {
+  @Input() visible = false;
+  @Input() user: User | null = null;
+  @Output() visibleChange = new EventEmitter<boolean>();
+
+  impersonationForm: FormGroup;
+  durationOptions: { label: string; value: number }[];
+  starting = false;
+
+  private destroy$ = new Subject<void>();
+
+  constructor(
+    private authService: AuthService,
+    private messageService: MessageService,
+    private router: Router,
+    private cdr: ChangeDetectorRef,
+    private fb: FormBuilder
+  ) {
+    const { maxDurationMinutes } = this.authService.getImpersonationConfig();
+
+    // Limited to the configured durations
+    this.durationOptions = [15, 30, 60, 120, 240, 480]
+      .filter(minutes => minutes <= maxDurationMinutes)
+      .map(minutes => ({ label: minutes < 60 ? `${minutes} minutes` : `${minutes / 60} hour(s)`, value: minutes }));
+
+    this.impersonationForm = this.fb.group({
+      reason: ['', [Validators.required, Validators.minLength(5), Validators.maxLength(500)]],
+      readOnly: [true],
+      durationMinutes: [this.getDefaultDuration(), Validators.required]
+    });
+  }
+
+  ngOnChanges(changes: SimpleChanges): void {
+    if (changes['visible'] && this.visible) {
+      this.starting = false;
+      this.impersonationForm.reset({
+        reason: '',
+        readOnly: true,
+        durationMinutes: this.getDefaultDuration()
+      });
+    }
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  /**
+   * Impersonates the user (requires the users.impersonate permission)
+   * The session is audited with the typed reason and ends automatically.
+   */
+  impersonateUser(): void {
+    const user = this.user;
+    if (!user || this.impersonationForm.invalid) {
+      this.impersonationForm.markAllAsTouched();
+      return;
+    }
+
+    this.starting = true;
+    this.authService.impersonateUser(user, this.impersonationForm.value)
+      .pipe(takeUntil(this.destroy$))
+      .subscribe({
+        next: () => {
+          this.close();
+          this.messageService.add({
+            severity: 'success',
+            summary: 'Impersonating',
+            detail: `Now viewing as ${user.firstName} ${user.lastName}`
+          });
+          this.router.navigate(['/user']);
+        },
+        error: (error) => {
+          this.messageService.add({
+            severity: 'error',
+            summary: 'Error',
+            detail: error.message || 'Failed to impersonate user'
+          });
+          this.starting = false;
+          this.cdr.markForCheck();
+        }
+      });
+  }
+
+  /**
+   * Checks if a form field has an error
+   */
+  hasError(fieldName: string): boolean {
+    const field = this.impersonationForm.get(fieldName);
+    return !!(field && field.invalid && field.touched);
+  }
+
+  close(): void {
+    this.visibleChange.emit(false);
+  }
+
+  private getDefaultDuration(): number {
+    const { defaultDurationMinutes, maxDurationMinutes } = this.authService.getImpersonationConfig();
+    return Math.min(defaultDurationMinutes, maxDurationMinutes);
+  }
+}
@@ -1,11 +1,12 @@
 import { Component, OnInit, OnDestroy, ChangeDetectionStrategy, ChangeDetectorRef } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { FormsModule, ReactiveFormsModule, FormBuilder, FormGroup, Validators } from '@angular/forms';
-import { Subject } from 'rxjs';
-import { takeUntil } from 'rxjs/operators';
+import { ActivatedRoute, Params, Router } from '@angular/router';
+import { Subject, of } from 'rxjs';
+import { catchError, debounceTime, distinctUntilChanged, finalize, map, skip, switchMap, takeUntil, tap } from 'rxjs/operators';
 
 // PrimeNG Imports
-import { TableModule } from 'primeng/table';
+import { TableLazyLoadEvent, TableModule } from 'primeng/table';
 import { ButtonModule } from 'primeng/button';
 import { InputTextModule } from 'primeng/inputtext';
 import { DropdownModule } from 'primeng/dropdown';
@@ -15,13 +16,38 @@ import { ToastModule } from 'primeng/toast';
 import { DialogModule } from 'primeng/dialog';
 import { TooltipModule } from 'primeng/tooltip';
 import { CalendarModule } from 'primeng/calendar';
+import { SelectButtonModule } from 'primeng/selectbutton';
+import { MultiSelectModule } from 'primeng/multiselect';
 
 import { ConfirmationService, MessageService } from 'primeng/api';
 
 import { UserService } from '../../../core/user.service';
-import { AuthService } from '../../../core/auth.service';
-import { User, UserFilter } from '../../../core/user.model';
-
+import { SyncStatusService } from '../../../core/sync-status.service';
+import { PermissionService } from '../../../core/permission.service';
+import { InvitationService } from '../../../core/invitation.service';
+import { ErrorHandlingService, VersionConflictError } from '../../../core/error-handling.service';
+import { filterToParams, paramsToFilter } from '../../../core/user-query.util';
+import { QueryGroup, Role, SavedFilter, User, UserFilter, UserId, UserPage, UserSort, UserStatus } from '../../../core/user.model';
+import { HasPermissionDirective } from '../../../shared/has-permission/has-permission.directive';
+import { UserSessionsComponent } from '../user-sessions/user-sessions.component';
+import { UserImpersonationDialogComponent } from './user-impersonation-dialog/user-impersonation-dialog.component';
+import { UserAccountTagsComponent } from './user-account-tags/user-account-tags.component';
+import { UserAccountActionsComponent } from './user-account-actions/user-account-actions.component';
+import { UserAccountsService } from './user-accounts.service';
+import { UserConflict, createConflict, mergeConflict, toFormValue } from './user-merge.util';
+import { UserMergeViewComponent } from './user-merge-view/user-merge-view.component';
+import { UserHistoryControlsComponent } from './user-history-controls/user-history-controls.component';
+import { UserBulkActionsComponent } from './user-bulk-actions/user-bulk-actions.component';
+import { UserExportMenuComponent } from './user-export-menu/user-export-menu.component';
+import { UserQueryPanelComponent } from './user-query-panel/user-query-panel.component';
+import { UserSavedFiltersComponent } from './user-saved-filters/user-saved-filters.component';
+import { USER_COLUMNS, undoToast } from './user-list.util';
+import { UserTrashComponent } from '../user-trash/user-trash.component';
+import { QueryValueOptions } from '../user-query-builder/user-query-builder.component';
+import { USER_FIELD_VALIDATORS, describeFieldError } from '../../../shared/validators/user-fields.validators';
+import { HighlightComponent } from '../../../shared/highlight/highlight.component';
+
+const DEFAULT_SORT: UserSort = { field: 'firstName', order: 'asc' };
 
 @Component({
   selector: 'app-user-list',
@@ -39,22 +65,44 @@ import { User, UserFilter } from '../../../core/user.model';
     ToastModule,
     DialogModule,
     TooltipModule,
-    CalendarModule
+    CalendarModule,
+    SelectButtonModule,
+    MultiSelectModule,
+    HasPermissionDirective,
+    UserImpersonationDialogComponent,
+    UserAccountTagsComponent,
+    UserAccountActionsComponent,
+    UserMergeViewComponent,
+    UserHistoryControlsComponent,
+    UserBulkActionsComponent,
+    UserExportMenuComponent,
+    UserQueryPanelComponent,
+    UserSavedFiltersComponent,
+    UserSessionsComponent,
+    UserTrashComponent,
+    HighlightComponent
   ],
-  providers: [ConfirmationService, MessageService],
+  // The account service shows its confirmations and messages here
+  providers: [ConfirmationService, MessageService, UserAccountsService],
   templateUrl: './user-list.component.html',
   styleUrl: './user-list.component.scss',
   changeDetection: ChangeDetectionStrategy.OnPush
 })
 export class UserListComponent implements OnInit, OnDestroy {
+  // Current page of users; the table loads pages lazily from the server
   users: User[] = [];
-  filteredUsers: User[] = [];
   loading = false;
 
   // Table state
   first = 0;
   rows = 10;
   totalRecords = 0;
+  // Column the admin sorted by; otherwise searches are ranked by relevance
+  // and everything else is sorted by name
+  sort: UserSort | null = null;
+
+  // Matched ranges of the current page's users, by user id and field
+  searchMatches = new Map<UserId, Partial<Record<keyof User | 'name', [number, number][]>>>();
 
   // Search and filters
   globalSearchTerm = '';
@@ -62,17 +110,32 @@ export class UserListComponent implements OnInit, OnDestroy {
   selectedStatus: string | null = null;
   selectedDepartment: string | null = null;
 
+  // Query of the query builder, on top of the filters
+  query: QueryGroup | undefined;
+  showQueryBuilder = false;
+  queryOptions: QueryValueOptions = { role: [], status: [], department: [] };
+
+  // Applied saved filter of the admin, until the filters change
+  activeSavedFilter: SavedFilter | null = null;
+
+  // Filters and sort order of the shown page, for exports and saved filters
+  pageFilter: UserFilter = {};
+  pageSort: UserSort | undefined;
+
+  // Columns shown in the table and in exports
+  readonly columns = [...USER_COLUMNS];
+  visibleColumns: string[] = USER_COLUMNS.map(column => column.key);
+
   // Dropdowns data
-  roles = [
-    { label: 'All Roles', value: null },
-    { label: 'Admin', value: 'admin' },
-    { label: 'User', value: 'user' }
+  roles: { label: string; value: string | null }[] = [
+    { label: 'All Roles', value: null }
   ];
 
   statuses = [
     { label: 'All Statuses', value: null },
     { label: 'Active', value: 'active' },
-    { label: 'Inactive', value: 'inactive' }
+    { label: 'Inactive', value: 'inactive' },
+    { label: 'Pending', value: 'pending' }
   ];
 
   departments: { label: string; value: string | null }[] = [];
@@ -84,11 +147,12 @@ export class UserListComponent implements OnInit, OnDestroy {
   userForm!: FormGroup;
   submittingForm = false;
 
+  // Set when the edited user was saved by someone else while the dialog was open
+  conflict: UserConflict | null = null;
+
   // Form dropdown options
-  roleOptions = [
-    { label: 'Admin', value: 'admin' },
-    { label: 'User', value: 'user' }
-  ];
+  roleOptions: { label: string; value: string }[] = [];
+  roleNames: Record<string, string> = {};
 
   statusOptions = [
     { label: 'Active', value: 'active' },
@@ -97,15 +161,42 @@ export class UserListComponent implements OnInit, OnDestroy {
 
   departmentOptions: { label: string; value: string }[] = [];
 
+  // How a new user gets their first password
+  onboardingOptions = [
+    { label: 'Send Invitation', value: 'invite' },
+    { label: 'Set Password', value: 'password' }
+  ];
+
+  // Rows checked for bulk actions; kept across pages
+  selectedUsers: User[] = [];
+
+  // Trash dialog state
+  showTrashDialog = false;
+
+  // Sessions dialog state
+  showSessionsDialog = false;
+  sessionsUser: User | null = null;
+
+  // Impersonation dialog state
+  showImpersonationDialog = false;
+  impersonationTarget: User | null = null;
+
   // Helper for template
   maxDate = new Date();
 
+  private pageRequests$ = new Subject<void>();
+  private searchTerms$ = new Subject<string>();
   private destroy$ = new Subject<void>();
 
   constructor(
     private userService: UserService,
-    private authService: AuthService,
-    private confirmationService: ConfirmationService,
+    private syncStatusService: SyncStatusService,
+    private permissionService: PermissionService,
+    private accounts: UserAccountsService,
+    private invitationService: InvitationService,
+    private errorHandler: ErrorHandlingService,
+    private router: Router,
+    private route: ActivatedRoute,
     private messageService: MessageService,
     private cdr: ChangeDetectorRef,
     private fb: FormBuilder
@@ -113,8 +204,13 @@ export class UserListComponent implements OnInit, OnDestroy {
 
   ngOnInit(): void {
     this.initForm();
+    this.restoreView(this.route.snapshot.queryParams);
     this.loadUsers();
     this.loadDepartments();
+    this.loadRoles();
+    this.watchAccounts();
+    this.watchInvalidUsers();
+    this.watchConnection();
   }
 
   /**
@@ -122,17 +218,24 @@ export class UserListComponent implements OnInit, OnDestroy {
    */
   initForm(): void {
     this.userForm = this.fb.group({
-      name: ['', [Validators.required, Validators.minLength(3)]],
-      email: ['', [Validators.required, Validators.email]],
-      username: ['', [Validators.required, Validators.minLength(3)]],
-      role: ['user', Validators.required],
-      status: ['active', Validators.required],
-      department: ['', Validators.required],
-      phone: ['', [Validators.pattern(/^[\d\s\-\+\(\)]+$/)]],
+      name: ['', USER_FIELD_VALIDATORS.name],
+      email: ['', USER_FIELD_VALIDATORS.email],
+      username: ['', USER_FIELD_VALIDATORS.username],
+      onboarding: ['invite'],
+      password: [''],
+      role: ['user', USER_FIELD_VALIDATORS.role],
+      status: ['active', USER_FIELD_VALIDATORS.status],
+      department: ['', USER_FIELD_VALIDATORS.department],
+      phone: ['', USER_FIELD_VALIDATORS.phone],
       address: [''],
       dateOfBirth: [null],
-      bio: ['', [Validators.maxLength(500)]]
+      bio: ['', USER_FIELD_VALIDATORS.bio]
     });
+
+    // Invited users choose their password themselves
+    this.userForm.get('onboarding')!.valueChanges
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(onboarding => this.setPasswordRequired(this.dialogMode === 'add' && onboarding === 'password'));
   }
 
   ngOnDestroy(): void {
@@ -141,33 +244,162 @@ export class UserListComponent implements OnInit, OnDestroy {
   }
 
   /**
-   * Loads all users from service
+   * Loads the requested page whenever the table, filters or data change
+   * Newer requests cancel the pending one.
    */
   private loadUsers(): void {
-    this.loading = true;
-    
-    this.userService.getUsers()
-      .pipe(takeUntil(this.destroy$))
-      .subscribe({
-        next: (users) => {
-          this.users = users;
-          this.applyFilters();
-          this.loading = false;
-          this.cdr.markForCheck();
-        },
-        error: (error) => {
-          console.error('Error loading users:', error);
-          this.messageService.add({
-            severity: 'error',
-            summary: 'Error',
-            detail: 'Failed to load users'
-          });
-          this.loading = false;
+    this.pageRequests$
+      .pipe(
+        tap(() => {
+          this.pageFilter = this.getFilter();
+          this.pageSort = this.getSort();
+          this.updateUrl();
+        }),
+        switchMap(() => {
+          this.loading = true;
           this.cdr.markForCheck();
+          return this.userService.getPaginatedUsers(this.first / this.rows + 1, this.rows, this.getFilter(), this.getSort()).pipe(
+            catchError(error => {
+              console.error('Error loading users:', error);
+              this.messageService.add({
+                severity: 'error',
+                summary: 'Error',
+                detail: 'Failed to load users'
+              });
+              return of(null);
+            }),
+            finalize(() => {
+              this.loading = false;
+              this.cdr.markForCheck();
+            })
+          );
+        }),
+        takeUntil(this.destroy$)
+      )
+      .subscribe(page => {
+        if (!page) {
+          return;
         }
+
+        // Step back when the last user of the last page was removed
+        if (page.data.length === 0 && page.total > 0 && this.first > 0) {
+          this.first = (page.totalPages - 1) * this.rows;
+          this.pageRequests$.next();
+          return;
+        }
+
+        this.users = page.data;
+        this.totalRecords = page.total;
+        this.searchMatches = this.toSearchMatches(page);
+      });
+
+    this.searchTerms$
+      .pipe(debounceTime(300), takeUntil(this.destroy$))
+      .subscribe(() => this.applyFilters());
+  }
+
+  /**
+   * Reloads the page when the server becomes reachable again or goes away,
+   * switching between server and cached results
+   */
+  private watchConnection(): void {
+    this.syncStatusService.getSyncStatus()
+      .pipe(
+        map(status => status.online),
+        distinctUntilChanged(),
+        skip(1),
+        takeUntil(this.destroy$)
+      )
+      .subscribe(() => this.reloadPage());
+  }
+
+  /**
+   * Tells the admin when users from the server failed validation and are hidden
+   */
+  private watchInvalidUsers(): void {
+    this.errorHandler.getPayloadErrors()
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(error => {
+        if (error.resource !== 'user') {
+          return;
+        }
+
+        const count = error.rejectedIds.length;
+        this.messageService.add({
+          severity: 'warn',
+          summary: 'Invalid User Data',
+          detail: `${count} user record${count === 1 ? '' : 's'} from the server ${count === 1 ? 'is' : 'are'} malformed and not shown. See the console for details.`
+        });
+        this.cdr.markForCheck();
       });
   }
 
+  /**
+   * Handles paging and sorting of the lazy table
+   */
+  onLazyLoad(event: TableLazyLoadEvent): void {
+    this.first = event.first ?? 0;
+    this.rows = event.rows ?? this.rows;
+    if (typeof event.sortField === 'string') {
+      this.sort = { field: event.sortField as keyof User, order: event.sortOrder === -1 ? 'desc' : 'asc' };
+    }
+    this.pageRequests$.next();
+  }
+
+  /**
+   * Applies the filters, sort order, page and columns of a link
+   */
+  private restoreView(params: Params): void {
+    const filter = paramsToFilter(params);
+    this.globalSearchTerm = filter.searchTerm ?? '';
+    this.selectedRole = filter.role ?? null;
+    this.selectedStatus = filter.status ?? null;
+    this.selectedDepartment = filter.department ?? null;
+    this.query = filter.query;
+
+    const [field, order] = String(params['sort'] ?? '').split(':');
+    if (USER_COLUMNS.some(column => column.sortField === field)) {
+      this.sort = { field: field as keyof User, order: order === 'desc' ? 'desc' : 'asc' };
+    }
+
+    const rows = Number(params['rows']);
+    if ([10, 25, 50].includes(rows)) {
+      this.rows = rows;
+    }
+    const page = Number(params['page']);
+    if (Number.isInteger(page) && page > 1) {
+      this.first = (page - 1) * this.rows;
+    }
+
+    if (typeof params['columns'] === 'string') {
+      const keys = params['columns'].split(',');
+      this.visibleColumns = USER_COLUMNS.map(column => column.key).filter(key => keys.includes(key));
+    }
+  }
+
+  /**
+   * Keeps the URL in line with the view, so a link reproduces it
+   * Defaults are left out.
+   */
+  updateUrl(): void {
+    const queryParams: Params = {
+      ...filterToParams(this.getFilter()),
+      sort: this.sort ? `${this.sort.field}:${this.sort.order}` : null,
+      page: this.first > 0 ? this.first / this.rows + 1 : null,
+      rows: this.rows === 10 ? null : this.rows,
+      columns: this.visibleColumns.length === USER_COLUMNS.length ? null : this.visibleColumns.join(',')
+    };
+
+    this.router.navigate([], { relativeTo: this.route, queryParams, replaceUrl: true });
+  }
+
+  /**
+   * Reloads the current page, e.g. after a user was changed
+   */
+  reloadPage(): void {
+    this.pageRequests$.next();
+  }
+
   /**
    * Loads departments for filter dropdown
    */
@@ -181,34 +413,107 @@ export class UserListComponent implements OnInit, OnDestroy {
             ...departments.map(d => ({ label: d, value: d }))
           ];
           this.departmentOptions = departments.map(d => ({ label: d, value: d }));
+          this.updateQueryOptions();
           this.cdr.markForCheck();
         }
       });
   }
 
   /**
-   * Applies all filters to the user list
+   * Loads the editable roles for the role filter and form dropdowns
+   */
+  private loadRoles(): void {
+    this.permissionService.getRoles()
+      .pipe(takeUntil(this.destroy$))
+      .subscribe((roles: Role[]) => {
+        this.roleOptions = roles.map(role => ({ label: role.name, value: role.id }));
+        this.roles = [{ label: 'All Roles', value: null }, ...this.roleOptions];
+        this.roleNames = Object.fromEntries(roles.map(role => [role.id, role.name]));
+        this.updateQueryOptions();
+        this.cdr.markForCheck();
+      });
+  }
+
+  /**
+   * Refreshes the locked count and invitation hints as accounts change
+   */
+  private watchAccounts(): void {
+    this.accounts.getState()
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(() => this.cdr.markForCheck());
+  }
+
+  /**
+   * Gets the number of accounts locked after too many failed logins
+   */
+  getLockedCount(): number {
+    return this.accounts.getLockedCount();
+  }
+
+  /**
+   * Describes where a pending user's invitation stands
+   */
+  getInvitationHint(user: User): string {
+    return this.accounts.getInvitationHint(user);
+  }
+
+  /**
+   * Applies all filters to the user list, starting over at the first page
    */
   applyFilters(): void {
-    const filter: UserFilter = {
+    this.activeSavedFilter = null;
+    this.first = 0;
+    this.pageRequests$.next();
+  }
+
+  /**
+   * Handles global search input
+   */
+  onGlobalSearch(event: Event): void {
+    this.searchTerms$.next((event.target as HTMLInputElement).value);
+  }
+
+  /**
+   * Current filter criteria
+   */
+  private getFilter(): UserFilter {
+    return {
       searchTerm: this.globalSearchTerm,
-      role: this.selectedRole as any,
-      status: this.selectedStatus as any,
-      department: this.selectedDepartment || undefined
+      role: this.selectedRole ?? undefined,
+      status: (this.selectedStatus as UserStatus | null) ?? undefined,
+      department: this.selectedDepartment || undefined,
+      query: this.query
     };
+  }
 
-    this.filteredUsers = this.userService.filterUsers(filter);
-    this.totalRecords = this.filteredUsers.length;
-    this.cdr.markForCheck();
+  /**
+   * Sort order sent to the server; none ranks searches by relevance
+   */
+  private getSort(): UserSort | undefined {
+    return this.sort ?? (this.globalSearchTerm.trim() ? undefined : DEFAULT_SORT);
   }
 
   /**
-   * Handles global search input
+   * Search matches of a page by user, with the first and last name matches
+   * combined for the name shown in the table
    */
-  onGlobalSearch(event: Event): void {
-    const value = (event.target as HTMLInputElement).value;
-    this.globalSearchTerm = value;
-    this.applyFilters();
+  private toSearchMatches(page: UserPage): Map<UserId, Partial<Record<keyof User | 'name', [number, number][]>>> {
+    return new Map(page.data.map(user => {
+      const matches = page.matches[user.id] ?? {};
+      const offset = user.firstName.length + 1;
+      const name = [
+        ...(matches.firstName ?? []),
+        ...(matches.lastName ?? []).map(([start, end]): [number, number] => [start + offset, end + offset])
+      ];
+      return [user.id, { ...matches, name }];
+    }));
+  }
+
+  /**
+   * Ranges of a field the search matched, for highlighting
+   */
+  getMatches(user: User, field: keyof User | 'name'): [number, number][] {
+    return this.searchMatches.get(user.id)?.[field] ?? [];
   }
 
   /**
@@ -219,7 +524,57 @@ export class UserListComponent implements OnInit, OnDestroy {
     this.selectedRole = null;
     this.selectedStatus = null;
     this.selectedDepartment = null;
+    this.query = undefined;
+    this.applyFilters();
+  }
+
+  /**
+   * Applies the query of the query builder, keeping the other filters
+   */
+  onQueryChange(query: QueryGroup | undefined): void {
+    this.query = query;
+    this.showQueryBuilder = false;
+    this.applyFilters();
+  }
+
+  /**
+   * Refreshes the dropdown values of the query builder
+   */
+  private updateQueryOptions(): void {
+    this.queryOptions = {
+      role: this.roleOptions,
+      status: this.statuses.filter((status): status is { label: string; value: string } => status.value !== null),
+      department: this.departmentOptions
+    };
+  }
+
+  /**
+   * Shows the users of a saved filter
+   */
+  applySavedFilter(saved: SavedFilter): void {
+    this.globalSearchTerm = saved.filter.searchTerm ?? '';
+    this.selectedRole = saved.filter.role ?? null;
+    this.selectedStatus = saved.filter.status ?? null;
+    this.selectedDepartment = saved.filter.department ?? null;
+    this.query = saved.filter.query;
+    this.showQueryBuilder = false;
     this.applyFilters();
+    this.activeSavedFilter = saved;
+  }
+
+  /**
+   * Whether a data column is shown
+   */
+  isColumnVisible(key: string): boolean {
+    return this.visibleColumns.includes(key);
+  }
+
+  /**
+   * Columns of the table, for the colspan of full-width rows
+   */
+  getColspan(): number {
+    // Selection and actions columns, plus the visible data columns
+    return this.visibleColumns.length + 2;
   }
 
   /**
@@ -228,7 +583,9 @@ export class UserListComponent implements OnInit, OnDestroy {
   addUser(): void {
     this.dialogMode = 'add';
     this.selectedUser = null;
+    this.userForm.get('status')?.enable();
     this.userForm.reset({
+      onboarding: 'invite',
       role: 'user',
       status: 'active'
     });
@@ -242,21 +599,18 @@ export class UserListComponent implements OnInit, OnDestroy {
   editUser(user: User): void {
     this.dialogMode = 'edit';
     this.selectedUser = user;
+    this.setPasswordRequired(false);
+
+    // Pending users become active by accepting their invitation
+    if (user.status === 'pending') {
+      this.userForm.get('status')?.disable();
+    } else {
+      this.userForm.get('status')?.enable();
+    }
     
     // Populate form with user data
-    this.userForm.patchValue({
-      name: `${user.firstName} ${user.lastName}`.trim(),
-      email: user.email,
-      username: user.username,
-      role: user.role,
-      status: user.status,
-      department: user.department || '',
-      phone: user.phone || '',
-      address: user.address || '',
-      dateOfBirth: user.dateOfBirth ? new Date(user.dateOfBirth) : null,
-      bio: ''
-    });
-    
+    this.userForm.patchValue({ ...toFormValue(user), bio: '' });
+
     this.showUserDialog = true;
     this.cdr.markForCheck();
   }
@@ -270,16 +624,8 @@ export class UserListComponent implements OnInit, OnDestroy {
         .pipe(takeUntil(this.destroy$))
         .subscribe({
           next: () => {
-            this.messageService.add({
-              severity: 'success',
-              summary: 'Deleted',
-              detail: 'User deleted successfully',
-              life: 5000,
-              sticky: false,
-              closable: true,
-              key: 'undo',
-              data: { userId: user.id }
-            });
+            this.showChangeToast('Deleted', 'User moved to the trash');
+            this.reloadPage();
             this.cdr.markForCheck();
           },
           error: (error) => {
@@ -294,30 +640,29 @@ export class UserListComponent implements OnInit, OnDestroy {
   }
 
   /**
-   * Undoes the last delete operation
+   * Shows a user taken out of the trash
    */
-  undoDelete(): void {
-    const undoResult = this.userService.undoDelete();
-    if (undoResult) {
-      undoResult.pipe(takeUntil(this.destroy$))
-        .subscribe({
-          next: () => {
-            this.messageService.add({
-              severity: 'info',
-              summary: 'Restored',
-              detail: 'User has been restored'
-            });
-            this.cdr.markForCheck();
-          },
-          error: (error) => {
-            this.messageService.add({
-              severity: 'error',
-              summary: 'Error',
-              detail: 'Failed to restore user'
-            });
-            this.cdr.markForCheck();
-          }
-        });
+  onUserRestored(user: User): void {
+    this.messageService.add({
+      severity: 'info',
+      summary: 'Restored',
+      detail: `${user.firstName} ${user.lastName} was restored`
+    });
+    this.reloadPage();
+  }
+
+  /**
+   * Confirms a change; changes queued while offline have no undo
+   */
+  private showChangeToast(summary: string, detail: string): void {
+    if (this.syncStatusService.isOffline()) {
+      this.messageService.add({
+        severity: 'info',
+        summary: 'Saved Offline',
+        detail: 'The server is unreachable; the change will be sent once it is back'
+      });
+    } else {
+      this.messageService.add(undoToast(summary, detail));
     }
   }
 
@@ -331,14 +676,17 @@ export class UserListComponent implements OnInit, OnDestroy {
     }
 
     this.submittingForm = true;
-    const formValue = this.userForm.value;
+    // The password is provisioned as credentials and never stored on the user record
+    const { password, onboarding, ...formValue } = this.userForm.value;
 
     // Convert date to ISO string if present
     if (formValue.dateOfBirth) {
       formValue.dateOfBirth = new Date(formValue.dateOfBirth).toISOString().split('T')[0];
     }
 
-    if (this.dialogMode === 'add') {
+    if (this.dialogMode === 'add' && onboarding === 'invite') {
+      this.inviteUser(formValue);
+    } else if (this.dialogMode === 'add') {
       // Create new user
       const newUser: Partial<User> = {
         ...formValue,
@@ -349,16 +697,13 @@ export class UserListComponent implements OnInit, OnDestroy {
         lastActive: new Date().toISOString()
       };
 
-      this.userService.createUser(newUser as User)
+      this.userService.createUser(newUser as User, password)
         .pipe(takeUntil(this.destroy$))
         .subscribe({
           next: () => {
-            this.messageService.add({
-              severity: 'success',
-              summary: 'Success',
-              detail: 'User created successfully'
-            });
+            this.showChangeToast('Success', 'User created successfully');
             this.closeDialog();
+            this.reloadPage();
             this.cdr.markForCheck();
           },
           error: (error) => {
@@ -372,36 +717,125 @@ export class UserListComponent implements OnInit, OnDestroy {
           }
         });
     } else {
-      // Update existing user
+      // Update existing user, based on the version the dialog was opened with
       const updatedUser: Partial<User> = {
         ...formValue,
         firstName: formValue.name.split(' ')[0],
-        lastName: formValue.name.split(' ').slice(1).join(' ') || formValue.name.split(' ')[0]
+        lastName: formValue.name.split(' ').slice(1).join(' ') || formValue.name.split(' ')[0],
+        version: this.selectedUser!.version
       };
 
       this.userService.updateUser(this.selectedUser!.id, updatedUser)
         .pipe(takeUntil(this.destroy$))
         .subscribe({
           next: () => {
-            this.messageService.add({
-              severity: 'success',
-              summary: 'Success',
-              detail: 'User updated successfully'
-            });
+            this.showChangeToast('Success', 'User updated successfully');
             this.closeDialog();
+            this.reloadPage();
             this.cdr.markForCheck();
           },
           error: (error) => {
+            if (error instanceof VersionConflictError) {
+              this.conflict = createConflict(this.selectedUser!, this.userForm.getRawValue(), error.current as User);
+            } else {
+              this.messageService.add({
+                severity: 'error',
+                summary: 'Error',
+                detail: error.message || 'Failed to update user'
+              });
+            }
+            this.submittingForm = false;
+            this.cdr.markForCheck();
+          }
+        });
+    }
+  }
+
+  /**
+   * Drops the admin's edits and continues from the saved user
+   */
+  useTheirVersion(): void {
+    const server = this.conflict!.server;
+    this.conflict = null;
+    this.editUser(server);
+  }
+
+  /**
+   * Saves the chosen values on top of the saved user
+   */
+  saveMerged(): void {
+    const server = this.conflict!.server;
+    const merged = mergeConflict(this.conflict!);
+
+    this.conflict = null;
+    this.selectedUser = server;
+    this.userForm.patchValue(merged);
+    this.saveUser();
+  }
+
+  /**
+   * Creates a pending user and mails them an invitation
+   * They join (and get a join date) once they accept it.
+   */
+  private inviteUser(formValue: Partial<User> & { name: string }): void {
+    const newUser: Partial<User> = {
+      ...formValue,
+      firstName: formValue.name.split(' ')[0],
+      lastName: formValue.name.split(' ').slice(1).join(' ') || formValue.name.split(' ')[0],
+      status: 'pending',
+      avatar: `https://i.pravatar.cc/150?u=${formValue.email}`
+    };
+
+    let created: User | null = null;
+    this.userService.createUser(newUser as User)
+      .pipe(
+        switchMap(user => {
+          created = user;
+          return this.invitationService.sendInvitation(user.id);
+        }),
+        takeUntil(this.destroy$)
+      )
+      .subscribe({
+        next: (invitation) => {
+          this.messageService.add({
+            severity: 'success',
+            summary: 'Invitation Sent',
+            detail: `${invitation.email} was invited to join`
+          });
+          this.closeDialog();
+          this.reloadPage();
+          this.cdr.markForCheck();
+        },
+        error: (error) => {
+          if (created) {
+            // The pending user exists; the invitation can be resent from the list
+            this.messageService.add({
+              severity: 'warn',
+              summary: 'Invitation Not Sent',
+              detail: `The user was created, but the invitation could not be sent: ${error.message || 'unknown error'}`
+            });
+            this.closeDialog();
+            this.reloadPage();
+          } else {
             this.messageService.add({
               severity: 'error',
               summary: 'Error',
-              detail: error.message || 'Failed to update user'
+              detail: error.message || 'Failed to invite user'
             });
             this.submittingForm = false;
-            this.cdr.markForCheck();
           }
-        });
-    }
+          this.cdr.markForCheck();
+        }
+      });
+  }
+
+  /**
+   * Toggles the initial password validators (required only when adding)
+   */
+  private setPasswordRequired(required: boolean): void {
+    const passwordControl = this.userForm.get('password');
+    passwordControl?.setValidators(required ? [Validators.required, Validators.minLength(6)] : []);
+    passwordControl?.updateValueAndValidity();
   }
 
   /**
@@ -411,6 +845,7 @@ export class UserListComponent implements OnInit, OnDestroy {
     this.showUserDialog = false;
     this.submittingForm = false;
     this.selectedUser = null;
+    this.conflict = null;
     this.userForm.reset({
       role: 'user',
       status: 'active'
@@ -446,51 +881,32 @@ export class UserListComponent implements OnInit, OnDestroy {
       return '';
     }
 
-    if (field.errors['required']) {
-      return 'This field is required';
-    }
-    if (field.errors['email']) {
-      return 'Invalid email address';
-    }
-    if (field.errors['minlength']) {
-      return `Minimum length is ${field.errors['minlength'].requiredLength}`;
-    }
-    if (field.errors['maxlength']) {
-      return `Maximum length is ${field.errors['maxlength'].requiredLength}`;
-    }
-    if (field.errors['pattern']) {
-      return 'Invalid format';
-    }
+    return describeFieldError(field.errors);
+  }
 
-    return 'Invalid value';
+  /**
+   * Opens the dialog with a user's active sessions and login history
+   */
+  openSessionsDialog(user: User): void {
+    this.sessionsUser = user;
+    this.showSessionsDialog = true;
+    this.cdr.markForCheck();
   }
 
   /**
-   * Impersonates a user (admin only)
+   * Opens the dialog asking for the reason to view the app as a user
    */
-  impersonateUser(user: User): void {
-    try {
-      this.authService.impersonateUser(user);
-      this.messageService.add({
-        severity: 'success',
-        summary: 'Impersonating',
-        detail: `Now viewing as ${user.firstName} ${user.lastName}`
-      });
-      // Redirect will be handled by router
-    } catch (error: any) {
-      this.messageService.add({
-        severity: 'error',
-        summary: 'Error',
-        detail: error.message || 'Failed to impersonate user'
-      });
-    }
+  openImpersonationDialog(user: User): void {
+    this.impersonationTarget = user;
+    this.showImpersonationDialog = true;
+    this.cdr.markForCheck();
   }
 
   /**
-   * Gets status tag severity
+   * Gets the display name of a role
    */
-  getStatusSeverity(status: string): 'success' | 'danger' {
-    return status === 'active' ? 'success' : 'danger';
+  getRoleName(role: string): string {
+    return this.roleNames[role] ?? role;
   }
 
   /**
@@ -503,7 +919,7 @@ export class UserListComponent implements OnInit, OnDestroy {
   /**
    * TrackBy function for performance
    */
-  trackByUserId(index: number, user: User): number {
+  trackByUserId(index: number, user: User): UserId {
     return user.id;
   }
 
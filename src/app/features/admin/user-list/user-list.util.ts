@@ -0,0 +1,42 @@
+import { ToastMessageOptions } from 'primeng/api';
+import { describeQuery } from '../../../core/user-query.util';
+import { QueryField, QueryGroup, User } from '../../../core/user.model';
+
+/**
+ * Helpers shared by the user list and its toolbars and dialogs
+ */
+
+// Data columns of the user table with the field they sort by; they can be
+// hidden, and exports contain the visible ones
+export const USER_COLUMNS: readonly { key: string; header: string; sortField: keyof User }[] = [
+  { key: 'user', header: 'User', sortField: 'firstName' },
+  { key: 'email', header: 'Email', sortField: 'email' },
+  { key: 'department', header: 'Department', sortField: 'department' },
+  { key: 'role', header: 'Role', sortField: 'role' },
+  { key: 'status', header: 'Status', sortField: 'status' },
+  { key: 'joinDate', header: 'Join Date', sortField: 'joinDate' }
+];
+
+/**
+ * Readable form of a query, with role names instead of ids
+ */
+export function describeUserQuery(query: QueryGroup, roleNames: Record<string, string>): string {
+  return describeQuery(query, (field: QueryField, value: string) => field === 'role' ? roleNames[value] ?? value : value);
+}
+
+export function countOf(count: number): string {
+  return `${count} user${count === 1 ? '' : 's'}`;
+}
+
+/**
+ * Success toast with an Undo action for the change just saved
+ */
+export function undoToast(summary: string, detail: string): ToastMessageOptions {
+  return {
+    severity: 'success',
+    summary,
+    detail,
+    life: 5000,
+    data: { undoable: true }
+  };
+}
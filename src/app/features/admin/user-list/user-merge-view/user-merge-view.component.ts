@@ -0,0 +1,45 @@
+import { ChangeDetectionStrategy, Component, Input } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+
+// PrimeNG Imports
+import { TableModule } from 'primeng/table';
+import { RadioButtonModule } from 'primeng/radiobutton';
+import { MessageModule } from 'primeng/message';
+
+import { MergeField, UserConflict, isContested } from '../user-merge.util';
+
+/**
+ * User Merge View Component
+ * Shown in the edit dialog when someone else saved the user meanwhile: the
+ * fields that differ, side by side, with the value to keep picked per field.
+ * The choices are made on the conflict's fields.
+ */
+@Component({
+  selector: 'app-user-merge-view',
+  standalone: true,
+  imports: [CommonModule, FormsModule, TableModule, RadioButtonModule, MessageModule],
+  templateUrl: './user-merge-view.component.html',
+  styleUrl: './user-merge-view.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class UserMergeViewComponent {
+  @Input({ required: true }) conflict!: UserConflict;
+  // Role names by id, to show roles by name
+  @Input() roleNames: Record<string, string> = {};
+
+  readonly isContested = isContested;
+
+  /**
+   * Form value as text
+   */
+  describeValue(field: MergeField, value: unknown): string {
+    if (value instanceof Date) {
+      return value.toISOString().split('T')[0];
+    }
+    if (field.key === 'role') {
+      return this.roleNames[String(value)] ?? String(value);
+    }
+    return value ? String(value) : '—';
+  }
+}
@@ -0,0 +1,101 @@
+import { User } from '../../../core/user.model';
+
+/**
+ * Merge Field Interface
+ * One edit dialog field when the edited user was saved by someone else meanwhile
+ */
+export interface MergeField {
+  key: string;
+  label: string;
+  // Value when the dialog was opened, the admin's value and the saved value
+  base: unknown;
+  mine: unknown;
+  theirs: unknown;
+  choice: 'mine' | 'theirs';
+}
+
+/**
+ * User Conflict Interface
+ * The user as someone else saved it, and the fields that differ from the edits
+ */
+export interface UserConflict {
+  server: User;
+  fields: MergeField[];
+}
+
+// Edit dialog fields compared when merging, with their labels
+const MERGE_FIELDS: readonly { key: string; label: string }[] = [
+  { key: 'name', label: 'Full Name' },
+  { key: 'email', label: 'Email' },
+  { key: 'username', label: 'Username' },
+  { key: 'role', label: 'Role' },
+  { key: 'status', label: 'Status' },
+  { key: 'department', label: 'Department' },
+  { key: 'phone', label: 'Phone' },
+  { key: 'address', label: 'Address' },
+  { key: 'dateOfBirth', label: 'Date of Birth' }
+];
+
+/**
+ * Edit dialog values of a user
+ */
+export function toFormValue(user: User): Record<string, unknown> {
+  return {
+    name: `${user.firstName} ${user.lastName}`.trim(),
+    email: user.email,
+    username: user.username,
+    role: user.role,
+    status: user.status,
+    department: user.department || '',
+    phone: user.phone || '',
+    address: user.address || '',
+    dateOfBirth: user.dateOfBirth ? new Date(user.dateOfBirth) : null
+  };
+}
+
+/**
+ * Compares the admin's edits with the saved user, field by field
+ * Fields only one side changed are taken from that side; the admin picks
+ * where both changed.
+ *
+ * @param edited - The user as the dialog was opened with it
+ * @param mine - The dialog's values
+ * @param server - The user as it was saved meanwhile
+ */
+export function createConflict(edited: User, mine: Record<string, unknown>, server: User): UserConflict {
+  const base = toFormValue(edited);
+  const theirs = toFormValue(server);
+
+  const fields = MERGE_FIELDS
+    .map(({ key, label }) => ({ key, label, base: base[key], mine: mine[key], theirs: theirs[key] }))
+    .filter(field => !sameValue(field.mine, field.theirs))
+    .map(field => ({
+      ...field,
+      choice: sameValue(field.mine, field.base) ? 'theirs' as const : 'mine' as const
+    }));
+
+  return { server, fields };
+}
+
+/**
+ * Dialog values of the saved user with the chosen values on top
+ */
+export function mergeConflict({ server, fields }: UserConflict): Record<string, unknown> {
+  const merged = { ...toFormValue(server) };
+  for (const field of fields) {
+    merged[field.key] = field.choice === 'mine' ? field.mine : field.theirs;
+  }
+  return merged;
+}
+
+/**
+ * Whether both sides changed a field, so the admin has to choose
+ */
+export function isContested(field: MergeField): boolean {
+  return !sameValue(field.mine, field.base) && !sameValue(field.theirs, field.base);
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  const text = (value: unknown) => value instanceof Date ? value.toISOString().split('T')[0] : String(value ?? '');
+  return text(a) === text(b);
+}
@@ -0,0 +1,78 @@
+import {
+  ChangeDetectionStrategy,
+  Component,
+  EventEmitter,
+  Input,
+  OnChanges,
+  Output,
+  SimpleChanges
+} from '@angular/core';
+import { CommonModule } from '@angular/common';
+
+// PrimeNG Imports
+import { ButtonModule } from 'primeng/button';
+import { TooltipModule } from 'primeng/tooltip';
+
+import { createGroup, hasConditions, isQueryComplete, normalizeQuery } from '../../../../core/user-query.util';
+import { QueryGroup } from '../../../../core/user.model';
+import { QueryValueOptions, UserQueryBuilderComponent } from '../../user-query-builder/user-query-builder.component';
+import { describeUserQuery } from '../user-list.util';
+
+/**
+ * User Query Panel Component
+ * Advanced query of the user list: the applied query while the builder is
+ * closed, otherwise the builder with a copy of it. The edits apply once
+ * the admin clicks Apply.
+ */
+@Component({
+  selector: 'app-user-query-panel',
+  standalone: true,
+  imports: [CommonModule, ButtonModule, TooltipModule, UserQueryBuilderComponent],
+  templateUrl: './user-query-panel.component.html',
+  styleUrl: './user-query-panel.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class UserQueryPanelComponent implements OnChanges {
+  @Input() query: QueryGroup | undefined;
+  // Whether the builder is shown
+  @Input() open = false;
+  @Input() options: QueryValueOptions = { role: [], status: [], department: [] };
+  // Role names by id, to describe the query
+  @Input() roleNames: Record<string, string> = {};
+  // The admin applied or removed the query
+  @Output() queryChange = new EventEmitter<QueryGroup | undefined>();
+
+  // Query being edited in the builder
+  draftQuery: QueryGroup = createGroup();
+
+  ngOnChanges(changes: SimpleChanges): void {
+    if (changes['query']) {
+      this.draftQuery = this.query ? structuredClone(this.query) : createGroup();
+    }
+  }
+
+  /**
+   * Applies the query being edited
+   */
+  applyQuery(): void {
+    this.queryChange.emit(hasConditions(this.draftQuery) ? normalizeQuery(this.draftQuery) : undefined);
+  }
+
+  /**
+   * Removes the query, keeping the other filters
+   */
+  clearQuery(): void {
+    this.queryChange.emit(undefined);
+  }
+
+  /**
+   * Whether the query being edited can be applied
+   */
+  canApplyQuery(): boolean {
+    return isQueryComplete(this.draftQuery);
+  }
+
+  describeQuery(query: QueryGroup): string {
+    return describeUserQuery(query, this.roleNames);
+  }
+}
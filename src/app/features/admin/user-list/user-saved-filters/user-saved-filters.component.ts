@@ -0,0 +1,175 @@
+import {
+  ChangeDetectionStrategy,
+  ChangeDetectorRef,
+  Component,
+  EventEmitter,
+  Input,
+  OnDestroy,
+  OnInit,
+  Output
+} from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { Subject } from 'rxjs';
+import { finalize, takeUntil } from 'rxjs/operators';
+
+// PrimeNG Imports
+import { ButtonModule } from 'primeng/button';
+import { DropdownModule } from 'primeng/dropdown';
+import { DialogModule } from 'primeng/dialog';
+import { InputTextModule } from 'primeng/inputtext';
+import { MessageService } from 'primeng/api';
+
+import { SavedFilterService } from '../../../../core/saved-filter.service';
+import { SavedFilter, UserFilter } from '../../../../core/user.model';
+
+/**
+ * User Saved Filters Component
+ * Filter toolbar items of the user list: the admin's named filters, saving
+ * the current filters under a name, and copying a link to the current view.
+ */
+@Component({
+  selector: 'app-user-saved-filters',
+  standalone: true,
+  imports: [CommonModule, FormsModule, ButtonModule, DropdownModule, DialogModule, InputTextModule],
+  templateUrl: './user-saved-filters.component.html',
+  styleUrl: './user-saved-filters.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class UserSavedFiltersComponent implements OnInit, OnDestroy {
+  // Current filters, saved under the typed name
+  @Input() filter: UserFilter = {};
+  // The applied saved filter, until the filters change
+  @Input() active: SavedFilter | null = null;
+  @Output() activeChange = new EventEmitter<SavedFilter | null>();
+  // A saved filter was picked; the list applies its filters
+  @Output() apply = new EventEmitter<SavedFilter>();
+
+  savedFilters: SavedFilter[] = [];
+  showSaveDialog = false;
+  saveName = '';
+  saving = false;
+
+  private destroy$ = new Subject<void>();
+
+  constructor(
+    private savedFilterService: SavedFilterService,
+    private messageService: MessageService,
+    private cdr: ChangeDetectorRef
+  ) {}
+
+  ngOnInit(): void {
+    this.savedFilterService.getSavedFilters()
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(filters => {
+        this.savedFilters = filters;
+        this.cdr.markForCheck();
+      });
+
+    this.savedFilterService.loadSavedFilters();
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  /**
+   * Shows the users of a saved filter
+   */
+  applySavedFilter(saved: SavedFilter | null): void {
+    if (saved) {
+      this.apply.emit(saved);
+    }
+  }
+
+  /**
+   * Opens the dialog that names the current filters
+   */
+  openSaveDialog(): void {
+    this.saveName = this.active?.name ?? '';
+    this.showSaveDialog = true;
+  }
+
+  /**
+   * Saves the current filters; an existing filter of the same name is replaced
+   */
+  saveFilter(): void {
+    const name = this.saveName.trim();
+    if (!name) {
+      return;
+    }
+
+    this.saving = true;
+    this.savedFilterService.saveFilter(name, this.filter)
+      .pipe(
+        finalize(() => {
+          this.saving = false;
+          this.cdr.markForCheck();
+        }),
+        takeUntil(this.destroy$)
+      )
+      .subscribe({
+        next: (saved) => {
+          this.activeChange.emit(saved);
+          this.showSaveDialog = false;
+          this.messageService.add({
+            severity: 'success',
+            summary: 'Filter Saved',
+            detail: `Saved as "${saved.name}"`
+          });
+        },
+        error: (error) => this.messageService.add({
+          severity: 'error',
+          summary: 'Error',
+          detail: error.message || 'Failed to save the filter'
+        })
+      });
+  }
+
+  /**
+   * Deletes a saved filter from the saved filters dropdown
+   */
+  deleteSavedFilter(saved: SavedFilter, event: Event): void {
+    // Keeps the dropdown from selecting the filter
+    event.stopPropagation();
+
+    this.savedFilterService.deleteFilter(saved)
+      .pipe(takeUntil(this.destroy$))
+      .subscribe({
+        next: () => {
+          if (this.active?.id === saved.id) {
+            this.activeChange.emit(null);
+          }
+          this.messageService.add({
+            severity: 'success',
+            summary: 'Filter Deleted',
+            detail: `"${saved.name}" was deleted`
+          });
+        },
+        error: (error) => this.messageService.add({
+          severity: 'error',
+          summary: 'Error',
+          detail: error.message || 'Failed to delete the filter'
+        })
+      });
+  }
+
+  /**
+   * Copies a link to the current view
+   */
+  copyLink(): void {
+    navigator.clipboard.writeText(window.location.href).then(
+      () => this.messageService.add({
+        severity: 'success',
+        summary: 'Link Copied',
+        detail: 'The link shows this exact view'
+      }),
+      () => this.messageService.add({
+        severity: 'error',
+        summary: 'Error',
+        detail: 'The link could not be copied'
+      })
+    );
+  }
+}
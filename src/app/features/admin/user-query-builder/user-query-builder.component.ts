@@ -0,0 +1,113 @@
+import { Component, EventEmitter, Input, Output, ChangeDetectionStrategy } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+
+// PrimeNG Imports
+import { ButtonModule } from 'primeng/button';
+import { DropdownModule } from 'primeng/dropdown';
+import { InputTextModule } from 'primeng/inputtext';
+import { CalendarModule } from 'primeng/calendar';
+import { CheckboxModule } from 'primeng/checkbox';
+import { SelectButtonModule } from 'primeng/selectbutton';
+import { TooltipModule } from 'primeng/tooltip';
+
+import { QueryCondition, QueryField, QueryGroup } from '../../../core/user.model';
+import {
+  MAX_QUERY_DEPTH,
+  QUERY_FIELDS,
+  QUERY_OPERATORS,
+  createCondition,
+  createGroup,
+  fieldOf,
+  isQueryGroup
+} from '../../../core/user-query.util';
+
+/**
+ * Dropdown values of the role, status and department fields
+ */
+export type QueryValueOptions = Record<'role' | 'status' | 'department', { label: string; value: string }[]>;
+
+/**
+ * User Query Builder Component
+ * Editor of a query group, nesting itself for subgroups. Edits the group in
+ * place; the user list applies it when the admin is done.
+ */
+@Component({
+  selector: 'app-user-query-builder',
+  standalone: true,
+  imports: [
+    CommonModule,
+    FormsModule,
+    ButtonModule,
+    DropdownModule,
+    InputTextModule,
+    CalendarModule,
+    CheckboxModule,
+    SelectButtonModule,
+    TooltipModule
+  ],
+  templateUrl: './user-query-builder.component.html',
+  styleUrl: './user-query-builder.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class UserQueryBuilderComponent {
+  @Input({ required: true }) group!: QueryGroup;
+  @Input() depth = 0;
+  @Input() options: QueryValueOptions = { role: [], status: [], department: [] };
+  // Asks the parent group to drop this one
+  @Output() remove = new EventEmitter<void>();
+
+  readonly combinators = [
+    { label: 'All', value: 'and' },
+    { label: 'Any', value: 'or' }
+  ];
+  readonly fieldOptions = QUERY_FIELDS.map(({ field, label }) => ({ label, value: field }));
+  readonly maxDepth = MAX_QUERY_DEPTH;
+
+  asGroup(rule: QueryCondition | QueryGroup): QueryGroup | null {
+    return isQueryGroup(rule) ? rule : null;
+  }
+
+  asCondition(rule: QueryCondition | QueryGroup): QueryCondition | null {
+    return isQueryGroup(rule) ? null : rule;
+  }
+
+  operatorsOf(condition: QueryCondition) {
+    return QUERY_OPERATORS[fieldOf(condition.field).type];
+  }
+
+  /**
+   * Dropdown values of a field, or null for free text
+   */
+  valueOptionsOf(condition: QueryCondition): { label: string; value: string }[] | null {
+    const options = fieldOf(condition.field).options;
+    return options ? this.options[options] : null;
+  }
+
+  /**
+   * Changes the tested field, resetting the operator and values when the
+   * field holds another type
+   */
+  setField(condition: QueryCondition, field: QueryField): void {
+    const replacement = fieldOf(field).type === fieldOf(condition.field).type
+      ? { ...condition, field, value: fieldOf(field).options ? '' : condition.value }
+      : { ...createCondition(field), negate: condition.negate };
+    this.replace(condition, replacement);
+  }
+
+  addCondition(): void {
+    this.group.rules = [...this.group.rules, createCondition()];
+  }
+
+  addGroup(): void {
+    this.group.rules = [...this.group.rules, createGroup(this.group.combinator === 'and' ? 'or' : 'and')];
+  }
+
+  removeRule(rule: QueryCondition | QueryGroup): void {
+    this.group.rules = this.group.rules.filter(r => r !== rule);
+  }
+
+  private replace(rule: QueryCondition | QueryGroup, replacement: QueryCondition | QueryGroup): void {
+    this.group.rules = this.group.rules.map(r => r === rule ? replacement : r);
+  }
+}
@@ -0,0 +1,150 @@
+import {
+  ChangeDetectionStrategy,
+  ChangeDetectorRef,
+  Component,
+  EventEmitter,
+  Input,
+  OnChanges,
+  OnDestroy,
+  Output,
+  SimpleChanges
+} from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { Subject, forkJoin } from 'rxjs';
+import { finalize, takeUntil } from 'rxjs/operators';
+
+// PrimeNG Imports
+import { DialogModule } from 'primeng/dialog';
+import { TableModule } from 'primeng/table';
+import { TagModule } from 'primeng/tag';
+import { ButtonModule } from 'primeng/button';
+import { MessageModule } from 'primeng/message';
+import { TabViewModule } from 'primeng/tabview';
+import { TooltipModule } from 'primeng/tooltip';
+
+import { SessionService } from '../../../core/session.service';
+import { LoginHistoryEntry, User, UserSession } from '../../../core/user.model';
+import { HasPermissionDirective } from '../../../shared/has-permission/has-permission.directive';
+
+/**
+ * User Sessions Component
+ * Dialog opened from the user list with a user's active sessions, which
+ * users.write can revoke, and their login history with flagged attempts.
+ */
+@Component({
+  selector: 'app-user-sessions',
+  standalone: true,
+  imports: [
+    CommonModule,
+    DialogModule,
+    TableModule,
+    TagModule,
+    ButtonModule,
+    MessageModule,
+    TabViewModule,
+    TooltipModule,
+    HasPermissionDirective
+  ],
+  templateUrl: './user-sessions.component.html',
+  styleUrl: './user-sessions.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class UserSessionsComponent implements OnChanges, OnDestroy {
+  @Input() visible = false;
+  @Input() user: User | null = null;
+  @Output() visibleChange = new EventEmitter<boolean>();
+
+  sessions: UserSession[] = [];
+  history: LoginHistoryEntry[] = [];
+  loading = false;
+  revoking: string | null = null;
+  errorMessage = '';
+
+  // Labels of the values in sessions and history entries
+  readonly methodLabels: Record<string, string> = {
+    'password': 'Password',
+    'two-factor': 'Password + 2FA',
+    'sso': 'Single sign-on'
+  };
+  readonly failureLabels: Record<string, string> = {
+    'invalid-credentials': 'Wrong password',
+    'invalid-code': 'Wrong code',
+    'throttled': 'Throttled',
+    'locked': 'Locked'
+  };
+  readonly flagLabels: Record<string, string> = {
+    'failures-before-success': 'After repeated failures',
+    'new-device': 'New device'
+  };
+
+  private destroy$ = new Subject<void>();
+
+  constructor(
+    private sessionService: SessionService,
+    private cdr: ChangeDetectorRef
+  ) {}
+
+  ngOnChanges(changes: SimpleChanges): void {
+    if ((changes['visible'] || changes['user']) && this.visible && this.user) {
+      this.load(this.user);
+    }
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  /**
+   * Signs one of the user's sessions out
+   */
+  revoke(session: UserSession): void {
+    this.revoking = session.id;
+    this.sessionService.revokeSession(session.id)
+      .pipe(
+        finalize(() => {
+          this.revoking = null;
+          this.cdr.markForCheck();
+        }),
+        takeUntil(this.destroy$)
+      )
+      .subscribe({
+        next: () => this.sessions = this.sessions.filter(s => s.id !== session.id),
+        error: (error) => this.errorMessage = error.message || 'Failed to revoke the session'
+      });
+  }
+
+  /**
+   * Number of flagged sign-ins in the history
+   */
+  flaggedCount(): number {
+    return this.history.filter(entry => entry.flags.length > 0).length;
+  }
+
+  close(): void {
+    this.visibleChange.emit(false);
+  }
+
+  private load(user: User): void {
+    this.loading = true;
+    this.errorMessage = '';
+    this.sessions = [];
+    this.history = [];
+
+    forkJoin([this.sessionService.getUserSessions(user.id), this.sessionService.getUserLoginHistory(user.id)])
+      .pipe(
+        finalize(() => {
+          this.loading = false;
+          this.cdr.markForCheck();
+        }),
+        takeUntil(this.destroy$)
+      )
+      .subscribe({
+        next: ([sessions, history]) => {
+          this.sessions = sessions;
+          this.history = history;
+        },
+        error: (error) => this.errorMessage = error.message || 'Failed to load sessions'
+      });
+  }
+}
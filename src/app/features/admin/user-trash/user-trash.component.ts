@@ -0,0 +1,191 @@
+import {
+  ChangeDetectionStrategy,
+  ChangeDetectorRef,
+  Component,
+  EventEmitter,
+  Input,
+  OnChanges,
+  OnDestroy,
+  Output,
+  SimpleChanges
+} from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { Subject, forkJoin, of } from 'rxjs';
+import { catchError, finalize, takeUntil } from 'rxjs/operators';
+
+// PrimeNG Imports
+import { DialogModule } from 'primeng/dialog';
+import { TableModule } from 'primeng/table';
+import { ButtonModule } from 'primeng/button';
+import { MessageModule } from 'primeng/message';
+import { TooltipModule } from 'primeng/tooltip';
+import { ConfirmDialogModule } from 'primeng/confirmdialog';
+import { ConfirmationService } from 'primeng/api';
+
+import { UserService } from '../../../core/user.service';
+import { User, UserId } from '../../../core/user.model';
+import { HasPermissionDirective } from '../../../shared/has-permission/has-permission.directive';
+
+/**
+ * User Trash Component
+ * Dialog opened from the user list with the deleted users, which users.delete
+ * can restore under their original id or purge for good before the
+ * retention period does.
+ */
+@Component({
+  selector: 'app-user-trash',
+  standalone: true,
+  imports: [
+    CommonModule,
+    DialogModule,
+    TableModule,
+    ButtonModule,
+    MessageModule,
+    TooltipModule,
+    ConfirmDialogModule,
+    HasPermissionDirective
+  ],
+  providers: [ConfirmationService],
+  templateUrl: './user-trash.component.html',
+  styleUrl: './user-trash.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class UserTrashComponent implements OnChanges, OnDestroy {
+  @Input() visible = false;
+  @Output() visibleChange = new EventEmitter<boolean>();
+  // A user was taken out of the trash
+  @Output() restored = new EventEmitter<User>();
+
+  users: User[] = [];
+  retentionDays = 0;
+  loading = false;
+  working: UserId | null = null;
+  errorMessage = '';
+
+  // Names of the admins who deleted users, by id
+  private names = new Map<UserId, string>();
+  private destroy$ = new Subject<void>();
+
+  constructor(
+    private userService: UserService,
+    private confirmationService: ConfirmationService,
+    private cdr: ChangeDetectorRef
+  ) {}
+
+  ngOnChanges(changes: SimpleChanges): void {
+    if (changes['visible'] && this.visible) {
+      this.load();
+    }
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  /**
+   * Takes a user out of the trash
+   */
+  restore(user: User): void {
+    this.working = user.id;
+    this.userService.restoreDeletedUser(user.id)
+      .pipe(
+        finalize(() => {
+          this.working = null;
+          this.cdr.markForCheck();
+        }),
+        takeUntil(this.destroy$)
+      )
+      .subscribe({
+        next: (restored) => {
+          this.users = this.users.filter(u => u.id !== user.id);
+          this.restored.emit(restored);
+        },
+        error: (error) => this.errorMessage = error.message || 'Failed to restore the user'
+      });
+  }
+
+  /**
+   * Deletes a user for good, after confirmation
+   */
+  purge(user: User): void {
+    this.confirmationService.confirm({
+      header: 'Delete Permanently',
+      message: `${user.firstName} ${user.lastName} and their sign-in data will be deleted for good. This cannot be undone.`,
+      icon: 'pi pi-exclamation-triangle',
+      acceptButtonStyleClass: 'p-button-danger',
+      accept: () => {
+        this.working = user.id;
+        this.userService.purgeUser(user.id)
+          .pipe(
+            finalize(() => {
+              this.working = null;
+              this.cdr.markForCheck();
+            }),
+            takeUntil(this.destroy$)
+          )
+          .subscribe({
+            next: () => this.users = this.users.filter(u => u.id !== user.id),
+            error: (error) => this.errorMessage = error.message || 'Failed to delete the user'
+          });
+      }
+    });
+  }
+
+  /**
+   * When a deleted user is purged automatically
+   */
+  purgeDate(user: User): Date {
+    return new Date(Date.parse(user.deletedAt!) + this.retentionDays * 24 * 3600 * 1000);
+  }
+
+  /**
+   * Name of the admin who deleted a user
+   */
+  deletedByName(user: User): string {
+    return this.names.get(user.deletedBy!) ?? user.deletedBy ?? 'Unknown';
+  }
+
+  close(): void {
+    this.visibleChange.emit(false);
+  }
+
+  private load(): void {
+    this.loading = true;
+    this.errorMessage = '';
+
+    this.userService.getTrash()
+      .pipe(
+        finalize(() => {
+          this.loading = false;
+          this.cdr.markForCheck();
+        }),
+        takeUntil(this.destroy$)
+      )
+      .subscribe({
+        next: (trash) => {
+          this.users = trash.users;
+          this.retentionDays = trash.retentionDays;
+          this.loadNames(trash.users);
+        },
+        error: (error) => this.errorMessage = error.message || 'Failed to load the trash'
+      });
+  }
+
+  /**
+   * Looks up the admins who deleted the users; unknown ones are shown by id
+   */
+  private loadNames(users: User[]): void {
+    const ids = [...new Set(users.map(u => u.deletedBy).filter((id): id is UserId => !!id))];
+    if (ids.length === 0) {
+      return;
+    }
+
+    forkJoin(ids.map(id => this.userService.getUserById(id).pipe(catchError(() => of(null)))))
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(admins => {
+        this.names = new Map(admins.filter((u): u is User => !!u).map(u => [u.id, `${u.firstName} ${u.lastName}`.trim()]));
+        this.cdr.markForCheck();
+      });
+  }
+}
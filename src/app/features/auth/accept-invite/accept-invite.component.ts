@@ -0,0 +1,150 @@
+import { Component, OnInit, OnDestroy } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormBuilder, FormGroup, Validators, ReactiveFormsModule } from '@angular/forms';
+import { ActivatedRoute, Router, RouterModule } from '@angular/router';
+import { Subject } from 'rxjs';
+import { finalize, switchMap, take, takeUntil } from 'rxjs/operators';
+
+// PrimeNG Imports
+import { CardModule } from 'primeng/card';
+import { InputTextModule } from 'primeng/inputtext';
+import { PasswordModule } from 'primeng/password';
+import { CalendarModule } from 'primeng/calendar';
+import { ButtonModule } from 'primeng/button';
+import { MessageModule } from 'primeng/message';
+import { ProgressSpinnerModule } from 'primeng/progressspinner';
+import { TranslateModule } from '@ngx-translate/core';
+
+import { AuthService } from '../../../core/auth.service';
+import { PermissionService } from '../../../core/permission.service';
+import { InvitedProfile } from '../../../core/user.model';
+import { passwordsMatch } from '../../../shared/validators/passwords-match.validator';
+
+/**
+ * Accept Invite Component
+ * Onboarding page of a mailed invitation link (/accept-invite/:token); the
+ * invitee sets a password, completes their profile and is signed in.
+ */
+@Component({
+  selector: 'app-accept-invite',
+  standalone: true,
+  imports: [
+    CommonModule,
+    ReactiveFormsModule,
+    RouterModule,
+    CardModule,
+    InputTextModule,
+    PasswordModule,
+    CalendarModule,
+    ButtonModule,
+    MessageModule,
+    ProgressSpinnerModule,
+    TranslateModule
+  ],
+  templateUrl: './accept-invite.component.html',
+  styleUrl: './accept-invite.component.scss'
+})
+export class AcceptInviteComponent implements OnInit, OnDestroy {
+  inviteForm: FormGroup;
+  invitation: InvitedProfile | null = null;
+  checking = true;
+  loading = false;
+  errorMessage = '';
+  maxDate = new Date();
+
+  private readonly token: string;
+  private destroy$ = new Subject<void>();
+
+  constructor(
+    private fb: FormBuilder,
+    private authService: AuthService,
+    private permissionService: PermissionService,
+    private router: Router,
+    route: ActivatedRoute
+  ) {
+    this.token = route.snapshot.paramMap.get('token') ?? '';
+    this.inviteForm = this.fb.group({
+      firstName: ['', [Validators.required, Validators.maxLength(50)]],
+      lastName: ['', [Validators.maxLength(50)]],
+      phone: ['', [Validators.pattern(/^[\d\s\-+()]+$/)]],
+      address: ['', [Validators.maxLength(200)]],
+      dateOfBirth: [null],
+      password: ['', [Validators.required, Validators.minLength(6)]],
+      confirmPassword: ['', Validators.required]
+    }, { validators: passwordsMatch('password', 'confirmPassword') });
+  }
+
+  ngOnInit(): void {
+    this.authService.getInvitation(this.token)
+      .pipe(
+        finalize(() => this.checking = false),
+        takeUntil(this.destroy$)
+      )
+      .subscribe({
+        next: (invitation) => {
+          this.invitation = invitation;
+          this.inviteForm.patchValue({
+            firstName: invitation.firstName,
+            lastName: invitation.lastName,
+            phone: invitation.phone ?? '',
+            address: invitation.address ?? '',
+            dateOfBirth: invitation.dateOfBirth ? new Date(invitation.dateOfBirth) : null
+          });
+        },
+        error: (error) => this.errorMessage = error.message || 'This invitation is invalid, has expired or was already used'
+      });
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  /**
+   * Sets the password, saves the profile and opens the landing page
+   */
+  onSubmit(): void {
+    if (this.inviteForm.invalid) {
+      this.inviteForm.markAllAsTouched();
+      return;
+    }
+
+    const { firstName, lastName, phone, address, dateOfBirth, password } = this.inviteForm.value;
+    this.loading = true;
+    this.errorMessage = '';
+
+    this.authService.acceptInvitation(this.token, password, {
+      firstName,
+      lastName,
+      phone,
+      address,
+      dateOfBirth: dateOfBirth ? new Date(dateOfBirth).toISOString().split('T')[0] : undefined
+    })
+      .pipe(
+        switchMap(response => this.permissionService.getLandingRoute(response.user).pipe(take(1))),
+        takeUntil(this.destroy$)
+      )
+      .subscribe({
+        next: route => this.router.navigate([route], { replaceUrl: true }),
+        error: (error) => {
+          this.loading = false;
+          this.errorMessage = error.message || 'The invitation could not be accepted. Please try again.';
+        }
+      });
+  }
+
+  /**
+   * Checks if a form field has an error and is touched
+   */
+  hasFieldError(fieldName: string): boolean {
+    const field = this.inviteForm.get(fieldName);
+    return !!(field && field.invalid && field.touched);
+  }
+
+  /**
+   * Checks whether the confirmation differs from the password
+   */
+  hasMismatch(): boolean {
+    return this.inviteForm.hasError('passwordMismatch') && !!this.inviteForm.get('confirmPassword')?.touched;
+  }
+}
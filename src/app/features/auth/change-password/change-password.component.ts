@@ -0,0 +1,119 @@
+import { Component, OnDestroy } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormBuilder, FormGroup, Validators, ReactiveFormsModule } from '@angular/forms';
+import { Router } from '@angular/router';
+import { Subject } from 'rxjs';
+import { take, takeUntil } from 'rxjs/operators';
+
+// PrimeNG Imports
+import { CardModule } from 'primeng/card';
+import { PasswordModule } from 'primeng/password';
+import { ButtonModule } from 'primeng/button';
+import { MessageModule } from 'primeng/message';
+import { TranslateModule } from '@ngx-translate/core';
+
+import { AuthService } from '../../../core/auth.service';
+import { PermissionService } from '../../../core/permission.service';
+import { HeaderComponent } from '../../../shared/header/header.component';
+import { passwordsMatch } from '../../../shared/validators/passwords-match.validator';
+
+/**
+ * Change Password Component
+ * Lets the signed-in user set a new password after re-entering the current one
+ */
+@Component({
+  selector: 'app-change-password',
+  standalone: true,
+  imports: [
+    CommonModule,
+    ReactiveFormsModule,
+    CardModule,
+    PasswordModule,
+    ButtonModule,
+    MessageModule,
+    TranslateModule,
+    HeaderComponent
+  ],
+  templateUrl: './change-password.component.html',
+  styleUrl: './change-password.component.scss'
+})
+export class ChangePasswordComponent implements OnDestroy {
+  passwordForm: FormGroup;
+  loading = false;
+  changed = false;
+  errorMessage = '';
+
+  private destroy$ = new Subject<void>();
+
+  constructor(
+    private fb: FormBuilder,
+    public authService: AuthService,
+    private permissionService: PermissionService,
+    private router: Router
+  ) {
+    this.passwordForm = this.fb.group({
+      currentPassword: ['', Validators.required],
+      newPassword: ['', [Validators.required, Validators.minLength(6)]],
+      confirmPassword: ['', Validators.required]
+    }, { validators: passwordsMatch('newPassword', 'confirmPassword') });
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  /**
+   * Submits the password change
+   */
+  onSubmit(): void {
+    if (this.passwordForm.invalid) {
+      this.passwordForm.markAllAsTouched();
+      return;
+    }
+
+    this.loading = true;
+    this.errorMessage = '';
+    this.changed = false;
+
+    const { currentPassword, newPassword } = this.passwordForm.value;
+
+    this.authService.changePassword(currentPassword, newPassword)
+      .pipe(takeUntil(this.destroy$))
+      .subscribe({
+        next: () => {
+          this.loading = false;
+          this.changed = true;
+          this.passwordForm.reset();
+        },
+        error: (error) => {
+          this.loading = false;
+          this.errorMessage = error.message || 'The password could not be changed. Please try again.';
+        }
+      });
+  }
+
+  /**
+   * Returns to the user's landing page
+   */
+  goBack(): void {
+    this.permissionService.getLandingRoute(this.authService.getCurrentUser())
+      .pipe(take(1))
+      .subscribe(route => this.router.navigate([route]));
+  }
+
+  /**
+   * Checks if a form field has an error and is touched
+   */
+  hasFieldError(fieldName: string): boolean {
+    const field = this.passwordForm.get(fieldName);
+    return !!(field && field.invalid && field.touched);
+  }
+
+  /**
+   * Checks whether the confirmation differs from the new password
+   */
+  hasMismatch(): boolean {
+    return this.passwordForm.hasError('passwordMismatch') && !!this.passwordForm.get('confirmPassword')?.touched;
+  }
+}
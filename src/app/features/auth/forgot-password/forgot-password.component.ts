@@ -0,0 +1,93 @@
+import { Component, OnDestroy } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormBuilder, FormGroup, Validators, ReactiveFormsModule } from '@angular/forms';
+import { RouterModule } from '@angular/router';
+import { Subject } from 'rxjs';
+import { takeUntil } from 'rxjs/operators';
+
+// PrimeNG Imports
+import { CardModule } from 'primeng/card';
+import { InputTextModule } from 'primeng/inputtext';
+import { ButtonModule } from 'primeng/button';
+import { MessageModule } from 'primeng/message';
+import { TranslateModule } from '@ngx-translate/core';
+
+import { AuthService } from '../../../core/auth.service';
+
+/**
+ * Forgot Password Component
+ * Requests a password reset link for a username or email address
+ */
+@Component({
+  selector: 'app-forgot-password',
+  standalone: true,
+  imports: [
+    CommonModule,
+    ReactiveFormsModule,
+    RouterModule,
+    CardModule,
+    InputTextModule,
+    ButtonModule,
+    MessageModule,
+    TranslateModule
+  ],
+  templateUrl: './forgot-password.component.html',
+  styleUrl: './forgot-password.component.scss'
+})
+export class ForgotPasswordComponent implements OnDestroy {
+  forgotForm: FormGroup;
+  loading = false;
+  sent = false;
+  errorMessage = '';
+
+  private destroy$ = new Subject<void>();
+
+  constructor(
+    private fb: FormBuilder,
+    private authService: AuthService
+  ) {
+    this.forgotForm = this.fb.group({
+      identifier: ['', [Validators.required, Validators.minLength(3)]]
+    });
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  /**
+   * Sends the reset request
+   * The confirmation is the same whether or not the account exists.
+   */
+  onSubmit(): void {
+    if (this.forgotForm.invalid) {
+      this.forgotForm.markAllAsTouched();
+      return;
+    }
+
+    this.loading = true;
+    this.errorMessage = '';
+
+    this.authService.requestPasswordReset(this.forgotForm.value.identifier.trim())
+      .pipe(takeUntil(this.destroy$))
+      .subscribe({
+        next: () => {
+          this.loading = false;
+          this.sent = true;
+        },
+        error: (error) => {
+          this.loading = false;
+          this.errorMessage = error.message || 'The reset link could not be sent. Please try again.';
+        }
+      });
+  }
+
+  /**
+   * Checks if the identifier field has an error and is touched
+   */
+  hasFieldError(): boolean {
+    const field = this.forgotForm.get('identifier');
+    return !!(field && field.invalid && field.touched);
+  }
+}
@@ -1,21 +1,25 @@
 import { Component, OnInit, OnDestroy } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { FormBuilder, FormGroup, Validators, ReactiveFormsModule } from '@angular/forms';
-import { Router, ActivatedRoute } from '@angular/router';
-import { Subject } from 'rxjs';
-import { takeUntil } from 'rxjs/operators';
+import { Router, ActivatedRoute, RouterModule } from '@angular/router';
+import { Subject, Subscription, interval } from 'rxjs';
+import { startWith, take, takeUntil } from 'rxjs/operators';
 
 // PrimeNG Imports
 import { CardModule } from 'primeng/card';
 import { InputTextModule } from 'primeng/inputtext';
 import { PasswordModule } from 'primeng/password';
+import { CheckboxModule } from 'primeng/checkbox';
 import { ButtonModule } from 'primeng/button';
 import { MessageModule } from 'primeng/message';
 import { ProgressSpinnerModule } from 'primeng/progressspinner';
 import { TranslateModule } from '@ngx-translate/core';
 
 import { AuthService } from '../../../core/auth.service';
-import { ErrorHandlingService } from '../../../core/error-handling.service';
+import { PermissionService } from '../../../core/permission.service';
+import { OidcConfig, OidcService } from '../../../core/oidc.service';
+import { ApiError, ErrorHandlingService } from '../../../core/error-handling.service';
+import { TwoFactorChallenge } from '../../../core/user.model';
 
 @Component({
   selector: 'app-login',
@@ -23,9 +27,11 @@ import { ErrorHandlingService } from '../../../core/error-handling.service';
   imports: [
     CommonModule,
     ReactiveFormsModule,
+    RouterModule,
     CardModule,
     InputTextModule,
     PasswordModule,
+    CheckboxModule,
     ButtonModule,
     MessageModule,
     ProgressSpinnerModule,
@@ -38,21 +44,39 @@ export class LoginComponent implements OnInit, OnDestroy {
   loginForm!: FormGroup;
   loading = false;
   errorMessage = '';
+
+  // Second step for accounts with two-factor authentication
+  challenge: TwoFactorChallenge | null = null;
+  codeForm!: FormGroup;
+
+  // Single sign-on through the configured identity provider
+  ssoConfig: OidcConfig;
+  ssoLoading = false;
+
+  // Set while the server refuses attempts for a username (throttled or locked)
+  retryBlock: { kind: 'locked' | 'throttled'; username: string; until: number } | null = null;
+  retryCountdown = '';
+  private retryTimer: Subscription | null = null;
+
   private destroy$ = new Subject<void>();
 
   // Demo credentials info
   demoCredentials = [
     { role: 'Admin', username: 'admin', password: 'admin123' },
-    { role: 'User', username: 'user', password: 'user123' }
+    { role: 'User', username: 'john.doe', password: 'user123' }
   ];
 
   constructor(
     private fb: FormBuilder,
     private authService: AuthService,
+    private permissionService: PermissionService,
+    private oidcService: OidcService,
     private router: Router,
     private route: ActivatedRoute,
     private errorHandler: ErrorHandlingService
-  ) {}
+  ) {
+    this.ssoConfig = this.oidcService.getConfig();
+  }
 
   ngOnInit(): void {
     // Check if already authenticated
@@ -74,7 +98,14 @@ export class LoginComponent implements OnInit, OnDestroy {
   private initializeForm(): void {
     this.loginForm = this.fb.group({
       username: ['', [Validators.required, Validators.minLength(3)]],
-      password: ['', [Validators.required, Validators.minLength(6)]]
+      password: ['', [Validators.required, Validators.minLength(6)]],
+      // Keeps the session after the browser is closed (see SessionStoreService)
+      rememberMe: [false]
+    });
+
+    // Accepts a 6-digit authenticator code or a recovery code
+    this.codeForm = this.fb.group({
+      code: ['', [Validators.required, Validators.minLength(6)]]
     });
   }
 
@@ -87,31 +118,135 @@ export class LoginComponent implements OnInit, OnDestroy {
       return;
     }
 
+    if (this.isBlocked()) {
+      return;
+    }
+
     this.loading = true;
     this.errorMessage = '';
 
-    const credentials = this.loginForm.value;
+    const { rememberMe, ...credentials } = this.loginForm.value;
 
-    this.authService.login(credentials)
+    this.authService.login(credentials, rememberMe)
       .pipe(takeUntil(this.destroy$))
       .subscribe({
-        next: (response) => {
+        next: (result) => {
           this.loading = false;
-          console.log('Login successful', response);
+
+          if (this.authService.isTwoFactorChallenge(result)) {
+            this.challenge = result;
+            this.codeForm.reset();
+            return;
+          }
+
+          console.log('Login successful', result);
           
           // Redirect based on return URL or user role
           this.redirectToAppropriateRoute();
         },
-        error: (error) => {
+        error: (error) => this.handleLoginError(error, credentials.username)
+      });
+  }
+
+  /**
+   * Submits the two-factor code of the second login step
+   */
+  onSubmitCode(): void {
+    if (!this.challenge) {
+      return;
+    }
+
+    if (this.codeForm.invalid) {
+      this.markFormGroupTouched(this.codeForm);
+      return;
+    }
+
+    if (this.isBlocked()) {
+      return;
+    }
+
+    this.loading = true;
+    this.errorMessage = '';
+
+    this.authService.verifyTwoFactor(this.challenge, this.codeForm.value.code.trim(), this.loginForm.value.rememberMe)
+      .pipe(takeUntil(this.destroy$))
+      .subscribe({
+        next: () => {
           this.loading = false;
-          this.errorMessage = error.message || 'Login failed. Please try again.';
-          console.error('Login error:', error);
+          this.challenge = null;
+          this.redirectToAppropriateRoute();
+        },
+        error: (error) => {
+          // An expired challenge or a lockout needs a new sign-in
+          if (error instanceof ApiError && (error.details?.['code'] === 'challenge-expired' || error.status === 423)) {
+            this.challenge = null;
+          }
+          this.handleLoginError(error, this.loginForm.value.username);
+        }
+      });
+  }
+
+  /**
+   * Leaves the two-factor step and returns to the password form
+   */
+  cancelChallenge(): void {
+    this.challenge = null;
+    this.errorMessage = '';
+  }
+
+  /**
+   * Shows the error of a failed login step
+   */
+  private handleLoginError(error: Error, username: string): void {
+    this.loading = false;
+    console.error('Login error:', error);
+
+    // Locked (423) and throttled (429) attempts show a countdown instead
+    if (error instanceof ApiError && (error.status === 423 || error.status === 429)) {
+      this.startRetryCountdown(
+        error.status === 423 ? 'locked' : 'throttled',
+        username,
+        Number(error.details?.['retryAfter']) || 1
+      );
+      return;
+    }
+
+    this.errorMessage = error.message || 'Login failed. Please try again.';
+  }
+
+  /**
+   * Checks whether the username in the form is currently throttled or locked
+   */
+  isBlocked(): boolean {
+    return !!this.retryBlock && this.retryBlock.username === this.loginForm.get('username')?.value;
+  }
+
+  /**
+   * Counts down until the server accepts attempts for the username again
+   */
+  private startRetryCountdown(kind: 'locked' | 'throttled', username: string, retryAfterSeconds: number): void {
+    this.errorMessage = '';
+    this.retryBlock = { kind, username, until: Date.now() + retryAfterSeconds * 1000 };
+
+    this.retryTimer?.unsubscribe();
+    this.retryTimer = interval(1000)
+      .pipe(startWith(0), takeUntil(this.destroy$))
+      .subscribe(() => {
+        const remaining = Math.ceil(((this.retryBlock?.until ?? 0) - Date.now()) / 1000);
+        if (remaining <= 0) {
+          this.retryBlock = null;
+          this.retryTimer?.unsubscribe();
+          return;
         }
+
+        const minutes = Math.floor(remaining / 60);
+        const seconds = remaining % 60;
+        this.retryCountdown = `${minutes}:${seconds.toString().padStart(2, '0')}`;
       });
   }
 
   /**
-   * Redirects user to appropriate route based on role and return URL
+   * Redirects user to appropriate route based on permissions and return URL
    */
   private redirectToAppropriateRoute(): void {
     const returnUrl = this.route.snapshot.queryParams['returnUrl'];
@@ -119,10 +254,10 @@ export class LoginComponent implements OnInit, OnDestroy {
 
     if (returnUrl) {
       this.router.navigateByUrl(returnUrl);
-    } else if (currentUser?.role === 'admin') {
-      this.router.navigate(['/admin']);
     } else {
-      this.router.navigate(['/user']);
+      this.permissionService.getLandingRoute(currentUser)
+        .pipe(take(1))
+        .subscribe(route => this.router.navigate([route]));
     }
   }
 
@@ -152,6 +287,23 @@ export class LoginComponent implements OnInit, OnDestroy {
     return '';
   }
 
+  /**
+   * Redirects to the identity provider; the session is created on /auth/callback
+   */
+  loginWithSso(): void {
+    this.ssoLoading = true;
+    this.errorMessage = '';
+
+    this.oidcService.beginLogin(this.route.snapshot.queryParams['returnUrl'] ?? null, this.loginForm.value.rememberMe)
+      .pipe(takeUntil(this.destroy$))
+      .subscribe({
+        error: (error) => {
+          this.ssoLoading = false;
+          this.errorMessage = error.message || 'Single sign-on is unavailable. Please try again.';
+        }
+      });
+  }
+
   /**
    * Quick login with demo credentials
    */
@@ -0,0 +1,69 @@
+import { Component, OnInit, OnDestroy } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ActivatedRoute, Router, RouterModule } from '@angular/router';
+import { Subject } from 'rxjs';
+import { switchMap, take, takeUntil } from 'rxjs/operators';
+
+// PrimeNG Imports
+import { CardModule } from 'primeng/card';
+import { MessageModule } from 'primeng/message';
+import { ProgressSpinnerModule } from 'primeng/progressspinner';
+import { TranslateModule } from '@ngx-translate/core';
+
+import { OidcService } from '../../../core/oidc.service';
+import { PermissionService } from '../../../core/permission.service';
+
+/**
+ * OIDC Callback Component
+ * Landing route of the identity provider redirect (/auth/callback); finishes
+ * the single sign-on and opens the user's landing page.
+ */
+@Component({
+  selector: 'app-oidc-callback',
+  standalone: true,
+  imports: [
+    CommonModule,
+    RouterModule,
+    CardModule,
+    MessageModule,
+    ProgressSpinnerModule,
+    TranslateModule
+  ],
+  templateUrl: './oidc-callback.component.html',
+  styleUrl: './oidc-callback.component.scss'
+})
+export class OidcCallbackComponent implements OnInit, OnDestroy {
+  errorMessage = '';
+
+  private destroy$ = new Subject<void>();
+
+  constructor(
+    private oidcService: OidcService,
+    private permissionService: PermissionService,
+    private route: ActivatedRoute,
+    private router: Router
+  ) {}
+
+  ngOnInit(): void {
+    this.oidcService.completeLogin(this.route.snapshot.queryParams)
+      .pipe(
+        switchMap(({ response, returnUrl }) => returnUrl
+          ? [returnUrl]
+          : this.permissionService.getLandingRoute(response.user).pipe(take(1))),
+        takeUntil(this.destroy$)
+      )
+      .subscribe({
+        // Replace the callback URL so the code is not kept in the history
+        next: url => this.router.navigateByUrl(url, { replaceUrl: true }),
+        error: (error) => {
+          console.error('SSO error:', error);
+          this.errorMessage = error.message || 'Single sign-on failed. Please try again.';
+        }
+      });
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+}
@@ -0,0 +1,104 @@
+import { Component, OnDestroy } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormBuilder, FormGroup, Validators, ReactiveFormsModule } from '@angular/forms';
+import { ActivatedRoute, RouterModule } from '@angular/router';
+import { Subject } from 'rxjs';
+import { takeUntil } from 'rxjs/operators';
+
+// PrimeNG Imports
+import { CardModule } from 'primeng/card';
+import { PasswordModule } from 'primeng/password';
+import { ButtonModule } from 'primeng/button';
+import { MessageModule } from 'primeng/message';
+import { TranslateModule } from '@ngx-translate/core';
+
+import { AuthService } from '../../../core/auth.service';
+import { passwordsMatch } from '../../../shared/validators/passwords-match.validator';
+
+/**
+ * Reset Password Component
+ * Sets a new password with the token of a mailed reset link (/reset-password/:token)
+ */
+@Component({
+  selector: 'app-reset-password',
+  standalone: true,
+  imports: [
+    CommonModule,
+    ReactiveFormsModule,
+    RouterModule,
+    CardModule,
+    PasswordModule,
+    ButtonModule,
+    MessageModule,
+    TranslateModule
+  ],
+  templateUrl: './reset-password.component.html',
+  styleUrl: './reset-password.component.scss'
+})
+export class ResetPasswordComponent implements OnDestroy {
+  resetForm: FormGroup;
+  loading = false;
+  done = false;
+  errorMessage = '';
+
+  private readonly token: string;
+  private destroy$ = new Subject<void>();
+
+  constructor(
+    private fb: FormBuilder,
+    private authService: AuthService,
+    route: ActivatedRoute
+  ) {
+    this.token = route.snapshot.paramMap.get('token') ?? '';
+    this.resetForm = this.fb.group({
+      newPassword: ['', [Validators.required, Validators.minLength(6)]],
+      confirmPassword: ['', Validators.required]
+    }, { validators: passwordsMatch('newPassword', 'confirmPassword') });
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  /**
+   * Submits the new password
+   */
+  onSubmit(): void {
+    if (this.resetForm.invalid) {
+      this.resetForm.markAllAsTouched();
+      return;
+    }
+
+    this.loading = true;
+    this.errorMessage = '';
+
+    this.authService.resetPassword(this.token, this.resetForm.value.newPassword)
+      .pipe(takeUntil(this.destroy$))
+      .subscribe({
+        next: () => {
+          this.loading = false;
+          this.done = true;
+        },
+        error: (error) => {
+          this.loading = false;
+          this.errorMessage = error.message || 'The password could not be reset. Please try again.';
+        }
+      });
+  }
+
+  /**
+   * Checks if a form field has an error and is touched
+   */
+  hasFieldError(fieldName: string): boolean {
+    const field = this.resetForm.get(fieldName);
+    return !!(field && field.invalid && field.touched);
+  }
+
+  /**
+   * Checks whether the confirmation differs from the new password
+   */
+  hasMismatch(): boolean {
+    return this.resetForm.hasError('passwordMismatch') && !!this.resetForm.get('confirmPassword')?.touched;
+  }
+}
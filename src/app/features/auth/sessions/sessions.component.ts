@@ -0,0 +1,128 @@
+import { Component, OnInit, OnDestroy } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { Subject, forkJoin } from 'rxjs';
+import { finalize, takeUntil } from 'rxjs/operators';
+
+// PrimeNG Imports
+import { CardModule } from 'primeng/card';
+import { TableModule } from 'primeng/table';
+import { TagModule } from 'primeng/tag';
+import { ButtonModule } from 'primeng/button';
+import { MessageModule } from 'primeng/message';
+import { TooltipModule } from 'primeng/tooltip';
+import { TranslateModule } from '@ngx-translate/core';
+
+import { AuthService } from '../../../core/auth.service';
+import { SessionService } from '../../../core/session.service';
+import { LoginHistoryEntry, UserSession } from '../../../core/user.model';
+import { HeaderComponent } from '../../../shared/header/header.component';
+
+/**
+ * Sessions Component
+ * Lists where the signed-in user is signed in and their recent sign-in
+ * attempts, and signs other devices out
+ */
+@Component({
+  selector: 'app-sessions',
+  standalone: true,
+  imports: [
+    CommonModule,
+    CardModule,
+    TableModule,
+    TagModule,
+    ButtonModule,
+    MessageModule,
+    TooltipModule,
+    TranslateModule,
+    HeaderComponent
+  ],
+  templateUrl: './sessions.component.html',
+  styleUrl: './sessions.component.scss'
+})
+export class SessionsComponent implements OnInit, OnDestroy {
+  sessions: UserSession[] = [];
+  history: LoginHistoryEntry[] = [];
+  loading = false;
+  errorMessage = '';
+  // Session being revoked, or 'others' while revoking every other session
+  revoking: string | null = null;
+
+  private destroy$ = new Subject<void>();
+
+  constructor(
+    public authService: AuthService,
+    private sessionService: SessionService
+  ) {}
+
+  ngOnInit(): void {
+    // The token in use belongs to the impersonator, not to the displayed user
+    if (!this.authService.isImpersonating()) {
+      this.loadSessions();
+    }
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  /**
+   * Loads the active sessions and the login history
+   */
+  loadSessions(): void {
+    this.loading = true;
+    this.errorMessage = '';
+
+    forkJoin([this.sessionService.getMySessions(), this.sessionService.getMyLoginHistory()])
+      .pipe(
+        finalize(() => this.loading = false),
+        takeUntil(this.destroy$)
+      )
+      .subscribe({
+        next: ([sessions, history]) => {
+          this.sessions = sessions;
+          this.history = history;
+        },
+        error: (error) => this.errorMessage = error.message
+      });
+  }
+
+  /**
+   * Signs another device out
+   */
+  revoke(session: UserSession): void {
+    this.revoking = session.id;
+    this.sessionService.revokeMySession(session.id)
+      .pipe(
+        finalize(() => this.revoking = null),
+        takeUntil(this.destroy$)
+      )
+      .subscribe({
+        next: () => this.sessions = this.sessions.filter(s => s.id !== session.id),
+        error: (error) => this.errorMessage = error.message
+      });
+  }
+
+  /**
+   * Signs out every device except this one
+   */
+  revokeOthers(): void {
+    this.revoking = 'others';
+    this.sessionService.revokeOtherSessions()
+      .pipe(
+        finalize(() => this.revoking = null),
+        takeUntil(this.destroy$)
+      )
+      .subscribe({
+        next: () => this.sessions = this.sessions.filter(s => s.current),
+        error: (error) => this.errorMessage = error.message
+      });
+  }
+
+  /**
+   * Whether any session other than the current one is active
+   */
+  hasOtherSessions(): boolean {
+    return this.sessions.some(session => !session.current);
+  }
+}
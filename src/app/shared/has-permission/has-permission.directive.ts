@@ -0,0 +1,58 @@
+import { Directive, Input, OnDestroy, OnInit, TemplateRef, ViewContainerRef } from '@angular/core';
+import { BehaviorSubject, Subject, combineLatest } from 'rxjs';
+import { distinctUntilChanged, switchMap, takeUntil } from 'rxjs/operators';
+
+import { AuthService } from '../../core/auth.service';
+import { PermissionService } from '../../core/permission.service';
+import { Permission } from '../../core/user.model';
+
+/**
+ * Renders its template only when the current user has all of the given permissions
+ *
+ * Usage: <p-button *appHasPermission="'users.delete'" ...></p-button>
+ */
+@Directive({
+  selector: '[appHasPermission]',
+  standalone: true
+})
+export class HasPermissionDirective implements OnInit, OnDestroy {
+  @Input({ required: true }) set appHasPermission(permissions: Permission | Permission[]) {
+    this.required$.next(Array.isArray(permissions) ? permissions : [permissions]);
+  }
+
+  private required$ = new BehaviorSubject<Permission[]>([]);
+  private destroy$ = new Subject<void>();
+  private hasView = false;
+
+  constructor(
+    private templateRef: TemplateRef<unknown>,
+    private viewContainer: ViewContainerRef,
+    private authService: AuthService,
+    private permissionService: PermissionService
+  ) {}
+
+  ngOnInit(): void {
+    combineLatest([this.authService.getAuthState(), this.required$])
+      .pipe(
+        switchMap(([authState, required]) => this.permissionService.hasPermission(authState.user, required)),
+        distinctUntilChanged(),
+        takeUntil(this.destroy$)
+      )
+      .subscribe(allowed => this.render(allowed));
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  private render(allowed: boolean): void {
+    if (allowed && !this.hasView) {
+      this.viewContainer.createEmbeddedView(this.templateRef);
+      this.hasView = true;
+    } else if (!allowed && this.hasView) {
+      this.viewContainer.clear();
+      this.hasView = false;
+    }
+  }
+}
@@ -1,8 +1,8 @@
 import { Component, OnInit, OnDestroy } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { Router, RouterModule } from '@angular/router';
-import { Subject } from 'rxjs';
-import { takeUntil } from 'rxjs/operators';
+import { Subject, combineLatest } from 'rxjs';
+import { take, takeUntil } from 'rxjs/operators';
 
 // PrimeNG Imports
 import { ToolbarModule } from 'primeng/toolbar';
@@ -11,10 +11,14 @@ import { AvatarModule } from 'primeng/avatar';
 import { MenuModule } from 'primeng/menu';
 import { MenuItem } from 'primeng/api';
 import { BadgeModule } from 'primeng/badge';
+import { OverlayPanelModule } from 'primeng/overlaypanel';
 
 import { AuthService } from '../../core/auth.service';
-import { User } from '../../core/user.model';
+import { PermissionService } from '../../core/permission.service';
+import { SyncStatusService } from '../../core/sync-status.service';
+import { ImpersonationSession, SyncStatus, User } from '../../core/user.model';
 import { TranslateModule } from '@ngx-translate/core';
+import { TwoFactorSetupComponent } from '../two-factor-setup/two-factor-setup.component';
 
 @Component({
   selector: 'app-header',
@@ -27,7 +31,9 @@ import { TranslateModule } from '@ngx-translate/core';
     AvatarModule,
     MenuModule,
     BadgeModule,
-    TranslateModule
+    OverlayPanelModule,
+    TranslateModule,
+    TwoFactorSetupComponent
   ],
   templateUrl: './header.component.html',
   styleUrl: './header.component.scss'
@@ -36,12 +42,21 @@ export class HeaderComponent implements OnInit, OnDestroy {
   currentUser: User | null = null;
   isImpersonating = false;
   originalUser: User | null = null;
+  impersonation: ImpersonationSession | null = null;
   userMenuItems: MenuItem[] = [];
+  showTwoFactorSetup = false;
+  // Translation key for the built-in roles, the role name for custom ones
+  roleLabel = '';
+  syncStatus: SyncStatus = { online: true, syncing: false, pending: 0, conflicts: [] };
   
+  // Built-in roles that have translations under 'role.*'
+  private readonly TRANSLATED_ROLES = ['admin', 'user'];
   private destroy$ = new Subject<void>();
 
   constructor(
     public authService: AuthService,
+    private permissionService: PermissionService,
+    private syncStatusService: SyncStatusService,
     private router: Router
   ) {}
 
@@ -53,8 +68,22 @@ export class HeaderComponent implements OnInit, OnDestroy {
         this.currentUser = authState.user;
         this.isImpersonating = authState.isImpersonating;
         this.originalUser = authState.originalUser;
+        this.impersonation = authState.impersonation;
         this.setupUserMenu();
       });
+
+    combineLatest([this.authService.getAuthState(), this.permissionService.getRoles()])
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(([authState, roles]) => {
+        const role = authState.user?.role ?? '';
+        this.roleLabel = this.TRANSLATED_ROLES.includes(role)
+          ? `role.${role}`
+          : roles.find(r => r.id === role)?.name ?? role;
+      });
+
+    this.syncStatusService.getSyncStatus()
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(status => this.syncStatus = status);
   }
 
   ngOnDestroy(): void {
@@ -72,6 +101,24 @@ export class HeaderComponent implements OnInit, OnDestroy {
         icon: 'pi pi-user',
         command: () => this.goToProfile()
       },
+      {
+        label: 'Change Password',
+        icon: 'pi pi-key',
+        disabled: this.isImpersonating,
+        command: () => this.router.navigate(['/change-password'])
+      },
+      {
+        label: 'Two-Factor Authentication',
+        icon: 'pi pi-shield',
+        disabled: this.isImpersonating,
+        command: () => this.showTwoFactorSetup = true
+      },
+      {
+        label: 'Sessions & Activity',
+        icon: 'pi pi-desktop',
+        disabled: this.isImpersonating,
+        command: () => this.router.navigate(['/sessions'])
+      },
       {
         separator: true
       },
@@ -87,11 +134,9 @@ export class HeaderComponent implements OnInit, OnDestroy {
    * Navigates to user profile
    */
   goToProfile(): void {
-    if (this.currentUser?.role === 'admin') {
-      this.router.navigate(['/admin']);
-    } else {
-      this.router.navigate(['/user']);
-    }
+    this.permissionService.getLandingRoute(this.currentUser)
+      .pipe(take(1))
+      .subscribe(route => this.router.navigate([route]));
   }
 
   /**
@@ -109,6 +154,26 @@ export class HeaderComponent implements OnInit, OnDestroy {
     this.router.navigate(['/admin']);
   }
 
+  /**
+   * Translation key of the sync status, or null while online and in sync
+   */
+  get syncLabel(): string | null {
+    if (this.syncStatus.syncing) {
+      return 'sync.syncing';
+    }
+    if (!this.syncStatus.online) {
+      return 'sync.offline';
+    }
+    return this.syncStatus.pending > 0 ? 'sync.waiting' : null;
+  }
+
+  /**
+   * Clears the sync conflicts once they were read
+   */
+  dismissConflicts(): void {
+    this.syncStatusService.dismissConflicts();
+  }
+
   /**
    * Gets user initials for avatar
    */
@@ -0,0 +1,46 @@
+import { ChangeDetectionStrategy, Component, Input, OnChanges } from '@angular/core';
+import { CommonModule } from '@angular/common';
+
+/**
+ * Highlight Component
+ * Text with the given [start, end) ranges marked, e.g. search matches.
+ * Ranges outside the text are ignored.
+ */
+@Component({
+  selector: 'app-highlight',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './highlight.component.html',
+  styleUrl: './highlight.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class HighlightComponent implements OnChanges {
+  @Input() text: string | null | undefined = '';
+  @Input() ranges: [number, number][] | null | undefined = [];
+
+  parts: { text: string; match: boolean }[] = [];
+
+  ngOnChanges(): void {
+    const text = this.text ?? '';
+    const parts: { text: string; match: boolean }[] = [];
+    let position = 0;
+
+    for (const [start, end] of [...(this.ranges ?? [])].sort((a, b) => a[0] - b[0])) {
+      const from = Math.max(start, position);
+      const to = Math.min(end, text.length);
+      if (from >= to) {
+        continue;
+      }
+      if (from > position) {
+        parts.push({ text: text.slice(position, from), match: false });
+      }
+      parts.push({ text: text.slice(from, to), match: true });
+      position = to;
+    }
+    if (position < text.length) {
+      parts.push({ text: text.slice(position), match: false });
+    }
+
+    this.parts = parts;
+  }
+}
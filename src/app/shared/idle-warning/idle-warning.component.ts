@@ -0,0 +1,63 @@
+import { Component, OnInit, OnDestroy } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { Subject } from 'rxjs';
+import { takeUntil } from 'rxjs/operators';
+
+// PrimeNG Imports
+import { DialogModule } from 'primeng/dialog';
+import { ButtonModule } from 'primeng/button';
+import { TranslateModule } from '@ngx-translate/core';
+
+import { IdleService } from '../../core/idle.service';
+import { AuthService } from '../../core/auth.service';
+
+@Component({
+  selector: 'app-idle-warning',
+  standalone: true,
+  imports: [
+    CommonModule,
+    DialogModule,
+    ButtonModule,
+    TranslateModule
+  ],
+  templateUrl: './idle-warning.component.html',
+  styleUrl: './idle-warning.component.scss'
+})
+export class IdleWarningComponent implements OnInit, OnDestroy {
+  // Seconds left before the automatic logout, null while no warning is due
+  countdown: number | null = null;
+
+  private destroy$ = new Subject<void>();
+
+  constructor(
+    private idleService: IdleService,
+    private authService: AuthService
+  ) {}
+
+  ngOnInit(): void {
+    this.idleService.getCountdown()
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(countdown => {
+        this.countdown = countdown;
+      });
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  /**
+   * Keeps the session alive and dismisses the warning
+   */
+  staySignedIn(): void {
+    this.idleService.keepAlive();
+  }
+
+  /**
+   * Logs out right away
+   */
+  logout(): void {
+    this.authService.logout();
+  }
+}
@@ -0,0 +1,191 @@
+import { Component, EventEmitter, Input, OnChanges, OnDestroy, Output, SimpleChanges } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { Subject, from } from 'rxjs';
+import { switchMap, takeUntil } from 'rxjs/operators';
+import { toDataURL } from 'qrcode';
+
+// PrimeNG Imports
+import { DialogModule } from 'primeng/dialog';
+import { ButtonModule } from 'primeng/button';
+import { InputTextModule } from 'primeng/inputtext';
+import { PasswordModule } from 'primeng/password';
+import { MessageModule } from 'primeng/message';
+import { TranslateModule } from '@ngx-translate/core';
+
+import { TwoFactorService } from '../../core/two-factor.service';
+import { TwoFactorSetup, TwoFactorStatus } from '../../core/user.model';
+
+/**
+ * Two-Factor Setup Component
+ * Dialog opened from the header's profile menu to enroll in TOTP 2FA
+ * (scan the QR code, confirm a code, keep the recovery codes) or turn it off.
+ */
+@Component({
+  selector: 'app-two-factor-setup',
+  standalone: true,
+  imports: [
+    CommonModule,
+    FormsModule,
+    DialogModule,
+    ButtonModule,
+    InputTextModule,
+    PasswordModule,
+    MessageModule,
+    TranslateModule
+  ],
+  templateUrl: './two-factor-setup.component.html',
+  styleUrl: './two-factor-setup.component.scss'
+})
+export class TwoFactorSetupComponent implements OnChanges, OnDestroy {
+  @Input() visible = false;
+  @Output() visibleChange = new EventEmitter<boolean>();
+
+  step: 'status' | 'scan' | 'recovery-codes' = 'status';
+  status: TwoFactorStatus | null = null;
+  setup: TwoFactorSetup | null = null;
+  qrCodeUrl = '';
+  recoveryCodes: string[] = [];
+  code = '';
+  password = '';
+  loading = false;
+  errorMessage = '';
+
+  private destroy$ = new Subject<void>();
+
+  constructor(private twoFactorService: TwoFactorService) {}
+
+  ngOnChanges(changes: SimpleChanges): void {
+    if (changes['visible'] && this.visible) {
+      this.reset();
+      this.loadStatus();
+    }
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  /**
+   * Creates a secret and shows it as a QR code
+   */
+  startSetup(): void {
+    this.loading = true;
+    this.errorMessage = '';
+
+    this.twoFactorService.setup()
+      .pipe(
+        switchMap(setup => {
+          this.setup = setup;
+          return from(toDataURL(setup.otpauthUrl, { width: 200, margin: 1 }));
+        }),
+        takeUntil(this.destroy$)
+      )
+      .subscribe({
+        next: qrCodeUrl => {
+          this.loading = false;
+          this.qrCodeUrl = qrCodeUrl;
+          this.step = 'scan';
+        },
+        error: error => this.showError(error)
+      });
+  }
+
+  /**
+   * Confirms the secret with a code from the authenticator app
+   */
+  enable(): void {
+    if (!/^\d{6}$/.test(this.code.trim())) {
+      return;
+    }
+
+    this.loading = true;
+    this.errorMessage = '';
+
+    this.twoFactorService.enable(this.code.trim())
+      .pipe(takeUntil(this.destroy$))
+      .subscribe({
+        next: recoveryCodes => {
+          this.loading = false;
+          this.recoveryCodes = recoveryCodes;
+          this.setup = null;
+          this.step = 'recovery-codes';
+        },
+        error: error => this.showError(error)
+      });
+  }
+
+  /**
+   * Turns 2FA off after checking the password
+   */
+  disable(): void {
+    if (!this.password) {
+      return;
+    }
+
+    this.loading = true;
+    this.errorMessage = '';
+
+    this.twoFactorService.disable(this.password)
+      .pipe(takeUntil(this.destroy$))
+      .subscribe({
+        next: () => {
+          this.loading = false;
+          this.password = '';
+          this.loadStatus();
+        },
+        error: error => this.showError(error)
+      });
+  }
+
+  /**
+   * Saves the recovery codes as a text file
+   */
+  downloadRecoveryCodes(): void {
+    const blob = new Blob([this.recoveryCodes.join('\n') + '\n'], { type: 'text/plain' });
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = 'widebot-recovery-codes.txt';
+    link.click();
+    URL.revokeObjectURL(link.href);
+  }
+
+  /**
+   * Closes the dialog
+   */
+  close(): void {
+    this.visible = false;
+    this.visibleChange.emit(false);
+    this.reset();
+  }
+
+  private loadStatus(): void {
+    this.loading = true;
+    this.twoFactorService.getStatus()
+      .pipe(takeUntil(this.destroy$))
+      .subscribe({
+        next: status => {
+          this.loading = false;
+          this.status = status;
+          this.step = 'status';
+        },
+        error: error => this.showError(error)
+      });
+  }
+
+  private showError(error: Error): void {
+    this.loading = false;
+    this.errorMessage = error.message || 'Something went wrong. Please try again.';
+  }
+
+  private reset(): void {
+    this.step = 'status';
+    this.setup = null;
+    this.qrCodeUrl = '';
+    this.recoveryCodes = [];
+    this.code = '';
+    this.password = '';
+    this.errorMessage = '';
+  }
+}
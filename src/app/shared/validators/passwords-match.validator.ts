@@ -0,0 +1,16 @@
+import { AbstractControl, ValidationErrors, ValidatorFn } from '@angular/forms';
+
+/**
+ * Form group validator that requires two password fields to be equal
+ * Sets `passwordMismatch` on the group when they differ.
+ *
+ * @param passwordField - Name of the new password control
+ * @param confirmField - Name of the confirmation control
+ */
+export function passwordsMatch(passwordField: string, confirmField: string): ValidatorFn {
+  return (group: AbstractControl): ValidationErrors | null => {
+    const password = group.get(passwordField)?.value;
+    const confirmation = group.get(confirmField)?.value;
+    return password && confirmation && password !== confirmation ? { passwordMismatch: true } : null;
+  };
+}
@@ -0,0 +1,41 @@
+import { ValidationErrors, ValidatorFn, Validators } from '@angular/forms';
+
+/**
+ * Validators of the user fields
+ * Shared by the user dialog and the import, so both accept the same values.
+ */
+export const USER_FIELD_VALIDATORS = {
+  name: [Validators.required, Validators.minLength(3)],
+  email: [Validators.required, Validators.email],
+  username: [Validators.required, Validators.minLength(3)],
+  role: [Validators.required],
+  status: [Validators.required],
+  department: [Validators.required],
+  phone: [Validators.pattern(/^[\d\s\-+()]+$/)],
+  bio: [Validators.maxLength(500)]
+} satisfies Record<string, ValidatorFn[]>;
+
+/**
+ * Message of the first error of a user field
+ *
+ * @param errors - Errors of the field's control
+ */
+export function describeFieldError(errors: ValidationErrors): string {
+  if (errors['required']) {
+    return 'This field is required';
+  }
+  if (errors['email']) {
+    return 'Invalid email address';
+  }
+  if (errors['minlength']) {
+    return `Minimum length is ${errors['minlength'].requiredLength}`;
+  }
+  if (errors['maxlength']) {
+    return `Maximum length is ${errors['maxlength'].requiredLength}`;
+  }
+  if (errors['pattern']) {
+    return 'Invalid format';
+  }
+
+  return 'Invalid value';
+}